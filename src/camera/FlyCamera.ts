@@ -1,10 +1,17 @@
 import { mat4, vec3 } from 'gl-matrix';
 import { Config } from '../config/Config';
 
+export type BuildAction = 'break' | 'place';
+
 export class FlyCamera {
   position: vec3;
   yaw = -Math.PI / 2;
   pitch = -0.3;
+  /** Crosshair pick mode (F): the block under the screen center is picked each frame */
+  pickMode = false;
+  /** Called on left (break) / right (place) clicks while build mode holds the pointer lock */
+  onBuildAction: ((action: BuildAction) => void) | null = null;
+  private buildMode = false;
 
   private keys = new Set<string>();
   private rightMouseDown = false;
@@ -29,25 +36,38 @@ export class FlyCamera {
 
     this.onKeyDown = (e: KeyboardEvent) => {
       this.keys.add(e.code);
+      if (e.code === 'KeyF' && !e.repeat && !(e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement || e.target instanceof HTMLTextAreaElement)) {
+        this.pickMode = !this.pickMode;
+      }
     };
     this.onKeyUp = (e: KeyboardEvent) => {
       this.keys.delete(e.code);
     };
     this.onMouseDown = (e: MouseEvent) => {
+      if (this.buildMode) {
+        // Build mode: first click captures the mouse, then left breaks / right places
+        if (document.pointerLockElement !== canvas) {
+          canvas.requestPointerLock();
+        } else if (e.button === 0 || e.button === 2) {
+          this.onBuildAction?.(e.button === 0 ? 'break' : 'place');
+        }
+        return;
+      }
       if (e.button === 2) {
         this.rightMouseDown = true;
         canvas.requestPointerLock();
       }
     };
     this.onMouseUp = (e: MouseEvent) => {
-      if (e.button === 2) {
+      if (e.button === 2 && this.rightMouseDown) {
         this.rightMouseDown = false;
         document.exitPointerLock();
       }
     };
     this.onContextMenu = (e: Event) => e.preventDefault();
     this.onMouseMove = (e: MouseEvent) => {
-      if (!this.rightMouseDown) return;
+      const looking = this.rightMouseDown || (this.buildMode && document.pointerLockElement === canvas);
+      if (!looking) return;
       this.yaw += e.movementX * Config.data.camera.mouseSensitivity;
       this.pitch -= e.movementY * Config.data.camera.mouseSensitivity;
       this.pitch = Math.max(-Math.PI / 2 + 0.01, Math.min(Math.PI / 2 - 0.01, this.pitch));
@@ -69,6 +89,16 @@ export class FlyCamera {
     canvas.addEventListener('wheel', this.onWheel, { passive: false });
   }
 
+  /**
+   * Build mode swaps the bindings: a click captures the mouse (mouselook without holding a button)
+   * so both buttons are free for editing. Leaving build mode releases the lock.
+   */
+  setBuildMode(enabled: boolean): void {
+    this.buildMode = enabled;
+    this.rightMouseDown = false;
+    if (!enabled && document.pointerLockElement === this.canvas) document.exitPointerLock();
+  }
+
   destroy(): void {
     document.removeEventListener('keydown', this.onKeyDown);
     document.removeEventListener('keyup', this.onKeyUp);
@@ -80,13 +110,19 @@ export class FlyCamera {
     this.keys.clear();
   }
 
-  update(dt: number): void {
-    const forward = vec3.fromValues(
+  /** Unit view direction (the crosshair ray) */
+  getForward(out: vec3 = vec3.create()): vec3 {
+    vec3.set(
+      out,
       Math.cos(this.pitch) * Math.cos(this.yaw),
       Math.sin(this.pitch),
       Math.cos(this.pitch) * Math.sin(this.yaw),
     );
-    vec3.normalize(forward, forward);
+    return vec3.normalize(out, out);
+  }
+
+  update(dt: number): void {
+    const forward = this.getForward();
 
     const right = vec3.create();
     vec3.cross(right, forward, [0, 1, 0]);
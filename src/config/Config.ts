@@ -1,5 +1,8 @@
 // Central Config Manager — reactive singleton with pub/sub + dirty tracking
 
+import { getBlockTypeByName } from '../terrain/BlockTypes';
+import { MAX_RENDER_DISTANCE } from '../constants';
+
 export interface TerrainNoiseConfig {
   octaves: number;
   persistence: number;
@@ -20,6 +23,7 @@ export interface TerrainBiomesConfig {
   continentalnessScale: number;
   heightVariationScale: number;
   oceanThreshold: number;
+  blendWidth: number;     // climate-space kernel width for blending biome heights
 }
 
 export interface WaterTableConfig {
@@ -28,7 +32,37 @@ export interface WaterTableConfig {
   noiseScale: number;
 }
 
+// Large caverns where 3D noise rises above a threshold
+export interface CheeseCavesConfig {
+  enabled: boolean;
+  minY: number;
+  maxY: number;
+  scale: number;          // horizontal noise scale (blocks)
+  verticalScale: number;  // vertical noise scale (blocks); smaller = flatter caverns
+  threshold: number;      // noise cutoff; lower = larger, more connected caverns
+}
+
+// Tunnels along the intersection of two noise fields' midlines (spaghetti, noodles)
+export interface TunnelCavesConfig {
+  enabled: boolean;
+  minY: number;
+  maxY: number;
+  scale: number;      // noise scale (blocks); smaller = twistier tunnels
+  thickness: number;  // tunnel radius in noise units
+  coverage: number;   // rough share of the world the tunnel network spans
+}
+
+// Underground pockets holding their own water level (see WaterSimulator.fillCaveWater)
+export interface AquifersConfig {
+  enabled: boolean;
+  cellSize: number;  // blocks between pocket centers
+  chance: number;    // chance a cell holds a pocket
+  minY: number;      // range of pocket water levels
+  maxY: number;
+}
+
 export interface TerrainCavesConfig {
+  // Perlin worms
   count: number;
   minLength: number;
   maxLength: number;
@@ -36,17 +70,42 @@ export interface TerrainCavesConfig {
   maxRadius: number;
   minY: number;
   maxY: number;
+  cheese: CheeseCavesConfig;
+  spaghetti: TunnelCavesConfig;
+  noodle: TunnelCavesConfig;
   waterTable: WaterTableConfig;
+  aquifers: AquifersConfig;
+}
+
+/** 'vein' = random walk, 'blob' = filled ellipsoid */
+export type OreShape = 'vein' | 'blob';
+/** Height distribution of attempts between minY and maxY */
+export type OreDistribution = 'uniform' | 'triangle' | 'trapezoid';
+
+// Large clusters where 3D noise rises above a threshold, independent of attempts
+export interface OreClusterConfig {
+  enabled: boolean;
+  scale: number;      // 3D noise scale (blocks)
+  threshold: number;  // noise cutoff; higher = rarer, smaller clusters
+  density: number;    // share of blocks inside a cluster turned to ore
 }
 
 export interface OreConfig {
+  block: string;       // block display name (see getBlockTypeByName)
+  replaces: string[];  // block names the ore may replace
+  shape: OreShape;
+  distribution: OreDistribution;
   minY: number;
   maxY: number;
+  plateau: number;     // trapezoid only: width of the flat top (blocks), centered in [minY, maxY]
   attempts: number;
-  veinSize: number;
+  veinSize: number;    // blocks per vein / blob
+  cluster: OreClusterConfig;
 }
 
+// Every entry is generated and validated; adding an ore only needs a default (or a snapshot entry)
 export interface TerrainOresConfig {
+  [name: string]: OreConfig;
   coal: OreConfig;
   iron: OreConfig;
   gold: OreConfig;
@@ -60,13 +119,70 @@ export interface TerrainTreesConfig {
   leafDecayChance: number;
 }
 
+/** Spline control point: [noise input 0..1, output], inputs strictly ascending */
+export type SplinePoint = [number, number];
+
+// Noise channels mapped through monotone cubic splines (see noise/Spline.ts)
+export interface TerrainShapeConfig {
+  continentalness: SplinePoint[];  // → base height (blocks)
+  erosion: SplinePoint[];          // → relief multiplier (high erosion flattens terrain)
+  peaksValleys: SplinePoint[];     // → height offset (blocks)
+  erosionScale: number;
+}
+
+export interface TerrainIslandsConfig {
+  enabled: boolean;
+  minY: number;
+  maxY: number;
+  threshold: number;   // island noise cutoff; higher = fewer, smaller islands
+  scale: number;
+}
+
+export interface TerrainDensityConfig {
+  enabled: boolean;       // false = pure heightmap terrain
+  scale: number;          // horizontal 3D noise scale (blocks)
+  verticalScale: number;  // vertical 3D noise scale (blocks); smaller = more overhangs
+  amplitude: number;      // 3D noise strength
+  squash: number;         // density gradient per block toward the heightmap surface
+  islands: TerrainIslandsConfig;
+}
+
+export interface TerrainRiversConfig {
+  enabled: boolean;
+  scale: number;
+  // Widths are in ridged-noise units (distance from the river's center line)
+  width: number;           // channel carved below sea level
+  bankWidth: number;       // sloped bank rising just above the water
+  valleyWidth: number;     // ramp from the banks back up to the surrounding terrain
+  depth: number;           // channel depth below sea level at its center (blocks)
+  bankVegetation: number;  // vegetation chance added along the banks
+}
+
+export interface TerrainVillagesConfig {
+  enabled: boolean;
+  spacing: number;        // region grid cell size (blocks); at most one village per cell
+  chance: number;         // chance a cell holds a village (before biome checks)
+  minBuildings: number;
+  maxBuildings: number;
+}
+
+export interface TerrainFeaturesConfig {
+  // Chunks around a feature's source chunk it may reach into (caves, ore veins, trees)
+  neighborRadius: number;
+}
+
 export interface TerrainConfig {
   noise: TerrainNoiseConfig;
   height: TerrainHeightConfig;
   biomes: TerrainBiomesConfig;
+  shape: TerrainShapeConfig;
+  density: TerrainDensityConfig;
   caves: TerrainCavesConfig;
   ores: TerrainOresConfig;
   trees: TerrainTreesConfig;
+  rivers: TerrainRiversConfig;
+  villages: TerrainVillagesConfig;
+  features: TerrainFeaturesConfig;
 }
 
 export interface RenderingGeneralConfig {
@@ -131,7 +247,12 @@ export interface RenderingDoFConfig {
 
 export interface RenderingLODConfig {
   enabled: boolean;
-  renderDistance: number;
+  // Ring width in chunks for 2×, 4×, 8× LOD, stacked outward from the render distance (0 = skip level)
+  ringDistances: [number, number, number];
+}
+
+export interface RenderingOcclusionConfig {
+  enabled: boolean;
 }
 
 export interface RenderingConfig {
@@ -146,6 +267,7 @@ export interface RenderingConfig {
   motionBlur: RenderingMotionBlurConfig;
   dof: RenderingDoFConfig;
   lod: RenderingLODConfig;
+  occlusion: RenderingOcclusionConfig;
 }
 
 export interface CameraConfig {
@@ -174,10 +296,20 @@ export interface SkyConfig {
   nebulaIntensity: number;    // [0, 2], default 1.0
 }
 
+export interface FluidConfig {
+  enabled: boolean;           // default true
+  tickMs: number;             // [50, 2000] default 250, time between fluid ticks
+  budgetMs: number;           // [0.25, 16] default 2, per-frame time for cell updates
+  waterFlowDistance: number;  // [1, 7] default 7
+  lavaFlowDistance: number;   // [1, 7] default 3
+  lavaSlowdown: number;       // [1, 10] default 4, ticks between lava updates
+}
+
 export interface EnvironmentConfig {
   dayDurationSeconds: number;
   sky: SkyConfig;
   cloud: CloudConfig;
+  fluids: FluidConfig;
 }
 
 export interface AppConfig {
@@ -200,6 +332,27 @@ interface NumberRule {
   max: number;
 }
 
+// Rules shared by every terrain.ores entry, keyed by the path below the entry name
+const ORE_PATH = /^terrain\.ores\.([^.]+)\.(.+)$/;
+// Shape of entries missing from the defaults (e.g. added by a world bundle)
+const ORE_TEMPLATE = 'coal';
+
+const ORE_RULES: Record<string, NumberRule> = {
+  'minY':              { min: 0, max: 255 },
+  'maxY':              { min: 0, max: 255 },
+  'plateau':           { min: 0, max: 255 },
+  'attempts':          { min: 0, max: 50 },
+  'veinSize':          { min: 1, max: 20 },
+  'cluster.scale':     { min: 4, max: 200 },
+  'cluster.threshold': { min: 0, max: 1 },
+  'cluster.density':   { min: 0, max: 1 },
+};
+
+const ORE_OPTION_RULES: Record<string, readonly string[]> = {
+  'shape': ['vein', 'blob'],
+  'distribution': ['uniform', 'triangle', 'trapezoid'],
+};
+
 // Flat map of config path → allowed numeric range
 const VALIDATION_RULES: Record<string, NumberRule> = {
   // Camera
@@ -210,7 +363,7 @@ const VALIDATION_RULES: Record<string, NumberRule> = {
   'camera.near':             { min: 0.01, max: 10 },
   'camera.far':              { min: 10, max: 100000 },
   // Rendering - general
-  'rendering.general.renderDistance':  { min: 1, max: 32 },
+  'rendering.general.renderDistance':  { min: 1, max: MAX_RENDER_DISTANCE },
   'rendering.general.timeBudgetMs':   { min: 2, max: 32 },
   // Rendering - shadows
   'rendering.shadows.cascadeCount': { min: 1, max: 8 },
@@ -243,7 +396,9 @@ const VALIDATION_RULES: Record<string, NumberRule> = {
   'rendering.dof.aperture':         { min: 0.001, max: 1 },
   'rendering.dof.maxBlur':          { min: 0, max: 50 },
   // Rendering - LOD
-  'rendering.lod.renderDistance':   { min: 0, max: 32 },
+  'rendering.lod.ringDistances.0':  { min: 0, max: 32 },
+  'rendering.lod.ringDistances.1':  { min: 0, max: 32 },
+  'rendering.lod.ringDistances.2':  { min: 0, max: 64 },
   // Terrain - noise
   'terrain.noise.octaves':     { min: 1, max: 8 },
   'terrain.noise.persistence': { min: 0.01, max: 1 },
@@ -260,6 +415,18 @@ const VALIDATION_RULES: Record<string, NumberRule> = {
   'terrain.biomes.continentalnessScale': { min: 10, max: 2000 },
   'terrain.biomes.heightVariationScale': { min: 1, max: 200 },
   'terrain.biomes.oceanThreshold':       { min: 0, max: 1 },
+  'terrain.biomes.blendWidth':           { min: 0.02, max: 1 },
+  // Terrain - shape
+  'terrain.shape.erosionScale': { min: 10, max: 2000 },
+  // Terrain - density
+  'terrain.density.scale':         { min: 4, max: 500 },
+  'terrain.density.verticalScale': { min: 4, max: 500 },
+  'terrain.density.amplitude':     { min: 0, max: 2 },
+  'terrain.density.squash':        { min: 0.005, max: 1 },
+  'terrain.density.islands.minY':      { min: 0, max: 255 },
+  'terrain.density.islands.maxY':      { min: 0, max: 255 },
+  'terrain.density.islands.threshold': { min: 0, max: 1 },
+  'terrain.density.islands.scale':     { min: 4, max: 500 },
   // Terrain - caves
   'terrain.caves.count':     { min: 0, max: 50 },
   'terrain.caves.minLength': { min: 1, max: 500 },
@@ -271,28 +438,45 @@ const VALIDATION_RULES: Record<string, NumberRule> = {
   'terrain.caves.waterTable.baseLevel':  { min: 0, max: 60 },
   'terrain.caves.waterTable.amplitude':  { min: 0, max: 30 },
   'terrain.caves.waterTable.noiseScale': { min: 10, max: 300 },
-  // Terrain - ores
-  'terrain.ores.coal.minY':     { min: 0, max: 255 },
-  'terrain.ores.coal.maxY':     { min: 0, max: 255 },
-  'terrain.ores.coal.attempts': { min: 0, max: 50 },
-  'terrain.ores.coal.veinSize': { min: 1, max: 20 },
-  'terrain.ores.iron.minY':     { min: 0, max: 255 },
-  'terrain.ores.iron.maxY':     { min: 0, max: 255 },
-  'terrain.ores.iron.attempts': { min: 0, max: 50 },
-  'terrain.ores.iron.veinSize': { min: 1, max: 20 },
-  'terrain.ores.gold.minY':     { min: 0, max: 255 },
-  'terrain.ores.gold.maxY':     { min: 0, max: 255 },
-  'terrain.ores.gold.attempts': { min: 0, max: 50 },
-  'terrain.ores.gold.veinSize': { min: 1, max: 20 },
-  'terrain.ores.diamond.minY':     { min: 0, max: 255 },
-  'terrain.ores.diamond.maxY':     { min: 0, max: 255 },
-  'terrain.ores.diamond.attempts': { min: 0, max: 50 },
-  'terrain.ores.diamond.veinSize': { min: 1, max: 20 },
+  'terrain.caves.cheese.minY':          { min: 0, max: 255 },
+  'terrain.caves.cheese.maxY':          { min: 0, max: 255 },
+  'terrain.caves.cheese.scale':         { min: 8, max: 400 },
+  'terrain.caves.cheese.verticalScale': { min: 4, max: 200 },
+  'terrain.caves.cheese.threshold':     { min: 0, max: 1 },
+  'terrain.caves.spaghetti.minY':      { min: 0, max: 255 },
+  'terrain.caves.spaghetti.maxY':      { min: 0, max: 255 },
+  'terrain.caves.spaghetti.scale':     { min: 4, max: 400 },
+  'terrain.caves.spaghetti.thickness': { min: 0, max: 0.2 },
+  'terrain.caves.spaghetti.coverage':  { min: 0, max: 1 },
+  'terrain.caves.noodle.minY':      { min: 0, max: 255 },
+  'terrain.caves.noodle.maxY':      { min: 0, max: 255 },
+  'terrain.caves.noodle.scale':     { min: 4, max: 400 },
+  'terrain.caves.noodle.thickness': { min: 0, max: 0.2 },
+  'terrain.caves.noodle.coverage':  { min: 0, max: 1 },
+  'terrain.caves.aquifers.cellSize': { min: 8, max: 256 },
+  'terrain.caves.aquifers.chance':   { min: 0, max: 1 },
+  'terrain.caves.aquifers.minY':     { min: 0, max: 255 },
+  'terrain.caves.aquifers.maxY':     { min: 0, max: 255 },
+  // Terrain - ores (ORE_RULES, per entry)
   // Terrain - trees
   'terrain.trees.perChunk':       { min: 0, max: 20 },
   'terrain.trees.minTrunkHeight': { min: 1, max: 20 },
   'terrain.trees.maxTrunkHeight': { min: 1, max: 30 },
   'terrain.trees.leafDecayChance': { min: 0, max: 1 },
+  // Terrain - feature placement
+  'terrain.features.neighborRadius': { min: 0, max: 4 },
+  // Terrain - rivers
+  'terrain.rivers.scale':          { min: 50, max: 3000 },
+  'terrain.rivers.width':          { min: 0, max: 0.2 },
+  'terrain.rivers.bankWidth':      { min: 0, max: 0.2 },
+  'terrain.rivers.valleyWidth':    { min: 0.01, max: 0.5 },
+  'terrain.rivers.depth':          { min: 1, max: 20 },
+  'terrain.rivers.bankVegetation': { min: 0, max: 1 },
+  // Terrain - villages
+  'terrain.villages.spacing':      { min: 128, max: 2048 },
+  'terrain.villages.chance':       { min: 0, max: 1 },
+  'terrain.villages.minBuildings': { min: 1, max: 12 },
+  'terrain.villages.maxBuildings': { min: 1, max: 12 },
   // Environment
   'environment.dayDurationSeconds': { min: 10, max: 36000 },
   'environment.sky.starBrightness':      { min: 0, max: 2 },
@@ -305,22 +489,100 @@ const VALIDATION_RULES: Record<string, NumberRule> = {
   'environment.cloud.windSpeed':         { min: 0, max: 50 },
   'environment.cloud.silverLining':      { min: 0, max: 3 },
   'environment.cloud.multiScatterFloor': { min: 0, max: 0.5 },
+  'environment.fluids.tickMs':            { min: 50, max: 2000 },
+  'environment.fluids.budgetMs':          { min: 0.25, max: 16 },
+  'environment.fluids.waterFlowDistance': { min: 1, max: 7 },
+  'environment.fluids.lavaFlowDistance':  { min: 1, max: 7 },
+  'environment.fluids.lavaSlowdown':      { min: 1, max: 10 },
+};
+
+// Flat map of config path → allowed string values
+const OPTION_RULES: Record<string, readonly string[]> = {};
+
+function numberRule(path: string): NumberRule | undefined {
+  const ore = ORE_PATH.exec(path);
+  return ore ? ORE_RULES[ore[2]] : VALIDATION_RULES[path];
+}
+
+function optionRule(path: string): readonly string[] | undefined {
+  const ore = ORE_PATH.exec(path);
+  return ore ? ORE_OPTION_RULES[ore[2]] : OPTION_RULES[path];
+}
+
+// Ore block and replaceable block names must resolve, or the ore silently never generates
+function blockNameError(path: string, value: unknown): string | null {
+  const ore = ORE_PATH.exec(path);
+  if (!ore || !(ore[2] === 'block' || /^replaces\.\d+$/.test(ore[2]))) return null;
+  if (typeof value === 'string' && getBlockTypeByName(value) !== undefined) return null;
+  return `"${path}": unknown block "${value}"`;
+}
+
+interface SplineRule {
+  minPoints: number;
+  maxPoints: number;
+  min: number;  // output range
+  max: number;
+}
+
+// Spline control point lists (replaced as a whole; validated as a curve rather than per leaf)
+const SPLINE_RULES: Record<string, SplineRule> = {
+  'terrain.shape.continentalness': { minPoints: 2, maxPoints: 12, min: 1, max: 255 },
+  'terrain.shape.erosion':         { minPoints: 2, maxPoints: 12, min: 0, max: 4 },
+  'terrain.shape.peaksValleys':    { minPoints: 2, maxPoints: 12, min: -64, max: 64 },
 };
 
+function validateSpline(path: string, value: unknown): string | null {
+  const rule = SPLINE_RULES[path];
+  if (!Array.isArray(value)) return `"${path}": expected control point array`;
+  if (value.length < rule.minPoints || value.length > rule.maxPoints) {
+    return `"${path}": needs ${rule.minPoints}-${rule.maxPoints} points, got ${value.length}`;
+  }
+  for (let i = 0; i < value.length; i++) {
+    const p = value[i];
+    if (!Array.isArray(p) || p.length !== 2 || !p.every((v) => typeof v === 'number' && Number.isFinite(v))) {
+      return `"${path}.${i}": expected [input, output]`;
+    }
+    if (p[0] < 0 || p[0] > 1) return `"${path}.${i}": input ${p[0]} out of range [0, 1]`;
+    if (p[1] < rule.min || p[1] > rule.max) return `"${path}.${i}": ${p[1]} out of range [${rule.min}, ${rule.max}]`;
+    if (i > 0 && p[0] <= value[i - 1][0]) return `"${path}": inputs must be ascending`;
+  }
+  return null;
+}
+
+// Spline path a config path belongs to (the curve itself or one of its points)
+function splineRoot(path: string): string | null {
+  for (const root of Object.keys(SPLINE_RULES)) {
+    if (path === root || path.startsWith(`${root}.`)) return root;
+  }
+  return null;
+}
+
 // Cross-property constraints: [pathA, pathB] where A must be < B
 const CROSS_CONSTRAINTS: [string, string][] = [
   ['terrain.height.minHeight', 'terrain.height.maxHeight'],
   ['terrain.trees.minTrunkHeight', 'terrain.trees.maxTrunkHeight'],
+  ['terrain.density.islands.minY', 'terrain.density.islands.maxY'],
   ['terrain.caves.minLength', 'terrain.caves.maxLength'],
   ['terrain.caves.minRadius', 'terrain.caves.maxRadius'],
   ['terrain.caves.minY', 'terrain.caves.maxY'],
-  ['terrain.ores.coal.minY', 'terrain.ores.coal.maxY'],
-  ['terrain.ores.iron.minY', 'terrain.ores.iron.maxY'],
-  ['terrain.ores.gold.minY', 'terrain.ores.gold.maxY'],
-  ['terrain.ores.diamond.minY', 'terrain.ores.diamond.maxY'],
+  ['terrain.caves.cheese.minY', 'terrain.caves.cheese.maxY'],
+  ['terrain.caves.spaghetti.minY', 'terrain.caves.spaghetti.maxY'],
+  ['terrain.caves.noodle.minY', 'terrain.caves.noodle.maxY'],
+  ['terrain.caves.aquifers.minY', 'terrain.caves.aquifers.maxY'],
+  ['terrain.villages.minBuildings', 'terrain.villages.maxBuildings'],
   ['rendering.autoExposure.minExposure', 'rendering.autoExposure.maxExposure'],
 ];
 
+// Static constraints plus minY <= maxY for every ore entry of the given config
+function crossConstraints(config: Record<string, unknown>): [string, string][] {
+  const ores = getNestedValue(config, 'terrain.ores');
+  const names = ores && typeof ores === 'object' ? Object.keys(ores) : [];
+  return [
+    ...CROSS_CONSTRAINTS,
+    ...names.map((ore): [string, string] => [`terrain.ores.${ore}.minY`, `terrain.ores.${ore}.maxY`]),
+  ];
+}
+
 function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
   const keys = path.split('.');
   let current: unknown = obj;
@@ -342,6 +604,75 @@ function setNestedValue(obj: Record<string, unknown>, path: string, value: unkno
 
 const STORAGE_KEY = 'voxelEngineConfig';
 
+const CONFIG_GROUPS: ConfigGroup[] = ['terrain', 'rendering', 'camera', 'environment'];
+
+// Visit every leaf value (array elements are leaves with an index path, e.g. "…cascadeSplits.0")
+function forEachLeaf(obj: Record<string, unknown>, prefix: string, fn: (path: string, value: unknown) => void): void {
+  for (const key of Object.keys(obj)) {
+    const v = obj[key];
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (v != null && typeof v === 'object') {
+      forEachLeaf(v as Record<string, unknown>, path, fn);
+    } else {
+      fn(path, v);
+    }
+  }
+}
+
+// Defaults' shape with an entry for every ore of the tree (unknown ones shaped like ORE_TEMPLATE)
+function treeShape(tree: Record<string, unknown>, defaults: Record<string, unknown>): Record<string, unknown> {
+  const shape = JSON.parse(JSON.stringify(defaults)) as Record<string, unknown>;
+  const defaultOres = getNestedValue(defaults, 'terrain.ores') as Record<string, unknown>;
+  const treeOres = getNestedValue(tree, 'terrain.ores');
+  if (!treeOres || typeof treeOres !== 'object') return shape;
+  const ores = getNestedValue(shape, 'terrain.ores') as Record<string, unknown>;
+  for (const [name, ore] of Object.entries(treeOres)) {
+    const entry = JSON.parse(JSON.stringify(defaultOres[name] ?? defaultOres[ORE_TEMPLATE])) as Record<string, unknown>;
+    // Replaceable block lists vary in length: check every name the tree has
+    const replaces = (ore as Record<string, unknown> | null)?.replaces;
+    if (Array.isArray(replaces) && replaces.length > 0) entry.replaces = replaces.map(() => '');
+    ores[name] = entry;
+  }
+  return shape;
+}
+
+// Same checks as ConfigManager.set, applied to a whole tree against the defaults' shape
+function validateTree(tree: Record<string, unknown>, defaults: Record<string, unknown>): string | null {
+  let error: string | null = null;
+  forEachLeaf(treeShape(tree, defaults), '', (path, def) => {
+    if (error || splineRoot(path)) return;
+    const value = getNestedValue(tree, path);
+    if (typeof value !== typeof def || (typeof value === 'number' && !Number.isFinite(value))) {
+      error = `"${path}": expected ${typeof def}, got ${value}`;
+      return;
+    }
+    const rule = numberRule(path);
+    if (rule && typeof value === 'number' && (value < rule.min || value > rule.max)) {
+      error = `"${path}": ${value} out of range [${rule.min}, ${rule.max}]`;
+    }
+    const options = optionRule(path);
+    if (options && !options.includes(value as string)) {
+      error = `"${path}": "${value}" must be one of ${options.join(', ')}`;
+    }
+    error ??= blockNameError(path, value);
+  });
+  if (error) return error;
+  for (const path of Object.keys(SPLINE_RULES)) {
+    const splineError = validateSpline(path, getNestedValue(tree, path));
+    if (splineError) return splineError;
+  }
+  for (const [minPath, maxPath] of crossConstraints(tree)) {
+    const min = getNestedValue(tree, minPath) as number;
+    const max = getNestedValue(tree, maxPath) as number;
+    if (min > max) return `"${minPath}": ${min} must be <= ${maxPath} (${max})`;
+  }
+  const splits = getNestedValue(tree, 'rendering.shadows.cascadeSplits') as number[];
+  for (let i = 1; i < splits.length; i++) {
+    if (splits[i] <= splits[i - 1]) return `cascadeSplits must be ascending: [${splits.join(', ')}]`;
+  }
+  return null;
+}
+
 function deepMerge(target: Record<string, unknown>, source: Record<string, unknown>): void {
   for (const key of Object.keys(source)) {
     const sv = source[key];
@@ -370,26 +701,63 @@ class ConfigManager {
     return {
       terrain: {
         noise: { octaves: 4, persistence: 0.5, lacunarity: 2.0, scale: 50.0 },
-        height: { seaLevel: 50, minHeight: 1, maxHeight: 100, dirtLayerDepth: 4 },
+        height: { seaLevel: 50, minHeight: 1, maxHeight: 160, dirtLayerDepth: 4 },
         biomes: {
           temperatureScale: 200.0,
           humidityScale: 200.0,
           continentalnessScale: 400.0,
           heightVariationScale: 30.0,
           oceanThreshold: 0.3,
+          blendWidth: 0.2,
+        },
+        shape: {
+          continentalness: [[0, 30], [0.3, 48], [0.45, 52], [0.7, 65], [0.85, 90], [1, 150]],
+          erosion: [[0, 1.6], [0.5, 1], [1, 0.5]],
+          peaksValleys: [[0, -5], [1, 5]],
+          erosionScale: 250,
+        },
+        density: {
+          enabled: false, scale: 40, verticalScale: 20, amplitude: 0.8, squash: 0.04,
+          islands: { enabled: false, minY: 176, maxY: 216, threshold: 0.65, scale: 60 },
         },
         caves: {
           count: 8, minLength: 50, maxLength: 150,
           minRadius: 1.5, maxRadius: 4.0, minY: 10, maxY: 60,
+          cheese: { enabled: true, minY: 8, maxY: 40, scale: 48, verticalScale: 20, threshold: 0.78 },
+          spaghetti: { enabled: true, minY: 8, maxY: 100, scale: 64, thickness: 0.07, coverage: 0.6 },
+          noodle: { enabled: true, minY: 8, maxY: 64, scale: 24, thickness: 0.045, coverage: 0.35 },
           waterTable: { baseLevel: 25, amplitude: 12, noiseScale: 80 },
+          aquifers: { enabled: true, cellSize: 48, chance: 0.35, minY: 12, maxY: 40 },
         },
         ores: {
-          coal: { minY: 5, maxY: 128, attempts: 20, veinSize: 8 },
-          iron: { minY: 5, maxY: 64, attempts: 20, veinSize: 6 },
-          gold: { minY: 5, maxY: 32, attempts: 2, veinSize: 5 },
-          diamond: { minY: 5, maxY: 16, attempts: 1, veinSize: 4 },
+          coal: {
+            block: 'Coal Ore', replaces: ['Stone'], shape: 'vein', distribution: 'trapezoid',
+            minY: 5, maxY: 128, plateau: 64, attempts: 20, veinSize: 8,
+            cluster: { enabled: false, scale: 24, threshold: 0.92, density: 0.3 },
+          },
+          iron: {
+            block: 'Iron Ore', replaces: ['Stone'], shape: 'vein', distribution: 'triangle',
+            minY: 5, maxY: 64, plateau: 0, attempts: 20, veinSize: 6,
+            cluster: { enabled: false, scale: 24, threshold: 0.92, density: 0.35 },
+          },
+          gold: {
+            block: 'Gold Ore', replaces: ['Stone'], shape: 'vein', distribution: 'triangle',
+            minY: 5, maxY: 32, plateau: 0, attempts: 2, veinSize: 5,
+            cluster: { enabled: false, scale: 16, threshold: 0.94, density: 0.3 },
+          },
+          diamond: {
+            block: 'Diamond Ore', replaces: ['Stone'], shape: 'blob', distribution: 'uniform',
+            minY: 5, maxY: 16, plateau: 0, attempts: 1, veinSize: 4,
+            cluster: { enabled: false, scale: 16, threshold: 0.94, density: 0.2 },
+          },
         },
         trees: { perChunk: 3, minTrunkHeight: 4, maxTrunkHeight: 6, leafDecayChance: 0.2 },
+        rivers: {
+          enabled: true, scale: 600, width: 0.025, bankWidth: 0.025, valleyWidth: 0.15,
+          depth: 4, bankVegetation: 0.35,
+        },
+        villages: { enabled: true, spacing: 320, chance: 0.6, minBuildings: 3, maxBuildings: 7 },
+        features: { neighborRadius: 2 },
       },
       rendering: {
         general: { renderDistance: 14, timeBudgetMs: 12 },
@@ -402,11 +770,12 @@ class ConfigManager {
         autoExposure: { enabled: true, adaptSpeed: 1.5, keyValue: 0.10, minExposure: 0.2, maxExposure: 1.8 },
         motionBlur: { enabled: false, strength: 0.5 },
         dof: { enabled: false, focusDistance: 50.0, aperture: 0.05, maxBlur: 10.0 },
-        lod: { enabled: true, renderDistance: 14 },
+        lod: { enabled: true, ringDistances: [10, 16, 24] },
+        occlusion: { enabled: true },
       },
       camera: {
         speed: 20.0, fastSpeed: 60.0, mouseSensitivity: 0.002,
-        fov: 70 * (Math.PI / 180), near: 0.1, far: 1000.0,
+        fov: 70 * (Math.PI / 180), near: 0.1, far: 2000.0,
       },
       environment: {
         dayDurationSeconds: 1200,
@@ -425,6 +794,14 @@ class ConfigManager {
           silverLining: 1.5,
           multiScatterFloor: 0.15,
         },
+        fluids: {
+          enabled: true,
+          tickMs: 250,
+          budgetMs: 2,
+          waterFlowDistance: 7,
+          lavaFlowDistance: 3,
+          lavaSlowdown: 4,
+        },
       },
     };
   }
@@ -456,6 +833,18 @@ class ConfigManager {
   }
 
   set(path: string, value: unknown): SetResult {
+    // Spline curves: validate the whole curve with the change applied
+    const spline = splineRoot(path);
+    if (spline) {
+      let curve = value;
+      if (path !== spline) {
+        curve = JSON.parse(JSON.stringify(this.get(spline)));
+        setNestedValue(curve as Record<string, unknown>, path.slice(spline.length + 1), value);
+      }
+      const error = validateSpline(spline, curve);
+      if (error) return { success: false, error };
+    }
+
     // Type validation
     const existing = this.get(path);
     if (existing !== undefined) {
@@ -467,11 +856,24 @@ class ConfigManager {
       if (typeof existing === 'boolean' && typeof value !== 'boolean') {
         return { success: false, error: `"${path}": expected boolean, got ${typeof value}` };
       }
+      if (typeof existing === 'string' && typeof value !== 'string') {
+        return { success: false, error: `"${path}": expected string, got ${typeof value}` };
+      }
+    }
+
+    // Option validation
+    if (typeof value === 'string') {
+      const options = optionRule(path);
+      if (options && !options.includes(value)) {
+        return { success: false, error: `"${path}": "${value}" must be one of ${options.join(', ')}` };
+      }
     }
+    const blockError = blockNameError(path, value);
+    if (blockError) return { success: false, error: blockError };
 
     // Range validation
     if (typeof value === 'number') {
-      const rule = VALIDATION_RULES[path];
+      const rule = numberRule(path);
       if (rule) {
         if (value < rule.min || value > rule.max) {
           return { success: false, error: `"${path}": ${value} out of range [${rule.min}, ${rule.max}]` };
@@ -481,7 +883,7 @@ class ConfigManager {
 
     // Cross-property constraints
     if (typeof value === 'number') {
-      for (const [minPath, maxPath] of CROSS_CONSTRAINTS) {
+      for (const [minPath, maxPath] of crossConstraints(this.data as unknown as Record<string, unknown>)) {
         if (path === minPath) {
           const maxVal = this.get(maxPath);
           if (typeof maxVal === 'number' && value > maxVal) {
@@ -539,6 +941,43 @@ class ConfigManager {
     this.dirtyGroups.delete(group);
   }
 
+  /**
+   * Replace the whole config with a snapshot (e.g. from a world bundle). Missing keys keep
+   * their defaults; any invalid value rejects the snapshot without applying it.
+   */
+  loadSnapshot(snapshot: unknown): SetResult {
+    const next = this.mergeSnapshot(snapshot);
+    if (typeof next === 'string') return { success: false, error: next };
+
+    this.data = next;
+    for (const group of CONFIG_GROUPS) this.dirtyGroups.add(group);
+    forEachLeaf(next as unknown as Record<string, unknown>, '', (path, value) => {
+      for (const handler of this.handlers) handler(path, value);
+    });
+    this.scheduleSave();
+    return { success: true };
+  }
+
+  /** Check a snapshot the way loadSnapshot would, without applying it. */
+  validateSnapshot(snapshot: unknown): SetResult {
+    const next = this.mergeSnapshot(snapshot);
+    return typeof next === 'string' ? { success: false, error: next } : { success: true };
+  }
+
+  /** Snapshot merged over the defaults, or the first validation error. */
+  private mergeSnapshot(snapshot: unknown): AppConfig | string {
+    if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) {
+      return 'config snapshot is not an object';
+    }
+    const next = this.getDefaults();
+    deepMerge(next as unknown as Record<string, unknown>, snapshot as Record<string, unknown>);
+    const error = validateTree(
+      next as unknown as Record<string, unknown>,
+      this.getDefaults() as unknown as Record<string, unknown>,
+    );
+    return error ?? next;
+  }
+
   resetToDefaults(): void {
     this.data = this.getDefaults();
     try { localStorage.removeItem(STORAGE_KEY); } catch { /* ignore */ }
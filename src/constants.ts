@@ -1,9 +1,16 @@
 // Chunk dimensions (structural, immutable)
 export const CHUNK_WIDTH = 16;
-export const CHUNK_HEIGHT = 128;
+export const CHUNK_HEIGHT = 256;
 export const CHUNK_DEPTH = 16;
 export const CHUNK_TOTAL_BLOCKS = CHUNK_WIDTH * CHUNK_HEIGHT * CHUNK_DEPTH;
 
+// Vertical sections: each is meshed, uploaded and culled on its own
+export const SECTION_HEIGHT = 16;
+export const SECTION_COUNT = CHUNK_HEIGHT / SECTION_HEIGHT;
+
+// Upper bound of rendering.general.renderDistance (sizes per-section GPU slot pools)
+export const MAX_RENDER_DISTANCE = 32;
+
 // Atlas (structural)
 export const TILE_SIZE = 16;
 export const ATLAS_TILES = 16;
@@ -6,6 +6,8 @@ import { FlyCamera } from './camera/FlyCamera';
 import { ChunkManager } from './terrain/ChunkManager';
 import { DayNightCycle } from './world/DayNightCycle';
 import { WeatherSystem } from './world/WeatherSystem';
+import { BlockEditor } from './world/BlockEditor';
+import { encodeWorldBundle, decodeWorldBundle, WORLD_BUNDLE_EXTENSION } from './world/WorldBundle';
 import { HUD } from './ui/HUD';
 import { Config } from './config/Config';
 import { CHUNK_WIDTH, CHUNK_HEIGHT } from './constants';
@@ -15,6 +17,7 @@ import { buildTerrainTab } from './ui/inspector/TerrainTab';
 import { buildRenderingTab } from './ui/inspector/RenderingTab';
 import { buildCameraTab } from './ui/inspector/CameraTab';
 import { buildEnvironmentTab } from './ui/inspector/EnvironmentTab';
+import { buildBuildTab } from './ui/inspector/BuildTab';
 
 declare global {
   interface Window {
@@ -51,7 +54,7 @@ async function main() {
   await pipeline.init(); // Wait for all shader compilations; throws on shader errors
   pipeline.setWeatherSystem(weatherSystem);
   const atlas = new TextureAtlas(ctx);
-  pipeline.setAtlasTexture(atlas.texture, atlas.materialTexture, atlas.normalTexture);
+  pipeline.setAtlasTexture(atlas.texture, atlas.materialTexture, atlas.blockTable, atlas.normalTexture);
 
   let seed = 0;
 
@@ -63,14 +66,93 @@ async function main() {
   let chunkManager = new ChunkManager(ctx, seed);
 
   const hud = new HUD();
+  const crosshair = document.getElementById('crosshair');
+  const pickDir = vec3.create();
+  const skyTint: [number, number, number] = [1, 1, 1];
+
+  const editor = new BlockEditor(chunkManager);
+  camera.onBuildAction = (action) => {
+    if (action === 'break') editor.breakBlock();
+    else editor.placeBlock();
+  };
 
   // ---- Inspector Panel ----
   const inspector = new InspectorPanel();
 
+  // World bundle: seed + config + camera + time/weather + edited chunks
+  const exportWorld = async () => {
+    try {
+      const chunks = await chunkManager.exportEditedChunks();
+      const blob = encodeWorldBundle({
+        seed,
+        config: Config.data,
+        camera: { position: [camera.position[0], camera.position[1], camera.position[2]], yaw: camera.yaw, pitch: camera.pitch },
+        time: dayNightCycle.getTime(),
+        timePaused: dayNightCycle.paused,
+        weather: { type: weatherSystem.currentWeather, intensity: weatherSystem.intensity, auto: weatherSystem.autoWeather },
+        chunks,
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `world-${seed}${WORLD_BUNDLE_EXTENSION}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      hud.setError(`Export: ${msg}`);
+      console.error('[World Export]', e);
+    }
+  };
+
+  const importWorld = async (file: File): Promise<boolean> => {
+    try {
+      const bundle = decodeWorldBundle(await file.arrayBuffer());
+      const check = Config.validateSnapshot(bundle.config);
+      if (!check.success) throw new Error(`Invalid config: ${check.error}`);
+      if (!confirm(`Importing replaces the saved edits of seed ${bundle.seed} with the same terrain settings. Continue?`)) {
+        return false;
+      }
+
+      const previous = { config: structuredClone(Config.data), seed };
+      try {
+        const configResult = Config.loadSnapshot(bundle.config);
+        if (!configResult.success) throw new Error(`Invalid config: ${configResult.error}`);
+        // Saves are keyed by seed + terrain config, so write them once the imported config is loaded
+        await chunkManager.replaceSavedWorld(bundle.seed, bundle.chunks);
+        seed = bundle.seed;
+        chunkManager.regenerate(seed);
+      } catch (e) {
+        Config.loadSnapshot(previous.config);
+        seed = previous.seed;
+        chunkManager.regenerate(seed);
+        throw e;
+      }
+      if (terrainTab.seedInput) terrainTab.seedInput.value = String(seed);
+
+      vec3.set(camera.position, ...bundle.camera.position);
+      camera.yaw = bundle.camera.yaw;
+      camera.pitch = bundle.camera.pitch;
+      dayNightCycle.setTime(bundle.time);
+      dayNightCycle.paused = bundle.timePaused;
+      weatherSystem.autoWeather = bundle.weather.auto;
+      weatherSystem.currentWeather = bundle.weather.type;
+      weatherSystem.intensity = bundle.weather.intensity;
+      weatherSystem.targetIntensity = bundle.weather.intensity;
+      hud.setError('');
+      return true;
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      hud.setError(`Import: ${msg}`);
+      console.error('[World Import]', e);
+      return false;
+    }
+  };
+
   const terrainTab = buildTerrainTab((newSeed) => {
     seed = newSeed;
     chunkManager.regenerate(seed);
-  });
+  }, { onExport: () => void exportWorld(), onImport: importWorld });
   inspector.addTab('Terrain', terrainTab);
 
   const renderingTab = buildRenderingTab();
@@ -82,6 +164,9 @@ async function main() {
   const envTab = buildEnvironmentTab(dayNightCycle, weatherSystem);
   inspector.addTab('Environment', envTab);
 
+  const buildTab = buildBuildTab(editor, atlas, (enabled) => camera.setBuildMode(enabled));
+  inspector.addTab('Build', buildTab);
+
   // H key toggles HUD (skip when typing in inputs or inspector is focused)
   const onHudToggle = (e: KeyboardEvent) => {
     if (e.code === 'KeyH' && !(e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement || e.target instanceof HTMLTextAreaElement)) {
@@ -105,12 +190,18 @@ async function main() {
   const onResize = () => ctx.resize();
   window.addEventListener('resize', onResize);
 
+  // Don't lose edits still waiting for the debounced save
+  const onPageHide = () => { void chunkManager.flushSaves(); };
+  window.addEventListener('pagehide', onPageHide);
+
   // Cleanup function
   function cleanup() {
     camera.destroy();
     inspector.destroy();
+    chunkManager.destroy();
     document.removeEventListener('keydown', onHudToggle);
     window.removeEventListener('resize', onResize);
+    window.removeEventListener('pagehide', onPageHide);
     Config.removeHandler(onConfigChange);
   }
   // Expose for potential re-init (not called during normal operation)
@@ -138,8 +229,10 @@ async function main() {
     const projection = camera.getProjection();
     const view = camera.getView();
     const fog = Config.data.rendering.fog;
-    const fogDist = chunkManager.renderDistance * CHUNK_WIDTH;
+    // Fog out at the edge of the farthest LOD ring, not the full-detail radius
+    const fogDist = chunkManager.viewDistance * CHUNK_WIDTH;
     const fogMul = weatherSystem.getFogDensityMultiplier();
+    pipeline.setBiomeTint(chunkManager.getSkyTintAt(camera.position[0], camera.position[2], skyTint));
 
     pipeline.updateCamera(
       viewProj,
@@ -151,28 +244,42 @@ async function main() {
       dt,
     );
 
+    chunkManager.updateFluids(dt);
     chunkManager.update(camera.position, viewProj as Float32Array);
 
     // Update point lights from emissive blocks
     const pointLights = chunkManager.getPointLights(camera.position);
     pipeline.updatePointLights(pointLights);
 
-    const drawCalls = chunkManager.getDrawCalls();
-    const lodDrawCalls = chunkManager.getLODDrawCalls();
-    const allSolidDrawCalls = [...drawCalls, ...lodDrawCalls];
+    const geometry = {
+      solid: [chunkManager.solidIndirect, chunkManager.lodIndirect],
+      vegetation: [chunkManager.vegetationIndirect],
+    };
     const waterDrawCalls = chunkManager.getWaterDrawCalls();
-    const vegDrawCalls = chunkManager.getVegetationDrawCalls();
 
-    hud.setDrawInfo(allSolidDrawCalls.length, waterDrawCalls.length);
+    // Indirect slots in use; the GPU cull decides how many actually draw
+    const indirectSlots = [...geometry.solid, ...geometry.vegetation].reduce((n, r) => n + r.chunkCount, 0);
+    hud.setDrawInfo(indirectSlots, waterDrawCalls.length);
 
     try {
-      pipeline.render(allSolidDrawCalls, waterDrawCalls, vegDrawCalls);
+      pipeline.render(geometry, waterDrawCalls);
     } catch (e) {
       const msg = e instanceof Error ? e.message : String(e);
       hud.setError(`Render: ${msg.slice(0, 120)}`);
       console.error('[Render Error]', e);
     }
 
+    hud.setCullInfo(pipeline.occlusionStats);
+
+    // Crosshair pick: hovered block + its column's biome (build mode targets within reach)
+    crosshair?.classList.toggle('picking', camera.pickMode || editor.enabled);
+    camera.getForward(pickDir);
+    editor.update(camera.position, pickDir);
+    pipeline.setBlockOutline(editor.hit);
+    const hit = editor.enabled ? editor.hit
+      : camera.pickMode ? chunkManager.raycast(camera.position, pickDir, { maxDistance: 64 })
+      : null;
+    hud.setPickInfo(hit, hit ? chunkManager.getBiomeAt(hit.x, hit.z) : undefined);
     hud.update(camera.position, chunkManager.totalChunks, seed, camera.getSpeed(), dayNightCycle.getTimeString(), chunkManager.totalLODChunks);
 
     requestAnimationFrame(frame);
@@ -1,14 +1,32 @@
-// LODGenerator: 2× downsample + simplified mesh builder for LOD chunks.
+// LODGenerator: 2×/4×/8× downsample + simplified mesh builder for LOD chunks.
 
-import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
-import { BlockType, isBlockSolid, isBlockWater, isBlockCrossMesh, isBlockTorch } from '../terrain/BlockTypes';
-import { Chunk } from '../terrain/Chunk';
+import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH, SECTION_HEIGHT, SECTION_COUNT } from '../constants';
+import { BlockType, isBlockSolid, getBlockData } from '../terrain/BlockTypes';
+import { Chunk, SectionFill } from '../terrain/Chunk';
 
-// LOD grid dimensions (2× downsample)
-export const LOD_WIDTH = CHUNK_WIDTH / 2;   // 8
-export const LOD_HEIGHT = CHUNK_HEIGHT / 2;  // 64
-export const LOD_DEPTH = CHUNK_DEPTH / 2;    // 8
-export const LOD_TOTAL = LOD_WIDTH * LOD_HEIGHT * LOD_DEPTH; // 4096
+// LOD levels: level N downsamples by 2^N (1 = 2×, 2 = 4×, 3 = 8×). Level 0 is the full-detail chunk.
+export const MAX_LOD_LEVEL = 3;
+
+export interface LODGrid {
+  scale: number;   // world units per LOD block
+  width: number;
+  height: number;
+  depth: number;
+  total: number;
+}
+
+// LOD grid dimensions per level (index 0 unused)
+const LOD_GRIDS: LODGrid[] = [0, 1, 2, 3].map((level) => {
+  const scale = 1 << level;
+  const width = CHUNK_WIDTH / scale;
+  const height = CHUNK_HEIGHT / scale;
+  const depth = CHUNK_DEPTH / scale;
+  return { scale, width, height, depth, total: width * height * depth };
+});
+
+export function lodGrid(level: number): LODGrid {
+  return LOD_GRIDS[level];
+}
 
 // Face vertices for a unit cube (same order as MeshBuilder)
 // TOP=0, BOTTOM=1, NORTH=2(+Z), SOUTH=3(-Z), EAST=4(+X), WEST=5(-X)
@@ -27,20 +45,21 @@ const FACE_VERTICES: number[][] = [
   [0,0,1, 0,0,0, 0,1,0, 0,1,1],
 ];
 
-// Tiled UV [0,1]×[0,1] per face per vertex — matches FACE_VERTICES winding
+// Tiled UV [0,1]×[0,1] per face per vertex — matches FACE_VERTICES winding.
+// Sides are upright like MeshBuilder's greedy quads (v=0 at the top, v0 = bottom-right from outside).
 const FACE_UVS: number[][] = [
   // TOP: v0(0,0) v1(1,0) v2(1,1) v3(0,1)
   [0,0, 1,0, 1,1, 0,1],
   // BOTTOM: v0(0,1) v1(1,1) v2(1,0) v3(0,0)
   [0,1, 1,1, 1,0, 0,0],
-  // NORTH: v0(1,0) v1(0,0) v2(0,1) v3(1,1)
-  [1,0, 0,0, 0,1, 1,1],
-  // SOUTH: v0(0,0) v1(1,0) v2(1,1) v3(0,1)
-  [0,0, 1,0, 1,1, 0,1],
-  // EAST: v0(0,0) v1(1,0) v2(1,1) v3(0,1)
-  [0,0, 1,0, 1,1, 0,1],
-  // WEST: v0(1,0) v1(0,0) v2(0,1) v3(1,1)
-  [1,0, 0,0, 0,1, 1,1],
+  // NORTH: v0(1,1) v1(0,1) v2(0,0) v3(1,0)
+  [1,1, 0,1, 0,0, 1,0],
+  // SOUTH
+  [1,1, 0,1, 0,0, 1,0],
+  // EAST
+  [1,1, 0,1, 0,0, 1,0],
+  // WEST
+  [1,1, 0,1, 0,0, 1,0],
 ];
 
 // Face normal offsets: [dx, dy, dz] for neighbor check
@@ -58,45 +77,61 @@ export interface LODNeighborBlocks {
   south: Uint8Array | null;  // -Z
   east: Uint8Array | null;   // +X
   west: Uint8Array | null;   // -X
+  /** LOD_EDGE_* bits of borders facing a finer level (full-detail chunk or lower LOD level) */
+  finerEdges: number;
 }
 
+// Border bits for LODNeighborBlocks.finerEdges
+export const LOD_EDGE_NORTH = 1;
+export const LOD_EDGE_SOUTH = 2;
+export const LOD_EDGE_EAST = 4;
+export const LOD_EDGE_WEST = 8;
+
+// Skirt depth below a border column's top, in LOD blocks. Covers the height mismatch
+// between the majority-voted surface and the finer neighbor's surface.
+const SKIRT_DEPTH = 3;
+
 export interface LODMeshData {
   vertices: Float32Array;
   indices: Uint32Array;
   indexCount: number;
 }
 
-function lodIndex(lx: number, ly: number, lz: number): number {
-  return lx + ly * LOD_WIDTH + lz * LOD_WIDTH * LOD_HEIGHT;
+function lodIndex(grid: LODGrid, lx: number, ly: number, lz: number): number {
+  return lx + ly * grid.width + lz * grid.width * grid.height;
 }
 
-// Remap block type for LOD:
-// LEAVES → GRASS_BLOCK (green blob at distance)
-// cross-mesh, torch, water → AIR (skip)
+// Remap block type for LOD via the registry's lodFallback
+// (e.g. leaves → GRASS_BLOCK as a green blob at distance; vegetation, torches, water → AIR)
 function remapBlock(type: number): number {
-  if (type === BlockType.LEAVES) return BlockType.GRASS_BLOCK;
-  if (isBlockCrossMesh(type) || isBlockTorch(type) || isBlockWater(type)) return BlockType.AIR;
-  return type;
+  return getBlockData(type).lodFallback;
 }
 
-// Downsample a chunk's blocks to LOD grid (8×64×8) via 2×2×2 majority vote.
-// Must be called before chunk.compress() for best performance.
-export function downsample(chunk: Chunk): Uint8Array {
-  const result = new Uint8Array(LOD_TOTAL);
+// Downsample a chunk's blocks to the level's LOD grid (e.g. 8×128×8 for 2×) via majority vote
+// over each scale³ cell. Must be called before chunk.compress() for best performance.
+export function downsample(chunk: Chunk, level: number): Uint8Array {
+  const grid = lodGrid(level);
+  const s = grid.scale;
+  const result = new Uint8Array(grid.total);
 
   const counts = new Map<number, number>();
 
-  for (let lz = 0; lz < LOD_DEPTH; lz++) {
-    for (let ly = 0; ly < LOD_HEIGHT; ly++) {
-      for (let lx = 0; lx < LOD_WIDTH; lx++) {
+  // Empty sections stay AIR (the result starts zeroed); cells never straddle sections
+  const emptySections: boolean[] = [];
+  for (let i = 0; i < SECTION_COUNT; i++) emptySections.push(chunk.getSectionFill(i) === SectionFill.EMPTY);
+
+  for (let lz = 0; lz < grid.depth; lz++) {
+    for (let ly = 0; ly < grid.height; ly++) {
+      if (emptySections[Math.floor(ly * s / SECTION_HEIGHT)]) continue;
+      for (let lx = 0; lx < grid.width; lx++) {
         counts.clear();
         let airCount = 0;
 
-        // Sample 2×2×2 block
-        for (let dz = 0; dz < 2; dz++) {
-          for (let dy = 0; dy < 2; dy++) {
-            for (let dx = 0; dx < 2; dx++) {
-              const raw = chunk.getBlock(lx * 2 + dx, ly * 2 + dy, lz * 2 + dz);
+        // Sample scale×scale×scale block
+        for (let dz = 0; dz < s; dz++) {
+          for (let dy = 0; dy < s; dy++) {
+            for (let dx = 0; dx < s; dx++) {
+              const raw = chunk.getBlock(lx * s + dx, ly * s + dy, lz * s + dz);
               const type = remapBlock(raw);
               if (type === BlockType.AIR) {
                 airCount++;
@@ -107,9 +142,9 @@ export function downsample(chunk: Chunk): Uint8Array {
           }
         }
 
-        // Majority vote: AIR if 5+ out of 8
-        if (airCount >= 5) {
-          result[lodIndex(lx, ly, lz)] = BlockType.AIR;
+        // Majority vote: AIR if more than half the cell is air (5+ out of 8 at 2×)
+        if (airCount * 2 > s * s * s) {
+          result[lodIndex(grid, lx, ly, lz)] = BlockType.AIR;
           continue;
         }
 
@@ -122,7 +157,7 @@ export function downsample(chunk: Chunk): Uint8Array {
             bestType = type;
           }
         }
-        result[lodIndex(lx, ly, lz)] = bestType;
+        result[lodIndex(grid, lx, ly, lz)] = bestType;
       }
     }
   }
@@ -131,9 +166,12 @@ export function downsample(chunk: Chunk): Uint8Array {
 }
 
 // Build LOD mesh from downsampled blocks.
-// Each LOD block is 2× world units. Positions are in world space.
+// Each LOD block is grid.scale world units. Positions are in world space.
+// Neighbor grids must be of the same level. Borders facing a finer level get a skirt
+// (vertical strip hanging from each border column's top) instead of full border walls.
 export function buildLODMesh(
   lodBlocks: Uint8Array,
+  level: number,
   worldOffsetX: number,
   worldOffsetZ: number,
   neighbors: LODNeighborBlocks | null,
@@ -146,6 +184,8 @@ export function buildLODMesh(
   let idxArr = new Uint32Array(idxCapacity);
   let vertCount = 0;
   let idxCount = 0;
+  const grid = lodGrid(level);
+  const scale = grid.scale;
 
   function ensureVert(need: number): void {
     if (vertCount + need > vertCapacity) {
@@ -166,38 +206,82 @@ export function buildLODMesh(
     }
   }
 
+  const finerEdges = neighbors?.finerEdges ?? 0;
+
+  // Emit one quad. y0/y1: world-space bottom/top of side faces (top/bottom faces use y1/y0).
+  function emitFace(lx: number, lz: number, face: number, blockType: number, y0: number, y1: number): void {
+    ensureVert(4);
+    ensureIdx(6);
+
+    const fv = FACE_VERTICES[face];
+    const fuv = FACE_UVS[face];
+    const baseVertex = vertCount;
+    // Side faces repeat the tile once per LOD block of height (skirts are taller than one)
+    const vRepeat = face >= 2 ? (y1 - y0) / scale : 1;
+
+    for (let v = 0; v < 4; v++) {
+      const off = vertCount * 7;
+      // Position: LOD block at (lx,ly,lz) occupies world space [lx*scale, (lx+1)*scale)
+      vertF32[off + 0] = worldOffsetX + (lx + fv[v * 3 + 0]) * scale;
+      vertF32[off + 1] = fv[v * 3 + 1] ? y1 : y0;
+      vertF32[off + 2] = worldOffsetZ + (lz + fv[v * 3 + 2]) * scale;
+      // normalIndex packed: face | (blockType << 8); the shader picks the face's atlas tile from both
+      vertU32[off + 3] = face | (blockType << 8);
+      // Tiled UV [0,1]×[0,vRepeat], side tiles repeat downward from the top edge
+      vertF32[off + 4] = fuv[v * 2 + 0];
+      vertF32[off + 5] = fuv[v * 2 + 1] * vRepeat;
+      // AO = 1.0 (no ambient occlusion for LOD)
+      vertF32[off + 6] = 1.0;
+      vertCount++;
+    }
+
+    // Indices: CCW winding, no AO flip (all AO = 1.0)
+    idxArr[idxCount++] = baseVertex + 0;
+    idxArr[idxCount++] = baseVertex + 2;
+    idxArr[idxCount++] = baseVertex + 1;
+    idxArr[idxCount++] = baseVertex + 0;
+    idxArr[idxCount++] = baseVertex + 3;
+    idxArr[idxCount++] = baseVertex + 2;
+  }
+
   function getLODBlock(lx: number, ly: number, lz: number): number {
     // Out of Y bounds
     if (ly < 0) return BlockType.STONE; // below → solid
-    if (ly >= LOD_HEIGHT) return BlockType.AIR;
+    if (ly >= grid.height) return BlockType.AIR;
 
     // In bounds
-    if (lx >= 0 && lx < LOD_WIDTH && lz >= 0 && lz < LOD_DEPTH) {
-      return lodBlocks[lodIndex(lx, ly, lz)];
+    if (lx >= 0 && lx < grid.width && lz >= 0 && lz < grid.depth) {
+      return lodBlocks[lodIndex(grid, lx, ly, lz)];
+    }
+
+    // Borders facing a finer level are closed by skirts → no walls
+    if ((lx < 0 && (finerEdges & LOD_EDGE_WEST)) || (lx >= grid.width && (finerEdges & LOD_EDGE_EAST)) ||
+        (lz < 0 && (finerEdges & LOD_EDGE_SOUTH)) || (lz >= grid.depth && (finerEdges & LOD_EDGE_NORTH))) {
+      return BlockType.STONE;
     }
 
     // Check neighbors
     if (lx < 0 && neighbors?.west) {
-      return neighbors.west[lodIndex(LOD_WIDTH + lx, ly, lz)];
+      return neighbors.west[lodIndex(grid, grid.width + lx, ly, lz)];
     }
-    if (lx >= LOD_WIDTH && neighbors?.east) {
-      return neighbors.east[lodIndex(lx - LOD_WIDTH, ly, lz)];
+    if (lx >= grid.width && neighbors?.east) {
+      return neighbors.east[lodIndex(grid, lx - grid.width, ly, lz)];
     }
     if (lz < 0 && neighbors?.south) {
-      return neighbors.south[lodIndex(lx, ly, LOD_DEPTH + lz)];
+      return neighbors.south[lodIndex(grid, lx, ly, grid.depth + lz)];
     }
-    if (lz >= LOD_DEPTH && neighbors?.north) {
-      return neighbors.north[lodIndex(lx, ly, lz - LOD_DEPTH)];
+    if (lz >= grid.depth && neighbors?.north) {
+      return neighbors.north[lodIndex(grid, lx, ly, lz - grid.depth)];
     }
 
     // No neighbor data → AIR (border faces always render)
     return BlockType.AIR;
   }
 
-  for (let lz = 0; lz < LOD_DEPTH; lz++) {
-    for (let ly = 0; ly < LOD_HEIGHT; ly++) {
-      for (let lx = 0; lx < LOD_WIDTH; lx++) {
-        const blockType = lodBlocks[lodIndex(lx, ly, lz)];
+  for (let lz = 0; lz < grid.depth; lz++) {
+    for (let ly = 0; ly < grid.height; ly++) {
+      for (let lx = 0; lx < grid.width; lx++) {
+        const blockType = lodBlocks[lodIndex(grid, lx, ly, lz)];
         if (blockType === BlockType.AIR) continue;
         if (!isBlockSolid(blockType)) continue;
 
@@ -210,42 +294,36 @@ export function buildLODMesh(
           const neighborType = getLODBlock(nx, ny, nz);
           if (isBlockSolid(neighborType)) continue;
 
-          // Emit face (4 vertices, 6 indices)
-          ensureVert(4);
-          ensureIdx(6);
-
-          const fv = FACE_VERTICES[face];
-          const fuv = FACE_UVS[face];
-          const baseVertex = vertCount;
-
-          for (let v = 0; v < 4; v++) {
-            const off = vertCount * 7;
-            // Position: LOD block at (lx,ly,lz) occupies world space [lx*2, lx*2+2)
-            vertF32[off + 0] = worldOffsetX + (lx + fv[v * 3 + 0]) * 2;
-            vertF32[off + 1] = (ly + fv[v * 3 + 1]) * 2;
-            vertF32[off + 2] = worldOffsetZ + (lz + fv[v * 3 + 2]) * 2;
-            // normalIndex packed: face | (blockType << 8)
-            vertU32[off + 3] = face | (blockType << 8);
-            // Tiled UV [0,1]×[0,1]
-            vertF32[off + 4] = fuv[v * 2 + 0];
-            vertF32[off + 5] = fuv[v * 2 + 1];
-            // AO = 1.0 (no ambient occlusion for LOD)
-            vertF32[off + 6] = 1.0;
-            vertCount++;
-          }
-
-          // Indices: CCW winding, no AO flip (all AO = 1.0)
-          idxArr[idxCount++] = baseVertex + 0;
-          idxArr[idxCount++] = baseVertex + 2;
-          idxArr[idxCount++] = baseVertex + 1;
-          idxArr[idxCount++] = baseVertex + 0;
-          idxArr[idxCount++] = baseVertex + 3;
-          idxArr[idxCount++] = baseVertex + 2;
+          emitFace(lx, lz, face, blockType, ly * scale, (ly + 1) * scale);
         }
       }
     }
   }
 
+  // Skirts: [edge bit, face, border column start (lx, lz), step along the border]
+  const skirtEdges: [number, number, number, number, number, number][] = [
+    [LOD_EDGE_NORTH, 2, 0, grid.depth - 1, 1, 0],
+    [LOD_EDGE_SOUTH, 3, 0, 0, 1, 0],
+    [LOD_EDGE_EAST, 4, grid.width - 1, 0, 0, 1],
+    [LOD_EDGE_WEST, 5, 0, 0, 0, 1],
+  ];
+  for (const [edge, face, startX, startZ, stepX, stepZ] of skirtEdges) {
+    if (!(finerEdges & edge)) continue;
+    const length = stepX ? grid.width : grid.depth;
+    for (let i = 0; i < length; i++) {
+      const lx = startX + i * stepX;
+      const lz = startZ + i * stepZ;
+      // Topmost solid block of the border column
+      for (let ly = grid.height - 1; ly >= 0; ly--) {
+        const blockType = lodBlocks[lodIndex(grid, lx, ly, lz)];
+        if (!isBlockSolid(blockType)) continue;
+        const top = (ly + 1) * scale;
+        emitFace(lx, lz, face, blockType, Math.max(0, top - SKIRT_DEPTH * scale), top);
+        break;
+      }
+    }
+  }
+
   // Trim to exact size with independent ArrayBuffers
   const finalVert = new Float32Array(vertF32.buffer.slice(0, vertCount * 7 * 4));
   const finalIdx = new Uint32Array(idxArr.buffer.slice(0, idxCount * 4));
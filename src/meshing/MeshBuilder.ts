@@ -1,6 +1,6 @@
-import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH, ATLAS_TILES } from '../constants';
-import { BlockType, isBlockWater, isBlockSolid, isBlockCutout, isBlockCrossMesh, isBlockTorch, TorchFacing } from '../terrain/BlockTypes';
-import { Chunk } from '../terrain/Chunk';
+import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH, ATLAS_TILES, SECTION_HEIGHT, SECTION_COUNT } from '../constants';
+import { BlockType, BlockShape, isBlockWater, isBlockSolid, isBlockCutout, isBlockCrossMesh, isBlockTorch, TorchFacing, getFluidHeight, getBlockData, getBlockTile } from '../terrain/BlockTypes';
+import { Chunk, SectionFill } from '../terrain/Chunk';
 
 // Face enum: TOP=0, BOTTOM=1, NORTH=2(+Z), SOUTH=3(-Z), EAST=4(+X), WEST=5(-X)
 const FACE_VERTICES: Float32Array[] = [
@@ -18,6 +18,11 @@ const FACE_VERTICES: Float32Array[] = [
   new Float32Array([0,0,1,  0,0,0,  0,1,0,  0,1,1]),
 ];
 
+// Outward normal per face, same order as FACE_VERTICES
+const FACE_NORMALS: [number, number, number][] = [
+  [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1], [1, 0, 0], [-1, 0, 0],
+];
+
 // Growable typed buffer for building mesh data directly into typed arrays.
 // Supports dual f32/u32 views on the same ArrayBuffer for interleaved packing.
 class GrowableBuffer {
@@ -154,6 +159,12 @@ export interface ChunkNeighbors {
   south: Chunk | null;  // -Z
   east: Chunk | null;   // +X
   west: Chunk | null;   // -X
+  // Diagonals: raw blocks of the corner column touching this chunk (Chunk.exportColumn);
+  // only water surface corners on the chunk's own corner columns read them
+  northEast: Uint16Array | null;
+  northWest: Uint16Array | null;
+  southEast: Uint16Array | null;
+  southWest: Uint16Array | null;
 }
 
 export interface MeshData {
@@ -173,6 +184,11 @@ export interface MeshData {
   vegIndexCount: number;
 }
 
+/** Section index → mesh; null when the section has no geometry (empty, or opaque and buried) */
+export type ChunkMeshes = Map<number, MeshData | null>;
+
+const ALL_SECTIONS: ReadonlyArray<number> = Array.from({ length: SECTION_COUNT }, (_, i) => i);
+
 // ---- Greedy meshing types ----
 // Face descriptor for greedy meshing: encodes blockType + 4 AO values.
 // Value 0 means "no face here" (already merged or not visible).
@@ -181,6 +197,8 @@ const NO_FACE = 0;
 const CUTOUT_FACE = -1;
 
 // Pack blockType + 4 AO values (each 0-3 = 2 bits) into a single i32.
+// The atlas tile is picked per (blockType, face) in the shader and each greedy pass covers one
+// face direction, so blockType stays a complete merge key even for blocks with per-face tiles.
 // Layout: bits[0..7]=blockType, bits[8..9]=ao0, bits[10..11]=ao1, bits[12..13]=ao2, bits[14..15]=ao3
 function packFaceDesc(blockType: number, ao0: number, ao1: number, ao2: number, ao3: number): number {
   return (blockType & 0xFF) | ((ao0 & 3) << 8) | ((ao1 & 3) << 10) | ((ao2 & 3) << 12) | ((ao3 & 3) << 14);
@@ -199,7 +217,7 @@ function unpackAO(desc: number): [number, number, number, number] {
   ];
 }
 
-// Greedy meshing axis configuration for each face direction.
+// Greedy meshing axis configuration for each face direction (Y spans one section).
 // For each face, we need:
 //   - sliceAxis: the axis perpendicular to the face (0=X, 1=Y, 2=Z)
 //   - uAxis, vAxis: the two axes spanning the face plane
@@ -218,75 +236,91 @@ interface GreedyFaceConfig {
 
 const GREEDY_CONFIGS: GreedyFaceConfig[] = [
   // TOP (face=0): slice along Y, u=X, v=Z, positive face
-  { face: 0, sliceAxis: 1, uAxis: 0, vAxis: 2, sliceMax: CHUNK_HEIGHT, uMax: CHUNK_WIDTH, vMax: CHUNK_DEPTH, positive: true },
+  { face: 0, sliceAxis: 1, uAxis: 0, vAxis: 2, sliceMax: SECTION_HEIGHT, uMax: CHUNK_WIDTH, vMax: CHUNK_DEPTH, positive: true },
   // BOTTOM (face=1): slice along Y, u=X, v=Z, negative face
-  { face: 1, sliceAxis: 1, uAxis: 0, vAxis: 2, sliceMax: CHUNK_HEIGHT, uMax: CHUNK_WIDTH, vMax: CHUNK_DEPTH, positive: false },
+  { face: 1, sliceAxis: 1, uAxis: 0, vAxis: 2, sliceMax: SECTION_HEIGHT, uMax: CHUNK_WIDTH, vMax: CHUNK_DEPTH, positive: false },
   // NORTH (face=2, +Z): slice along Z, u=X, v=Y, positive face
-  { face: 2, sliceAxis: 2, uAxis: 0, vAxis: 1, sliceMax: CHUNK_DEPTH, uMax: CHUNK_WIDTH, vMax: CHUNK_HEIGHT, positive: true },
+  { face: 2, sliceAxis: 2, uAxis: 0, vAxis: 1, sliceMax: CHUNK_DEPTH, uMax: CHUNK_WIDTH, vMax: SECTION_HEIGHT, positive: true },
   // SOUTH (face=3, -Z): slice along Z, u=X, v=Y, negative face
-  { face: 3, sliceAxis: 2, uAxis: 0, vAxis: 1, sliceMax: CHUNK_DEPTH, uMax: CHUNK_WIDTH, vMax: CHUNK_HEIGHT, positive: false },
+  { face: 3, sliceAxis: 2, uAxis: 0, vAxis: 1, sliceMax: CHUNK_DEPTH, uMax: CHUNK_WIDTH, vMax: SECTION_HEIGHT, positive: false },
   // EAST (face=4, +X): slice along X, u=Z, v=Y, positive face
-  { face: 4, sliceAxis: 0, uAxis: 2, vAxis: 1, sliceMax: CHUNK_WIDTH, uMax: CHUNK_DEPTH, vMax: CHUNK_HEIGHT, positive: true },
+  { face: 4, sliceAxis: 0, uAxis: 2, vAxis: 1, sliceMax: CHUNK_WIDTH, uMax: CHUNK_DEPTH, vMax: SECTION_HEIGHT, positive: true },
   // WEST (face=5, -X): slice along X, u=Z, v=Y, negative face
-  { face: 5, sliceAxis: 0, uAxis: 2, vAxis: 1, sliceMax: CHUNK_WIDTH, uMax: CHUNK_DEPTH, vMax: CHUNK_HEIGHT, positive: false },
+  { face: 5, sliceAxis: 0, uAxis: 2, vAxis: 1, sliceMax: CHUNK_WIDTH, uMax: CHUNK_DEPTH, vMax: SECTION_HEIGHT, positive: false },
 ];
 
-export function buildChunkMesh(chunk: Chunk, neighbors: ChunkNeighbors | null = null): MeshData {
-  const solidVerts = new GrowableBuffer(70000);
-  const solidIdx = new GrowableIndexBuffer(15000);
+/**
+ * Mesh the given sections of a chunk (default: all), skipping sections that cannot
+ * produce visible faces.
+ */
+export function buildChunkMeshes(
+  chunk: Chunk,
+  neighbors: ChunkNeighbors | null = null,
+  sections: Iterable<number> = ALL_SECTIONS,
+): ChunkMeshes {
+  const fills: SectionFill[] = [];
+  for (let s = 0; s < SECTION_COUNT; s++) fills.push(chunk.getSectionFill(s));
+
+  const meshes: ChunkMeshes = new Map();
+  for (const s of sections) {
+    if (fills[s] === SectionFill.EMPTY || isSectionBuried(fills, neighbors, s)) {
+      meshes.set(s, null);
+      continue;
+    }
+    const mesh = buildSectionMesh(chunk, neighbors, s);
+    const empty = mesh.indexCount === 0 && mesh.waterIndexCount === 0 && mesh.vegIndexCount === 0;
+    meshes.set(s, empty ? null : mesh);
+  }
+  return meshes;
+}
+
+// An opaque section walled in by opaque sections on all six sides has no visible faces.
+// The bottom section is never buried: faces below the world are drawn.
+function isSectionBuried(fills: SectionFill[], neighbors: ChunkNeighbors | null, s: number): boolean {
+  if (fills[s] !== SectionFill.OPAQUE || s === 0 || s === SECTION_COUNT - 1) return false;
+  if (fills[s - 1] !== SectionFill.OPAQUE || fills[s + 1] !== SectionFill.OPAQUE) return false;
+  if (!neighbors) return false;
+  for (const n of [neighbors.north, neighbors.south, neighbors.east, neighbors.west]) {
+    if (!n || n.getSectionFill(s) !== SectionFill.OPAQUE) return false;
+  }
+  return true;
+}
+
+/** Mesh one vertical section (blocks y in [section*SECTION_HEIGHT, +SECTION_HEIGHT)). */
+export function buildSectionMesh(chunk: Chunk, neighbors: ChunkNeighbors | null, section: number): MeshData {
+  const y0 = section * SECTION_HEIGHT;
+  const solidVerts = new GrowableBuffer(8000);
+  const solidIdx = new GrowableIndexBuffer(2000);
   let vertexCount = 0;
 
-  // Water mesh (separate): pos3 + uv2 = 5 floats per vertex
-  const waterVerts = new GrowableBuffer(5000);
-  const waterIdx = new GrowableIndexBuffer(3000);
+  // Water mesh (separate): pos3 + uv2 + flow3 + foam = 9 floats per vertex
+  const waterVerts = new GrowableBuffer(1000);
+  const waterIdx = new GrowableIndexBuffer(600);
   let waterVertexCount = 0;
 
   // Vegetation mesh (cross-mesh): same 28-byte (7 float) vertex format as solid
-  const vegVerts = new GrowableBuffer(8000);
-  const vegIdx = new GrowableIndexBuffer(4800);
+  const vegVerts = new GrowableBuffer(2000);
+  const vegIdx = new GrowableIndexBuffer(1200);
   let vegVertexCount = 0;
 
   const uvSize = 1.0 / ATLAS_TILES;
 
-  // UV lookup table: vertex 0=(0,0), 1=(1,0), 2=(1,1), 3=(0,1)
-  const UV_U = [0, 1, 1, 0];
-  const UV_V = [0, 0, 1, 1];
-
   // ---- First pass: Water and Vegetation (per-block, no greedy) ----
   for (let x = 0; x < CHUNK_WIDTH; x++) {
-    for (let y = 0; y < CHUNK_HEIGHT; y++) {
+    for (let y = y0; y < y0 + SECTION_HEIGHT; y++) {
       for (let z = 0; z < CHUNK_DEPTH; z++) {
         const blockType = chunk.getBlock(x, y, z);
         if (blockType === BlockType.AIR) continue;
 
-        // Water blocks go to separate mesh (TOP face only = water surface)
+        // Water blocks go to separate mesh: surface plus sides spilling into open air
         if (isBlockWater(blockType)) {
-          if (!shouldRenderWaterFace(chunk, neighbors, x, y, z, 0)) continue;
-
-          const fv = FACE_VERTICES[0];
-          const baseVertex = waterVertexCount;
-
-          waterVerts.ensure(20);
-          for (let v = 0; v < 4; v++) {
-            waterVerts.pushF32(chunk.worldOffsetX + x + fv[v * 3 + 0]);
-            waterVerts.pushF32(y + fv[v * 3 + 1]);
-            waterVerts.pushF32(chunk.worldOffsetZ + z + fv[v * 3 + 2]);
-            waterVerts.pushF32(UV_U[v]);
-            waterVerts.pushF32(UV_V[v]);
-          }
-
-          waterIdx.ensure(6);
-          waterIdx.push6(
-            baseVertex + 0, baseVertex + 2, baseVertex + 1,
-            baseVertex + 0, baseVertex + 3, baseVertex + 2,
-          );
-          waterVertexCount += 4;
+          waterVertexCount += emitWaterBlock(chunk, neighbors, x, y, z, waterVerts, waterIdx, waterVertexCount);
           continue;
         }
 
         // Cross-mesh vegetation blocks (X-shaped two diagonal quads)
         if (isBlockCrossMesh(blockType)) {
-          const tileIndex = blockType as number;
+          const tileIndex = getBlockTile(blockType, 0);
           const tileU = (tileIndex % ATLAS_TILES) * uvSize;
           const tileV = Math.floor(tileIndex / ATLAS_TILES) * uvSize;
 
@@ -347,7 +381,7 @@ export function buildChunkMesh(chunk: Chunk, neighbors: ChunkNeighbors | null =
 
         // Torch cross-mesh (X-shaped two diagonal quads, narrower + meta-based offset)
         if (isBlockTorch(blockType)) {
-          const tileIndex = blockType as number;
+          const tileIndex = getBlockTile(blockType, 0);
           const tileU = (tileIndex % ATLAS_TILES) * uvSize;
           const tileV = Math.floor(tileIndex / ATLAS_TILES) * uvSize;
 
@@ -443,12 +477,13 @@ export function buildChunkMesh(chunk: Chunk, neighbors: ChunkNeighbors | null =
           coords[sliceAxis] = slice;
           coords[uAxis] = u;
           coords[vAxis] = v;
+          coords[1] += y0;
           const bx = coords[0], by = coords[1], bz = coords[2];
 
           const blockType = chunk.getBlock(bx, by, bz);
 
-          // Skip non-solid, water, vegetation, torches
-          if (blockType === BlockType.AIR || isBlockWater(blockType) || isBlockCrossMesh(blockType) || isBlockTorch(blockType)) {
+          // Only cube-shaped blocks are greedy meshed (skips air, water, vegetation, torches)
+          if (getBlockData(blockType).shape !== BlockShape.CUBE) {
             grid[u + v * uMax] = NO_FACE;
             continue;
           }
@@ -529,6 +564,7 @@ export function buildChunkMesh(chunk: Chunk, neighbors: ChunkNeighbors | null =
           origin[sliceAxis] = slice;
           origin[uAxis] = u;
           origin[vAxis] = v;
+          origin[1] += y0;
 
           emitGreedyQuad(
             chunk, solidVerts, solidIdx,
@@ -569,7 +605,157 @@ export function buildChunkMesh(chunk: Chunk, neighbors: ChunkNeighbors | null =
   };
 }
 
+// Corner height + foam of a water surface, filled in by sampleWaterCorner
+interface WaterCorner {
+  height: number;
+  foam: number;
+}
+
+const waterCorners: WaterCorner[] = [0, 1, 2, 3].map(() => ({ height: 0, foam: 0 }));
+
+// Water UVs per quad vertex: 0=(0,0), 1=(1,0), 2=(1,1), 3=(0,1)
+const WATER_UV_U = [0, 1, 1, 0];
+const WATER_UV_V = [0, 0, 1, 1];
+
+// Surface slope → flow vector scale (a one-level drop between neighbors is 0.125)
+const WATER_FLOW_STRENGTH = 4;
+
+/**
+ * Emit one water block: a top surface whose corners follow the neighboring fluid levels,
+ * and side faces where the water borders open air (spills and waterfalls). Returns vertices added.
+ */
+function emitWaterBlock(
+  chunk: Chunk, neighbors: ChunkNeighbors | null, x: number, y: number, z: number,
+  verts: GrowableBuffer, idx: GrowableIndexBuffer, baseVertex: number,
+): number {
+  const top = shouldRenderWaterFace(chunk, neighbors, x, y, z, 0);
+  const sides: number[] = [];
+  for (let face = 2; face < 6; face++) {
+    const [dx, , dz] = FACE_NORMALS[face];
+    const raw = getRawAt(chunk, neighbors, x + dx, y, z + dz);
+    // Walls only face open air (plants and torches hide them); unloaded neighbors get none until remeshed
+    if (raw !== null && (raw & 0xFF) === BlockType.AIR) sides.push(face);
+  }
+  if (!top && sides.length === 0) return 0;
+
+  // Corners in (x, z) order: (0,0) (1,0) (0,1) (1,1)
+  for (let i = 0; i < 4; i++) {
+    sampleWaterCorner(chunk, neighbors, x + (i & 1), y, z + (i >> 1), waterCorners[i]);
+  }
+
+  const wx = chunk.worldOffsetX + x;
+  const wz = chunk.worldOffsetZ + z;
+  let added = 0;
+
+  if (top) {
+    const [flowX, flowZ] = waterFlow(chunk, neighbors, x, y, z);
+    const fv = FACE_VERTICES[0];
+    verts.ensure(36);
+    for (let v = 0; v < 4; v++) {
+      const corner = waterCorners[fv[v * 3] + fv[v * 3 + 2] * 2];
+      verts.pushF32(wx + fv[v * 3]);
+      verts.pushF32(y + corner.height);
+      verts.pushF32(wz + fv[v * 3 + 2]);
+      verts.pushF32(WATER_UV_U[v]);
+      verts.pushF32(WATER_UV_V[v]);
+      verts.pushF32(flowX);
+      verts.pushF32(0);
+      verts.pushF32(flowZ);
+      verts.pushF32(corner.foam);
+    }
+    pushWaterQuad(idx, baseVertex);
+    added += 4;
+  }
+
+  for (const face of sides) {
+    const [dx, , dz] = FACE_NORMALS[face];
+    // Foam along the bottom edge where the fall meets water below
+    const below = getRawAt(chunk, neighbors, x + dx, y - 1, z + dz);
+    const splash = below !== null && isBlockWater(below & 0xFF) ? 1 : 0;
+    const fv = FACE_VERTICES[face];
+    verts.ensure(36);
+    for (let v = 0; v < 4; v++) {
+      const vx = fv[v * 3], vy = fv[v * 3 + 1], vz = fv[v * 3 + 2];
+      verts.pushF32(wx + vx);
+      verts.pushF32(y + vy * waterCorners[vx + vz * 2].height);
+      verts.pushF32(wz + vz);
+      verts.pushF32(WATER_UV_U[v]);
+      verts.pushF32(WATER_UV_V[v]);
+      verts.pushF32(0);
+      verts.pushF32(-1);
+      verts.pushF32(0);
+      verts.pushF32(vy === 0 ? splash : 0);
+    }
+    pushWaterQuad(idx, baseVertex + added);
+    added += 4;
+  }
+  return added;
+}
+
+function pushWaterQuad(idx: GrowableIndexBuffer, base: number): void {
+  idx.ensure(6);
+  idx.push6(base + 0, base + 2, base + 1, base + 0, base + 3, base + 2);
+}
+
+/**
+ * Surface height at a block corner: the average over the four cells sharing it, where open air
+ * pulls the edge down and solid blocks don't count. Water falling into any of the cells lifts
+ * the corner to the full block and marks it with foam.
+ */
+function sampleWaterCorner(chunk: Chunk, neighbors: ChunkNeighbors | null, cornerX: number, y: number, cornerZ: number, out: WaterCorner): void {
+  let sum = 0;
+  let weight = 0;
+  for (let i = 0; i < 4; i++) {
+    const x = cornerX - 1 + (i & 1);
+    const z = cornerZ - 1 + (i >> 1);
+    const raw = getRawAt(chunk, neighbors, x, y, z);
+    if (raw === null) continue;
+    const type = raw & 0xFF;
+    if (isBlockWater(type)) {
+      const above = getRawAt(chunk, neighbors, x, y + 1, z);
+      if (above !== null && isBlockWater(above & 0xFF)) {
+        out.height = 1;
+        out.foam = 1;
+        return;
+      }
+      sum += getFluidHeight(raw >> 8);
+      weight++;
+    } else if (!isBlockSolid(type)) {
+      weight++;
+    }
+  }
+  out.height = weight > 0 ? sum / weight : 1;
+  out.foam = 0;
+}
+
+// Horizontal flow of a water cell: downhill toward lower neighbors and open edges, length <= 1
+function waterFlow(chunk: Chunk, neighbors: ChunkNeighbors | null, x: number, y: number, z: number): [number, number] {
+  const height = getFluidHeight(chunk.getBlockMeta(x, y, z));
+  let fx = 0, fz = 0;
+  for (let face = 2; face < 6; face++) {
+    const [dx, , dz] = FACE_NORMALS[face];
+    const raw = getRawAt(chunk, neighbors, x + dx, y, z + dz);
+    if (raw === null) continue;
+    const type = raw & 0xFF;
+    if (isBlockSolid(type)) continue;
+    const drop = height - (isBlockWater(type) ? getFluidHeight(raw >> 8) : 0);
+    fx += dx * drop;
+    fz += dz * drop;
+  }
+  fx *= WATER_FLOW_STRENGTH;
+  fz *= WATER_FLOW_STRENGTH;
+  const len = Math.hypot(fx, fz);
+  return len > 1 ? [fx / len, fz / len] : [fx, fz];
+}
+
 // Emit a single per-face quad for cutout blocks (LEAVES) — original atlas UV, per-vertex AO
+// Per-face UV lookup. Top/bottom: vertex 0=(0,0), 1=(1,0), 2=(1,1), 3=(0,1).
+// Sides are upright like greedy quads: 0=(1,1), 1=(0,1), 2=(0,0), 3=(1,0)
+const CAP_UV_U = [0, 1, 1, 0];
+const CAP_UV_V = [0, 0, 1, 1];
+const SIDE_UV_U = [1, 0, 0, 1];
+const SIDE_UV_V = [1, 1, 0, 0];
+
 function emitPerFaceSolid(
   chunk: Chunk, neighbors: ChunkNeighbors | null,
   solidVerts: GrowableBuffer, solidIdx: GrowableIndexBuffer,
@@ -578,13 +764,12 @@ function emitPerFaceSolid(
   uvSize: number, baseVertex: number,
 ): void {
   const fv = FACE_VERTICES[face];
-  const tileIndex = blockType as number;
+  const tileIndex = getBlockTile(blockType, face);
   const tileU = (tileIndex % ATLAS_TILES) * uvSize;
   const tileV = Math.floor(tileIndex / ATLAS_TILES) * uvSize;
 
-  // UV lookup table: vertex 0=(0,0), 1=(1,0), 2=(1,1), 3=(0,1)
-  const UV_U = [0, 1, 1, 0];
-  const UV_V = [0, 0, 1, 1];
+  const uvU = face < 2 ? CAP_UV_U : SIDE_UV_U;
+  const uvV = face < 2 ? CAP_UV_V : SIDE_UV_V;
 
   solidVerts.ensure(28);
   solidIdx.ensure(6);
@@ -599,8 +784,8 @@ function emitPerFaceSolid(
     solidVerts.pushF32(vy);
     solidVerts.pushF32(chunk.worldOffsetZ + vz);
     solidVerts.pushU32(face | (blockType << 8));
-    solidVerts.pushF32(tileU + UV_U[v] * uvSize);
-    solidVerts.pushF32(tileV + UV_V[v] * uvSize);
+    solidVerts.pushF32(tileU + uvU[v] * uvSize);
+    solidVerts.pushF32(tileV + uvV[v] * uvSize);
     const aoVal = computeVertexAO(chunk, neighbors, bx, by, bz, face, v);
     solidVerts.pushF32(aoVal);
 
@@ -683,23 +868,17 @@ function emitGreedyQuad(
   // For greedy merged quads, UV ranges [0..W] × [0..H] so shader can fract() to tile.
   //
   // UV mapping per face uses same corner order as the vertex positions.
-  // UV_U represents extent along u-axis, UV_V along v-axis:
+  // UV_U represents extent along u-axis, UV_V along v-axis.
+  // Side faces put v=0 at the top and u left-to-right seen from outside, so side tiles
+  // (grass edges, chest fronts) read upright; v0 is the bottom-right corner of every side.
   let uvCorners: number[];
   switch (face) {
     case 0: // TOP: v0(0,0) v1(w,0) v2(w,h) v3(0,h)
       uvCorners = [0, 0, w, 0, w, h, 0, h]; break;
     case 1: // BOTTOM: v0(0,h) v1(w,h) v2(w,0) v3(0,0)
       uvCorners = [0, h, w, h, w, 0, 0, 0]; break;
-    case 2: // NORTH: v0(w,0) v1(0,0) v2(0,h) v3(w,h)
-      uvCorners = [w, 0, 0, 0, 0, h, w, h]; break;
-    case 3: // SOUTH: v0(0,0) v1(w,0) v2(w,h) v3(0,h)
-      uvCorners = [0, 0, w, 0, w, h, 0, h]; break;
-    case 4: // EAST: v0(0,0) v1(w,0) v2(w,h) v3(0,h)
-      uvCorners = [0, 0, w, 0, w, h, 0, h]; break;
-    case 5: // WEST: v0(w,0) v1(0,0) v2(0,h) v3(w,h)
-      uvCorners = [w, 0, 0, 0, 0, h, w, h]; break;
-    default:
-      uvCorners = [0, 0, w, 0, w, h, 0, h]; break;
+    default: // NORTH/SOUTH/EAST/WEST: v0(w,h) v1(0,h) v2(0,0) v3(w,0)
+      uvCorners = [w, h, 0, h, 0, 0, w, 0]; break;
   }
 
   solidVerts.ensure(28);
@@ -781,6 +960,25 @@ function getBlockAt(chunk: Chunk, neighbors: ChunkNeighbors | null, x: number, y
   return chunk.getBlock(x, y, z);
 }
 
+// Raw block (type | meta << 8) across chunk borders, diagonals included (one block past the corner only);
+// null where that chunk isn't available
+function getRawAt(chunk: Chunk, neighbors: ChunkNeighbors | null, x: number, y: number, z: number): number | null {
+  if (y < 0 || y >= CHUNK_HEIGHT) return BlockType.AIR;
+  const outX = x < 0 || x >= CHUNK_WIDTH;
+  const outZ = z < 0 || z >= CHUNK_DEPTH;
+  if (outX && outZ) {
+    const diagonal = z >= CHUNK_DEPTH
+      ? (x >= CHUNK_WIDTH ? neighbors?.northEast : neighbors?.northWest)
+      : (x >= CHUNK_WIDTH ? neighbors?.southEast : neighbors?.southWest);
+    return diagonal ? diagonal[y] : null;
+  }
+  if (x < 0) return neighbors?.west?.getBlockRaw(CHUNK_WIDTH + x, y, z) ?? null;
+  if (x >= CHUNK_WIDTH) return neighbors?.east?.getBlockRaw(x - CHUNK_WIDTH, y, z) ?? null;
+  if (z < 0) return neighbors?.south?.getBlockRaw(x, y, CHUNK_DEPTH + z) ?? null;
+  if (z >= CHUNK_DEPTH) return neighbors?.north?.getBlockRaw(x, y, z - CHUNK_DEPTH) ?? null;
+  return chunk.getBlockRaw(x, y, z);
+}
+
 function shouldRenderWaterFace(chunk: Chunk, neighbors: ChunkNeighbors | null, x: number, y: number, z: number, face: number): boolean {
   let nx = x, ny = y, nz = z;
   switch (face) {
@@ -229,4 +229,23 @@ export class FractalNoise {
 
     return total / maxValue;
   }
+
+  sample3D(x: number, y: number, z: number): number {
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let maxValue = 0;
+
+    for (let i = 0; i < this.octaves; i++) {
+      const sx = (x / this.scale) * frequency;
+      const sy = (y / this.scale) * frequency;
+      const sz = (z / this.scale) * frequency;
+      total += this.noise.noise3D(sx, sy, sz) * amplitude;
+      maxValue += amplitude;
+      amplitude *= this.persistence;
+      frequency *= this.lacunarity;
+    }
+
+    return total / maxValue;
+  }
 }
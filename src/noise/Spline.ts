@@ -0,0 +1,76 @@
+// Monotone cubic spline (Fritsch-Carlson) through [input, output] control points.
+// Smooth like Catmull-Rom but never overshoots between points, so a flat run stays flat.
+
+export class Spline {
+  private xs: Float64Array;
+  private ys: Float64Array;
+  private tangents: Float64Array;
+
+  /** Points must have strictly ascending inputs (Config validates this) */
+  constructor(points: ReadonlyArray<readonly [number, number]>) {
+    const n = points.length;
+    this.xs = new Float64Array(n);
+    this.ys = new Float64Array(n);
+    this.tangents = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      this.xs[i] = points[i][0];
+      this.ys[i] = points[i][1];
+    }
+    this.computeTangents();
+  }
+
+  private computeTangents(): void {
+    const { xs, ys, tangents: m } = this;
+    const n = xs.length;
+    if (n < 2) return;
+
+    const slopes = new Float64Array(n - 1);
+    for (let i = 0; i < n - 1; i++) slopes[i] = (ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]);
+
+    m[0] = slopes[0];
+    m[n - 1] = slopes[n - 2];
+    for (let i = 1; i < n - 1; i++) {
+      // Local extremum or flat segment: zero tangent keeps the curve monotone
+      m[i] = slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) * 0.5;
+    }
+
+    // Limit tangents so each segment stays monotone
+    for (let i = 0; i < n - 1; i++) {
+      if (slopes[i] === 0) {
+        m[i] = 0;
+        m[i + 1] = 0;
+        continue;
+      }
+      const a = m[i] / slopes[i];
+      const b = m[i + 1] / slopes[i];
+      const h = a * a + b * b;
+      if (h > 9) {
+        const t = 3 / Math.sqrt(h);
+        m[i] = t * a * slopes[i];
+        m[i + 1] = t * b * slopes[i];
+      }
+    }
+  }
+
+  /** Output at x; clamps to the end points outside the control range */
+  evaluate(x: number): number {
+    const { xs, ys, tangents: m } = this;
+    const n = xs.length;
+    if (n === 0) return 0;
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[n - 1]) return ys[n - 1];
+
+    let i = 0;
+    while (x > xs[i + 1]) i++;
+
+    // Cubic Hermite basis on segment i
+    const h = xs[i + 1] - xs[i];
+    const t = (x - xs[i]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * ys[i]
+      + (t3 - 2 * t2 + t) * h * m[i]
+      + (-2 * t3 + 3 * t2) * ys[i + 1]
+      + (t3 - t2) * h * m[i + 1];
+  }
+}
@@ -5,6 +5,9 @@ import { ShadowMap, ChunkDrawCall } from './ShadowMap';
 import { SSAO } from './SSAO';
 import { PostProcess } from './PostProcess';
 import { TAA } from './TAA';
+import { HiZBuffer } from './HiZBuffer';
+import { IndirectRenderer, IndirectGeometry, OcclusionPhase, OcclusionStats, CAMERA_CULL_VIEW } from './IndirectRenderer';
+import { createFrustumPlanes, extractFrustumPlanes } from './Frustum';
 import { DayNightCycle } from '../world/DayNightCycle';
 import { WeatherSystem, WeatherType } from '../world/WeatherSystem';
 import { Config } from '../config/Config';
@@ -19,6 +22,7 @@ import {
   MAX_POINT_LIGHTS,
 } from '../constants';
 import type { PointLight } from '../terrain/ChunkManager';
+import type { RaycastHit } from '../terrain/VoxelRaycast';
 
 import { CloudNoiseGenerator } from './CloudNoiseGenerator';
 import { VolumetricClouds } from './VolumetricClouds';
@@ -30,6 +34,7 @@ import skyShader from '../shaders/sky.wgsl?raw';
 import waterVertShader from '../shaders/water.vert.wgsl?raw';
 import waterFragShader from '../shaders/water.frag.wgsl?raw';
 import weatherShader from '../shaders/weather.wgsl?raw';
+import blockOutlineShader from '../shaders/block_outline.wgsl?raw';
 
 /** Convert f32 → f16 bit pattern (IEEE 754 half-precision). */
 function floatToFloat16(value: number): number {
@@ -44,7 +49,7 @@ function floatToFloat16(value: number): number {
   return sign | (exp << 10) | frac;
 }
 
-// SceneUniforms: invViewProj(64) + cameraPos(16) + lightDir(16) + sunColor(16) + ambientColor(16) + fogParams(16) + cloudParams(16) + viewProj(64) + contactShadowParams(16) + skyNightParams(16) = 256 bytes
+// SceneUniforms: invViewProj(64) + cameraPos(16) + lightDir(16) + sunColor(16) + ambientColor(16) + fogParams(16) + biomeTint(16) + viewProj(64) + contactShadowParams(16) + skyNightParams(16) = 256 bytes
 const SCENE_UNIFORM_SIZE = 256;
 // Camera uniform for G-Buffer pass: viewProj(64) + cameraPos(16) + fogParams(16) + time(4) + pad(12) = 112 bytes
 const CAMERA_UNIFORM_SIZE = 112;
@@ -59,10 +64,16 @@ const WEATHER_UNIFORM_SIZE = 96;
 // Weather particle count: 64x64 grid
 const WEATHER_PARTICLE_COUNT = 64 * 64;
 
+// Block outline uniform: viewProjection(64) + corners(4 × 16) + color(16) = 144 bytes
+const OUTLINE_UNIFORM_SIZE = 144;
+// Push the outline off the face so it doesn't z-fight with the block
+const OUTLINE_SURFACE_OFFSET = 0.004;
+
 // PointLight storage: count(4) + pad(12) + 128 * (position(12)+radius(4)+color(12)+intensity(4)) = 16 + 128*32 = 4112 bytes
 const POINT_LIGHT_BUFFER_SIZE = 16 + MAX_POINT_LIGHTS * 32;
 
 export type { ChunkDrawCall } from './ShadowMap';
+export type { IndirectGeometry } from './IndirectRenderer';
 
 export class DeferredPipeline {
   private ctx: WebGPUContext;
@@ -73,6 +84,7 @@ export class DeferredPipeline {
   private ssao: SSAO;
   private postProcess: PostProcess;
   private taa: TAA;
+  private hiz: HiZBuffer;
 
   // G-Buffer pass
   private gbufferPipeline!: GPURenderPipeline;
@@ -81,6 +93,8 @@ export class DeferredPipeline {
   private cameraBindGroup!: GPUBindGroup;
   private cameraBindGroupLayout!: GPUBindGroupLayout;
   private textureBindGroupLayout!: GPUBindGroupLayout;
+  // Group 2: per-renderer chunk metadata (LOD cross-fade factor)
+  private chunkMetaBindGroupLayout!: GPUBindGroupLayout;
   private textureBindGroup: GPUBindGroup | null = null;
 
   // Lighting pass
@@ -122,6 +136,7 @@ export class DeferredPipeline {
   private lastProjection = mat4.create();
   private lastInvProjection = mat4.create();
   private unjitteredViewProj = mat4.create();
+  private cameraFrustumPlanes = createFrustumPlanes();
 
   // Pre-allocated uniform buffers (avoid per-frame allocations)
   private camF32 = new Float32Array(CAMERA_UNIFORM_SIZE / 4);
@@ -138,6 +153,16 @@ export class DeferredPipeline {
   private weatherF32 = new Float32Array(WEATHER_UNIFORM_SIZE / 4);
   private weatherSystem: WeatherSystem | null = null;
 
+  // Block outline overlay (build mode target face)
+  private outlinePipeline!: GPURenderPipeline;
+  private outlineUniformBuffer!: GPUBuffer;
+  private outlineBindGroup!: GPUBindGroup;
+  private outlineF32 = new Float32Array(OUTLINE_UNIFORM_SIZE / 4);
+
+  // Sky/fog tint of the biome around the camera
+  private biomeTint: [number, number, number] = [1, 1, 1];
+  private outlineVisible = false;
+
   // Cloud system
   private cloudNoiseGen: CloudNoiseGenerator;
   private volumetricClouds: VolumetricClouds;
@@ -164,6 +189,10 @@ export class DeferredPipeline {
 
 
 
+  // Geometry culled by the last occlusion pass (for HUD stats)
+  private lastIndirect: IndirectGeometry | null = null;
+  private occlusionTotals: OcclusionStats = { visible: 0, occluded: 0, frustumCulled: 0 };
+
   // Shader compilation checks — collected during construction, awaited in init()
   private shaderChecks: Promise<void>[] = [];
 
@@ -175,6 +204,9 @@ export class DeferredPipeline {
     this.ssao = new SSAO(ctx);
     this.postProcess = new PostProcess(ctx);
     this.taa = new TAA(ctx);
+    this.hiz = new HiZBuffer(ctx);
+    this.hiz.resize(ctx.canvas.width, ctx.canvas.height);
+    this.hiz.setDepthView(this.gBuffer.depthView);
     this.cloudNoiseGen = new CloudNoiseGenerator(ctx);
     this.volumetricClouds = new VolumetricClouds(ctx);
     this.createClearCloudTexture();
@@ -185,6 +217,7 @@ export class DeferredPipeline {
     this.createSkyPass();
     this.createWaterPass();
     this.createWeatherPass();
+    this.createOutlinePass();
 
     // Handle resize
     ctx.onResize = () => this.handleResize();
@@ -194,6 +227,7 @@ export class DeferredPipeline {
   async init(): Promise<void> {
     // Collect shader checks from sub-systems
     this.shaderChecks.push(...this.taa.shaderChecks);
+    this.shaderChecks.push(...this.hiz.shaderChecks);
     this.shaderChecks.push(...this.volumetricClouds.shaderChecks);
     this.shaderChecks.push(this.cloudNoiseGen.shaderCheck);
     await Promise.all(this.shaderChecks);
@@ -243,11 +277,19 @@ export class DeferredPipeline {
         { binding: 1, visibility: GPUShaderStage.FRAGMENT, texture: {} },
         { binding: 2, visibility: GPUShaderStage.FRAGMENT, texture: {} },
         { binding: 3, visibility: GPUShaderStage.FRAGMENT, texture: {} },
+        // Block table: wind/flicker flags in the vertex stage, cutout flags and face tiles in the fragment stage
+        { binding: 4, visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT, buffer: { type: 'uniform' } },
+      ],
+    });
+
+    this.chunkMetaBindGroupLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { type: 'read-only-storage' } },
       ],
     });
 
     const pipelineLayout = device.createPipelineLayout({
-      bindGroupLayouts: [this.cameraBindGroupLayout, this.textureBindGroupLayout],
+      bindGroupLayouts: [this.cameraBindGroupLayout, this.textureBindGroupLayout, this.chunkMetaBindGroupLayout],
     });
 
     const vertModule = device.createShaderModule({ code: gbufferVertShader });
@@ -470,10 +512,11 @@ export class DeferredPipeline {
         module: waterVertModule,
         entryPoint: 'main',
         buffers: [{
-          arrayStride: 20, // pos3 + uv2 = 5 floats = 20 bytes
+          arrayStride: 36, // pos3 + uv2 + flow3 + foam1 = 9 floats = 36 bytes
           attributes: [
             { shaderLocation: 0, offset: 0, format: 'float32x3' },
             { shaderLocation: 1, offset: 12, format: 'float32x2' },
+            { shaderLocation: 2, offset: 20, format: 'float32x4' },
           ],
         }],
       },
@@ -585,6 +628,85 @@ export class DeferredPipeline {
     });
   }
 
+  private createOutlinePass(): void {
+    const device = this.ctx.device;
+
+    const layout = device.createBindGroupLayout({
+      entries: [{
+        binding: 0,
+        visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
+        buffer: { type: 'uniform' },
+      }],
+    });
+
+    const module = device.createShaderModule({ code: blockOutlineShader });
+    this.checkShader('block_outline', module);
+
+    this.outlinePipeline = device.createRenderPipeline({
+      layout: device.createPipelineLayout({ bindGroupLayouts: [layout] }),
+      vertex: { module, entryPoint: 'vs_main' },
+      fragment: {
+        module,
+        entryPoint: 'fs_main',
+        targets: [{
+          format: this.ctx.format,
+          blend: {
+            color: { srcFactor: 'src-alpha', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+            alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+          },
+        }],
+      },
+      primitive: { topology: 'triangle-list', cullMode: 'none' },
+      depthStencil: {
+        format: DEPTH_FORMAT,
+        depthWriteEnabled: false,
+        depthCompare: 'less-equal',
+      },
+    });
+
+    this.outlineUniformBuffer = device.createBuffer({
+      size: OUTLINE_UNIFORM_SIZE,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+
+    this.outlineBindGroup = device.createBindGroup({
+      layout,
+      entries: [{ binding: 0, resource: { buffer: this.outlineUniformBuffer } }],
+    });
+
+    // color
+    this.outlineF32.set([1, 1, 1, 0.85], 32);
+  }
+
+  /** Outline the face of a block the ray entered through (null or an inside hit hides it) */
+  setBlockOutline(hit: RaycastHit | null): void {
+    this.outlineVisible = hit !== null && hit.face >= 0;
+    if (!hit || !this.outlineVisible) return;
+
+    // Face plane on the normal's axis, spanned by the other two
+    const axis = hit.normal[0] !== 0 ? 0 : hit.normal[1] !== 0 ? 1 : 2;
+    const sign = hit.normal[axis];
+    const base = [hit.x, hit.y, hit.z];
+    const plane = base[axis] + (sign > 0 ? 1 : 0) + sign * OUTLINE_SURFACE_OFFSET;
+    const ua = (axis + 1) % 3;
+    const va = (axis + 2) % 3;
+    const f32 = this.outlineF32;
+    const uvs = [[0, 0], [1, 0], [1, 1], [0, 1]];
+    for (let i = 0; i < 4; i++) {
+      const o = 16 + i * 4;
+      f32[o + axis] = plane;
+      f32[o + ua] = base[ua] + uvs[i][0];
+      f32[o + va] = base[va] + uvs[i][1];
+      f32[o + 3] = 0;
+    }
+  }
+
+  setBiomeTint(tint: [number, number, number]): void {
+    this.biomeTint[0] = tint[0];
+    this.biomeTint[1] = tint[1];
+    this.biomeTint[2] = tint[2];
+  }
+
   setWeatherSystem(weather: WeatherSystem): void {
     this.weatherSystem = weather;
   }
@@ -593,7 +715,7 @@ export class DeferredPipeline {
     this.postProcess.updateBloomParams();
   }
 
-  setAtlasTexture(albedoTexture: GPUTexture, materialTexture: GPUTexture, normalTexture?: GPUTexture): void {
+  setAtlasTexture(albedoTexture: GPUTexture, materialTexture: GPUTexture, blockTable: GPUBuffer, normalTexture?: GPUTexture): void {
     if (!this.atlasSampler) {
       this.atlasSampler = this.ctx.device.createSampler({
         magFilter: 'nearest',
@@ -614,11 +736,12 @@ export class DeferredPipeline {
         { binding: 1, resource: albedoTexture.createView() },
         { binding: 2, resource: materialTexture.createView() },
         { binding: 3, resource: normTex.createView() },
+        { binding: 4, resource: { buffer: blockTable } },
       ],
     });
 
     // Pass atlas to shadow map for cutout shadow rendering
-    this.shadowMap.setAtlasTexture(albedoTexture, this.atlasSampler);
+    this.shadowMap.setAtlasTexture(albedoTexture, this.atlasSampler, blockTable);
   }
 
   private createFlatNormalTexture(): GPUTexture {
@@ -674,6 +797,7 @@ export class DeferredPipeline {
 
     // Store unjittered viewProj for lighting, velocity, SSR, etc.
     mat4.copy(this.unjitteredViewProj, viewProj);
+    extractFrustumPlanes(this.unjitteredViewProj as Float32Array, this.cameraFrustumPlanes);
 
     // Apply TAA jitter to projection for G-Buffer pass
     const taaEnabled = Config.data.rendering.taa.enabled;
@@ -744,11 +868,10 @@ export class DeferredPipeline {
     new Uint16Array(skyPackBuf)[0] = lo;
     new Uint16Array(skyPackBuf)[1] = hi;
     sceneF32[34] = new Float32Array(skyPackBuf)[0];    // fogParams.z = packed sky params
-    // cloudParams: zeroed out (clouds removed, keep struct layout)
     sceneF32[35] = 0;
-    sceneF32[36] = 0;
-    sceneF32[37] = 0;
-    sceneF32[38] = 0;
+    sceneF32[36] = this.biomeTint[0];                  // biomeTint (sky/fog multiplier)
+    sceneF32[37] = this.biomeTint[1];
+    sceneF32[38] = this.biomeTint[2];
     sceneF32[39] = 0;
     // viewProj (unjittered) at offset 40 (bytes 160-223)
     sceneF32.set(viewProj as Float32Array, 40);
@@ -926,15 +1049,21 @@ export class DeferredPipeline {
     this.ctx.device.queue.writeBuffer(this.pointLightBuffer, 0, f32.buffer, 0, 16 + lights.length * 32);
   }
 
-  render(drawCalls: ChunkDrawCall[], waterDrawCalls?: ChunkDrawCall[], vegDrawCalls?: ChunkDrawCall[]): void {
+  render(geometry: IndirectGeometry, waterDrawCalls?: ChunkDrawCall[]): void {
     const ctx = this.ctx;
     const encoder = ctx.device.createCommandEncoder();
 
-    // 1. Shadow Pass
-    this.shadowMap.renderShadowPass(encoder, drawCalls, vegDrawCalls);
+    // 1. Shadow Pass (per-cascade GPU frustum cull)
+    this.shadowMap.renderShadowPass(encoder, geometry);
 
-    // 2. G-Buffer Pass
-    this.renderGBufferPass(encoder, drawCalls, vegDrawCalls);
+    // 2. G-Buffer Pass (two-phase Hi-Z occlusion culling when enabled, else camera frustum cull)
+    const occlusion = Config.data.rendering.occlusion.enabled ? geometry : null;
+    if (occlusion) {
+      this.renderGBufferOccluded(encoder, occlusion);
+    } else {
+      this.renderGBufferPass(encoder, geometry);
+    }
+    this.lastIndirect = occlusion;
 
     // 3. SSAO Pass
     this.ssao.renderSSAO(encoder, this.gBuffer.depthView, this.gBuffer.normalView);
@@ -1008,72 +1137,120 @@ export class DeferredPipeline {
     this.postProcess.updateUnderwaterDepth(this.underwaterDepth);
     this.postProcess.renderBloomAndTonemap(encoder, swapChainView);
 
+    // 13. Block outline overlay -> swapchain
+    if (this.outlineVisible) {
+      this.renderOutlinePass(encoder, swapChainView);
+    }
+
     const commandBuffer = encoder.finish();
     ctx.device.queue.submit([commandBuffer]);
+
+    if (occlusion) {
+      for (const r of [...occlusion.solid, ...occlusion.vegetation]) r.readbackOcclusionStats();
+    }
   }
 
-  private renderGBufferPass(encoder: GPUCommandEncoder, drawCalls: ChunkDrawCall[], vegDrawCalls?: ChunkDrawCall[]): void {
-    const pass = encoder.beginRenderPass({
+  /** Summed occlusion counts from the last culled frame, or null when Hi-Z culling is off. */
+  get occlusionStats(): OcclusionStats | null {
+    if (!this.lastIndirect) return null;
+    const totals = this.occlusionTotals;
+    totals.visible = 0;
+    totals.occluded = 0;
+    totals.frustumCulled = 0;
+    for (const r of [...this.lastIndirect.solid, ...this.lastIndirect.vegetation]) {
+      totals.visible += r.occlusionStats.visible;
+      totals.occluded += r.occlusionStats.occluded;
+      totals.frustumCulled += r.occlusionStats.frustumCulled;
+    }
+    return totals;
+  }
+
+  private beginGBufferPass(encoder: GPUCommandEncoder, loadOp: GPULoadOp): GPURenderPassEncoder {
+    return encoder.beginRenderPass({
       colorAttachments: [
         {
           view: this.gBuffer.albedoView,
           clearValue: { r: 0, g: 0, b: 0, a: 0 },
-          loadOp: 'clear',
+          loadOp,
           storeOp: 'store',
         },
         {
           view: this.gBuffer.normalView,
           clearValue: { r: 0.5, g: 0.5, b: 0.5, a: 1 },
-          loadOp: 'clear',
+          loadOp,
           storeOp: 'store',
         },
         {
           view: this.gBuffer.materialView,
           clearValue: { r: 0.9, g: 0, b: 1, a: 1 },
-          loadOp: 'clear',
+          loadOp,
           storeOp: 'store',
         },
       ],
       depthStencilAttachment: {
         view: this.gBuffer.depthView,
         depthClearValue: 1.0,
-        depthLoadOp: 'clear',
+        depthLoadOp: loadOp,
         depthStoreOp: 'store',
       },
     });
+  }
 
-    pass.setPipeline(this.gbufferPipeline);
-    pass.setBindGroup(0, this.cameraBindGroup);
-    if (this.textureBindGroup) {
-      pass.setBindGroup(1, this.textureBindGroup);
-    }
-
-    // Track last bound buffers to avoid redundant rebinding (mega buffer optimization)
-    let lastVB: GPUBuffer | null = null;
-    let lastIB: GPUBuffer | null = null;
-    for (const dc of drawCalls) {
-      if (dc.indexCount === 0) continue;
-      if (dc.vertexBuffer !== lastVB) { pass.setVertexBuffer(0, dc.vertexBuffer); lastVB = dc.vertexBuffer; }
-      if (dc.indexBuffer !== lastIB) { pass.setIndexBuffer(dc.indexBuffer, 'uint32'); lastIB = dc.indexBuffer; }
-      pass.drawIndexed(dc.indexCount, 1, dc.firstIndex ?? 0, dc.baseVertex ?? 0);
-    }
+  // Two-phase occlusion: draw what passes the previous frame's Hi-Z, rebuild Hi-Z from that depth,
+  // then draw whatever the retest against the fresh pyramid brings back. The final pyramid is
+  // kept as "previous frame" for the next frame's phase 0.
+  private renderGBufferOccluded(encoder: GPUCommandEncoder, geometry: IndirectGeometry): void {
+    const viewProj = this.lastViewProj as Float32Array;
+    const phases: OcclusionPhase[] = [0, 1];
+    for (const phase of phases) {
+      for (const r of geometry.solid) r.dispatchOcclusionCulling(encoder, viewProj, this.hiz, phase);
+      for (const r of geometry.vegetation) r.dispatchOcclusionCulling(encoder, viewProj, this.hiz, phase);
+
+      const pass = this.beginGBufferPass(encoder, phase === 0 ? 'clear' : 'load');
+      pass.setPipeline(this.gbufferPipeline);
+      pass.setBindGroup(0, this.cameraBindGroup);
+      if (this.textureBindGroup) {
+        pass.setBindGroup(1, this.textureBindGroup);
+      }
+      for (const r of geometry.solid) this.drawChunks(pass, r, r.occlusionArgs(phase));
 
-    // Vegetation: switch to vegetation pipeline (cullMode: 'none'), same bind groups
-    if (vegDrawCalls && vegDrawCalls.length > 0) {
       pass.setPipeline(this.gbufferVegetationPipeline);
       pass.setBindGroup(0, this.cameraBindGroup);
       if (this.textureBindGroup) {
         pass.setBindGroup(1, this.textureBindGroup);
       }
+      for (const r of geometry.vegetation) this.drawChunks(pass, r, r.occlusionArgs(phase));
+      pass.end();
 
-      lastVB = null; lastIB = null;
-      for (const dc of vegDrawCalls) {
-        if (dc.indexCount === 0) continue;
-        if (dc.vertexBuffer !== lastVB) { pass.setVertexBuffer(0, dc.vertexBuffer); lastVB = dc.vertexBuffer; }
-        if (dc.indexBuffer !== lastIB) { pass.setIndexBuffer(dc.indexBuffer, 'uint32'); lastIB = dc.indexBuffer; }
-        pass.drawIndexed(dc.indexCount, 1, dc.firstIndex ?? 0, dc.baseVertex ?? 0);
-      }
+      this.hiz.generate(encoder);
     }
+  }
+
+  private drawChunks(pass: GPURenderPassEncoder, renderer: IndirectRenderer, args: GPUBuffer): void {
+    pass.setBindGroup(2, renderer.getMetaBindGroup(this.chunkMetaBindGroupLayout));
+    renderer.drawIndirect(pass, args);
+  }
+
+  private renderGBufferPass(encoder: GPUCommandEncoder, geometry: IndirectGeometry): void {
+    for (const r of geometry.solid) r.dispatchCulling(encoder, this.cameraFrustumPlanes, CAMERA_CULL_VIEW);
+    for (const r of geometry.vegetation) r.dispatchCulling(encoder, this.cameraFrustumPlanes, CAMERA_CULL_VIEW);
+
+    const pass = this.beginGBufferPass(encoder, 'clear');
+
+    pass.setPipeline(this.gbufferPipeline);
+    pass.setBindGroup(0, this.cameraBindGroup);
+    if (this.textureBindGroup) {
+      pass.setBindGroup(1, this.textureBindGroup);
+    }
+    for (const r of geometry.solid) this.drawChunks(pass, r, r.viewArgs(CAMERA_CULL_VIEW));
+
+    // Vegetation: switch to vegetation pipeline (cullMode: 'none'), same bind groups
+    pass.setPipeline(this.gbufferVegetationPipeline);
+    pass.setBindGroup(0, this.cameraBindGroup);
+    if (this.textureBindGroup) {
+      pass.setBindGroup(1, this.textureBindGroup);
+    }
+    for (const r of geometry.vegetation) this.drawChunks(pass, r, r.viewArgs(CAMERA_CULL_VIEW));
 
     pass.end();
   }
@@ -1255,6 +1432,29 @@ export class DeferredPipeline {
     pass.end();
   }
 
+  private renderOutlinePass(encoder: GPUCommandEncoder, target: GPUTextureView): void {
+    // Unjittered: the overlay goes on the resolved image
+    this.outlineF32.set(this.unjitteredViewProj as Float32Array, 0);
+    this.ctx.device.queue.writeBuffer(this.outlineUniformBuffer, 0, this.outlineF32);
+
+    const pass = encoder.beginRenderPass({
+      colorAttachments: [{
+        view: target,
+        loadOp: 'load',
+        storeOp: 'store',
+      }],
+      depthStencilAttachment: {
+        view: this.gBuffer.depthView,
+        depthReadOnly: true,
+      },
+    });
+
+    pass.setPipeline(this.outlinePipeline);
+    pass.setBindGroup(0, this.outlineBindGroup);
+    pass.draw(24);
+    pass.end();
+  }
+
   private computeAtmosphericFogColor(view: mat4): [number, number, number] {
     // Extract camera forward direction from view matrix: -row2 of view
     const fwd = [-((view as Float32Array)[2]), -((view as Float32Array)[6]), -((view as Float32Array)[10])];
@@ -1284,6 +1484,11 @@ export class DeferredPipeline {
     fg += 0.5 * warmMul;
     fb += 0.15 * warmMul;
 
+    // Biome tint (matches lighting.wgsl)
+    fr *= this.biomeTint[0];
+    fg *= this.biomeTint[1];
+    fb *= this.biomeTint[2];
+
     // Night darkening
     const nightFactor = Math.min(1, Math.max(0, -sunHeight * 4 - 0.2));
     // Night fog: derive from ambient so fog never outshines ambient-lit objects
@@ -1297,6 +1502,8 @@ export class DeferredPipeline {
 
   private handleResize(): void {
     this.gBuffer.resize();
+    this.hiz.resize(this.ctx.canvas.width, this.ctx.canvas.height);
+    this.hiz.setDepthView(this.gBuffer.depthView);
     this.ssao.resize();
     this.postProcess.resize();
     this.taa.resize();
@@ -0,0 +1,64 @@
+// Frustum plane extraction (Gribb-Hartmann) from a column-major view-projection matrix.
+// Planes are (nx, ny, nz, d), normalized, in order: left, right, bottom, top, near, far.
+
+export function createFrustumPlanes(): Float32Array[] {
+  return Array.from({ length: 6 }, () => new Float32Array(4));
+}
+
+/** Conservative AABB test: false only when the box is fully outside one plane. */
+export function isBoxInFrustum(
+  planes: Float32Array[],
+  minX: number, minY: number, minZ: number,
+  maxX: number, maxY: number, maxZ: number,
+): boolean {
+  for (const p of planes) {
+    const px = p[0] > 0 ? maxX : minX;
+    const py = p[1] > 0 ? maxY : minY;
+    const pz = p[2] > 0 ? maxZ : minZ;
+    if (p[0] * px + p[1] * py + p[2] * pz + p[3] < 0) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function extractFrustumPlanes(m: Float32Array, out: Float32Array[]): void {
+  // Left
+  out[0][0] = m[3] + m[0];
+  out[0][1] = m[7] + m[4];
+  out[0][2] = m[11] + m[8];
+  out[0][3] = m[15] + m[12];
+  // Right
+  out[1][0] = m[3] - m[0];
+  out[1][1] = m[7] - m[4];
+  out[1][2] = m[11] - m[8];
+  out[1][3] = m[15] - m[12];
+  // Bottom
+  out[2][0] = m[3] + m[1];
+  out[2][1] = m[7] + m[5];
+  out[2][2] = m[11] + m[9];
+  out[2][3] = m[15] + m[13];
+  // Top
+  out[3][0] = m[3] - m[1];
+  out[3][1] = m[7] - m[5];
+  out[3][2] = m[11] - m[9];
+  out[3][3] = m[15] - m[13];
+  // Near
+  out[4][0] = m[3] + m[2];
+  out[4][1] = m[7] + m[6];
+  out[4][2] = m[11] + m[10];
+  out[4][3] = m[15] + m[14];
+  // Far
+  out[5][0] = m[3] - m[2];
+  out[5][1] = m[7] - m[6];
+  out[5][2] = m[11] - m[10];
+  out[5][3] = m[15] - m[14];
+
+  // Normalize
+  for (const p of out) {
+    const len = Math.sqrt(p[0] * p[0] + p[1] * p[1] + p[2] * p[2]);
+    if (len > 0) {
+      p[0] /= len; p[1] /= len; p[2] /= len; p[3] /= len;
+    }
+  }
+}
@@ -12,6 +12,7 @@ export class HiZBuffer {
 
   // Hi-Z texture with mip chain
   private hizTexture: GPUTexture | null = null;
+  private fullView: GPUTextureView | null = null;
   private mipViews: GPUTextureView[] = [];
   private mipCount = 0;
   private width = 0;
@@ -20,9 +21,10 @@ export class HiZBuffer {
   // Compute pipeline for mip generation
   private pipeline: GPUComputePipeline;
   private bindGroupLayout: GPUBindGroupLayout;
-  private paramsBuffer: GPUBuffer;
 
-  // Per-mip bind groups (created on resize)
+  // Per-mip params + bind groups (created on resize). One params buffer per mip:
+  // writeBuffer runs before the command buffer, so a shared buffer would only hold the last mip's size.
+  private paramsBuffers: GPUBuffer[] = [];
   private bindGroups: GPUBindGroup[] = [];
 
   // Depth-to-R32Float copy pipeline (depth texture -> storage-compatible texture)
@@ -35,12 +37,6 @@ export class HiZBuffer {
   constructor(ctx: WebGPUContext) {
     this.ctx = ctx;
 
-    // Params uniform
-    this.paramsBuffer = ctx.device.createBuffer({
-      size: 16,
-      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-    });
-
     // Bind group layout: src texture (read), dst texture (write), params
     this.bindGroupLayout = ctx.device.createBindGroupLayout({
       entries: [
@@ -110,6 +106,8 @@ export class HiZBuffer {
     this.height = h;
 
     this.hizTexture?.destroy();
+    for (const buf of this.paramsBuffers) buf.destroy();
+    this.paramsBuffers = [];
     this.mipViews = [];
     this.bindGroups = [];
 
@@ -122,6 +120,7 @@ export class HiZBuffer {
       usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.RENDER_ATTACHMENT,
       mipLevelCount: this.mipCount,
     });
+    this.fullView = this.hizTexture.createView();
 
     // Create per-mip views
     for (let mip = 0; mip < this.mipCount; mip++) {
@@ -133,12 +132,21 @@ export class HiZBuffer {
 
     // Create bind groups for mip chain generation (mip[i] reads from mip[i-1], writes to mip[i])
     for (let mip = 1; mip < this.mipCount; mip++) {
+      const dstW = Math.max(1, w >> mip);
+      const dstH = Math.max(1, h >> mip);
+      const paramsBuffer = this.ctx.device.createBuffer({
+        size: 16,
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      });
+      this.ctx.device.queue.writeBuffer(paramsBuffer, 0, new Uint32Array([dstW, dstH, 0, 0]));
+      this.paramsBuffers.push(paramsBuffer);
+
       this.bindGroups.push(this.ctx.device.createBindGroup({
         layout: this.bindGroupLayout,
         entries: [
           { binding: 0, resource: this.mipViews[mip - 1] },
           { binding: 1, resource: this.mipViews[mip] },
-          { binding: 2, resource: { buffer: this.paramsBuffer } },
+          { binding: 2, resource: { buffer: paramsBuffer } },
         ],
       }));
     }
@@ -177,9 +185,6 @@ export class HiZBuffer {
       const dstW = Math.max(1, this.width >> mip);
       const dstH = Math.max(1, this.height >> mip);
 
-      const params = new Uint32Array([dstW, dstH, 0, 0]);
-      this.ctx.device.queue.writeBuffer(this.paramsBuffer, 0, params);
-
       const pass = encoder.beginComputePass();
       pass.setPipeline(this.pipeline);
       pass.setBindGroup(0, this.bindGroups[mip - 1]);
@@ -188,12 +193,17 @@ export class HiZBuffer {
     }
   }
 
+  /** Full mip chain view (recreated on resize) */
   get textureView(): GPUTextureView | null {
-    return this.hizTexture?.createView() ?? null;
+    return this.fullView;
+  }
+
+  get mipLevelCount(): number {
+    return this.mipCount;
   }
 
   destroy(): void {
     this.hizTexture?.destroy();
-    this.paramsBuffer.destroy();
+    for (const buf of this.paramsBuffers) buf.destroy();
   }
 }
@@ -1,19 +1,62 @@
-// IndirectRenderer: manages mega buffers, indirect draw arguments, and GPU frustum culling.
+// IndirectRenderer: manages mega buffers, indirect draw arguments, and GPU frustum / Hi-Z occlusion culling.
 
 import { MegaBuffer, MegaAllocation } from './MegaBuffer';
+import { HiZBuffer } from './HiZBuffer';
 import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
 import { checkShaderCompilation } from './shaderCheck';
+import { createFrustumPlanes, extractFrustumPlanes, isBoxInFrustum } from './Frustum';
 import frustumCullShader from '../shaders/frustum_cull.wgsl?raw';
+import occlusionCullShader from '../shaders/occlusion_cull.wgsl?raw';
 
 // 256 MB default for vertex, 128 MB for index
 const DEFAULT_VERTEX_CAPACITY = 256 * 1024 * 1024;
 const DEFAULT_INDEX_CAPACITY = 128 * 1024 * 1024;
-const MAX_CHUNKS = 4096;
+// Slots are per chunk section (solid/vegetation) or per chunk (LOD); callers size section pools
+const MAX_CHUNKS = 16384;
 
 // Per-chunk metadata for GPU: 3 × vec4 = 48 bytes
 const CHUNK_META_SIZE = 48;
 // DrawIndexedIndirect args: 5 × u32 = 20 bytes
 const INDIRECT_ARGS_SIZE = 20;
+// Occlusion cull uniform: viewProj(64) + params(16) = 80 bytes
+const OCCLUSION_UNIFORM_SIZE = 80;
+// Occlusion stats: visible, occluded, frustumCulled, pad (4 × u32)
+const OCCLUSION_STATS_SIZE = 16;
+
+/** Two-phase occlusion cull: 0 = test vs previous frame's Hi-Z, 1 = retest vs current */
+export type OcclusionPhase = 0 | 1;
+
+// Frustum cull views: each view owns its own frustum uniform + args buffer so several
+// culls (camera, shadow cascades) can be recorded into one encoder.
+export const CAMERA_CULL_VIEW = 0;
+export function cascadeCullView(cascade: number): number { return 1 + cascade; }
+
+const MULTI_DRAW_FEATURE = 'chromium-experimental-multi-draw-indirect' as GPUFeatureName;
+
+// Not in @webgpu/types yet
+interface MultiDrawRenderPass extends GPURenderPassEncoder {
+  multiDrawIndexedIndirect(indirectBuffer: GPUBuffer, indirectOffset: number, maxDrawCount: number): void;
+}
+
+/** Chunk mega buffers drawn by each G-Buffer / shadow pipeline */
+export interface IndirectGeometry {
+  solid: IndirectRenderer[];       // opaque pipeline (backface culled)
+  vegetation: IndirectRenderer[];  // cutout pipeline (cullMode: 'none')
+}
+
+export interface OcclusionStats {
+  visible: number;
+  occluded: number;
+  frustumCulled: number;
+}
+
+interface CullView {
+  frustumBuffer: GPUBuffer;
+  argsBuffer: GPUBuffer;
+  bindGroup: GPUBindGroup;
+  // Without multi-draw: slots passing a CPU frustum test, the only ones given a draw call
+  slots: number[];
+}
 
 export interface ChunkAllocation {
   vertexAlloc: MegaAllocation;
@@ -34,20 +77,56 @@ export class IndirectRenderer {
   // GPU resources for frustum culling
   private chunkMetaBuffer: GPUBuffer;
   private indirectArgsBuffer: GPUBuffer;
-  private frustumBuffer: GPUBuffer;
   private paramsBuffer: GPUBuffer;
+  private maxChunks: number;
+  private frustumData = new Float32Array(24);
+  // Camera planes for the CPU slot filter of the occlusion path (it only gets a viewProj)
+  private occlusionPlanes = createFrustumPlanes();
 
   // Compute pipeline for GPU frustum culling
   private cullPipeline: GPUComputePipeline;
   private cullBindGroupLayout: GPUBindGroupLayout;
-  private cullBindGroup: GPUBindGroup | null = null;
+  // Indexed by cull view; view 0 (camera) writes indirectArgsBuffer, shared with occlusion phase 0
+  private cullViews: CullView[] = [];
+
+  private multiDraw: boolean;
+  // Without 'indirect-first-instance' the cull shaders must write firstInstance = 0,
+  // so the G-Buffer shader can't find a chunk's slot and LOD fades are disabled
+  private firstInstance: boolean;
+  private metaBindGroup: GPUBindGroup | null = null;
+  private metaBindGroupLayout: GPUBindGroupLayout | null = null;
+
+  // GPU resources for two-phase Hi-Z occlusion culling
+  private occlusionPipeline: GPUComputePipeline;
+  private occlusionBindGroupLayout: GPUBindGroupLayout;
+  // Per-phase uniforms + bind groups (phase 1 writes its own args buffer)
+  private occlusionUniformBuffers: GPUBuffer[];
+  private occlusionBindGroups: (GPUBindGroup | null)[] = [null, null];
+  private occlusionHizView: GPUTextureView | null = null;
+  private phase2ArgsBuffer: GPUBuffer;
+  private retestBuffer: GPUBuffer;
+  private statsBuffer: GPUBuffer;
+  private statsReadBuffer: GPUBuffer;
+  private statsCopyQueued = false;
+  private statsMapPending = false;
+  private occlusionF32 = new Float32Array(OCCLUSION_UNIFORM_SIZE / 4);
+  private occlusionU32 = new Uint32Array(this.occlusionF32.buffer);
+
+  /** Last read-back occlusion counts (lags the GPU by a frame or two) */
+  readonly occlusionStats: OcclusionStats = { visible: 0, occluded: 0, frustumCulled: 0 };
 
   // Slot management
   private freeSlots: number[] = [];
+  // High-water mark of live slots: trimmed when the top slots are freed
   private activeChunkCount = 0;
+  private liveChunkCount = 0;
+  private slotLive: Uint8Array;
+  // Warn once when uploads start failing (meshes silently missing otherwise)
+  private warnedFull = false;
 
   // CPU-side metadata for upload
   private metaData: Float32Array;
+  private metaU32: Uint32Array;
   private metaDirty = false;
 
   // Shader compilation check
@@ -63,6 +142,9 @@ export class IndirectRenderer {
     maxChunks = MAX_CHUNKS,
   ) {
     this.device = device;
+    this.maxChunks = maxChunks;
+    this.multiDraw = device.features.has(MULTI_DRAW_FEATURE);
+    this.firstInstance = device.features.has('indirect-first-instance');
 
     this.vertexMega = new MegaBuffer(
       device, vertexCapacity,
@@ -90,12 +172,6 @@ export class IndirectRenderer {
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.INDIRECT | GPUBufferUsage.COPY_DST,
     });
 
-    // Frustum planes uniform (6 × vec4f = 96 bytes)
-    this.frustumBuffer = device.createBuffer({
-      size: 96,
-      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-    });
-
     // Params uniform (vec4u: x=chunkCount)
     this.paramsBuffer = device.createBuffer({
       size: 16,
@@ -104,6 +180,8 @@ export class IndirectRenderer {
 
     // CPU-side metadata (12 floats per chunk = 48 bytes)
     this.metaData = new Float32Array(maxChunks * 12);
+    this.metaU32 = new Uint32Array(this.metaData.buffer);
+    this.slotLive = new Uint8Array(maxChunks);
 
     // Create compute pipeline
     const cullModule = device.createShaderModule({ code: frustumCullShader });
@@ -123,42 +201,123 @@ export class IndirectRenderer {
       compute: { module: cullModule, entryPoint: 'main' },
     });
 
-    this.rebuildCullBindGroup();
+    this.cullViews.push(this.createCullView(this.indirectArgsBuffer));
+
+    // ---- Hi-Z occlusion culling ----
+    this.phase2ArgsBuffer = device.createBuffer({
+      size: maxChunks * INDIRECT_ARGS_SIZE,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.INDIRECT,
+    });
+    // Per-slot flag: rejected by occlusion in phase 0, retest in phase 1
+    this.retestBuffer = device.createBuffer({
+      size: maxChunks * 4,
+      usage: GPUBufferUsage.STORAGE,
+    });
+    this.occlusionUniformBuffers = [0, 1].map(() => device.createBuffer({
+      size: OCCLUSION_UNIFORM_SIZE,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    }));
+    this.statsBuffer = device.createBuffer({
+      size: OCCLUSION_STATS_SIZE,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
+    });
+    this.statsReadBuffer = device.createBuffer({
+      size: OCCLUSION_STATS_SIZE,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
+
+    const occlusionModule = device.createShaderModule({ code: occlusionCullShader });
+    this.shaderChecks.push(checkShaderCompilation('occlusion_cull', occlusionModule));
+
+    this.occlusionBindGroupLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } },
+        { binding: 1, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'uniform' } },
+        { binding: 2, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },
+        { binding: 3, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },
+        { binding: 4, visibility: GPUShaderStage.COMPUTE, texture: { sampleType: 'unfilterable-float' } },
+        { binding: 5, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },
+      ],
+    });
+
+    this.occlusionPipeline = device.createComputePipeline({
+      layout: device.createPipelineLayout({ bindGroupLayouts: [this.occlusionBindGroupLayout] }),
+      compute: { module: occlusionModule, entryPoint: 'main' },
+    });
+  }
+
+  // Hi-Z view changes on resize → rebuild both phase bind groups
+  private ensureOcclusionBindGroups(hizView: GPUTextureView): void {
+    if (hizView === this.occlusionHizView) return;
+    this.occlusionHizView = hizView;
+    const argsBuffers = [this.indirectArgsBuffer, this.phase2ArgsBuffer];
+    for (let phase = 0; phase < 2; phase++) {
+      this.occlusionBindGroups[phase] = this.device.createBindGroup({
+        layout: this.occlusionBindGroupLayout,
+        entries: [
+          { binding: 0, resource: { buffer: this.chunkMetaBuffer } },
+          { binding: 1, resource: { buffer: this.occlusionUniformBuffers[phase] } },
+          { binding: 2, resource: { buffer: argsBuffers[phase] } },
+          { binding: 3, resource: { buffer: this.retestBuffer } },
+          { binding: 4, resource: hizView },
+          { binding: 5, resource: { buffer: this.statsBuffer } },
+        ],
+      });
+    }
   }
 
-  private rebuildCullBindGroup(): void {
-    this.cullBindGroup = this.device.createBindGroup({
+  private createCullView(argsBuffer: GPUBuffer): CullView {
+    // Frustum planes uniform (6 × vec4f = 96 bytes)
+    const frustumBuffer = this.device.createBuffer({
+      size: 96,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    const bindGroup = this.device.createBindGroup({
       layout: this.cullBindGroupLayout,
       entries: [
         { binding: 0, resource: { buffer: this.chunkMetaBuffer } },
-        { binding: 1, resource: { buffer: this.frustumBuffer } },
-        { binding: 2, resource: { buffer: this.indirectArgsBuffer } },
+        { binding: 1, resource: { buffer: frustumBuffer } },
+        { binding: 2, resource: { buffer: argsBuffer } },
         { binding: 3, resource: { buffer: this.paramsBuffer } },
       ],
     });
+    return { frustumBuffer, argsBuffer, bindGroup, slots: [] };
+  }
+
+  // Shadow cascade views are created on first use
+  private getCullView(view: number): CullView {
+    while (this.cullViews.length <= view) {
+      this.cullViews.push(this.createCullView(this.device.createBuffer({
+        size: this.maxChunks * INDIRECT_ARGS_SIZE,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.INDIRECT,
+      })));
+    }
+    return this.cullViews[view];
   }
 
   // Upload chunk mesh data into mega buffers. Returns allocation info.
+  // minY/maxY bound the culling AABB (a single section, or the full chunk height).
   uploadChunk(
     vertices: Float32Array, indices: Uint32Array,
     chunkWorldX: number, chunkWorldZ: number,
+    minY = 0, maxY = CHUNK_HEIGHT,
   ): ChunkAllocation | null {
     if (indices.length === 0) return null;
 
     const vertexAlloc = this.vertexMega.allocate(vertices.byteLength);
-    if (!vertexAlloc) return null;
+    if (!vertexAlloc) return this.uploadFailed('vertex buffer full');
 
     const indexAlloc = this.indexMega.allocate(indices.byteLength);
     if (!indexAlloc) {
       this.vertexMega.free(vertexAlloc);
-      return null;
+      return this.uploadFailed('index buffer full');
     }
 
     const slot = this.freeSlots.pop();
     if (slot === undefined) {
       this.vertexMega.free(vertexAlloc);
       this.indexMega.free(indexAlloc);
-      return null;
+      return this.uploadFailed(`all ${this.maxChunks} slots in use`);
     }
 
     // Upload data
@@ -178,17 +337,30 @@ export class IndirectRenderer {
     };
 
     // Update metadata
-    this.updateChunkMeta(alloc, chunkWorldX, chunkWorldZ);
+    this.updateChunkMeta(alloc, chunkWorldX, chunkWorldZ, minY, maxY);
+    this.slotLive[slot] = 1;
     this.activeChunkCount = Math.max(this.activeChunkCount, slot + 1);
+    this.liveChunkCount++;
 
     return alloc;
   }
 
+  private uploadFailed(reason: string): null {
+    if (!this.warnedFull) {
+      this.warnedFull = true;
+      console.warn(`[IndirectRenderer] Dropping chunk meshes: ${reason}`);
+    }
+    return null;
+  }
+
   // Free a chunk's allocation
   freeChunk(alloc: ChunkAllocation): void {
     this.vertexMega.free(alloc.vertexAlloc);
     this.indexMega.free(alloc.indexAlloc);
     this.freeSlots.push(alloc.slotIndex);
+    this.liveChunkCount--;
+    this.slotLive[alloc.slotIndex] = 0;
+    while (this.activeChunkCount > 0 && !this.slotLive[this.activeChunkCount - 1]) this.activeChunkCount--;
 
     // Zero out metadata for this slot
     const base = alloc.slotIndex * 12;
@@ -196,22 +368,22 @@ export class IndirectRenderer {
     this.metaDirty = true;
   }
 
-  private updateChunkMeta(alloc: ChunkAllocation, worldX: number, worldZ: number): void {
+  private updateChunkMeta(alloc: ChunkAllocation, worldX: number, worldZ: number, minY: number, maxY: number): void {
     const base = alloc.slotIndex * 12;
     const f32 = this.metaData;
     const u32 = new Uint32Array(f32.buffer);
 
     // aabbMin (xyz) + indexCount as float bits
     f32[base + 0] = worldX;
-    f32[base + 1] = 0;
+    f32[base + 1] = minY;
     f32[base + 2] = worldZ;
     u32[base + 3] = alloc.indexCount; // bitcast to u32
 
-    // aabbMax (xyz) + unused
+    // aabbMax (xyz) + LOD cross-fade factor (1 = opaque)
     f32[base + 4] = worldX + CHUNK_WIDTH;
-    f32[base + 5] = CHUNK_HEIGHT;
+    f32[base + 5] = maxY;
     f32[base + 6] = worldZ + CHUNK_DEPTH;
-    f32[base + 7] = 0;
+    f32[base + 7] = 1;
 
     // offsets: firstIndex, baseVertex, unused, unused
     u32[base + 8] = alloc.firstIndex;
@@ -222,55 +394,206 @@ export class IndirectRenderer {
     this.metaDirty = true;
   }
 
-  // Update frustum planes and dispatch culling compute shader
-  dispatchCulling(encoder: GPUCommandEncoder, frustumPlanes: Float32Array[]): void {
+  /**
+   * Dither factor for the G-Buffer pass: >= 1 opaque, [0, 1) fading in, [-1, 0) fading out
+   * (see gbuffer.frag.wgsl). Reset to 1 whenever the chunk is re-uploaded.
+   */
+  setChunkFade(alloc: ChunkAllocation, fade: number): void {
+    if (!this.firstInstance) return;
+    const i = alloc.slotIndex * 12 + 7;
+    if (this.metaData[i] === fade) return;
+    this.metaData[i] = fade;
+    this.metaDirty = true;
+  }
+
+  /** False when setChunkFade is a no-op (per-chunk metadata is unreachable without first-instance) */
+  get supportsFade(): boolean { return this.firstInstance; }
+
+  /** Keep a chunk's slot and mesh but skip it in culling (indexCount = 0). Reset to visible on re-upload. */
+  setChunkVisible(alloc: ChunkAllocation, visible: boolean): void {
+    const u32 = new Uint32Array(this.metaData.buffer);
+    const i = alloc.slotIndex * 12 + 3;
+    const indexCount = visible ? alloc.indexCount : 0;
+    if (u32[i] === indexCount) return;
+    u32[i] = indexCount;
+    this.metaDirty = true;
+  }
+
+  /** Chunk metadata bound as G-Buffer group 2 (read by instance_index) */
+  getMetaBindGroup(layout: GPUBindGroupLayout): GPUBindGroup {
+    if (!this.metaBindGroup || this.metaBindGroupLayout !== layout) {
+      this.metaBindGroupLayout = layout;
+      this.metaBindGroup = this.device.createBindGroup({
+        layout,
+        entries: [{ binding: 0, resource: { buffer: this.chunkMetaBuffer } }],
+      });
+    }
+    return this.metaBindGroup;
+  }
+
+  // Update frustum planes of one cull view and dispatch culling compute shader into its args buffer
+  dispatchCulling(encoder: GPUCommandEncoder, frustumPlanes: Float32Array[], view = CAMERA_CULL_VIEW): void {
+    const cullView = this.getCullView(view);
+
     // Upload frustum planes (6 × vec4f = 24 floats)
-    const frustumData = new Float32Array(24);
+    const frustumData = this.frustumData;
     for (let i = 0; i < 6; i++) {
-      frustumData[i * 4 + 0] = frustumPlanes[i][0];
-      frustumData[i * 4 + 1] = frustumPlanes[i][1];
-      frustumData[i * 4 + 2] = frustumPlanes[i][2];
-      frustumData[i * 4 + 3] = frustumPlanes[i][3];
+      frustumData.set(frustumPlanes[i], i * 4);
     }
-    this.device.queue.writeBuffer(this.frustumBuffer, 0, frustumData);
+    this.device.queue.writeBuffer(cullView.frustumBuffer, 0, frustumData);
 
     // Upload chunk count
-    const paramsData = new Uint32Array([this.activeChunkCount, 0, 0, 0]);
+    const paramsData = new Uint32Array([this.activeChunkCount, this.firstInstance ? 1 : 0, 0, 0]);
     this.device.queue.writeBuffer(this.paramsBuffer, 0, paramsData);
 
-    // Upload dirty metadata
-    if (this.metaDirty) {
-      this.metaDirty = false;
-      const uploadSize = this.activeChunkCount * CHUNK_META_SIZE;
-      if (uploadSize > 0) {
-        this.device.queue.writeBuffer(
-          this.chunkMetaBuffer, 0,
-          this.metaData.buffer as ArrayBuffer, 0,
-          uploadSize,
-        );
-      }
-    }
+    this.uploadDirtyMeta();
+    if (!this.multiDraw) this.collectVisibleSlots(cullView, frustumPlanes);
 
     // Dispatch compute shader
     if (this.activeChunkCount > 0) {
       const pass = encoder.beginComputePass();
       pass.setPipeline(this.cullPipeline);
-      pass.setBindGroup(0, this.cullBindGroup!);
+      pass.setBindGroup(0, cullView.bindGroup);
+      pass.dispatchWorkgroups(Math.ceil(this.activeChunkCount / 64));
+      pass.end();
+    }
+  }
+
+  // Live slots whose AABB intersects the frustum; the GPU cull still zeroes what it rejects
+  private collectVisibleSlots(cullView: CullView, frustumPlanes: Float32Array[]): void {
+    const f32 = this.metaData;
+    const u32 = this.metaU32;
+    cullView.slots.length = 0;
+    for (let slot = 0; slot < this.activeChunkCount; slot++) {
+      const base = slot * 12;
+      if (u32[base + 3] === 0) continue;
+      if (isBoxInFrustum(frustumPlanes, f32[base], f32[base + 1], f32[base + 2], f32[base + 4], f32[base + 5], f32[base + 6])) {
+        cullView.slots.push(slot);
+      }
+    }
+  }
+
+  private uploadDirtyMeta(): void {
+    if (!this.metaDirty) return;
+    this.metaDirty = false;
+    const uploadSize = this.activeChunkCount * CHUNK_META_SIZE;
+    if (uploadSize > 0) {
+      this.device.queue.writeBuffer(
+        this.chunkMetaBuffer, 0,
+        this.metaData.buffer as ArrayBuffer, 0,
+        uploadSize,
+      );
+    }
+  }
+
+  // Two-phase Hi-Z occlusion cull. Phase 0 writes argsBuffer (tested against last frame's
+  // pyramid); phase 1 writes phase2Args for chunks phase 0 rejected, retested against the
+  // pyramid rebuilt from phase-0 depth. Must be called with phase 0 first each frame.
+  dispatchOcclusionCulling(encoder: GPUCommandEncoder, viewProj: Float32Array, hiz: HiZBuffer, phase: OcclusionPhase): void {
+    const hizView = hiz.textureView;
+    if (!hizView) return;
+    this.ensureOcclusionBindGroups(hizView);
+
+    const f32 = this.occlusionF32;
+    const u32 = this.occlusionU32;
+    f32.set(viewProj, 0);
+    u32[16] = this.activeChunkCount;
+    u32[17] = phase;
+    u32[18] = hiz.mipLevelCount;
+    u32[19] = this.firstInstance ? 1 : 0;
+    this.device.queue.writeBuffer(this.occlusionUniformBuffers[phase], 0, f32);
+
+    if (phase === 0) {
+      this.uploadDirtyMeta();
+      encoder.clearBuffer(this.statsBuffer);
+      // Both phases draw from the camera view's slot list
+      if (!this.multiDraw) {
+        extractFrustumPlanes(viewProj, this.occlusionPlanes);
+        this.collectVisibleSlots(this.getCullView(CAMERA_CULL_VIEW), this.occlusionPlanes);
+      }
+    }
+
+    if (this.activeChunkCount > 0) {
+      const pass = encoder.beginComputePass();
+      pass.setPipeline(this.occlusionPipeline);
+      pass.setBindGroup(0, this.occlusionBindGroups[phase]!);
       pass.dispatchWorkgroups(Math.ceil(this.activeChunkCount / 64));
       pass.end();
     }
+
+    // Copy counters for readback unless the previous readback is still in flight
+    if (phase === 1 && !this.statsMapPending) {
+      encoder.copyBufferToBuffer(this.statsBuffer, 0, this.statsReadBuffer, 0, OCCLUSION_STATS_SIZE);
+      this.statsCopyQueued = true;
+    }
+  }
+
+  /**
+   * Draw every slot from a culled args buffer (see viewArgs / occlusionArgs).
+   * One multiDrawIndexedIndirect when the device supports it. Otherwise (stock browsers: multi-draw
+   * is behind a flag) one drawIndexedIndirect per slot that passed the CPU frustum test of the cull
+   * that wrote `args`, so draw calls scale with visible sections rather than allocated slots.
+   */
+  drawIndirect(pass: GPURenderPassEncoder, args: GPUBuffer): void {
+    if (this.activeChunkCount === 0) return;
+    pass.setVertexBuffer(0, this.vertexMega.buffer);
+    pass.setIndexBuffer(this.indexMega.buffer, 'uint32');
+    if (this.multiDraw) {
+      (pass as MultiDrawRenderPass).multiDrawIndexedIndirect(args, 0, this.activeChunkCount);
+      return;
+    }
+    const view = args === this.phase2ArgsBuffer
+      ? this.cullViews[CAMERA_CULL_VIEW]
+      : this.cullViews.find((v) => v.argsBuffer === args);
+    if (!view) return;
+    for (const slot of view.slots) {
+      pass.drawIndexedIndirect(args, slot * INDIRECT_ARGS_SIZE);
+    }
+  }
+
+  /** Map the counters copied this frame. Call after the command buffer is submitted. */
+  readbackOcclusionStats(): void {
+    if (!this.statsCopyQueued) return;
+    this.statsCopyQueued = false;
+    this.statsMapPending = true;
+    this.statsReadBuffer.mapAsync(GPUMapMode.READ).then(() => {
+      const counts = new Uint32Array(this.statsReadBuffer.getMappedRange());
+      this.occlusionStats.visible = counts[0];
+      this.occlusionStats.occluded = counts[1];
+      this.occlusionStats.frustumCulled = counts[2];
+      this.statsReadBuffer.unmap();
+      this.statsMapPending = false;
+    }).catch(() => {
+      // Buffer destroyed while mapping (e.g. renderer torn down)
+      this.statsMapPending = false;
+    });
+  }
+
+  /** Args written by dispatchCulling for the given cull view */
+  viewArgs(view: number): GPUBuffer { return this.getCullView(view).argsBuffer; }
+  /** Args written by dispatchOcclusionCulling for the given phase */
+  occlusionArgs(phase: OcclusionPhase): GPUBuffer {
+    return phase === 0 ? this.indirectArgsBuffer : this.phase2ArgsBuffer;
   }
 
   // Get the indirect args buffer and chunk count for indirect draw calls
   get argsBuffer(): GPUBuffer { return this.indirectArgsBuffer; }
-  get chunkCount(): number { return this.activeChunkCount; }
+  /** Slots currently holding a mesh (activeChunkCount is only the high-water mark) */
+  get chunkCount(): number { return this.liveChunkCount; }
 
   destroy(): void {
     this.vertexMega.destroy();
     this.indexMega.destroy();
     this.chunkMetaBuffer.destroy();
-    this.indirectArgsBuffer.destroy();
-    this.frustumBuffer.destroy();
+    for (const view of this.cullViews) {
+      view.frustumBuffer.destroy();
+      view.argsBuffer.destroy();
+    }
     this.paramsBuffer.destroy();
+    this.phase2ArgsBuffer.destroy();
+    this.retestBuffer.destroy();
+    for (const buf of this.occlusionUniformBuffers) buf.destroy();
+    this.statsBuffer.destroy();
+    this.statsReadBuffer.destroy();
   }
 }
@@ -2,6 +2,8 @@ import { mat4, vec3 } from 'gl-matrix';
 import { DEPTH_FORMAT } from '../constants';
 import { Config } from '../config/Config';
 import { WebGPUContext } from './WebGPUContext';
+import { IndirectGeometry, cascadeCullView } from './IndirectRenderer';
+import { createFrustumPlanes, extractFrustumPlanes } from './Frustum';
 
 import shadowVertShader from '../shaders/shadow.vert.wgsl?raw';
 import shadowCutoutVertShader from '../shaders/shadow_cutout.vert.wgsl?raw';
@@ -61,6 +63,7 @@ export class ShadowMap {
 
   // Pre-allocated uniform data (avoid per-frame allocations)
   private uniformData = new Float32Array(52); // 3*16 + 4 = 52 floats
+  private cascadePlanes = createFrustumPlanes();
 
   constructor(ctx: WebGPUContext) {
     this.ctx = ctx;
@@ -151,6 +154,7 @@ export class ShadowMap {
       entries: [
         { binding: 0, visibility: GPUShaderStage.FRAGMENT, sampler: {} },
         { binding: 1, visibility: GPUShaderStage.FRAGMENT, texture: {} },
+        { binding: 2, visibility: GPUShaderStage.FRAGMENT, buffer: { type: 'uniform' } },
       ],
     });
 
@@ -215,12 +219,13 @@ export class ShadowMap {
     }
   }
 
-  setAtlasTexture(texture: GPUTexture, sampler: GPUSampler): void {
+  setAtlasTexture(texture: GPUTexture, sampler: GPUSampler, blockTable: GPUBuffer): void {
     this.atlasBindGroup = this.ctx.device.createBindGroup({
       layout: this.atlasBindGroupLayout,
       entries: [
         { binding: 0, resource: sampler },
         { binding: 1, resource: texture.createView() },
+        { binding: 2, resource: { buffer: blockTable } },
       ],
     });
   }
@@ -295,9 +300,17 @@ export class ShadowMap {
     mat4.multiply(lvp, lightProj, lightView);
   }
 
-  renderShadowPass(encoder: GPUCommandEncoder, drawCalls: ChunkDrawCall[], vegDrawCalls?: ChunkDrawCall[]): void {
+  // Each cascade culls against its own light frustum, so casters outside the camera view still cast
+  renderShadowPass(encoder: GPUCommandEncoder, geometry: IndirectGeometry): void {
     const cascadeCount = Config.data.rendering.shadows.cascadeCount;
+    const renderers = [...geometry.solid, ...geometry.vegetation];
     for (let c = 0; c < cascadeCount; c++) {
+      extractFrustumPlanes(this.lightViewProjs[c] as Float32Array, this.cascadePlanes);
+      for (const r of renderers) r.dispatchCulling(encoder, this.cascadePlanes, cascadeCullView(c));
+    }
+
+    for (let c = 0; c < cascadeCount; c++) {
+      const view = cascadeCullView(c);
       const pass = encoder.beginRenderPass({
         colorAttachments: [],
         depthStencilAttachment: {
@@ -310,29 +323,14 @@ export class ShadowMap {
 
       pass.setPipeline(this.pipeline);
       pass.setBindGroup(0, this.bindGroups[c]);
-
-      // Track last bound buffers to avoid redundant rebinding (mega buffer optimization)
-      let lastVB: GPUBuffer | null = null;
-      let lastIB: GPUBuffer | null = null;
-      for (const dc of drawCalls) {
-        if (dc.indexCount === 0) continue;
-        if (dc.vertexBuffer !== lastVB) { pass.setVertexBuffer(0, dc.vertexBuffer); lastVB = dc.vertexBuffer; }
-        if (dc.indexBuffer !== lastIB) { pass.setIndexBuffer(dc.indexBuffer, 'uint32'); lastIB = dc.indexBuffer; }
-        pass.drawIndexed(dc.indexCount, 1, dc.firstIndex ?? 0, dc.baseVertex ?? 0);
-      }
+      for (const r of geometry.solid) r.drawIndirect(pass, r.viewArgs(view));
 
       // Vegetation: use cutout pipeline for alpha-tested shadows
-      if (vegDrawCalls && this.atlasBindGroup) {
+      if (this.atlasBindGroup) {
         pass.setPipeline(this.cutoutPipeline);
         pass.setBindGroup(0, this.bindGroups[c]);
         pass.setBindGroup(1, this.atlasBindGroup);
-        lastVB = null; lastIB = null;
-        for (const dc of vegDrawCalls) {
-          if (dc.indexCount === 0) continue;
-          if (dc.vertexBuffer !== lastVB) { pass.setVertexBuffer(0, dc.vertexBuffer); lastVB = dc.vertexBuffer; }
-          if (dc.indexBuffer !== lastIB) { pass.setIndexBuffer(dc.indexBuffer, 'uint32'); lastIB = dc.indexBuffer; }
-          pass.drawIndexed(dc.indexCount, 1, dc.firstIndex ?? 0, dc.baseVertex ?? 0);
-        }
+        for (const r of geometry.vegetation) r.drawIndirect(pass, r.viewArgs(view));
       }
 
       pass.end();
@@ -1,6 +1,6 @@
 import { TILE_SIZE, ATLAS_TILES, ATLAS_PIXEL_SIZE } from '../constants';
-import { getBlockColor, getBlockMaterial, ALL_BLOCK_TYPES, isBlockCrossMesh } from '../terrain/BlockTypes';
-import { BlockType } from '../terrain/BlockTypes';
+import { getBlockColor, getBlockMaterial, getBlockData, getBlockTile, ALL_BLOCK_TYPES, BlockShape, RenderLayer } from '../terrain/BlockTypes';
+import { BlockType, FaceTile } from '../terrain/BlockTypes';
 import { WebGPUContext } from './WebGPUContext';
 
 // Simple integer hash for deterministic pseudo-random patterns
@@ -117,19 +117,54 @@ function patternLog(
   px: number, py: number, br: number, bg: number, bb: number,
 ): [number, number, number] {
   const h1 = hash(px, py, 50);
-  // Vertical wood grain pattern
-  const cx = 7.5, cy = 7.5;
-  const dx = px - cx, dy = py - cy;
-  const dist = Math.sqrt(dx * dx + dy * dy);
-  const ring = Math.sin(dist * 1.8) * 0.12;
-  let f = ring + (h1 - 0.5) * 0.10;
-  // Darker bark lines vertical
-  if (px === 0 || px === 15 || px === 1 || px === 14) {
-    f -= 0.12;
-  }
+  // Vertical bark grain: streaks per column, broken every few pixels
+  const streak = hash(px, Math.floor(py / 5), 51);
+  let f = (streak - 0.5) * 0.16 + (h1 - 0.5) * 0.08;
+  // Darker bark furrows
+  if (px % 4 === 1) f -= 0.12;
   return mixColor(br, bg, bb, f);
 }
 
+function patternLogEnd(
+  px: number, py: number, br: number, bg: number, bb: number,
+): [number, number, number] {
+  const h1 = hash(px, py, 55);
+  // Bark rim around the cut
+  if (px === 0 || px === 15 || py === 0 || py === 15) {
+    return mixColor(br, bg, bb, -0.1 + (h1 - 0.5) * 0.1);
+  }
+  // Growth rings on lighter heartwood
+  const dx = px - 7.5, dy = py - 7.5;
+  const ring = Math.sin(Math.sqrt(dx * dx + dy * dy) * 1.8) * 0.08;
+  const [wr, wg, wb] = mixColor((br + 200) >> 1, (bg + 165) >> 1, (bb + 110) >> 1, 0.1);
+  return mixColor(wr, wg, wb, ring + (h1 - 0.5) * 0.06);
+}
+
+function patternGrassSide(
+  px: number, py: number, br: number, bg: number, bb: number,
+): [number, number, number] {
+  // Grass overhang with a ragged lower edge over dirt
+  const depth = 3 + Math.floor(hash(px, 0, 22) * 3);
+  if (py < depth) return patternGrass(px, py, br, bg, bb);
+  const [dr, dg, db] = getBlockColor(BlockType.DIRT);
+  return patternDirt(px, py, dr, dg, db);
+}
+
+function patternBirchLog(
+  px: number, py: number, br: number, bg: number, bb: number,
+): [number, number, number] {
+  const h1 = hash(px, py, 52);
+  // Dark horizontal bark marks on a few rows
+  const row = hash(0, py, 53);
+  if (row < 0.3) {
+    const start = Math.floor(hash(1, py, 54) * 12);
+    if (px >= start && px < start + 2 + Math.floor(row * 10)) {
+      return mixColor(44, 40, 36, (h1 - 0.5) * 0.2);
+    }
+  }
+  return mixColor(br, bg, bb, (h1 - 0.5) * 0.08);
+}
+
 function patternLeaves(
   px: number, py: number, br: number, bg: number, bb: number,
 ): [number, number, number] {
@@ -334,6 +369,7 @@ function patternSpawner(
 
 function patternChest(
   px: number, py: number, br: number, bg: number, bb: number,
+  latch: boolean,
 ): [number, number, number] {
   const h1 = hash(px, py, 180);
   let f = (h1 - 0.5) * 0.12;
@@ -341,8 +377,8 @@ function patternChest(
   if (py % 4 === 0) f -= 0.12;
   // Border darker
   if (px === 0 || px === 15 || py === 0 || py === 15) f -= 0.18;
-  // Latch in center
-  if (px >= 6 && px <= 9 && py >= 6 && py <= 8) {
+  // Latch in center (front face only)
+  if (latch && px >= 6 && px <= 9 && py >= 6 && py <= 8) {
     return mixColor(180, 160, 60, f);
   }
   return mixColor(br, bg, bb, f);
@@ -376,6 +412,27 @@ function patternTallGrass(
   return [0, 0, 0, 0]; // transparent
 }
 
+function patternVines(
+  px: number, py: number,
+): [number, number, number, number] {
+  // 3 wavy hanging strands with leaf clusters every few pixels
+  const h = hash(px, py, 520);
+  for (const cx of [3, 8, 12]) {
+    const sway = Math.round(Math.sin(py * 0.7 + cx) * 1.2);
+    const halfWidth = (py + cx) % 4 === 0 ? 2 : 0.6;
+    if (Math.abs(px - (cx + sway)) < halfWidth) {
+      const brightness = 0.7 + h * 0.3;
+      return [
+        clamp(Math.round(48 * brightness), 0, 255),
+        clamp(Math.round(112 * brightness), 0, 255),
+        clamp(Math.round(30 * brightness), 0, 255),
+        255,
+      ];
+    }
+  }
+  return [0, 0, 0, 0]; // transparent
+}
+
 function patternPoppy(
   px: number, py: number,
 ): [number, number, number, number] {
@@ -530,10 +587,10 @@ function patternDefault(
 
 // ---- Normal map height generators per block type ----
 
-function generateHeightMap(blockType: number): number[][] {
+function generateHeightMap(tile: number): number[][] {
   const h = Array.from({ length: TILE_SIZE }, () => new Array(TILE_SIZE).fill(0));
 
-  switch (blockType) {
+  switch (tile) {
     case BlockType.STONE: {
       // Rough stone surface with cracks
       for (let y = 0; y < TILE_SIZE; y++)
@@ -602,16 +659,38 @@ function generateHeightMap(blockType: number): number[][] {
         }
       break;
     }
-    case BlockType.LOG: {
-      // Wood grain vertical bumps
+    case BlockType.LOG:
+    case BlockType.SPRUCE_LOG:
+    case BlockType.BIRCH_LOG:
+    case BlockType.JUNGLE_LOG: {
+      // Bark: raised ridges between vertical furrows
       for (let y = 0; y < TILE_SIZE; y++)
         for (let x = 0; x < TILE_SIZE; x++) {
-          const cx = 7.5, cy = 7.5;
-          const dx = x - cx, dy = y - cy;
-          const dist = Math.sqrt(dx * dx + dy * dy);
-          const ring = (Math.sin(dist * 1.8) * 0.5 + 0.5) * 0.3;
-          const bark = (x === 0 || x === 15 || x === 1 || x === 14) ? -0.15 : 0;
-          h[y][x] = ring + bark + hash(x, y, 350) * 0.08;
+          const ridge = x % 4 === 1 ? 0.0 : 0.3;
+          h[y][x] = ridge + hash(x, Math.floor(y / 5), 351) * 0.15;
+        }
+      break;
+    }
+    case FaceTile.LOG_END:
+    case FaceTile.SPRUCE_LOG_END:
+    case FaceTile.BIRCH_LOG_END:
+    case FaceTile.JUNGLE_LOG_END: {
+      // Growth rings inside a raised bark rim
+      for (let y = 0; y < TILE_SIZE; y++)
+        for (let x = 0; x < TILE_SIZE; x++) {
+          const dx = x - 7.5, dy = y - 7.5;
+          const ring = (Math.sin(Math.sqrt(dx * dx + dy * dy) * 1.8) * 0.5 + 0.5) * 0.3;
+          const rim = x === 0 || x === 15 || y === 0 || y === 15;
+          h[y][x] = rim ? 0.5 : ring + hash(x, y, 350) * 0.08;
+        }
+      break;
+    }
+    case FaceTile.GRASS_SIDE: {
+      // Grass blades over granular dirt
+      for (let y = 0; y < TILE_SIZE; y++)
+        for (let x = 0; x < TILE_SIZE; x++) {
+          const depth = 3 + Math.floor(hash(x, 0, 22) * 3);
+          h[y][x] = y < depth ? (x % 3 === 0 ? 0.15 : 0) + hash(x, y, 325) * 0.2 : hash(x, y, 320) * 0.25;
         }
       break;
     }
@@ -661,7 +740,10 @@ function generateHeightMap(blockType: number): number[][] {
         }
       break;
     }
-    case BlockType.LEAVES: {
+    case BlockType.LEAVES:
+    case BlockType.SPRUCE_LEAVES:
+    case BlockType.BIRCH_LEAVES:
+    case BlockType.JUNGLE_LEAVES: {
       // Irregular leaf bumps
       for (let y = 0; y < TILE_SIZE; y++)
         for (let x = 0; x < TILE_SIZE; x++) {
@@ -693,10 +775,10 @@ function generateHeightMap(blockType: number): number[][] {
         for (let x = 0; x < TILE_SIZE; x++) {
           const h1 = hash(x, y, 301);
           const h2 = hash(x, y, 101);
-          const cx1 = 4 + hash(0, 0, blockType + 200) * 5;
-          const cy1 = 4 + hash(0, 0, blockType + 210) * 5;
-          const cx2 = 9 + hash(1, 1, blockType + 200) * 4;
-          const cy2 = 9 + hash(1, 1, blockType + 210) * 4;
+          const cx1 = 4 + hash(0, 0, tile + 200) * 5;
+          const cy1 = 4 + hash(0, 0, tile + 210) * 5;
+          const cx2 = 9 + hash(1, 1, tile + 200) * 4;
+          const cy2 = 9 + hash(1, 1, tile + 210) * 4;
           const dist1 = Math.abs(x - cx1) + Math.abs(y - cy1);
           const dist2 = Math.abs(x - cx2) + Math.abs(y - cy2);
           const isOre = (dist1 < 2.5 && h2 > 0.3) || (dist2 < 2.5 && hash(x, y, 102) > 0.3);
@@ -712,13 +794,15 @@ function generateHeightMap(blockType: number): number[][] {
         }
       break;
     }
-    case BlockType.CHEST: {
-      // Plank lines and border
+    case BlockType.CHEST:
+    case FaceTile.CHEST_TOP:
+    case FaceTile.CHEST_FRONT: {
+      // Plank lines and border, latch on the front
       for (let y = 0; y < TILE_SIZE; y++)
         for (let x = 0; x < TILE_SIZE; x++) {
           const isBorder = x === 0 || x === 15 || y === 0 || y === 15;
           const isPlank = y % 4 === 0;
-          const isLatch = x >= 6 && x <= 9 && y >= 6 && y <= 8;
+          const isLatch = tile === FaceTile.CHEST_FRONT && x >= 6 && x <= 9 && y >= 6 && y <= 8;
           h[y][x] = isLatch ? 0.6 : isBorder ? 0.1 : isPlank ? 0.15 : 0.35 + hash(x, y, 420) * 0.1;
         }
       break;
@@ -769,7 +853,8 @@ function generateHeightMap(blockType: number): number[][] {
     }
     case BlockType.TALL_GRASS:
     case BlockType.POPPY:
-    case BlockType.DANDELION: {
+    case BlockType.DANDELION:
+    case BlockType.VINES: {
       // Nearly flat for vegetation
       for (let y = 0; y < TILE_SIZE; y++)
         for (let x = 0; x < TILE_SIZE; x++) {
@@ -790,40 +875,6 @@ function generateHeightMap(blockType: number): number[][] {
   return h;
 }
 
-function getNormalStrength(blockType: number): number {
-  switch (blockType) {
-    case BlockType.STONE: return 1.5;
-    case BlockType.COBBLESTONE: return 2.0;
-    case BlockType.MOSSY_COBBLESTONE: return 1.8;
-    case BlockType.DIRT: return 0.8;
-    case BlockType.GRASS_BLOCK: return 0.7;
-    case BlockType.SAND: return 0.4;
-    case BlockType.SANDSTONE: return 1.2;
-    case BlockType.LOG: return 1.0;
-    case BlockType.BEDROCK: return 2.5;
-    case BlockType.GRAVEL: return 1.5;
-    case BlockType.CLAY: return 0.5;
-    case BlockType.SNOW: return 0.2;
-    case BlockType.ICE: return 0.6;
-    case BlockType.LEAVES: return 1.0;
-    case BlockType.LAVA: return 1.2;
-    case BlockType.COAL_ORE:
-    case BlockType.IRON_ORE:
-    case BlockType.GOLD_ORE:
-    case BlockType.DIAMOND_ORE: return 1.3;
-    case BlockType.SPAWNER: return 1.5;
-    case BlockType.CHEST: return 1.0;
-    case BlockType.PLANKS: return 0.8;
-    case BlockType.STONE_BRICKS: return 1.5;
-    case BlockType.GLASS: return 0.1;
-    case BlockType.TORCH: return 0.3;
-    case BlockType.TALL_GRASS:
-    case BlockType.POPPY:
-    case BlockType.DANDELION: return 0.1;
-    default: return 0.5;
-  }
-}
-
 function heightToNormal(
   heightMap: number[][], x: number, y: number, strength: number,
 ): [number, number, number] {
@@ -839,15 +890,41 @@ function heightToNormal(
   return [dx / len, dy / len, dz / len];
 }
 
+// Atlas tiles to fill, each with the block whose colors and material it uses: a block's own
+// tile (its id) belongs to that block, extra face tiles to the first block that uses them
+const ATLAS_SLOTS: { blockType: number; tile: number }[] = (() => {
+  const owners = new Map<number, number>();
+  for (const blockType of ALL_BLOCK_TYPES) {
+    for (const tile of getBlockData(blockType).tiles) {
+      if (!owners.has(tile) || tile === blockType) owners.set(tile, blockType);
+    }
+  }
+  return Array.from(owners, ([tile, blockType]) => ({ blockType, tile }));
+})();
+
+// Face shown for thumbnails (NORTH, a side face)
+const FACE_SIDE = 2;
+
+// GPU block table (mirrored by common/block_table.wgsl): one vec4<u32> per block id.
+// x = flags, y = TOP | BOTTOM | NORTH | SOUTH tiles (8 bits each), z = EAST | WEST tiles
+const BLOCK_TABLE_ENTRIES = 256;
+const BLOCK_FLAG_CUTOUT = 1;       // alpha-tested; vertices carry atlas UV directly
+const BLOCK_FLAG_FACE_NORMAL = 2;  // flat geometric normal instead of the normal atlas
+const BLOCK_WIND_SHIFT = 2;        // bits 2-3: WindAnimation
+
 // ---- Main class ----
 
 export class TextureAtlas {
   private gpuTexture: GPUTexture;
   private gpuMaterialTexture: GPUTexture;
   private gpuNormalTexture: GPUTexture;
+  private gpuBlockTable: GPUBuffer;
+  // CPU copy of the albedo atlas for UI thumbnails
+  private albedoPixels: Uint8Array;
 
   constructor(ctx: WebGPUContext) {
     const pixels = this.generateAtlasPixels();
+    this.albedoPixels = pixels;
     this.gpuTexture = this.uploadTexture(ctx, pixels);
 
     const materialPixels = this.generateMaterialPixels();
@@ -855,6 +932,13 @@ export class TextureAtlas {
 
     const normalPixels = this.generateNormalPixels();
     this.gpuNormalTexture = this.uploadTexture(ctx, normalPixels);
+
+    const table = this.generateBlockTable();
+    this.gpuBlockTable = ctx.device.createBuffer({
+      size: table.byteLength,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    ctx.device.queue.writeBuffer(this.gpuBlockTable, 0, table.buffer as ArrayBuffer);
   }
 
   get texture(): GPUTexture {
@@ -869,17 +953,37 @@ export class TextureAtlas {
     return this.gpuNormalTexture;
   }
 
+  /** Per-block render flags and face tiles for the G-buffer and shadow shaders */
+  get blockTable(): GPUBuffer {
+    return this.gpuBlockTable;
+  }
+
+  /** A block's side albedo tile as ImageData (TILE_SIZE²), or null if it has no atlas tile */
+  getTileImage(blockType: number): ImageData | null {
+    if (blockType <= 0) return null;
+    const tile = getBlockTile(blockType, FACE_SIDE);
+    if (tile >= ATLAS_TILES * ATLAS_TILES) return null;
+    const startX = (tile % ATLAS_TILES) * TILE_SIZE;
+    const startY = Math.floor(tile / ATLAS_TILES) * TILE_SIZE;
+    const image = new ImageData(TILE_SIZE, TILE_SIZE);
+    for (let y = 0; y < TILE_SIZE; y++) {
+      const src = ((startY + y) * ATLAS_PIXEL_SIZE + startX) * 4;
+      image.data.set(this.albedoPixels.subarray(src, src + TILE_SIZE * 4), y * TILE_SIZE * 4);
+    }
+    return image;
+  }
+
   private generateAtlasPixels(): Uint8Array {
     const size = ATLAS_PIXEL_SIZE * ATLAS_PIXEL_SIZE * 4;
     const pixels = new Uint8Array(size);
 
-    for (const blockType of ALL_BLOCK_TYPES) {
-      const index = blockType as number;
+    for (const { blockType, tile: index } of ATLAS_SLOTS) {
       if (index >= ATLAS_TILES * ATLAS_TILES) continue;
 
       const tileX = index % ATLAS_TILES;
       const tileY = Math.floor(index / ATLAS_TILES);
       const [br, bg, bb, ba] = getBlockColor(blockType);
+      const { shape, layer } = getBlockData(blockType);
 
       const startX = tileX * TILE_SIZE;
       const startY = tileY * TILE_SIZE;
@@ -888,7 +992,7 @@ export class TextureAtlas {
         for (let x = 0; x < TILE_SIZE; x++) {
           const pixelIndex = ((startY + y) * ATLAS_PIXEL_SIZE + (startX + x)) * 4;
           // Torch: RGBA with alpha bake (cross-mesh cutout)
-          if (blockType === BlockType.TORCH) {
+          if (shape === BlockShape.TORCH) {
             const rgba = patternTorchRGBA(x, y);
             pixels[pixelIndex + 0] = rgba[0];
             pixels[pixelIndex + 1] = rgba[1];
@@ -897,12 +1001,14 @@ export class TextureAtlas {
             continue;
           }
           // Vegetation: single call returns RGBA (pattern + alpha)
-          if (isBlockCrossMesh(blockType)) {
+          if (shape === BlockShape.CROSS) {
             let rgba: [number, number, number, number];
             if (blockType === BlockType.TALL_GRASS) {
               rgba = patternTallGrass(x, y);
             } else if (blockType === BlockType.POPPY) {
               rgba = patternPoppy(x, y);
+            } else if (blockType === BlockType.VINES) {
+              rgba = patternVines(x, y);
             } else {
               rgba = patternDandelion(x, y);
             }
@@ -910,9 +1016,9 @@ export class TextureAtlas {
             pixels[pixelIndex + 1] = rgba[1];
             pixels[pixelIndex + 2] = rgba[2];
             pixels[pixelIndex + 3] = rgba[3];
-          } else if (blockType === BlockType.LEAVES) {
+          } else if (layer === RenderLayer.CUTOUT) {
             // Leaves: bake alpha holes into atlas for stable cutout
-            const [r, g, b] = this.getBlockPattern(blockType, x, y, br, bg, bb);
+            const [r, g, b] = this.getBlockPattern(index, x, y, br, bg, bb);
             pixels[pixelIndex + 0] = r;
             pixels[pixelIndex + 1] = g;
             pixels[pixelIndex + 2] = b;
@@ -920,7 +1026,7 @@ export class TextureAtlas {
             const h2 = hash(x, y, 61);
             pixels[pixelIndex + 3] = h2 < 0.20 ? 0 : 255;
           } else {
-            const [r, g, b] = this.getBlockPattern(blockType, x, y, br, bg, bb);
+            const [r, g, b] = this.getBlockPattern(index, x, y, br, bg, bb);
             pixels[pixelIndex + 0] = r;
             pixels[pixelIndex + 1] = g;
             pixels[pixelIndex + 2] = b;
@@ -933,11 +1039,12 @@ export class TextureAtlas {
     return pixels;
   }
 
+  // tile: a block's own tile (its id) or a FaceTile; colors come from the owning block
   private getBlockPattern(
-    blockType: number, px: number, py: number,
+    tile: number, px: number, py: number,
     br: number, bg: number, bb: number,
   ): [number, number, number] {
-    switch (blockType) {
+    switch (tile) {
       case BlockType.STONE:
         return patternStone(px, py, br, bg, bb);
       case BlockType.DIRT:
@@ -972,8 +1079,22 @@ export class TextureAtlas {
       case BlockType.DIAMOND_ORE:
         return patternOre(px, py, br, bg, bb, 80, 230, 230, 128, 128, 128);
       case BlockType.LOG:
+      case BlockType.SPRUCE_LOG:
+      case BlockType.JUNGLE_LOG:
         return patternLog(px, py, br, bg, bb);
+      case BlockType.BIRCH_LOG:
+        return patternBirchLog(px, py, br, bg, bb);
+      case FaceTile.LOG_END:
+      case FaceTile.SPRUCE_LOG_END:
+      case FaceTile.BIRCH_LOG_END:
+      case FaceTile.JUNGLE_LOG_END:
+        return patternLogEnd(px, py, br, bg, bb);
+      case FaceTile.GRASS_SIDE:
+        return patternGrassSide(px, py, br, bg, bb);
       case BlockType.LEAVES:
+      case BlockType.SPRUCE_LEAVES:
+      case BlockType.BIRCH_LEAVES:
+      case BlockType.JUNGLE_LEAVES:
         return patternLeaves(px, py, br, bg, bb);
       case BlockType.COBBLESTONE:
         return patternCobblestone(px, py, br, bg, bb);
@@ -982,7 +1103,10 @@ export class TextureAtlas {
       case BlockType.SPAWNER:
         return patternSpawner(px, py, br, bg, bb);
       case BlockType.CHEST:
-        return patternChest(px, py, br, bg, bb);
+      case FaceTile.CHEST_TOP:
+        return patternChest(px, py, br, bg, bb, false);
+      case FaceTile.CHEST_FRONT:
+        return patternChest(px, py, br, bg, bb, true);
       case BlockType.PLANKS:
         return patternPlanks(px, py, br, bg, bb);
       case BlockType.STONE_BRICKS:
@@ -1005,6 +1129,10 @@ export class TextureAtlas {
         const [r, g, b] = patternDandelion(px, py);
         return [r, g, b];
       }
+      case BlockType.VINES: {
+        const [r, g, b] = patternVines(px, py);
+        return [r, g, b];
+      }
       default:
         return patternDefault(px, py, br, bg, bb);
     }
@@ -1014,8 +1142,7 @@ export class TextureAtlas {
     const size = ATLAS_PIXEL_SIZE * ATLAS_PIXEL_SIZE * 4;
     const pixels = new Uint8Array(size);
 
-    for (const blockType of ALL_BLOCK_TYPES) {
-      const index = blockType as number;
+    for (const { blockType, tile: index } of ATLAS_SLOTS) {
       if (index >= ATLAS_TILES * ATLAS_TILES) continue;
 
       const tileX = index % ATLAS_TILES;
@@ -1185,8 +1312,7 @@ export class TextureAtlas {
       pixels[i + 3] = 255;
     }
 
-    for (const blockType of ALL_BLOCK_TYPES) {
-      const index = blockType as number;
+    for (const { blockType, tile: index } of ATLAS_SLOTS) {
       if (index >= ATLAS_TILES * ATLAS_TILES) continue;
 
       const tileX = index % ATLAS_TILES;
@@ -1194,8 +1320,8 @@ export class TextureAtlas {
       const startX = tileX * TILE_SIZE;
       const startY = tileY * TILE_SIZE;
 
-      const heightMap = generateHeightMap(blockType);
-      const strength = getNormalStrength(blockType);
+      const heightMap = generateHeightMap(index);
+      const strength = getBlockData(blockType).normalStrength;
 
       for (let y = 0; y < TILE_SIZE; y++) {
         for (let x = 0; x < TILE_SIZE; x++) {
@@ -1212,6 +1338,22 @@ export class TextureAtlas {
     return pixels;
   }
 
+  private generateBlockTable(): Uint32Array {
+    const table = new Uint32Array(BLOCK_TABLE_ENTRIES * 4);
+    for (const blockType of ALL_BLOCK_TYPES) {
+      if (blockType >= BLOCK_TABLE_ENTRIES) continue;
+      const data = getBlockData(blockType);
+      let flags = data.wind << BLOCK_WIND_SHIFT;
+      if (data.layer === RenderLayer.CUTOUT) flags |= BLOCK_FLAG_CUTOUT;
+      if (data.shape === BlockShape.CROSS || data.shape === BlockShape.TORCH) flags |= BLOCK_FLAG_FACE_NORMAL;
+      const t = data.tiles;
+      table[blockType * 4 + 0] = flags;
+      table[blockType * 4 + 1] = (t[0] | t[1] << 8 | t[2] << 16 | t[3] << 24) >>> 0;
+      table[blockType * 4 + 2] = t[4] | t[5] << 8;
+    }
+    return table;
+  }
+
   private uploadTexture(ctx: WebGPUContext, pixels: Uint8Array): GPUTexture {
     const texture = ctx.device.createTexture({
       size: [ATLAS_PIXEL_SIZE, ATLAS_PIXEL_SIZE],
@@ -24,7 +24,15 @@ export class WebGPUContext {
     if (!adapter) throw new Error('No GPUAdapter found');
     ctx.adapter = adapter;
 
+    // Collapses per-chunk indirect draws into one call where supported (Chromium)
+    const requiredFeatures: GPUFeatureName[] = [];
+    const multiDraw = 'chromium-experimental-multi-draw-indirect' as GPUFeatureName;
+    if (adapter.features.has(multiDraw)) requiredFeatures.push(multiDraw);
+    // Lets indirect draws carry the chunk slot in firstInstance (LOD cross-fade)
+    if (adapter.features.has('indirect-first-instance')) requiredFeatures.push('indirect-first-instance');
+
     ctx.device = await adapter.requestDevice({
+      requiredFeatures,
       requiredLimits: {
         maxBufferSize: 256 * 1024 * 1024,
         maxStorageBufferBindingSize: 128 * 1024 * 1024,
@@ -0,0 +1,31 @@
+// Block face outline overlay: a thin frame inset on one face of the targeted block.
+// 4 edges × 2 triangles, drawn on the swapchain and depth-tested against the G-buffer depth.
+
+struct OutlineUniforms {
+  viewProjection: mat4x4f,
+  // Face corners in winding order (xyz; w unused), already pushed off the surface
+  corners: array<vec4f, 4>,
+  // rgb = color, a = opacity
+  color: vec4f,
+}
+
+@group(0) @binding(0) var<uniform> u: OutlineUniforms;
+
+// Frame width as a fraction of the corner-to-center distance
+const FRAME_WIDTH = 0.06;
+
+@vertex fn vs_main(@builtin(vertex_index) vertexIndex: u32) -> @builtin(position) vec4f {
+  let edge = vertexIndex / 6u;
+  let c0 = u.corners[edge].xyz;
+  let c1 = u.corners[(edge + 1u) % 4u].xyz;
+  let center = (u.corners[0].xyz + u.corners[2].xyz) * 0.5;
+  let i0 = mix(c0, center, FRAME_WIDTH);
+  let i1 = mix(c1, center, FRAME_WIDTH);
+
+  var quad = array<vec3f, 6>(c0, c1, i1, c0, i1, i0);
+  return u.viewProjection * vec4f(quad[vertexIndex % 6u], 1.0);
+}
+
+@fragment fn fs_main() -> @location(0) vec4f {
+  return u.color;
+}
@@ -1,9 +1,9 @@
-// Alpha cutout for leaves (51), vegetation (80-82), and torches (93).
+// Alpha cutout for blocks flagged cutout in the block table (leaves, vegetation, torches).
 // Atlas alpha is baked at texture generation time for stable, flicker-free results.
-// Requires: atlasSampler, atlasTexture bindings declared before inclusion.
+// Requires: atlasSampler, atlasTexture bindings and common/block_table.wgsl included before inclusion.
 
 fn applyCutout(blockType: u32, texCoord: vec2<f32>) {
-  if (blockType == 51u || (blockType >= 80u && blockType <= 82u) || blockType == 93u) {
+  if (isCutoutBlock(blockType)) {
     let cutoutAlpha = textureSampleLevel(atlasTexture, atlasSampler, texCoord, 0.0).a;
     if (cutoutAlpha < 0.5) { discard; }
   }
@@ -0,0 +1,32 @@
+// Per-block render properties from the block registry, uploaded by TextureAtlas.
+// One vec4 per block id: x = flags, y = TOP|BOTTOM|NORTH|SOUTH tiles (8 bits each), z = EAST|WEST tiles.
+// Requires: blockTable binding (array<vec4<u32>, 256>) declared before inclusion.
+
+const BLOCK_FLAG_CUTOUT: u32 = 1u;       // alpha-tested; vertices carry atlas UV directly
+const BLOCK_FLAG_FACE_NORMAL: u32 = 2u;  // flat geometric normal instead of the normal atlas
+
+// Wind animation (flags bits 2-3), matches WindAnimation
+const WIND_NONE: u32 = 0u;
+const WIND_CANOPY: u32 = 1u;
+const WIND_PLANT: u32 = 2u;
+const WIND_FLAME: u32 = 3u;
+
+fn blockFlags(blockType: u32) -> u32 {
+  return blockTable[min(blockType, 255u)].x;
+}
+
+fn blockWind(blockType: u32) -> u32 {
+  return (blockFlags(blockType) >> 2u) & 3u;
+}
+
+fn isCutoutBlock(blockType: u32) -> bool {
+  return (blockFlags(blockType) & BLOCK_FLAG_CUTOUT) != 0u;
+}
+
+// Atlas tile drawn on a face (TOP=0, BOTTOM=1, NORTH=2, SOUTH=3, EAST=4, WEST=5)
+fn blockTile(blockType: u32, faceIdx: u32) -> u32 {
+  let entry = blockTable[min(blockType, 255u)];
+  let face = min(faceIdx, 5u);
+  let word = select(entry.y, entry.z, face >= 4u);
+  return (word >> ((face % 4u) * 8u)) & 0xFFu;
+}
@@ -4,7 +4,7 @@
 struct ChunkMeta {
   // AABB: min(xyz) + indexCount in w
   aabbMin: vec4<f32>,
-  // AABB: max(xyz) + firstIndex as u32 bits in w
+  // AABB: max(xyz) + LOD cross-fade factor in w
   aabbMax: vec4<f32>,
   // indexOffset (byte offset into index buffer for baseIndex calculation)
   // vertexOffset, firstIndex, padding
@@ -26,7 +26,7 @@ struct DrawIndexedIndirectArgs {
 @group(0) @binding(0) var<storage, read> chunkMetas: array<ChunkMeta>;
 @group(0) @binding(1) var<uniform> frustum: FrustumPlanes;
 @group(0) @binding(2) var<storage, read_write> indirectArgs: array<DrawIndexedIndirectArgs>;
-@group(0) @binding(3) var<uniform> params: vec4<u32>; // x = chunkCount
+@group(0) @binding(3) var<uniform> params: vec4<u32>; // x = chunkCount, y = 1 if firstInstance may carry the slot
 
 @compute @workgroup_size(64)
 fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
@@ -64,7 +64,8 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
     indirectArgs[idx].instanceCount = 1u;
     indirectArgs[idx].firstIndex = cm.offsets.x;
     indirectArgs[idx].baseVertex = bitcast<i32>(cm.offsets.y);
-    indirectArgs[idx].firstInstance = 0u;
+    // instance_index = slot lets the G-Buffer shader read this chunk's metadata
+    indirectArgs[idx].firstInstance = select(0u, idx, params.y != 0u);
   } else {
     indirectArgs[idx].indexCount = 0u;
     indirectArgs[idx].instanceCount = 0u;
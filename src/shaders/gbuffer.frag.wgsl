@@ -8,7 +8,9 @@ struct GBufferOutput {
 @group(1) @binding(1) var atlasTexture: texture_2d<f32>;
 @group(1) @binding(2) var materialAtlas: texture_2d<f32>;
 @group(1) @binding(3) var normalAtlas: texture_2d<f32>;
+@group(1) @binding(4) var<uniform> blockTable: array<vec4<u32>, 256>;
 
+#include "common/block_table.wgsl"
 #include "common/alpha_cutout.wgsl"
 
 // Face normals: TOP, BOTTOM, NORTH(+Z), SOUTH(-Z), EAST(+X), WEST(-X)
@@ -30,10 +32,11 @@ fn buildTBN(faceIdx: u32) -> mat3x3<f32> {
   switch(faceIdx) {
     case 0u: { N = vec3f(0,1,0); T = vec3f(1,0,0); B = vec3f(0,0,1); }   // TOP
     case 1u: { N = vec3f(0,-1,0); T = vec3f(1,0,0); B = vec3f(0,0,-1); }  // BOTTOM
-    case 2u: { N = vec3f(0,0,1); T = vec3f(-1,0,0); B = vec3f(0,1,0); }   // NORTH (+Z)
-    case 3u: { N = vec3f(0,0,-1); T = vec3f(1,0,0); B = vec3f(0,1,0); }   // SOUTH (-Z)
-    case 4u: { N = vec3f(1,0,0); T = vec3f(0,0,1); B = vec3f(0,1,0); }    // EAST (+X)
-    case 5u: { N = vec3f(-1,0,0); T = vec3f(0,0,-1); B = vec3f(0,1,0); }  // WEST (-X)
+    // Sides: T along +u, B along +v (v=0 at the top, so B points down); see MeshBuilder side UVs
+    case 2u: { N = vec3f(0,0,1); T = vec3f(1,0,0); B = vec3f(0,-1,0); }   // NORTH (+Z)
+    case 3u: { N = vec3f(0,0,-1); T = vec3f(-1,0,0); B = vec3f(0,-1,0); } // SOUTH (-Z)
+    case 4u: { N = vec3f(1,0,0); T = vec3f(0,0,-1); B = vec3f(0,-1,0); }  // EAST (+X)
+    case 5u: { N = vec3f(-1,0,0); T = vec3f(0,0,1); B = vec3f(0,-1,0); }  // WEST (-X)
     default: { N = vec3f(0,1,0); T = vec3f(1,0,0); B = vec3f(0,0,1); }
   }
   return mat3x3<f32>(T, B, N);
@@ -44,11 +47,11 @@ const ATLAS_TILES: f32 = 16.0;
 const TILE_UV_SIZE: f32 = 1.0 / 16.0;
 const HALF_TEXEL: f32 = 0.5 / 256.0;  // half texel for 256px atlas
 
-// Convert tiled UV [0..W]x[0..H] to atlas UV for a given blockType.
+// Convert tiled UV [0..W]x[0..H] to atlas UV for an atlas tile.
 // For cutout blocks (leaves/veg), texCoord is already in atlas space.
-fn tiledUVtoAtlas(texCoord: vec2<f32>, blockType: u32) -> vec2<f32> {
-  let tileX = f32(blockType % u32(ATLAS_TILES));
-  let tileY = f32(blockType / u32(ATLAS_TILES));
+fn tiledUVtoAtlas(texCoord: vec2<f32>, tile: u32) -> vec2<f32> {
+  let tileX = f32(tile % u32(ATLAS_TILES));
+  let tileY = f32(tile / u32(ATLAS_TILES));
   let tileBase = vec2<f32>(tileX * TILE_UV_SIZE, tileY * TILE_UV_SIZE);
 
   // fract() gives the position within each tile [0..1]
@@ -66,28 +69,46 @@ struct VertexOutput {
   @location(1) texCoord: vec2<f32>,
   @location(2) @interpolate(flat) normalIndex: u32,
   @location(3) ao: f32,
+  @location(4) @interpolate(flat) fade: f32,
 };
 
+// Screen-space dither threshold in [0, 1) (interleaved gradient noise)
+fn ditherNoise(pixel: vec2<f32>) -> f32 {
+  return fract(52.9829189 * fract(dot(floor(pixel), vec2<f32>(0.06711056, 0.00583715))));
+}
+
+// LOD cross-fade. fade >= 1: opaque. [0, 1): incoming mesh at progress t = fade keeps pixels with noise < t.
+// [-1, 0): outgoing mesh at progress t = fade + 1 keeps the complement, so each pixel shows exactly one mesh.
+fn isFadedOut(fade: f32, pixel: vec2<f32>) -> bool {
+  if (fade >= 1.0) { return false; }
+  let noise = ditherNoise(pixel);
+  if (fade >= 0.0) { return noise >= fade; }
+  return noise < fade + 1.0;
+}
+
 @fragment
 fn main(input: VertexOutput, @builtin(front_facing) frontFacing: bool) -> GBufferOutput {
   var output: GBufferOutput;
 
+  if (isFadedOut(input.fade, input.clipPos.xy)) {
+    discard;
+  }
+
   // Extract face index and block type from packed normalIndex
   let faceIdx = input.normalIndex & 0xFFu;
   let blockType = input.normalIndex >> 8u;
 
-  // Determine if this is a cutout block (uses direct atlas UV, not tiled)
-  let isCutout = (blockType == 51u) || (blockType >= 80u && blockType <= 82u) || (blockType == 93u);
+  let flags = blockFlags(blockType);
 
-  // Compute atlas UV: cutout blocks use texCoord directly, others use tiled conversion
+  // Compute atlas UV: cutout blocks use texCoord directly, others tile the face's atlas tile
   var atlasUV: vec2<f32>;
-  if (isCutout) {
+  if ((flags & BLOCK_FLAG_CUTOUT) != 0u) {
     atlasUV = input.texCoord;
   } else {
-    atlasUV = tiledUVtoAtlas(input.texCoord, blockType);
+    atlasUV = tiledUVtoAtlas(input.texCoord, blockTile(blockType, faceIdx));
   }
 
-  // Alpha cutout: leaves (51) and vegetation (80-82) use atlas texture alpha.
+  // Alpha cutout against the atlas texture alpha
   applyCutout(blockType, atlasUV);
 
   let albedo = textureSampleLevel(atlasTexture, atlasSampler, atlasUV, 0.0);
@@ -97,7 +118,7 @@ fn main(input: VertexOutput, @builtin(front_facing) frontFacing: bool) -> GBuffe
   let idx = min(faceIdx, 5u);
 
   var worldNormal: vec3<f32>;
-  if ((blockType >= 80u && blockType <= 82u) || blockType == 93u) {
+  if ((flags & BLOCK_FLAG_FACE_NORMAL) != 0u) {
     // Vegetation/Torch: use face normal from geometry, oriented toward camera
     worldNormal = FACE_NORMALS[idx];
     if (!frontFacing) { worldNormal = -worldNormal; }
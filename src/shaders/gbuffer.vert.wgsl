@@ -7,11 +7,25 @@ struct Camera {
 
 @group(0) @binding(0) var<uniform> camera: Camera;
 
+@group(1) @binding(4) var<uniform> blockTable: array<vec4<u32>, 256>;
+
+#include "common/block_table.wgsl"
+
+struct ChunkMeta {
+  aabbMin: vec4<f32>,
+  aabbMax: vec4<f32>,   // w = LOD cross-fade factor
+  offsets: vec4<u32>,
+};
+
+// IndirectRenderer slot metadata; the cull shaders write firstInstance = slot
+@group(2) @binding(0) var<storage, read> chunkMetas: array<ChunkMeta>;
+
 struct VertexInput {
   @location(0) position: vec3<f32>,
   @location(1) normalIndex: u32,
   @location(2) texCoord: vec2<f32>,
   @location(3) ao: f32,
+  @builtin(instance_index) instance: u32,
 };
 
 struct VertexOutput {
@@ -20,6 +34,7 @@ struct VertexOutput {
   @location(1) texCoord: vec2<f32>,
   @location(2) @interpolate(flat) normalIndex: u32,
   @location(3) ao: f32,
+  @location(4) @interpolate(flat) fade: f32,
 };
 
 @vertex
@@ -30,9 +45,10 @@ fn main(input: VertexInput) -> VertexOutput {
   let blockType = input.normalIndex >> 8u;
 
   var worldPos = input.position;
+  let wind = blockWind(blockType);
 
-  // Leaves wind animation (BlockType.LEAVES = 51)
-  if (blockType == 51u) {
+  // Canopy wind animation (leaves)
+  if (wind == WIND_CANOPY) {
     let windTime = camera.time.x % 628.318; // wrap to avoid sin() precision loss
     let windStrength = 0.03;
     let freq1 = worldPos.x * 0.8 + worldPos.z * 0.4 + windTime * 1.2;
@@ -42,8 +58,8 @@ fn main(input: VertexInput) -> VertexOutput {
     worldPos.y += sin(freq1 + freq2) * windStrength * 0.2;
   }
 
-  // Vegetation wind animation (TALL_GRASS=80, POPPY=81, DANDELION=82)
-  if (blockType >= 80u && blockType <= 82u) {
+  // Plant wind animation (cross-mesh vegetation)
+  if (wind == WIND_PLANT) {
     let windTime = camera.time.x % 628.318; // wrap to avoid sin() precision loss
     // Use original Y for height factor (stable, pre-wind)
     let heightFactor = fract(input.position.y); // ~0.01 at bottom, ~0.99 at top
@@ -54,8 +70,8 @@ fn main(input: VertexInput) -> VertexOutput {
     worldPos.z += cos(freq2) * windStrength * 0.8;
   }
 
-  // Torch flame flicker animation (BlockType.TORCH = 93)
-  if (blockType == 93u) {
+  // Flame flicker animation (torches)
+  if (wind == WIND_FLAME) {
     let windTime = camera.time.x % 628.318;
     let heightFactor = fract(input.position.y); // ~0.01 at bottom, ~0.99 at top
     let flickerStrength = 0.04 * heightFactor;
@@ -70,5 +86,6 @@ fn main(input: VertexInput) -> VertexOutput {
   output.texCoord = input.texCoord;
   output.normalIndex = input.normalIndex;
   output.ao = input.ao;
+  output.fade = chunkMetas[input.instance].aabbMax.w;
   return output;
 }
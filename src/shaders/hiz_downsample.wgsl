@@ -1,6 +1,7 @@
 // Hi-Z Downsample Compute Shader
 // Takes a depth texture (or previous mip) and produces a max-depth mip.
-// Each texel takes the maximum depth from the 4 source texels (conservative depth).
+// Each texel takes the maximum depth from the 2×2 source texels (conservative depth).
+// Odd source sizes: the last row/column also folds in the leftover source texel.
 
 @group(0) @binding(0) var srcTex: texture_2d<f32>;
 @group(0) @binding(1) var dstTex: texture_storage_2d<r32float, write>;
@@ -11,16 +12,19 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
   let dstSize = params.xy;
   if (gid.x >= dstSize.x || gid.y >= dstSize.y) { return; }
 
-  // Sample 4 source texels (2×2 block)
+  let srcSize = vec2<i32>(textureDimensions(srcTex));
   let srcCoord = vec2<i32>(gid.xy) * 2;
-  let d00 = textureLoad(srcTex, srcCoord + vec2<i32>(0, 0), 0).r;
-  let d10 = textureLoad(srcTex, srcCoord + vec2<i32>(1, 0), 0).r;
-  let d01 = textureLoad(srcTex, srcCoord + vec2<i32>(0, 1), 0).r;
-  let d11 = textureLoad(srcTex, srcCoord + vec2<i32>(1, 1), 0).r;
+  let lastX = select(1, 2, gid.x == dstSize.x - 1u && (srcSize.x & 1) == 1);
+  let lastY = select(1, 2, gid.y == dstSize.y - 1u && (srcSize.y & 1) == 1);
 
   // Max depth (conservative: if any pixel is behind, the whole region is "behind")
-  let maxDepth = max(max(d00, d10), max(d01, d11));
+  var maxDepth = 0.0;
+  for (var dy = 0; dy <= lastY; dy = dy + 1) {
+    for (var dx = 0; dx <= lastX; dx = dx + 1) {
+      let c = min(srcCoord + vec2<i32>(dx, dy), srcSize - 1);
+      maxDepth = max(maxDepth, textureLoad(srcTex, c, 0).r);
+    }
+  }
 
-  textureStorageBarrier();
   textureStore(dstTex, vec2<i32>(gid.xy), vec4<f32>(maxDepth, 0.0, 0.0, 0.0));
 }
@@ -64,6 +64,7 @@ fn atmosphericFogColor(viewDir: vec3f, sunDir: vec3f) -> vec3f {
   // Sunset warming
   let sunsetFactor = 1.0 - clamp(abs(trueSunHeight) * 3.0, 0.0, 1.0);
   fogColor += vec3f(1.2, 0.5, 0.15) * sunsetFactor * max(cosTheta, 0.0) * 0.5;
+  fogColor *= scene.biomeTint.rgb;
   // Night darkening
   let dayFactor = smoothstep(-0.15, 0.1, trueSunHeight);
   fogColor *= dayFactor;
@@ -0,0 +1,161 @@
+// Two-Phase Hi-Z Occlusion Culling Compute Shader
+// Phase 0: frustum + occlusion test against the previous frame's Hi-Z pyramid.
+//          Chunks rejected only by occlusion are flagged for a retest.
+// Phase 1: flagged chunks are retested against the pyramid rebuilt from phase-0 depth.
+//          Newly visible ones (false negatives from camera motion / disocclusion) get draw args.
+
+struct ChunkMeta {
+  // AABB: min(xyz) + indexCount in w
+  aabbMin: vec4<f32>,
+  // AABB: max(xyz) + LOD cross-fade factor in w
+  aabbMax: vec4<f32>,
+  // firstIndex, baseVertex, padding
+  offsets: vec4<u32>,
+};
+
+struct DrawIndexedIndirectArgs {
+  indexCount: u32,
+  instanceCount: u32,
+  firstIndex: u32,
+  baseVertex: i32,
+  firstInstance: u32,
+};
+
+struct CullUniforms {
+  viewProj: mat4x4<f32>,
+  params: vec4<u32>,   // x = chunkCount, y = phase, z = hiz mip count, w = 1 if firstInstance may carry the slot
+};
+
+@group(0) @binding(0) var<storage, read> chunkMetas: array<ChunkMeta>;
+@group(0) @binding(1) var<uniform> cull: CullUniforms;
+@group(0) @binding(2) var<storage, read_write> indirectArgs: array<DrawIndexedIndirectArgs>;
+@group(0) @binding(3) var<storage, read_write> retest: array<u32>;
+@group(0) @binding(4) var hizTex: texture_2d<f32>;
+// [0] = visible, [1] = occluded, [2] = frustum culled
+@group(0) @binding(5) var<storage, read_write> stats: array<atomic<u32>, 4>;
+
+fn aabbCorner(aabbMin: vec3<f32>, aabbMax: vec3<f32>, i: u32) -> vec4<f32> {
+  return vec4<f32>(
+    select(aabbMin.x, aabbMax.x, (i & 1u) != 0u),
+    select(aabbMin.y, aabbMax.y, (i & 2u) != 0u),
+    select(aabbMin.z, aabbMax.z, (i & 4u) != 0u),
+    1.0,
+  );
+}
+
+// Clip-space outcode test: culled when all 8 corners are outside the same plane
+fn isOutsideFrustum(aabbMin: vec3<f32>, aabbMax: vec3<f32>) -> bool {
+  var outAll = 0x3Fu;
+  for (var i = 0u; i < 8u; i = i + 1u) {
+    let clip = cull.viewProj * aabbCorner(aabbMin, aabbMax, i);
+    var code = 0u;
+    if (clip.x < -clip.w) { code = code | 1u; }
+    if (clip.x > clip.w)  { code = code | 2u; }
+    if (clip.y < -clip.w) { code = code | 4u; }
+    if (clip.y > clip.w)  { code = code | 8u; }
+    if (clip.z < 0.0)     { code = code | 16u; }
+    if (clip.z > clip.w)  { code = code | 32u; }
+    outAll = outAll & code;
+  }
+  return outAll != 0u;
+}
+
+// Conservative test: the nearest AABB depth must be behind the farthest Hi-Z depth
+// over the AABB's screen rect (4 texels at the mip where the rect spans <= 2×2 texels).
+fn isOccluded(aabbMin: vec3<f32>, aabbMax: vec3<f32>) -> bool {
+  var uvMin = vec2<f32>(1.0);
+  var uvMax = vec2<f32>(0.0);
+  var minDepth = 1.0;
+  for (var i = 0u; i < 8u; i = i + 1u) {
+    let clip = cull.viewProj * aabbCorner(aabbMin, aabbMax, i);
+    // Corner behind the camera: projected rect is unreliable, treat as visible
+    if (clip.w <= 0.0) { return false; }
+    let ndc = clip.xyz / clip.w;
+    let uv = vec2<f32>(ndc.x * 0.5 + 0.5, 0.5 - ndc.y * 0.5);
+    uvMin = min(uvMin, uv);
+    uvMax = max(uvMax, uv);
+    minDepth = min(minDepth, ndc.z);
+  }
+  if (minDepth <= 0.0) { return false; }
+
+  uvMin = clamp(uvMin, vec2<f32>(0.0), vec2<f32>(1.0));
+  uvMax = clamp(uvMax, vec2<f32>(0.0), vec2<f32>(1.0));
+
+  let baseSize = vec2<f32>(textureDimensions(hizTex, 0u));
+  let rectPx = (uvMax - uvMin) * baseSize;
+  let maxMip = cull.params.z - 1u;
+  let level = min(u32(ceil(log2(max(max(rectPx.x, rectPx.y), 1.0)))), maxMip);
+
+  let levelSize = vec2<i32>(textureDimensions(hizTex, level));
+  let p0 = clamp(vec2<i32>(uvMin * vec2<f32>(levelSize)), vec2<i32>(0), levelSize - 1);
+  let p1 = clamp(vec2<i32>(uvMax * vec2<f32>(levelSize)), vec2<i32>(0), levelSize - 1);
+
+  let d00 = textureLoad(hizTex, p0, i32(level)).r;
+  let d10 = textureLoad(hizTex, vec2<i32>(p1.x, p0.y), i32(level)).r;
+  let d01 = textureLoad(hizTex, vec2<i32>(p0.x, p1.y), i32(level)).r;
+  let d11 = textureLoad(hizTex, p1, i32(level)).r;
+  let hizDepth = max(max(d00, d10), max(d01, d11));
+
+  return minDepth > hizDepth;
+}
+
+fn writeArgs(idx: u32, cm: ChunkMeta, indexCount: u32) {
+  indirectArgs[idx].indexCount = indexCount;
+  indirectArgs[idx].instanceCount = 1u;
+  indirectArgs[idx].firstIndex = cm.offsets.x;
+  indirectArgs[idx].baseVertex = bitcast<i32>(cm.offsets.y);
+  indirectArgs[idx].firstInstance = select(0u, idx, cull.params.w != 0u);
+}
+
+fn clearArgs(idx: u32) {
+  indirectArgs[idx].indexCount = 0u;
+  indirectArgs[idx].instanceCount = 0u;
+  indirectArgs[idx].firstIndex = 0u;
+  indirectArgs[idx].baseVertex = 0i;
+  indirectArgs[idx].firstInstance = 0u;
+}
+
+@compute @workgroup_size(64)
+fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
+  let idx = gid.x;
+  if (idx >= cull.params.x) { return; }
+
+  let cm = chunkMetas[idx];
+  let aabbMin = cm.aabbMin.xyz;
+  let aabbMax = cm.aabbMax.xyz;
+  let indexCount = bitcast<u32>(cm.aabbMin.w);
+
+  if (cull.params.y == 0u) {
+    retest[idx] = 0u;
+
+    // Skip empty chunks
+    if (indexCount == 0u) {
+      clearArgs(idx);
+      return;
+    }
+    if (isOutsideFrustum(aabbMin, aabbMax)) {
+      clearArgs(idx);
+      atomicAdd(&stats[2], 1u);
+      return;
+    }
+    if (isOccluded(aabbMin, aabbMax)) {
+      clearArgs(idx);
+      retest[idx] = 1u;
+      return;
+    }
+    writeArgs(idx, cm, indexCount);
+    atomicAdd(&stats[0], 1u);
+  } else {
+    if (retest[idx] == 0u) {
+      clearArgs(idx);
+      return;
+    }
+    if (isOccluded(aabbMin, aabbMax)) {
+      clearArgs(idx);
+      atomicAdd(&stats[1], 1u);
+      return;
+    }
+    writeArgs(idx, cm, indexCount);
+    atomicAdd(&stats[0], 1u);
+  }
+}
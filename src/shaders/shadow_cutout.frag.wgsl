@@ -1,6 +1,8 @@
 @group(1) @binding(0) var atlasSampler: sampler;
 @group(1) @binding(1) var atlasTexture: texture_2d<f32>;
+@group(1) @binding(2) var<uniform> blockTable: array<vec4<u32>, 256>;
 
+#include "common/block_table.wgsl"
 #include "common/alpha_cutout.wgsl"
 
 struct FragInput {
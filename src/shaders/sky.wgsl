@@ -84,6 +84,7 @@ fn fs_main(input: VertexOutput) -> @location(0) vec4<f32> {
   let horizonWarm = vec3<f32>(1.2, 0.5, 0.15) * sunsetFactor * max(cosTheta, 0.0) * 0.5;
   let horizonBand = exp(-abs(up) * 8.0);
   skyColor += horizonWarm * horizonBand;
+  skyColor *= scene.biomeTint.rgb;
 
   // Dim day sky toward night
   skyColor *= dayFactor;
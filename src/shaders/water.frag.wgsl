@@ -1,6 +1,7 @@
 // ======================== Water Fragment Shader ========================
 // Physical water rendering: SSR reflections (blocks + sky/clouds),
-// procedural refraction, Fresnel compositing, Snell's window, edge foam
+// procedural refraction, Fresnel compositing, Snell's window, edge foam,
+// ripples carried along the flow, foam on waterfalls
 //
 // sceneColorTex 사용 규칙 (SSAO artifact 방지):
 //   - 굴절(아래 보기): 절대 금지 → procedural 색상만 사용
@@ -39,10 +40,16 @@ struct FragInput {
   @builtin(position) position: vec4f,
   @location(0) worldPos: vec3f,
   @location(1) uv: vec2f,
+  @location(2) flow: vec4f,  // xyz = flow direction (y = -1 on falling sheets), w = foam
 }
 
 const WATER_ABSORB = vec3f(0.39, 0.11, 0.07);
 
+// Flow-mapped ripples: each phase drifts FLOW_DRIFT blocks per cycle, then cross-fades back
+const FLOW_CYCLE = 0.5;   // cycles per second
+const FLOW_DRIFT = 1.2;
+const FALL_SPEED = 3.0;   // ripple scroll speed on falling sheets (blocks/s)
+
 fn linearizeDepth(d: f32) -> f32 {
   let near = frag.nearPlane;
   let far = frag.farPlane;
@@ -84,27 +91,48 @@ fn waterFBM(p: vec2f) -> f32 {
   return value;
 }
 
-fn waterNormal(pos: vec3f, t: f32) -> vec3f {
-  let eps = 0.08;
-  let strength = 0.35;
-
+fn rippleHeight(uv: vec2f, t: f32) -> f32 {
   let flow1 = vec2f(t * 0.4, t * 0.3);
   let flow2 = vec2f(-t * 0.25, t * 0.35);
-  let scale1 = 0.8;
-  let scale2 = 1.6;
-  let uv = pos.xz;
+  return waterFBM(uv * 0.8 + flow1) * 0.7 + waterFBM(uv * 1.6 + flow2) * 0.3;
+}
+
+// Ripple height gradient at uv
+fn rippleSlope(uv: vec2f, t: f32) -> vec2f {
+  let eps = 0.08;
+  let strength = 0.35;
+  let h00 = rippleHeight(uv, t);
+  let h10 = rippleHeight(uv + vec2f(eps, 0.0), t);
+  let h01 = rippleHeight(uv + vec2f(0.0, eps), t);
+  return vec2f(h10 - h00, h01 - h00) / eps * strength;
+}
 
-  let h00 = waterFBM(uv * scale1 + flow1) * 0.7
-           + waterFBM(uv * scale2 + flow2) * 0.3;
-  let h10 = waterFBM((uv + vec2f(eps, 0.0)) * scale1 + flow1) * 0.7
-           + waterFBM((uv + vec2f(eps, 0.0)) * scale2 + flow2) * 0.3;
-  let h01 = waterFBM((uv + vec2f(0.0, eps)) * scale1 + flow1) * 0.7
-           + waterFBM((uv + vec2f(0.0, eps)) * scale2 + flow2) * 0.3;
+// Ripples advected along flow: two phases half a cycle apart, each reset while the other is visible
+fn flowSlope(uv: vec2f, flow: vec2f, t: f32) -> vec2f {
+  let phase0 = fract(t * FLOW_CYCLE);
+  let phase1 = fract(t * FLOW_CYCLE + 0.5);
+  let s0 = rippleSlope(uv - flow * phase0 * FLOW_DRIFT, t);
+  let s1 = rippleSlope(uv - flow * phase1 * FLOW_DRIFT + vec2f(0.37, 0.71), t);
+  return mix(s1, s0, abs(1.0 - 2.0 * phase0));
+}
 
-  let dhdx = (h10 - h00) / eps * strength;
-  let dhdz = (h01 - h00) / eps * strength;
+fn waterNormal(pos: vec3f, flow: vec2f, t: f32) -> vec3f {
+  let speed = length(flow);
+  var slope: vec2f;
+  if (speed < 0.01) {
+    slope = rippleSlope(pos.xz, t);
+  } else {
+    slope = mix(rippleSlope(pos.xz, t), flowSlope(pos.xz, flow, t), saturate(speed * 2.0));
+  }
+  return normalize(vec3f(-slope.x, 1.0, -slope.y));
+}
 
-  return normalize(vec3f(-dhdx, 1.0, -dhdz));
+// Falling sheet: ripples stretched vertically and streaming down the face
+fn fallNormal(pos: vec3f, faceNormal: vec3f, t: f32) -> vec3f {
+  let tangent = normalize(vec3f(-faceNormal.z, 0.0, faceNormal.x));
+  let uv = vec2f(dot(pos, tangent) * 1.5, pos.y * 0.4 + t * FALL_SPEED * 0.4);
+  let slope = rippleSlope(uv, t);
+  return normalize(faceNormal - tangent * slope.x - vec3f(0.0, slope.y, 0.0));
 }
 
 // ---- SSR ----
@@ -211,8 +239,17 @@ fn main(input: FragInput) -> @location(0) vec4f {
   let linearWater = linearizeDepth(input.position.z);
   let waterDepth = max(linearScene - linearWater, 0.0);
 
-  let N = waterNormal(input.worldPos, frag.time);
   let V = normalize(frag.cameraPos - input.worldPos);
+  // Geometric normal for falling sheets (derivatives must run in uniform control flow)
+  var faceNormal = normalize(cross(dpdx(input.worldPos), dpdy(input.worldPos)));
+  if (dot(faceNormal, V) < 0.0) { faceNormal = -faceNormal; }
+  let falling = input.flow.y < -0.5;
+  var N: vec3f;
+  if (falling) {
+    N = fallNormal(input.worldPos, faceNormal, frag.time);
+  } else {
+    N = waterNormal(input.worldPos, input.flow.xz, frag.time);
+  }
   let viewDist = length(frag.cameraPos - input.worldPos);
   let dayFactor = smoothstep(0.2, 0.6, frag.sunIntensity);
 
@@ -273,6 +310,13 @@ fn main(input: FragInput) -> @location(0) vec4f {
   let foam = foamLine * (0.5 + 0.5 * foamWave * foamWave2) * dayFactor;
   aboveColor += vec3f(foam * 0.7, foam * 0.75, foam * 0.8);
 
+  // Cascade foam: falling sheets streak white, splash rings where they land
+  let churnUV = vec2f(input.worldPos.x + input.worldPos.z, input.worldPos.y * 0.5 + frag.time * FALL_SPEED * 0.5);
+  let churn = smoothNoise(churnUV * 3.0);
+  let cascade = max(input.flow.w, select(0.0, 0.35, falling));
+  let cascadeFoam = cascade * (0.55 + 0.45 * churn) * dayFactor;
+  aboveColor += vec3f(cascadeFoam * 0.8, cascadeFoam * 0.85, cascadeFoam * 0.9);
+
   // Distance fog (above-water path only)
   let fogFactor = clamp((viewDist - frag.fogStart) / (frag.fogEnd - frag.fogStart), 0.0, 1.0);
   aboveColor = mix(aboveColor, frag.fogColor, fogFactor);
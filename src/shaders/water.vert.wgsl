@@ -7,12 +7,14 @@ struct Uniforms {
 struct VertexInput {
   @location(0) position: vec3f,
   @location(1) uv: vec2f,
+  @location(2) flow: vec4f,  // xyz = flow direction (y = -1 on falling sheets), w = foam
 }
 
 struct VertexOutput {
   @builtin(position) position: vec4f,
   @location(0) worldPos: vec3f,
   @location(1) uv: vec2f,
+  @location(2) flow: vec4f,
 }
 
 @vertex
@@ -34,5 +36,6 @@ fn main(input: VertexInput) -> VertexOutput {
   out.position = uniforms.viewProjection * vec4f(pos, 1.0);
   out.worldPos = pos;
   out.uv = input.uv;
+  out.flow = input.flow;
   return out;
 }
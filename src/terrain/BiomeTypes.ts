@@ -1,11 +1,7 @@
-export const enum BiomeType {
-  PLAINS = 0,
-  FOREST = 1,
-  DESERT = 2,
-  TUNDRA = 3,
-  MOUNTAINS = 4,
-  OCEAN = 5,
-}
+import { BlockType } from './BlockTypes';
+
+/** Biome id: index into the biome registry (assigned by registerBiome) */
+export type BiomeType = number;
 
 export interface BiomeParameters {
   temperature: number;   // [-1, 1]
@@ -13,11 +9,172 @@ export interface BiomeParameters {
   continentalness: number; // [-1, 1]
 }
 
-export const BIOME_PARAMS: ReadonlyArray<{ biome: BiomeType; params: BiomeParameters }> = [
-  { biome: BiomeType.OCEAN,     params: { temperature:  0.0, humidity:  0.5, continentalness: -0.7 } },
-  { biome: BiomeType.PLAINS,    params: { temperature:  0.3, humidity:  0.0, continentalness:  0.2 } },
-  { biome: BiomeType.FOREST,    params: { temperature:  0.2, humidity:  0.6, continentalness:  0.3 } },
-  { biome: BiomeType.DESERT,    params: { temperature:  0.8, humidity: -0.7, continentalness:  0.4 } },
-  { biome: BiomeType.TUNDRA,    params: { temperature: -0.8, humidity:  0.0, continentalness:  0.3 } },
-  { biome: BiomeType.MOUNTAINS, params: { temperature: -0.2, humidity:  0.2, continentalness:  0.8 } },
-];
+/** Tree shapes built by TreeGenerator */
+export const enum TreeSpecies {
+  OAK,
+  LARGE_OAK,   // branching trunk with several leaf clusters
+  BIRCH,
+  SPRUCE,      // conical tiers
+  JUNGLE,      // 2×2 trunk, wide canopy with hanging vines
+  DEAD,        // leafless
+}
+
+export interface BiomeDefinition {
+  name: string;
+  /** Climate point; columns take the nearest biome in (temperature, humidity, continentalness) */
+  climate: BiomeParameters;
+  surfaceBlock: number;
+  fillerBlock: number;
+  /** Bare peaks: surfaces above minY use this block instead */
+  peak?: { minY: number; block: number };
+  /** Blocks added to the continentalness height (blended across borders) */
+  heightOffset: number;
+  /** Multiplier on the local height variation (blended across borders) */
+  heightScale: number;
+  trees: {
+    density: number;        // × terrain.trees.perChunk (0 = no trees)
+    rejectChance: number;   // per-tree rejection [0, 1]
+    species: ReadonlyArray<readonly [TreeSpecies, number]>;  // [species, weight]
+  };
+  vegetation: {
+    density: number;        // chance per grass column (0 = none)
+    grass: number;          // roll below → tall grass
+    poppy: number;          // roll below → poppy, otherwise dandelion
+  };
+  villages: boolean;
+  /** Sky/fog color multiplier while the camera is in this biome */
+  skyTint: [number, number, number];
+}
+
+const BIOMES: BiomeDefinition[] = [];
+
+export function registerBiome(def: BiomeDefinition): BiomeType {
+  BIOMES.push(def);
+  return BIOMES.length - 1;
+}
+
+export function getBiomeDefinition(biome: BiomeType): BiomeDefinition {
+  return BIOMES[biome] ?? BIOMES[BiomeType.PLAINS];
+}
+
+export function getAllBiomes(): ReadonlyArray<BiomeDefinition> {
+  return BIOMES;
+}
+
+const NO_TREES = { density: 0, rejectChance: 1, species: [] };
+const NO_VEGETATION = { density: 0, grass: 1, poppy: 1 };
+const MEADOW = { density: 0.30, grass: 0.80, poppy: 0.90 };
+
+export const BiomeType = {
+  PLAINS: registerBiome({
+    name: 'Plains',
+    climate: { temperature: 0.3, humidity: 0.0, continentalness: 0.2 },
+    surfaceBlock: BlockType.GRASS_BLOCK, fillerBlock: BlockType.DIRT,
+    heightOffset: 0, heightScale: 1,
+    trees: { density: 1, rejectChance: 0, species: [[TreeSpecies.OAK, 8], [TreeSpecies.LARGE_OAK, 1], [TreeSpecies.BIRCH, 1]] },
+    vegetation: MEADOW,
+    villages: true,
+    skyTint: [1.0, 1.0, 1.0],
+  }),
+  FOREST: registerBiome({
+    name: 'Forest',
+    climate: { temperature: 0.2, humidity: 0.6, continentalness: 0.3 },
+    surfaceBlock: BlockType.GRASS_BLOCK, fillerBlock: BlockType.DIRT,
+    heightOffset: 0, heightScale: 1,
+    trees: { density: 3, rejectChance: 0, species: [[TreeSpecies.OAK, 4], [TreeSpecies.BIRCH, 3], [TreeSpecies.LARGE_OAK, 2]] },
+    vegetation: MEADOW,
+    villages: true,
+    skyTint: [0.95, 1.0, 0.96],
+  }),
+  DESERT: registerBiome({
+    name: 'Desert',
+    climate: { temperature: 0.8, humidity: -0.7, continentalness: 0.4 },
+    surfaceBlock: BlockType.SAND, fillerBlock: BlockType.SANDSTONE,
+    heightOffset: 0, heightScale: 1,
+    trees: NO_TREES,
+    vegetation: NO_VEGETATION,
+    villages: false,
+    skyTint: [1.08, 1.0, 0.88],
+  }),
+  TUNDRA: registerBiome({
+    name: 'Tundra',
+    climate: { temperature: -0.8, humidity: 0.0, continentalness: 0.3 },
+    surfaceBlock: BlockType.SNOW, fillerBlock: BlockType.DIRT,
+    heightOffset: 0, heightScale: 1,
+    trees: { density: 0.5, rejectChance: 0.5, species: [[TreeSpecies.SPRUCE, 3], [TreeSpecies.DEAD, 1]] },
+    vegetation: NO_VEGETATION,
+    villages: false,
+    skyTint: [0.94, 0.98, 1.06],
+  }),
+  MOUNTAINS: registerBiome({
+    name: 'Mountains',
+    climate: { temperature: -0.2, humidity: 0.2, continentalness: 0.8 },
+    surfaceBlock: BlockType.GRASS_BLOCK, fillerBlock: BlockType.DIRT,
+    peak: { minY: 86, block: BlockType.STONE },
+    heightOffset: 0, heightScale: 1,
+    trees: { density: 0.5, rejectChance: 0.3, species: [[TreeSpecies.SPRUCE, 1]] },
+    vegetation: NO_VEGETATION,
+    villages: false,
+    skyTint: [0.97, 0.98, 1.02],
+  }),
+  OCEAN: registerBiome({
+    name: 'Ocean',
+    climate: { temperature: 0.0, humidity: 0.5, continentalness: -0.7 },
+    surfaceBlock: BlockType.SAND, fillerBlock: BlockType.SAND,
+    heightOffset: 0, heightScale: 1,
+    trees: NO_TREES,
+    vegetation: NO_VEGETATION,
+    villages: false,
+    skyTint: [0.97, 1.0, 1.04],
+  }),
+  SWAMP: registerBiome({
+    name: 'Swamp',
+    climate: { temperature: 0.4, humidity: 0.8, continentalness: 0.0 },
+    surfaceBlock: BlockType.GRASS_BLOCK, fillerBlock: BlockType.CLAY,
+    heightOffset: -3, heightScale: 0.3,
+    trees: { density: 0.7, rejectChance: 0.2, species: [[TreeSpecies.OAK, 3], [TreeSpecies.DEAD, 1]] },
+    vegetation: { density: 0.45, grass: 0.95, poppy: 0.98 },
+    villages: false,
+    skyTint: [0.86, 0.95, 0.82],
+  }),
+  SAVANNA: registerBiome({
+    name: 'Savanna',
+    climate: { temperature: 0.7, humidity: -0.3, continentalness: 0.3 },
+    surfaceBlock: BlockType.GRASS_BLOCK, fillerBlock: BlockType.DIRT,
+    heightOffset: 1, heightScale: 0.7,
+    trees: { density: 0.4, rejectChance: 0.4, species: [[TreeSpecies.OAK, 2], [TreeSpecies.DEAD, 1]] },
+    vegetation: { density: 0.50, grass: 0.95, poppy: 0.97 },
+    villages: true,
+    skyTint: [1.08, 1.02, 0.9],
+  }),
+  BADLANDS: registerBiome({
+    name: 'Badlands',
+    climate: { temperature: 0.6, humidity: -0.5, continentalness: 0.7 },
+    surfaceBlock: BlockType.SANDSTONE, fillerBlock: BlockType.CLAY,
+    heightOffset: 6, heightScale: 2.2,
+    trees: NO_TREES,
+    vegetation: NO_VEGETATION,
+    villages: false,
+    skyTint: [1.15, 0.96, 0.82],
+  }),
+  TAIGA: registerBiome({
+    name: 'Taiga',
+    climate: { temperature: -0.5, humidity: 0.5, continentalness: 0.4 },
+    surfaceBlock: BlockType.GRASS_BLOCK, fillerBlock: BlockType.DIRT,
+    heightOffset: 2, heightScale: 1.3,
+    trees: { density: 2, rejectChance: 0.1, species: [[TreeSpecies.SPRUCE, 1]] },
+    vegetation: { density: 0.20, grass: 0.90, poppy: 0.95 },
+    villages: false,
+    skyTint: [0.92, 0.97, 1.02],
+  }),
+  JUNGLE: registerBiome({
+    name: 'Jungle',
+    climate: { temperature: 0.85, humidity: 0.75, continentalness: 0.3 },
+    surfaceBlock: BlockType.GRASS_BLOCK, fillerBlock: BlockType.DIRT,
+    heightOffset: 2, heightScale: 1.2,
+    trees: { density: 3, rejectChance: 0, species: [[TreeSpecies.JUNGLE, 2], [TreeSpecies.OAK, 1]] },
+    vegetation: { density: 0.55, grass: 0.90, poppy: 0.96 },
+    villages: false,
+    skyTint: [0.9, 1.0, 0.88],
+  }),
+} as const;
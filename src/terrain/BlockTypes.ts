@@ -19,6 +19,12 @@ export const enum BlockType {
   DIAMOND_ORE = 43,
   LOG = 50,
   LEAVES = 51,
+  SPRUCE_LEAVES = 52,
+  BIRCH_LEAVES = 53,
+  JUNGLE_LEAVES = 54,
+  SPRUCE_LOG = 55,
+  BIRCH_LOG = 56,
+  JUNGLE_LOG = 57,
   COBBLESTONE = 60,
   MOSSY_COBBLESTONE = 61,
   SPAWNER = 70,
@@ -26,82 +32,214 @@ export const enum BlockType {
   TALL_GRASS = 80,
   POPPY = 81,
   DANDELION = 82,
+  VINES = 83,
   PLANKS = 90,
   STONE_BRICKS = 91,
   GLASS = 92,
   TORCH = 93,
 }
 
+/** Extra atlas tiles for faces that differ from a block's own tile (numbered past every block id) */
+export const enum FaceTile {
+  GRASS_SIDE = 128,
+  LOG_END = 129,
+  SPRUCE_LOG_END = 130,
+  BIRCH_LOG_END = 131,
+  JUNGLE_LOG_END = 132,
+  CHEST_TOP = 133,
+  CHEST_FRONT = 134,
+}
+
+/** Which mesh a block's geometry is written to */
+export const enum RenderLayer {
+  NONE = 0,    // not meshed (air)
+  OPAQUE = 1,  // greedy-merged solid mesh
+  CUTOUT = 2,  // alpha-tested against the atlas (leaves, vegetation, torches)
+  WATER = 3,   // separate translucent water mesh
+}
+
+/** Geometry emitted for a block */
+export const enum BlockShape {
+  NONE = 0,
+  CUBE = 1,
+  CROSS = 2,   // two diagonal quads (vegetation)
+  TORCH = 3,   // narrow cross, offset toward the wall by TorchFacing meta
+  FLUID = 4,   // surface height from flow-level meta
+}
+
+/** Vertex animation applied in the G-buffer vertex shader */
+export const enum WindAnimation {
+  NONE = 0,
+  CANOPY = 1,  // gentle sway of the whole block (leaves)
+  PLANT = 2,   // sway growing with height within the cell (vegetation)
+  FLAME = 3,   // fast flicker growing with height (torches)
+}
+
+/** Point light emitted by a block */
+export interface BlockLight {
+  color: [number, number, number]; // linear RGB 0-1
+  intensity: number;
+  radius: number;
+}
+
 export interface BlockData {
   isSolid: boolean;
   color: [number, number, number, number]; // RGBA 0-255
   roughness: number;  // 0.0 (smooth) – 1.0 (rough)
   metallic: number;   // 0.0 (dielectric) – 1.0 (metal)
   emissive: number;   // 0.0 – 1.0 self-illumination intensity
+  layer: RenderLayer;
+  shape: BlockShape;
+  light: BlockLight | null;
+  lodFallback: number;      // block drawn in its place by LOD meshes (AIR = dropped)
+  wind: WindAnimation;
+  tiles: number[];          // atlas tile per face: TOP, BOTTOM, NORTH, SOUTH, EAST, WEST
+  normalStrength: number;   // atlas normal-map bump strength
 }
 
+/** Optional registry properties; omitted ones default to an opaque cube on its own atlas tile */
+type BlockProps = Partial<Pick<BlockData, 'layer' | 'shape' | 'light' | 'lodFallback' | 'wind' | 'tiles' | 'normalStrength'>>;
+
 const BLOCK_DATA: Map<number, BlockData> = new Map();
 
 function reg(
   type: BlockType, isSolid: boolean,
   r: number, g: number, b: number, a = 255,
   roughness = 0.9, metallic = 0.0, emissive = 0.0,
+  props: BlockProps = {},
 ): void {
-  BLOCK_DATA.set(type, { isSolid, color: [r, g, b, a], roughness, metallic, emissive });
+  BLOCK_DATA.set(type, {
+    isSolid, color: [r, g, b, a], roughness, metallic, emissive,
+    layer: props.layer ?? RenderLayer.OPAQUE,
+    shape: props.shape ?? BlockShape.CUBE,
+    light: props.light ?? null,
+    lodFallback: props.lodFallback ?? type,
+    wind: props.wind ?? WindAnimation.NONE,
+    tiles: props.tiles ?? [type, type, type, type, type, type],
+    normalStrength: props.normalStrength ?? 0.5,
+  });
 }
 
-// Air                                              R    G    B    A    rough  metal  emis
-reg(BlockType.AIR, false,                            0,   0,   0,   0);
+/** Per-face tiles from a top/bottom/side assignment */
+function topBottomSide(top: number, bottom: number, side: number): number[] {
+  return [top, bottom, side, side, side, side];
+}
+
+// Shared registry properties
+const LEAVES_PROPS: BlockProps = { layer: RenderLayer.CUTOUT, wind: WindAnimation.CANOPY, lodFallback: BlockType.GRASS_BLOCK, normalStrength: 1.0 };
+const PLANT_PROPS: BlockProps = { layer: RenderLayer.CUTOUT, shape: BlockShape.CROSS, wind: WindAnimation.PLANT, lodFallback: BlockType.AIR, normalStrength: 0.1 };
+const WATER_PROPS: BlockProps = { layer: RenderLayer.WATER, shape: BlockShape.FLUID, lodFallback: BlockType.AIR };
+
+// Air                                              R    G    B    A    rough  metal  emis  registry
+reg(BlockType.AIR, false,                            0,   0,   0,   0,  0.90,  0.0,  0.0, { layer: RenderLayer.NONE, shape: BlockShape.NONE });
 
 // Terrain
-reg(BlockType.STONE, true,                         128, 128, 128, 255,  0.85,  0.0,  0.0);
-reg(BlockType.DIRT, true,                          139,  90,  43, 255,  0.95,  0.0,  0.0);
-reg(BlockType.GRASS_BLOCK, true,                    86, 168,  57, 255,  0.90,  0.0,  0.0);
-reg(BlockType.BEDROCK, true,                        48,  48,  48, 255,  0.95,  0.0,  0.0);
+reg(BlockType.STONE, true,                         128, 128, 128, 255,  0.85,  0.0,  0.0, { normalStrength: 1.5 });
+reg(BlockType.DIRT, true,                          139,  90,  43, 255,  0.95,  0.0,  0.0, { normalStrength: 0.8 });
+reg(BlockType.GRASS_BLOCK, true,                    86, 168,  57, 255,  0.90,  0.0,  0.0, {
+  normalStrength: 0.7, tiles: topBottomSide(BlockType.GRASS_BLOCK, BlockType.DIRT, FaceTile.GRASS_SIDE),
+});
+reg(BlockType.BEDROCK, true,                        48,  48,  48, 255,  0.95,  0.0,  0.0, { normalStrength: 2.5 });
 
 // Sand/gravel
-reg(BlockType.SAND, true,                          219, 207, 163, 255,  0.95,  0.0,  0.0);
-reg(BlockType.SANDSTONE, true,                     216, 201, 149, 255,  0.85,  0.0,  0.0);
-reg(BlockType.GRAVEL, true,                        136, 126, 126, 255,  0.90,  0.0,  0.0);
-reg(BlockType.CLAY, true,                          160, 166, 179, 255,  0.80,  0.0,  0.0);
+reg(BlockType.SAND, true,                          219, 207, 163, 255,  0.95,  0.0,  0.0, { normalStrength: 0.4 });
+reg(BlockType.SANDSTONE, true,                     216, 201, 149, 255,  0.85,  0.0,  0.0, { normalStrength: 1.2 });
+reg(BlockType.GRAVEL, true,                        136, 126, 126, 255,  0.90,  0.0,  0.0, { normalStrength: 1.5 });
+reg(BlockType.CLAY, true,                          160, 166, 179, 255,  0.80,  0.0,  0.0, { normalStrength: 0.5 });
 
 // Fluids
-reg(BlockType.WATER, false,                         32,  64, 200, 255,  0.10,  0.0,  0.0);
-reg(BlockType.LAVA, true,                          207,  92,  15, 255,  0.90,  0.0,  1.0);
-reg(BlockType.FLOWING_WATER, false,                 48,  90, 215, 255,  0.10,  0.0,  0.0);
+reg(BlockType.WATER, false,                         32,  64, 200, 255,  0.10,  0.0,  0.0, WATER_PROPS);
+reg(BlockType.LAVA, true,                          207,  92,  15, 255,  0.90,  0.0,  1.0, { normalStrength: 1.2, light: { color: [0.81, 0.36, 0.06], intensity: 2.0, radius: 16 } });
+reg(BlockType.FLOWING_WATER, false,                 48,  90, 215, 255,  0.10,  0.0,  0.0, WATER_PROPS);
 
 // Snow/ice
-reg(BlockType.SNOW, true,                          249, 255, 254, 255,  0.85,  0.0,  0.0);
-reg(BlockType.ICE, true,                           145, 183, 253, 255,  0.15,  0.0,  0.0);
+reg(BlockType.SNOW, true,                          249, 255, 254, 255,  0.85,  0.0,  0.0, { normalStrength: 0.2 });
+reg(BlockType.ICE, true,                           145, 183, 253, 255,  0.15,  0.0,  0.0, { normalStrength: 0.6 });
 
 // Ores
-reg(BlockType.COAL_ORE, true,                       64,  64,  64, 255,  0.85,  0.0,  0.0);
-reg(BlockType.IRON_ORE, true,                      175, 140, 120, 255,  0.65,  0.3,  0.0);
-reg(BlockType.GOLD_ORE, true,                      247, 229, 103, 255,  0.50,  0.7,  0.0);
-reg(BlockType.DIAMOND_ORE, true,                    92, 219, 213, 255,  0.20,  0.1,  0.15);
+reg(BlockType.COAL_ORE, true,                       64,  64,  64, 255,  0.85,  0.0,  0.0, { normalStrength: 1.3 });
+reg(BlockType.IRON_ORE, true,                      175, 140, 120, 255,  0.65,  0.3,  0.0, { normalStrength: 1.3 });
+reg(BlockType.GOLD_ORE, true,                      247, 229, 103, 255,  0.50,  0.7,  0.0, { normalStrength: 1.3 });
+reg(BlockType.DIAMOND_ORE, true,                    92, 219, 213, 255,  0.20,  0.1,  0.15, { normalStrength: 1.3, light: { color: [0.36, 0.86, 0.84], intensity: 0.3, radius: 6 } });
 
 // Wood
-reg(BlockType.LOG, true,                           102,  81,  51, 255,  0.90,  0.0,  0.0);
-reg(BlockType.LEAVES, true,                         36, 100,  18, 255,  0.85,  0.0,  0.0);
+reg(BlockType.LOG, true,                           102,  81,  51, 255,  0.90,  0.0,  0.0, { normalStrength: 1.0, tiles: topBottomSide(FaceTile.LOG_END, FaceTile.LOG_END, BlockType.LOG) });
+reg(BlockType.LEAVES, true,                         36, 100,  18, 255,  0.85,  0.0,  0.0, LEAVES_PROPS);
+reg(BlockType.SPRUCE_LOG, true,                     74,  54,  34, 255,  0.92,  0.0,  0.0, { normalStrength: 1.0, tiles: topBottomSide(FaceTile.SPRUCE_LOG_END, FaceTile.SPRUCE_LOG_END, BlockType.SPRUCE_LOG) });
+reg(BlockType.SPRUCE_LEAVES, true,                  38,  72,  48, 255,  0.85,  0.0,  0.0, LEAVES_PROPS);
+reg(BlockType.BIRCH_LOG, true,                     214, 210, 196, 255,  0.80,  0.0,  0.0, { normalStrength: 1.0, tiles: topBottomSide(FaceTile.BIRCH_LOG_END, FaceTile.BIRCH_LOG_END, BlockType.BIRCH_LOG) });
+reg(BlockType.BIRCH_LEAVES, true,                   98, 142,  58, 255,  0.85,  0.0,  0.0, LEAVES_PROPS);
+reg(BlockType.JUNGLE_LOG, true,                    112,  84,  46, 255,  0.92,  0.0,  0.0, { normalStrength: 1.0, tiles: topBottomSide(FaceTile.JUNGLE_LOG_END, FaceTile.JUNGLE_LOG_END, BlockType.JUNGLE_LOG) });
+reg(BlockType.JUNGLE_LEAVES, true,                  32, 118,  20, 255,  0.80,  0.0,  0.0, LEAVES_PROPS);
 
 // Stone variants
-reg(BlockType.COBBLESTONE, true,                   100, 100, 100, 255,  0.90,  0.0,  0.0);
-reg(BlockType.MOSSY_COBBLESTONE, true,              90, 108,  90, 255,  0.88,  0.0,  0.0);
+reg(BlockType.COBBLESTONE, true,                   100, 100, 100, 255,  0.90,  0.0,  0.0, { normalStrength: 2.0 });
+reg(BlockType.MOSSY_COBBLESTONE, true,              90, 108,  90, 255,  0.88,  0.0,  0.0, { normalStrength: 1.8 });
 
 // Special
-reg(BlockType.SPAWNER, true,                        27,  42,  53, 255,  0.60,  0.5,  0.10);
-reg(BlockType.CHEST, true,                         164, 114,  39, 255,  0.80,  0.0,  0.0);
+reg(BlockType.SPAWNER, true,                        27,  42,  53, 255,  0.60,  0.5,  0.10, { normalStrength: 1.5, light: { color: [0.11, 0.16, 0.21], intensity: 0.2, radius: 6 } });
+reg(BlockType.CHEST, true,                         164, 114,  39, 255,  0.80,  0.0,  0.0, {
+  // Latched front faces SOUTH (-Z)
+  normalStrength: 1.0,
+  tiles: [FaceTile.CHEST_TOP, FaceTile.CHEST_TOP, BlockType.CHEST, FaceTile.CHEST_FRONT, BlockType.CHEST, BlockType.CHEST],
+});
 
 // Vegetation (non-solid, cross-mesh)
-reg(BlockType.TALL_GRASS, false,                    58, 148,  40, 255,  0.95,  0.0,  0.0);
-reg(BlockType.POPPY, false,                        200,  30,  30, 255,  0.90,  0.0,  0.0);
-reg(BlockType.DANDELION, false,                    240, 210,  40, 255,  0.90,  0.0,  0.0);
+reg(BlockType.TALL_GRASS, false,                    58, 148,  40, 255,  0.95,  0.0,  0.0, PLANT_PROPS);
+reg(BlockType.POPPY, false,                        200,  30,  30, 255,  0.90,  0.0,  0.0, PLANT_PROPS);
+reg(BlockType.DANDELION, false,                    240, 210,  40, 255,  0.90,  0.0,  0.0, PLANT_PROPS);
+reg(BlockType.VINES, false,                         48, 112,  30, 255,  0.90,  0.0,  0.0, PLANT_PROPS);
 
 // Village blocks
-reg(BlockType.PLANKS, true,                        180, 144,  90, 255,  0.85,  0.0,  0.0);
-reg(BlockType.STONE_BRICKS, true,                  120, 120, 120, 255,  0.80,  0.0,  0.0);
-reg(BlockType.GLASS, true,                         180, 220, 240, 255,  0.10,  0.0,  0.0);
-reg(BlockType.TORCH, false,                        255, 200,  80, 255,  0.70,  0.0,  0.85);
+reg(BlockType.PLANKS, true,                        180, 144,  90, 255,  0.85,  0.0,  0.0, { normalStrength: 0.8 });
+reg(BlockType.STONE_BRICKS, true,                  120, 120, 120, 255,  0.80,  0.0,  0.0, { normalStrength: 1.5 });
+reg(BlockType.GLASS, true,                         180, 220, 240, 255,  0.10,  0.0,  0.0, { normalStrength: 0.1 });
+reg(BlockType.TORCH, false,                        255, 200,  80, 255,  0.70,  0.0,  0.85, {
+  layer: RenderLayer.CUTOUT, shape: BlockShape.TORCH, wind: WindAnimation.FLAME, lodFallback: BlockType.AIR, normalStrength: 0.3,
+  light: { color: [1.0, 0.78, 0.31], intensity: 1.7, radius: 16 },
+});
+
+// Display names (HUD / inspector)
+const BLOCK_NAMES: Map<number, string> = new Map([
+  [BlockType.AIR, 'Air'],
+  [BlockType.STONE, 'Stone'],
+  [BlockType.DIRT, 'Dirt'],
+  [BlockType.GRASS_BLOCK, 'Grass Block'],
+  [BlockType.BEDROCK, 'Bedrock'],
+  [BlockType.SAND, 'Sand'],
+  [BlockType.SANDSTONE, 'Sandstone'],
+  [BlockType.GRAVEL, 'Gravel'],
+  [BlockType.CLAY, 'Clay'],
+  [BlockType.WATER, 'Water'],
+  [BlockType.LAVA, 'Lava'],
+  [BlockType.FLOWING_WATER, 'Flowing Water'],
+  [BlockType.SNOW, 'Snow'],
+  [BlockType.ICE, 'Ice'],
+  [BlockType.COAL_ORE, 'Coal Ore'],
+  [BlockType.IRON_ORE, 'Iron Ore'],
+  [BlockType.GOLD_ORE, 'Gold Ore'],
+  [BlockType.DIAMOND_ORE, 'Diamond Ore'],
+  [BlockType.LOG, 'Log'],
+  [BlockType.LEAVES, 'Leaves'],
+  [BlockType.SPRUCE_LOG, 'Spruce Log'],
+  [BlockType.SPRUCE_LEAVES, 'Spruce Leaves'],
+  [BlockType.BIRCH_LOG, 'Birch Log'],
+  [BlockType.BIRCH_LEAVES, 'Birch Leaves'],
+  [BlockType.JUNGLE_LOG, 'Jungle Log'],
+  [BlockType.JUNGLE_LEAVES, 'Jungle Leaves'],
+  [BlockType.COBBLESTONE, 'Cobblestone'],
+  [BlockType.MOSSY_COBBLESTONE, 'Mossy Cobblestone'],
+  [BlockType.SPAWNER, 'Spawner'],
+  [BlockType.CHEST, 'Chest'],
+  [BlockType.TALL_GRASS, 'Tall Grass'],
+  [BlockType.POPPY, 'Poppy'],
+  [BlockType.DANDELION, 'Dandelion'],
+  [BlockType.VINES, 'Vines'],
+  [BlockType.PLANKS, 'Planks'],
+  [BlockType.STONE_BRICKS, 'Stone Bricks'],
+  [BlockType.GLASS, 'Glass'],
+  [BlockType.TORCH, 'Torch'],
+]);
 
 export const enum TorchFacing {
   FLOOR = 0,   // 바닥 위 (기본)
@@ -112,13 +250,32 @@ export const enum TorchFacing {
 }
 
 export function isBlockTorch(type: number): boolean {
-  return type === BlockType.TORCH;
+  return getBlockData(type).shape === BlockShape.TORCH;
 }
 
 export function getBlockData(type: number): BlockData {
   return BLOCK_DATA.get(type) ?? BLOCK_DATA.get(BlockType.AIR)!;
 }
 
+/** Whether a block type id is in the registry (saved or imported data may hold anything) */
+export function isBlockRegistered(type: number): boolean {
+  return BLOCK_DATA.has(type);
+}
+
+export function getBlockName(type: number): string {
+  return BLOCK_NAMES.get(type) ?? `Block ${type}`;
+}
+
+// Lowercased display name → type (structure template palettes)
+const BLOCK_TYPES_BY_NAME: Map<string, number> = new Map(
+  Array.from(BLOCK_NAMES, ([type, name]) => [name.toLowerCase(), type]),
+);
+
+/** Block type for a display name (case-insensitive), or undefined if unknown */
+export function getBlockTypeByName(name: string): number | undefined {
+  return BLOCK_TYPES_BY_NAME.get(name.toLowerCase());
+}
+
 export function isBlockSolid(type: number): boolean {
   return getBlockData(type).isSolid;
 }
@@ -137,15 +294,34 @@ export function getBlockMaterial(type: number): { roughness: number; metallic: n
 }
 
 export function isBlockWater(type: number): boolean {
-  return type === BlockType.WATER || type === BlockType.FLOWING_WATER;
+  return getBlockData(type).layer === RenderLayer.WATER;
+}
+
+// Fluid meta: low 3 bits are the flow level (0 = source, 1-7 = blocks from it), bit 3 marks falling fluid
+export const FLUID_LEVEL_MASK = 0x07;
+export const FLUID_FALLING = 0x08;
+
+export function isBlockFluid(type: number): boolean {
+  return isBlockWater(type) || type === BlockType.LAVA;
+}
+
+/** Surface height of a fluid block within its cell: full for sources and falling fluid, lower per flow level */
+export function getFluidHeight(meta: number): number {
+  if (meta & FLUID_FALLING) return 1;
+  return 1 - (meta & FLUID_LEVEL_MASK) / 8;
 }
 
 export function isBlockCutout(type: number): boolean {
-  return type === BlockType.LEAVES || type === BlockType.TALL_GRASS || type === BlockType.POPPY || type === BlockType.DANDELION || type === BlockType.TORCH;
+  return getBlockData(type).layer === RenderLayer.CUTOUT;
 }
 
 export function isBlockCrossMesh(type: number): boolean {
-  return type === BlockType.TALL_GRASS || type === BlockType.POPPY || type === BlockType.DANDELION;
+  return getBlockData(type).shape === BlockShape.CROSS;
+}
+
+/** Atlas tile drawn on the given face (TOP=0, BOTTOM=1, NORTH=2, SOUTH=3, EAST=4, WEST=5) */
+export function getBlockTile(type: number, face: number): number {
+  return getBlockData(type).tiles[face];
 }
 
 // All registered block types (for atlas generation)
@@ -2,37 +2,180 @@ import { SimplexNoise } from '../noise/SimplexNoise';
 import { SeededRandom } from '../noise/SeededRandom';
 import { Chunk } from './Chunk';
 import { BlockType } from './BlockTypes';
-import { CHUNK_WIDTH, CHUNK_DEPTH } from '../constants';
-import { Config } from '../config/Config';
+import { FeatureBounds, featureBounds, forEachFeatureSource } from './FeaturePlacement';
+import { TerrainGenerator } from './TerrainGenerator';
+import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
+import { CheeseCavesConfig, Config, TunnelCavesConfig } from '../config/Config';
+
+const NOISE_CAVE_FADE = 6;  // blocks over which noise caves taper off toward their depth limits
+const WATER_SEAL = 3;       // rock kept under water-covered columns so seas and rivers don't drain into noise caves
+const SEAL_DILATION = 1;    // columns around a water-covered one sealed too, so caves can't open sideways under a shore
+const TUNNEL_COVER = 4;     // blocks of ground kept above spaghetti tunnels
+
+// Two fields whose midlines cross along tunnels, plus a low-frequency mask limiting where they run
+interface TunnelNoise {
+  a: SimplexNoise;
+  b: SimplexNoise;
+  mask: SimplexNoise;
+}
+
+function isCaveProof(block: number): boolean {
+  return block === BlockType.AIR || block === BlockType.BEDROCK || block === BlockType.WATER || block === BlockType.FLOWING_WATER;
+}
+
+// 0 outside [minY, maxY), ramping to 1 over NOISE_CAVE_FADE blocks inside each end
+function depthFade(y: number, minY: number, maxY: number): number {
+  if (y < minY || y >= maxY) return 0;
+  return Math.min(1, (y - minY + 1) / NOISE_CAVE_FADE, (maxY - y) / NOISE_CAVE_FADE);
+}
 
 export class CaveGenerator {
   private dirNoiseX: SimplexNoise;
   private dirNoiseY: SimplexNoise;
   private radiusNoise: SimplexNoise;
+  private cheeseNoise: SimplexNoise;
+  private spaghettiNoise: TunnelNoise;
+  private noodleNoise: TunnelNoise;
   private seed: number;
+  private terrainGen: TerrainGenerator;
 
-  constructor(seed: number) {
+  constructor(seed: number, terrainGen: TerrainGenerator) {
     this.seed = seed;
+    this.terrainGen = terrainGen;
     this.dirNoiseX = new SimplexNoise(seed);
     this.dirNoiseY = new SimplexNoise(seed + 1);
     this.radiusNoise = new SimplexNoise(seed + 3);
+    this.cheeseNoise = new SimplexNoise(seed + 10);
+    this.spaghettiNoise = { a: new SimplexNoise(seed + 11), b: new SimplexNoise(seed + 12), mask: new SimplexNoise(seed + 13) };
+    this.noodleNoise = { a: new SimplexNoise(seed + 14), b: new SimplexNoise(seed + 15), mask: new SimplexNoise(seed + 16) };
   }
 
   generate(chunk: Chunk): void {
-    const caves = Config.data.terrain.caves;
-    const chunkSeed = (this.seed ^ (chunk.chunkX * 73856093) ^ (chunk.chunkZ * 19349663)) | 0;
-    const rng = new SeededRandom(chunkSeed);
+    const radius = Config.data.terrain.features.neighborRadius;
+    forEachFeatureSource(chunk, radius, (sourceX, sourceZ) => {
+      const caves = Config.data.terrain.caves;
+      const chunkSeed = (this.seed ^ (sourceX * 73856093) ^ (sourceZ * 19349663)) | 0;
+      const rng = new SeededRandom(chunkSeed);
+      const bounds = featureBounds(sourceX, sourceZ, radius);
+
+      for (let i = 0; i < caves.count; i++) {
+        this.generateWorm(chunk, rng, sourceX * CHUNK_WIDTH, sourceZ * CHUNK_DEPTH, bounds);
+      }
+    });
+
+    this.generateNoiseCaves(chunk);
+  }
+
+  // Cheese caverns, spaghetti tunnels and noodles: pure functions of world position, so no neighbor replay
+  private generateNoiseCaves(chunk: Chunk): void {
+    const { cheese, spaghetti, noodle } = Config.data.terrain.caves;
+    const modes = [cheese, spaghetti, noodle].filter((m) => m.enabled);
+    if (modes.length === 0) return;
+    const minY = Math.max(1, Math.min(...modes.map((m) => m.minY)));
+    const maxY = Math.min(CHUNK_HEIGHT - 1, Math.max(...modes.map((m) => m.maxY)));
+    const surface = new Int16Array(CHUNK_WIDTH * CHUNK_DEPTH);
+    const carveLimit = this.waterSealLimits(chunk, surface);
+
+    for (let lx = 0; lx < CHUNK_WIDTH; lx++) {
+      for (let lz = 0; lz < CHUNK_DEPTH; lz++) {
+        const wx = chunk.worldOffsetX + lx;
+        const wz = chunk.worldOffsetZ + lz;
+        const spaghettiHere = spaghetti.enabled && this.inTunnelMask(this.spaghettiNoise, wx, wz, spaghetti);
+        const noodleHere = noodle.enabled && this.inTunnelMask(this.noodleNoise, wx, wz, noodle);
+        if (!cheese.enabled && !spaghettiHere && !noodleHere) continue;
+
+        const top = Math.min(maxY, carveLimit[lx + lz * CHUNK_WIDTH]);
+        // Spaghetti reaches above sea level: keep it under the local ground instead of cutting open the surface
+        const spaghettiTop = surface[lx + lz * CHUNK_WIDTH] - TUNNEL_COVER;
+        for (let y = minY; y < top; y++) {
+          if (isCaveProof(chunk.getBlock(lx, y, lz))) continue;
+          if ((cheese.enabled && this.isCheese(wx, y, wz, cheese)) ||
+              (spaghettiHere && y < spaghettiTop && this.isTunnel(this.spaghettiNoise, wx, y, wz, spaghetti)) ||
+              (noodleHere && this.isTunnel(this.noodleNoise, wx, y, wz, noodle))) {
+            chunk.setBlock(lx, y, lz, BlockType.AIR);
+          }
+        }
+      }
+    }
+  }
 
-    for (let i = 0; i < caves.count; i++) {
-      this.generateWorm(chunk, rng);
+  /**
+   * Per column, the height noise caves may carve below (and its top solid block into `surface`).
+   * Columns within SEAL_DILATION of a water-covered one keep WATER_SEAL blocks of rock beneath
+   * the water's floor; columns beyond the chunk are sampled from the terrain generator.
+   */
+  private waterSealLimits(chunk: Chunk, surface: Int16Array): Int16Array {
+    const seaLevel = Config.data.terrain.height.seaLevel;
+    const spanX = CHUNK_WIDTH + SEAL_DILATION * 2;
+    const spanZ = CHUNK_DEPTH + SEAL_DILATION * 2;
+    const own = new Int16Array(spanX * spanZ).fill(CHUNK_HEIGHT);
+    for (let px = 0; px < spanX; px++) {
+      for (let pz = 0; pz < spanZ; pz++) {
+        const lx = px - SEAL_DILATION;
+        const lz = pz - SEAL_DILATION;
+        if (lx < 0 || lx >= CHUNK_WIDTH || lz < 0 || lz >= CHUNK_DEPTH) {
+          // Generated terrain leaves sea water above every column topping out below sea level
+          const h = this.terrainGen.getSurfaceHeight(chunk.worldOffsetX + lx, chunk.worldOffsetZ + lz);
+          if (h < seaLevel) own[px + pz * spanX] = h + 1 - WATER_SEAL;
+          continue;
+        }
+
+        let y = CHUNK_HEIGHT - 1;
+        let wet = false;
+        for (; y > 0; y--) {
+          const block = chunk.getBlock(lx, y, lz);
+          if (block === BlockType.WATER || block === BlockType.FLOWING_WATER) wet = true;
+          else if (block !== BlockType.AIR && block !== BlockType.ICE) break;
+        }
+        surface[lx + lz * CHUNK_WIDTH] = y;
+        if (wet) own[px + pz * spanX] = y + 1 - WATER_SEAL;
+      }
+    }
+
+    const limits = new Int16Array(CHUNK_WIDTH * CHUNK_DEPTH);
+    for (let lx = 0; lx < CHUNK_WIDTH; lx++) {
+      for (let lz = 0; lz < CHUNK_DEPTH; lz++) {
+        let limit = CHUNK_HEIGHT;
+        for (let dx = 0; dx <= SEAL_DILATION * 2; dx++) {
+          for (let dz = 0; dz <= SEAL_DILATION * 2; dz++) {
+            limit = Math.min(limit, own[lx + dx + (lz + dz) * spanX]);
+          }
+        }
+        limits[lx + lz * CHUNK_WIDTH] = limit;
+      }
     }
+    return limits;
   }
 
-  private generateWorm(chunk: Chunk, rng: SeededRandom): void {
+  private isCheese(wx: number, y: number, wz: number, cfg: CheeseCavesConfig): boolean {
+    const fade = depthFade(y, cfg.minY, cfg.maxY);
+    if (fade <= 0) return false;
+    // Raise the cutoff toward 1 near the range limits so caverns close off instead of ending flat
+    const threshold = cfg.threshold + (1 - cfg.threshold) * (1 - fade);
+    return this.cheeseNoise.noise3D(wx / cfg.scale, y / cfg.verticalScale, wz / cfg.scale) > threshold;
+  }
+
+  private inTunnelMask(noise: TunnelNoise, wx: number, wz: number, cfg: TunnelCavesConfig): boolean {
+    const maskScale = cfg.scale * 4;
+    return noise.mask.noise2D(wx / maskScale, wz / maskScale) < cfg.coverage;
+  }
+
+  private isTunnel(noise: TunnelNoise, wx: number, y: number, wz: number, cfg: TunnelCavesConfig): boolean {
+    const fade = depthFade(y, cfg.minY, cfg.maxY);
+    if (fade <= 0) return false;
+    const radius = cfg.thickness * fade;
+    const da = noise.a.noise3D(wx / cfg.scale, y / cfg.scale, wz / cfg.scale) - 0.5;
+    if (Math.abs(da) >= radius) return false;
+    const db = noise.b.noise3D(wx / cfg.scale, y / cfg.scale, wz / cfg.scale) - 0.5;
+    return da * da + db * db < radius * radius;
+  }
+
+  // Worm path in world space; only the part inside the target chunk is carved
+  private generateWorm(chunk: Chunk, rng: SeededRandom, originX: number, originZ: number, bounds: FeatureBounds): void {
     const caves = Config.data.terrain.caves;
-    let x = rng.nextInt(0, CHUNK_WIDTH);
+    let x = originX + rng.nextInt(0, CHUNK_WIDTH);
     let y = rng.nextInt(caves.minY, caves.maxY);
-    let z = rng.nextInt(0, CHUNK_DEPTH);
+    let z = originZ + rng.nextInt(0, CHUNK_DEPTH);
     const length = rng.nextInt(caves.minLength, caves.maxLength);
     const noiseOffset = rng.next() * 1000;
 
@@ -40,6 +183,10 @@ export class CaveGenerator {
       const t = step * 0.1 + noiseOffset;
 
       const radius = caves.minRadius + (caves.maxRadius - caves.minRadius) * this.radiusNoise.noise2D(t, 0);
+      // Chunks beyond the source's reach never replay this worm, so end it before it would cut into them
+      if (x - radius < bounds.minX || x + radius >= bounds.maxX || z - radius < bounds.minZ || z + radius >= bounds.maxZ) {
+        break;
+      }
       this.carveSphere(chunk, x, y, z, radius);
 
       const angleXZ = this.dirNoiseX.noise2D(t, 0) * Math.PI * 2;
@@ -54,23 +201,24 @@ export class CaveGenerator {
   }
 
   private carveSphere(chunk: Chunk, cx: number, cy: number, cz: number, radius: number): void {
-    const minX = Math.floor(cx - radius);
-    const maxX = Math.ceil(cx + radius);
-    const minY = Math.floor(cy - radius);
-    const maxY = Math.ceil(cy + radius);
-    const minZ = Math.floor(cz - radius);
-    const maxZ = Math.ceil(cz + radius);
+    // Clip the sphere's AABB to the target chunk (world coords)
+    const minX = Math.max(Math.floor(cx - radius), chunk.worldOffsetX);
+    const maxX = Math.min(Math.ceil(cx + radius), chunk.worldOffsetX + CHUNK_WIDTH - 1);
+    const minY = Math.max(Math.floor(cy - radius), 1);
+    const maxY = Math.min(Math.ceil(cy + radius), CHUNK_HEIGHT - 1);
+    const minZ = Math.max(Math.floor(cz - radius), chunk.worldOffsetZ);
+    const maxZ = Math.min(Math.ceil(cz + radius), chunk.worldOffsetZ + CHUNK_DEPTH - 1);
     const r2 = radius * radius;
 
     for (let x = minX; x <= maxX; x++) {
       for (let y = minY; y <= maxY; y++) {
         for (let z = minZ; z <= maxZ; z++) {
-          if (!chunk.isInBounds(x, y, z) || y <= 0) continue;
           const dx = x - cx, dy = y - cy, dz = z - cz;
           if (dx * dx + dy * dy + dz * dz <= r2) {
-            const cur = chunk.getBlock(x, y, z);
+            const lx = x - chunk.worldOffsetX, lz = z - chunk.worldOffsetZ;
+            const cur = chunk.getBlock(lx, y, lz);
             if (cur !== BlockType.BEDROCK && cur !== BlockType.WATER && cur !== BlockType.FLOWING_WATER) {
-              chunk.setBlock(x, y, z, BlockType.AIR);
+              chunk.setBlock(lx, y, lz, BlockType.AIR);
             }
           }
         }
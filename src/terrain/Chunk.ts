@@ -1,15 +1,43 @@
-import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH, CHUNK_TOTAL_BLOCKS } from '../constants';
-import { BlockType, isBlockSolid, isBlockAir } from './BlockTypes';
+import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH, CHUNK_TOTAL_BLOCKS, SECTION_HEIGHT, SECTION_COUNT } from '../constants';
+import { BlockType, isBlockSolid, isBlockAir, isBlockCutout } from './BlockTypes';
 import type { ChunkAllocation } from '../renderer/IndirectRenderer';
 
 // Bitmask constants for 4×4×4 sub-blocks
 // Chunk is divided into 4×4×4 sub-blocks (each containing 64 blocks).
-// Sub-block grid: (CHUNK_WIDTH/4) × (CHUNK_HEIGHT/4) × (CHUNK_DEPTH/4) = 4 × 32 × 4 = 512
+// Sub-block grid: (CHUNK_WIDTH/4) × (CHUNK_HEIGHT/4) × (CHUNK_DEPTH/4) = 4 × 64 × 4 = 1024
 export const SUB_BLOCK_SIZE = 4;
 export const SUB_BLOCKS_X = CHUNK_WIDTH / SUB_BLOCK_SIZE;   // 4
-export const SUB_BLOCKS_Y = CHUNK_HEIGHT / SUB_BLOCK_SIZE;  // 32
+export const SUB_BLOCKS_Y = CHUNK_HEIGHT / SUB_BLOCK_SIZE;  // 64
 export const SUB_BLOCKS_Z = CHUNK_DEPTH / SUB_BLOCK_SIZE;   // 4
-export const TOTAL_SUB_BLOCKS = SUB_BLOCKS_X * SUB_BLOCKS_Y * SUB_BLOCKS_Z; // 512
+export const TOTAL_SUB_BLOCKS = SUB_BLOCKS_X * SUB_BLOCKS_Y * SUB_BLOCKS_Z; // 1024
+
+// Compressed sub-block layout (see Chunk.compress). Plain typed arrays so it can be
+// posted to/from workers with the underlying buffers transferred. Covers the whole column:
+// vertical sections only split meshing, upload and culling.
+export interface CompressedChunkData {
+  uniformFlags: Uint8Array;
+  uniformTypes: Uint16Array;
+  detailOffsets: Uint16Array;
+  detailBlocks: Uint16Array;
+}
+
+/** How a vertical section is filled; decides whether it needs meshing at all */
+export const enum SectionFill {
+  EMPTY,   // all air
+  OPAQUE,  // all solid, non-cutout blocks: no interior faces
+  MIXED,
+}
+
+/** GPU state of one vertical section (SECTION_HEIGHT blocks tall) */
+export interface ChunkSection {
+  // Mega buffer allocations (managed by IndirectRenderer)
+  solidAlloc: ChunkAllocation | null;
+  vegMegaAlloc: ChunkAllocation | null;
+  // Water GPU resources
+  waterVertexBuffer: GPUBuffer | null;
+  waterIndexBuffer: GPUBuffer | null;
+  waterIndexCount: number;
+}
 
 export class Chunk {
   readonly chunkX: number;
@@ -19,36 +47,35 @@ export class Chunk {
   // Occupancy bitmask: 64-bit per sub-block (stored as 2× Uint32 = low32 + high32)
   // Each bit represents whether a block is non-AIR.
   // occupancy[i*2] = low 32 bits, occupancy[i*2+1] = high 32 bits
-  // Total: 512 sub-blocks × 2 × 4 bytes = 4096 bytes
+  // Total: 1024 sub-blocks × 2 × 4 bytes = 8192 bytes
   occupancy: Uint32Array;
 
   // Compression: per-sub-block uniform flag + uniform type.
   // If uniformFlags[i] != 0, the entire 4×4×4 sub-block is one type = uniformTypes[i].
   // This avoids storing 64 blocks for homogeneous regions.
   private compressed = false;
-  private uniformFlags: Uint8Array | null = null;   // 512 entries: 0=mixed, 1=uniform
-  private uniformTypes: Uint16Array | null = null;   // 512 entries: block type+meta when uniform
+  private uniformFlags: Uint8Array | null = null;   // 1024 entries: 0=mixed, 1=uniform
+  private uniformTypes: Uint16Array | null = null;   // 1024 entries: block type+meta when uniform
   private detailBlocks: Uint16Array | null = null;   // sparse: only mixed sub-blocks have 64-entry blocks
-  private detailOffsets: Uint16Array | null = null;  // 512 entries: offset into detailBlocks (in 64-byte units)
+  private detailOffsets: Uint16Array | null = null;  // 1024 entries: offset into detailBlocks (in 64-byte units)
 
-  // Mega buffer allocation for solid mesh (managed by IndirectRenderer)
-  solidAlloc: ChunkAllocation | null = null;
-  // Mega buffer allocation for vegetation mesh
-  vegMegaAlloc: ChunkAllocation | null = null;
+  // Per-section solid/vegetation/water GPU state, bottom to top
+  readonly sections: ChunkSection[];
   // Mega buffer allocation for LOD mesh (managed by LOD IndirectRenderer)
   lodAlloc: ChunkAllocation | null = null;
 
-  // Water GPU resources
-  waterVertexBuffer: GPUBuffer | null = null;
-  waterIndexBuffer: GPUBuffer | null = null;
-  waterIndexCount = 0;
-
-
   constructor(chunkX: number, chunkZ: number) {
     this.chunkX = chunkX;
     this.chunkZ = chunkZ;
     this.blocks = new Uint16Array(CHUNK_TOTAL_BLOCKS);
     this.occupancy = new Uint32Array(TOTAL_SUB_BLOCKS * 2);
+    this.sections = [];
+    for (let i = 0; i < SECTION_COUNT; i++) {
+      this.sections.push({
+        solidAlloc: null, vegMegaAlloc: null,
+        waterVertexBuffer: null, waterIndexBuffer: null, waterIndexCount: 0,
+      });
+    }
   }
 
   get worldOffsetX(): number { return this.chunkX * CHUNK_WIDTH; }
@@ -72,6 +99,13 @@ export class Chunk {
     return this.blocks[Chunk.index(x, y, z)];
   }
 
+  /** Raw blocks (type | meta << 8) of one column, bottom to top. */
+  exportColumn(x: number, z: number): Uint16Array {
+    const column = new Uint16Array(CHUNK_HEIGHT);
+    for (let y = 0; y < CHUNK_HEIGHT; y++) column[y] = this.getBlockRaw(x, y, z);
+    return column;
+  }
+
   getBlockMeta(x: number, y: number, z: number): number {
     return (this.getBlockRaw(x, y, z) >> 8) & 0xFF;
   }
@@ -191,6 +225,38 @@ export class Chunk {
     this.compressed = true;
   }
 
+  /** Copy of the compressed sub-block layout (compresses first if needed). */
+  exportCompressed(): CompressedChunkData {
+    this.compress();
+    return {
+      uniformFlags: this.uniformFlags!.slice(),
+      uniformTypes: this.uniformTypes!.slice(),
+      detailOffsets: this.detailOffsets!.slice(),
+      detailBlocks: this.detailBlocks!.slice(),
+    };
+  }
+
+  /** Adopt compressed sub-block data produced elsewhere (e.g. by a chunk worker). Arrays are not copied. */
+  loadCompressed(data: CompressedChunkData): void {
+    this.uniformFlags = data.uniformFlags;
+    this.uniformTypes = data.uniformTypes;
+    this.detailOffsets = data.detailOffsets;
+    this.detailBlocks = data.detailBlocks;
+    this.blocks = new Uint16Array(0);
+    this.compressed = true;
+  }
+
+  /** Drop all block data. Coarse LOD chunks only keep their downsampled grid. */
+  releaseBlocks(): void {
+    this.blocks = new Uint16Array(0);
+    this.occupancy = new Uint32Array(0);
+    this.uniformFlags = null;
+    this.uniformTypes = null;
+    this.detailOffsets = null;
+    this.detailBlocks = null;
+    this.compressed = false;
+  }
+
   // Decompress back to full block array (needed if setBlock is called after compression)
   decompress(): void {
     if (!this.compressed) return;
@@ -307,16 +373,59 @@ export class Chunk {
     return this.occupancy[subIdx * 2] === 0xFFFFFFFF && this.occupancy[subIdx * 2 + 1] === 0xFFFFFFFF;
   }
 
+  // Classify a vertical section. Uniform sub-blocks answer for 64 blocks at once when compressed.
+  getSectionFill(section: number): SectionFill {
+    const y0 = section * SECTION_HEIGHT;
+    let empty = true;
+    let opaque = true;
+    const visit = (raw: number): boolean => {
+      const type = raw & 0xFF;
+      if (type !== BlockType.AIR) empty = false;
+      if (!isBlockSolid(type) || isBlockCutout(type)) opaque = false;
+      return empty || opaque;
+    };
+
+    if (this.compressed) {
+      const sby0 = y0 / SUB_BLOCK_SIZE;
+      for (let sbz = 0; sbz < SUB_BLOCKS_Z; sbz++) {
+        for (let sby = sby0; sby < sby0 + SECTION_HEIGHT / SUB_BLOCK_SIZE; sby++) {
+          for (let sbx = 0; sbx < SUB_BLOCKS_X; sbx++) {
+            const subIdx = sbx + sby * SUB_BLOCKS_X + sbz * SUB_BLOCKS_X * SUB_BLOCKS_Y;
+            if (this.uniformFlags![subIdx]) {
+              if (!visit(this.uniformTypes![subIdx])) return SectionFill.MIXED;
+              continue;
+            }
+            const offset = this.detailOffsets![subIdx] * 64;
+            for (let i = 0; i < 64; i++) {
+              if (!visit(this.detailBlocks![offset + i])) return SectionFill.MIXED;
+            }
+          }
+        }
+      }
+    } else {
+      if (this.blocks.length === 0) return SectionFill.EMPTY;
+      for (let z = 0; z < CHUNK_DEPTH; z++) {
+        for (let y = y0; y < y0 + SECTION_HEIGHT; y++) {
+          for (let x = 0; x < CHUNK_WIDTH; x++) {
+            if (!visit(this.blocks[Chunk.index(x, y, z)])) return SectionFill.MIXED;
+          }
+        }
+      }
+    }
+    return empty ? SectionFill.EMPTY : SectionFill.OPAQUE;
+  }
+
   destroyGPU(): void {
-    // Note: solidAlloc, vegMegaAlloc, lodAlloc are freed by ChunkManager via IndirectRenderer.freeChunk()
-    this.solidAlloc = null;
-    this.vegMegaAlloc = null;
+    // Note: section allocations and lodAlloc are freed by ChunkManager via IndirectRenderer.freeChunk()
+    for (const section of this.sections) {
+      section.solidAlloc = null;
+      section.vegMegaAlloc = null;
+      section.waterVertexBuffer?.destroy();
+      section.waterIndexBuffer?.destroy();
+      section.waterVertexBuffer = null;
+      section.waterIndexBuffer = null;
+      section.waterIndexCount = 0;
+    }
     this.lodAlloc = null;
-
-    this.waterVertexBuffer?.destroy();
-    this.waterIndexBuffer?.destroy();
-    this.waterVertexBuffer = null;
-    this.waterIndexBuffer = null;
-    this.waterIndexCount = 0;
   }
 }
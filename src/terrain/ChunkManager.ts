@@ -1,37 +1,69 @@
 import { vec3 } from 'gl-matrix';
 import { WebGPUContext } from '../renderer/WebGPUContext';
 import { ChunkDrawCall } from '../renderer/DeferredPipeline';
-import { Chunk } from './Chunk';
-import { TerrainGenerator } from './TerrainGenerator';
-import { CaveGenerator } from './CaveGenerator';
-import { OreGenerator } from './OreGenerator';
-import { TreeGenerator } from './TreeGenerator';
-import { VegetationGenerator } from './VegetationGenerator';
-import { VillageGenerator } from './VillageGenerator';
-import { WaterSimulator } from './WaterSimulator';
-import { buildChunkMesh, ChunkNeighbors, MeshData } from '../meshing/MeshBuilder';
-import { downsample, buildLODMesh, LODNeighborBlocks } from '../meshing/LODGenerator';
-import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH, MAX_POINT_LIGHTS } from '../constants';
+import { Chunk, ChunkSection, CompressedChunkData, SectionFill } from './Chunk';
+import { MeshData, ChunkMeshes, ChunkNeighbors, buildChunkMeshes } from '../meshing/MeshBuilder';
+import {
+  LODMeshData, LODNeighborBlocks, MAX_LOD_LEVEL, downsample, buildLODMesh,
+  LOD_EDGE_NORTH, LOD_EDGE_SOUTH, LOD_EDGE_EAST, LOD_EDGE_WEST,
+} from '../meshing/LODGenerator';
+import {
+  CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH, SECTION_HEIGHT, SECTION_COUNT, MAX_POINT_LIGHTS, MAX_RENDER_DISTANCE,
+} from '../constants';
 import { Config } from '../config/Config';
-import { getBlockData, isBlockTorch, TorchFacing } from './BlockTypes';
+import { BlockType, getBlockData, isBlockTorch, isBlockWater, TorchFacing } from './BlockTypes';
 import { IndirectRenderer, ChunkAllocation } from '../renderer/IndirectRenderer';
+import { createFrustumPlanes, extractFrustumPlanes, isBoxInFrustum } from '../renderer/Frustum';
+import { raycastVoxels, RaycastHit, RaycastOptions } from './VoxelRaycast';
+import { TerrainGenerator } from './TerrainGenerator';
+import { BiomeType } from './BiomeTypes';
+import { RegionStore, RegionChunks, regionCoord } from './RegionStore';
+import { FluidSimulator } from './FluidSimulator';
+import {
+  ChunkWorkerPool, ChunkJobResult, CompressedNeighbors,
+  GenerateResult, GenerateLODResult, compressedTransferables,
+} from './ChunkWorkerPool';
 
 const enum ChunkState {
   QUEUED,
-  GENERATING,
-  MESHING,
+  IN_FLIGHT,  // Generate job posted to a worker, block data not on the main thread yet
   READY,
 }
 
 interface ChunkEntry {
   chunk: Chunk;
   state: ChunkState;
+  // Id of the latest worker job for this chunk (0 = none); stale results are dropped
+  jobId: number;
+  // Neighbor offsets that weren't READY when the generate job was dispatched (not in its snapshot)
+  missingNeighbors: ReadonlyArray<readonly [number, number]>;
+}
+
+// Block writes waiting for flushEdits(): sections to remesh, whether the chunk's own blocks changed
+// (border neighbors only remesh), and whether a player made the change (fluid flow is never saved)
+interface PendingEdit {
+  sections: Set<number>;
+  edited: boolean;
+  save: boolean;
 }
 
 interface LODChunkEntry {
   chunk: Chunk;
   lodBlocks: Uint8Array;
   state: ChunkState;
+  jobId: number;
+  // LOD level of lodBlocks + the uploaded mesh (0 until first generated)
+  level: number;
+  // Level of the latest generateLOD job; differs from level while a re-level is in flight
+  targetLevel: number;
+}
+
+// Duration of the dithered cross-fade between a chunk's LOD and full-detail meshes
+const LOD_FADE_MS = 400;
+
+interface LODTransition {
+  start: number;      // performance.now() when both meshes were ready
+  toDetail: boolean;  // true: LOD → full detail, false: full detail → LOD
 }
 
 export interface PointLight {
@@ -45,23 +77,79 @@ function chunkKey(cx: number, cz: number): string {
   return `${cx},${cz}`;
 }
 
+/**
+ * Default save slot: one world per seed and terrain config. Saved chunks are full block snapshots,
+ * so edits made under other terrain settings would not line up with freshly generated neighbors.
+ */
+function worldIdFor(seed: number): string {
+  // FNV-1a over the terrain config
+  const json = JSON.stringify(Config.data.terrain);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash = Math.imul(hash ^ json.charCodeAt(i), 0x01000193);
+  }
+  return `seed-${seed}-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+// Diagonal chunk offsets: water corners on a chunk's corner columns read across them
+const DIAGONALS: ReadonlyArray<readonly [number, number]> = [[1, 1], [-1, 1], [1, -1], [-1, -1]];
+const CARDINALS: ReadonlyArray<readonly [number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const NEIGHBOR_OFFSETS: ReadonlyArray<readonly [number, number]> = [...CARDINALS, ...DIAGONALS];
+
+function columnHasWater(chunk: Chunk, x: number, z: number): boolean {
+  for (let y = 0; y < CHUNK_HEIGHT; y++) {
+    if (isBlockWater(chunk.getBlock(x, y, z))) return true;
+  }
+  return false;
+}
+
+// Chunks stay loaded up to this many chunks beyond the render distance
+const UNLOAD_MARGIN = 2;
+
+// Section slots for every chunk that can be loaded at once (max render distance + unload margin)
+function maxLoadedSections(): number {
+  const r = MAX_RENDER_DISTANCE + UNLOAD_MARGIN;
+  let chunks = 0;
+  for (let dx = -r; dx <= r; dx++) chunks += 2 * Math.floor(Math.sqrt(r * r - dx * dx)) + 1;
+  return chunks * SECTION_COUNT;
+}
+
+// Failed generate jobs back off before retrying: doubled per failure in a row, capped
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+// Edits are batched into one IndexedDB write after this much quiet time
+const SAVE_DELAY_MS = 1000;
+
+// Level whose ring contains a chunk at squared chunk distance dist2 (0 = full detail),
+// or -1 beyond the outermost ring. slack widens every ring (hysteresis when moving outward).
+function lodLevelAt(dist2: number, ringRadii: number[], slack = 0): number {
+  for (let level = 0; level < ringRadii.length; level++) {
+    const r = ringRadii[level] + slack;
+    if (dist2 <= r * r) return level;
+  }
+  return -1;
+}
+
 export class ChunkManager {
   private ctx: WebGPUContext;
   private chunks = new Map<string, ChunkEntry>();
   private loadQueue: { cx: number; cz: number }[] = [];
 
-  private terrainGen: TerrainGenerator;
-  private caveGen: CaveGenerator;
-  private oreGen: OreGenerator;
-  private treeGen: TreeGenerator;
-  private villageGen: VillageGenerator;
-  private vegGen: VegetationGenerator;
-  private waterSim: WaterSimulator;
+  // Generation + meshing run on workers; the main thread only uploads results
+  private workerPool: ChunkWorkerPool;
+  private seed: number;
+  // Bumped on regenerate so workers rebuild their generators
+  private generation = 0;
+  private nextJobId = 1;
 
   renderDistance = Config.data.rendering.general.renderDistance;
   totalChunks = 0;
   totalLODChunks = 0;
 
+  // Chunk key → generate jobs failed in a row and when the next attempt may be dispatched
+  private jobFailures = new Map<string, { count: number; retryAt: number }>();
+
   // Deferred neighbor rebuild queue (processed max 2 per frame)
   private pendingNeighborRebuilds = new Set<string>();
 
@@ -70,7 +158,7 @@ export class ChunkManager {
   private lastCameraPos = vec3.create();
 
   // Frustum planes for culling (pre-allocated)
-  private frustumPlanes: Float32Array[] = Array.from({ length: 6 }, () => new Float32Array(4));
+  private frustumPlanes = createFrustumPlanes();
 
   // Indirect renderer for GPU-driven rendering
   private indirectRenderer: IndirectRenderer;
@@ -82,22 +170,37 @@ export class ChunkManager {
   private lodLoadQueue: { cx: number; cz: number }[] = [];
   private lodPendingNeighborRebuilds = new Set<string>();
   private lodIndirectRenderer: IndirectRenderer;
+  // Chunks drawn at both detail levels while one fades into the other
+  private transitions = new Map<string, LODTransition>();
+
+  // Main-thread terrain sampler for biome queries (generation runs in workers)
+  private biomeSampler: { generation: number; terrain: TerrainGenerator } | null = null;
 
-  // Time budget deadline shared between LOD 0 and LOD processing
-  private frameDeadline = 0;
+  // Persistence: saved chunks per region (null while the region is loading), edits not yet written
+  private store = new RegionStore();
+  private worldId: string;
+  private regions = new Map<string, RegionChunks | null>();
+  private unsavedChunks = new Set<string>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(ctx: WebGPUContext, seed: number) {
+  // Runtime water/lava flow; its writes are batched into pendingEdits
+  private fluids: FluidSimulator;
+  private pendingEdits = new Map<string, PendingEdit>();
+
+  constructor(ctx: WebGPUContext, seed: number, worldId = worldIdFor(seed)) {
     this.ctx = ctx;
-    this.terrainGen = new TerrainGenerator(seed);
-    this.caveGen = new CaveGenerator(seed);
-    this.oreGen = new OreGenerator(seed);
-    this.treeGen = new TreeGenerator(seed, this.terrainGen);
-    this.villageGen = new VillageGenerator(seed, this.terrainGen);
-    this.vegGen = new VegetationGenerator(seed, this.terrainGen);
-    this.waterSim = new WaterSimulator(seed);
-    this.indirectRenderer = new IndirectRenderer(ctx.device);
-    this.vegIndirectRenderer = new IndirectRenderer(ctx.device);
-    this.lodIndirectRenderer = new IndirectRenderer(ctx.device, 32 * 1024 * 1024, 16 * 1024 * 1024, 2048);
+    this.seed = seed;
+    this.worldId = worldId;
+    this.workerPool = new ChunkWorkerPool();
+    const sectionSlots = maxLoadedSections();
+    this.indirectRenderer = new IndirectRenderer(ctx.device, 256 * 1024 * 1024, 128 * 1024 * 1024, sectionSlots);
+    this.vegIndirectRenderer = new IndirectRenderer(ctx.device, 256 * 1024 * 1024, 128 * 1024 * 1024, sectionSlots);
+    // Coarse rings hold many small meshes: more slots, less geometry
+    this.lodIndirectRenderer = new IndirectRenderer(ctx.device, 64 * 1024 * 1024, 32 * 1024 * 1024, 16384);
+    this.fluids = new FluidSimulator({
+      getBlockRaw: (x, y, z) => this.getBlockRawAt(x, y, z),
+      setBlock: (x, y, z, type, meta) => { this.writeBlock(x, y, z, type, meta, false); },
+    });
   }
 
   /** Shader compilation checks from indirect renderers */
@@ -111,23 +214,37 @@ export class ChunkManager {
   get lodIndirect(): IndirectRenderer { return this.lodIndirectRenderer; }
   getFrustumPlanes(): Float32Array[] { return this.frustumPlanes; }
 
-  regenerate(seed: number): void {
+  /** Outer radius (in chunks) of each detail ring: [full detail, 2×, 4×, 8×] */
+  private lodRingRadii(): number[] {
+    const radii = [this.renderDistance];
+    for (const width of Config.data.rendering.lod.ringDistances) {
+      radii.push(radii[radii.length - 1] + width);
+    }
+    return radii;
+  }
+
+  /** Farthest chunk distance with geometry (full detail + enabled LOD rings) */
+  get viewDistance(): number {
+    if (!Config.data.rendering.lod.enabled) return this.renderDistance;
+    return this.lodRingRadii()[MAX_LOD_LEVEL];
+  }
+
+  regenerate(seed: number, worldId = worldIdFor(seed)): void {
+    // Write pending edits to the world they were made in
+    void this.flushSaves();
+    this.regions.clear();
+    this.worldId = worldId;
+
     // Free all mega buffer allocations
     for (const entry of this.chunks.values()) {
-      const c = entry.chunk;
-      if (c.solidAlloc) {
-        this.indirectRenderer.freeChunk(c.solidAlloc);
-        c.solidAlloc = null;
-      }
-      if (c.vegMegaAlloc) {
-        this.vegIndirectRenderer.freeChunk(c.vegMegaAlloc);
-        c.vegMegaAlloc = null;
-      }
-      c.destroyGPU();
+      this.freeSections(entry.chunk);
     }
     this.chunks.clear();
     this.loadQueue = [];
     this.pendingNeighborRebuilds.clear();
+    this.jobFailures.clear();
+    this.pendingEdits.clear();
+    this.fluids.clear();
     this.emissiveCache.clear();
 
     // Free LOD chunks
@@ -141,21 +258,23 @@ export class ChunkManager {
     this.lodChunks.clear();
     this.lodLoadQueue = [];
     this.lodPendingNeighborRebuilds.clear();
+    this.transitions.clear();
+
+    // In-flight results are dropped by jobId; workers pick up the new seed on their next job
+    this.seed = seed;
+    this.generation++;
+  }
 
-    this.terrainGen = new TerrainGenerator(seed);
-    this.caveGen = new CaveGenerator(seed);
-    this.oreGen = new OreGenerator(seed);
-    this.treeGen = new TreeGenerator(seed, this.terrainGen);
-    this.villageGen = new VillageGenerator(seed, this.terrainGen);
-    this.vegGen = new VegetationGenerator(seed, this.terrainGen);
-    this.waterSim = new WaterSimulator(seed);
+  destroy(): void {
+    void this.flushSaves();
+    this.workerPool.destroy();
   }
 
   update(cameraPos: vec3, viewProj: Float32Array): void {
     const camChunkX = Math.floor((cameraPos[0] as number) / CHUNK_WIDTH);
     const camChunkZ = Math.floor((cameraPos[2] as number) / CHUNK_DEPTH);
 
-    this.extractFrustumPlanes(viewProj);
+    extractFrustumPlanes(viewProj, this.frustumPlanes);
 
     // Queue new chunks
     const rd = this.renderDistance;
@@ -166,7 +285,7 @@ export class ChunkManager {
         const cz = camChunkZ + dz;
         const key = chunkKey(cx, cz);
         if (!this.chunks.has(key)) {
-          this.chunks.set(key, { chunk: new Chunk(cx, cz), state: ChunkState.QUEUED });
+          this.chunks.set(key, { chunk: new Chunk(cx, cz), state: ChunkState.QUEUED, jobId: 0, missingNeighbors: [] });
           this.loadQueue.push({ cx, cz });
         }
       }
@@ -182,109 +301,185 @@ export class ChunkManager {
       return da - db;
     });
 
-    // Process chunks within time budget (LOD 0 has priority)
+    // Apply finished worker results within the time budget (GPU uploads only)
     const timeBudgetMs = Config.data.rendering.general.timeBudgetMs;
     const deadline = performance.now() + timeBudgetMs;
-    this.frameDeadline = deadline;
-    const generatedThisFrame = new Set<string>();
-    const neighborsToRebuild = new Set<string>();
-
-    while (this.loadQueue.length > 0 && performance.now() < deadline) {
-      const { cx, cz } = this.loadQueue.shift()!;
-      const key = chunkKey(cx, cz);
-      const entry = this.chunks.get(key);
-      if (!entry || entry.state !== ChunkState.QUEUED) continue;
+    const lodGeneratedThisFrame = new Set<string>();
 
-      // Generate terrain (ores before caves so caves expose ores on walls)
-      entry.state = ChunkState.GENERATING;
-      this.terrainGen.generate(entry.chunk);
-      this.oreGen.generate(entry.chunk);
-      this.caveGen.generate(entry.chunk);
-      this.villageGen.generate(entry.chunk);
-      this.treeGen.generate(entry.chunk);
-      this.vegGen.generate(entry.chunk);
-      this.waterSim.generate(entry.chunk);
-
-      // Compute occupancy bitmask for sub-block skip optimization
-      entry.chunk.computeOccupancy();
-
-      // Build mesh
-      entry.state = ChunkState.MESHING;
-      const neighbors = this.getNeighbors(cx, cz);
-      const meshData = buildChunkMesh(entry.chunk, neighbors);
-
-      // Upload solid mesh to mega buffer
-      this.uploadSolidMesh(entry.chunk, meshData);
-
-      // Upload water mesh (per-chunk buffer, small mesh)
-      this.uploadWaterMesh(entry.chunk, meshData);
-
-      // Upload vegetation mesh to mega buffer
-      this.uploadVegetationMesh(entry.chunk, meshData);
-
-      // Compress block data to save RAM (uniform sub-blocks → 1 byte)
-      entry.chunk.compress();
-
-      entry.state = ChunkState.READY;
-      generatedThisFrame.add(key);
-
-      // Defer neighbor rebuilds (don't rebuild immediately — queue for later frames)
-      const nKeys = [
-        chunkKey(cx - 1, cz), chunkKey(cx + 1, cz),
-        chunkKey(cx, cz - 1), chunkKey(cx, cz + 1),
-      ];
-      for (const nk of nKeys) {
-        if (!generatedThisFrame.has(nk)) {
-          this.pendingNeighborRebuilds.add(nk);
-        }
-      }
+    while (performance.now() < deadline) {
+      const result = this.workerPool.takeResult();
+      if (!result) break;
+      this.applyWorkerResult(result, lodGeneratedThisFrame);
     }
 
-    // Process max 2 deferred neighbor rebuilds per frame
+    // Dispatch max 2 deferred neighbor remeshes per frame (ahead of new chunks so seams close quickly)
     let neighborRebuilds = 0;
     for (const nKey of this.pendingNeighborRebuilds) {
-      if (neighborRebuilds >= 2) break;
+      if (neighborRebuilds >= 2 || !this.workerPool.hasIdleWorker) break;
       const entry = this.chunks.get(nKey);
       if (!entry || entry.state !== ChunkState.READY) {
         this.pendingNeighborRebuilds.delete(nKey);
         continue;
       }
-      const [ncx, ncz] = nKey.split(',').map(Number);
-      this.rebuildNeighborIfReady(ncx, ncz);
+      this.dispatchMesh(entry);
       this.pendingNeighborRebuilds.delete(nKey);
       neighborRebuilds++;
     }
 
+    // Hand queued chunks to idle workers (LOD 0 has priority)
+    const awaitingRegion: { cx: number; cz: number }[] = [];
+    while (this.loadQueue.length > 0 && this.workerPool.hasIdleWorker) {
+      const item = this.loadQueue.shift()!;
+      const entry = this.chunks.get(chunkKey(item.cx, item.cz));
+      if (!entry || entry.state !== ChunkState.QUEUED) continue;
+      const saved = this.savedChunk(item.cx, item.cz);
+      if (saved === undefined || this.isRetryPending(chunkKey(item.cx, item.cz))) {
+        awaitingRegion.push(item);
+        continue;
+      }
+      this.dispatchGenerate(entry, saved);
+    }
+    this.loadQueue.push(...awaitingRegion);
+
     // Unload distant chunks
-    const unloadDist = rd + 2;
+    const unloadDist = rd + UNLOAD_MARGIN;
     const toRemove: string[] = [];
     for (const [key, entry] of this.chunks) {
       const dx = entry.chunk.chunkX - camChunkX;
       const dz = entry.chunk.chunkZ - camChunkZ;
       if (dx * dx + dz * dz > unloadDist * unloadDist) {
-        // Free mega buffer allocations
-        if (entry.chunk.solidAlloc) {
-          this.indirectRenderer.freeChunk(entry.chunk.solidAlloc);
-          entry.chunk.solidAlloc = null;
-        }
-        if (entry.chunk.vegMegaAlloc) {
-          this.vegIndirectRenderer.freeChunk(entry.chunk.vegMegaAlloc);
-          entry.chunk.vegMegaAlloc = null;
-        }
-        entry.chunk.destroyGPU();
         toRemove.push(key);
       }
     }
     for (const key of toRemove) {
-      this.chunks.delete(key);
-      this.emissiveCache.delete(key);
-      this.pendingNeighborRebuilds.delete(key);
+      this.unloadChunk(key);
     }
 
-    this.totalChunks = this.chunks.size;
-
     // ---- LOD system ----
     this.updateLOD(camChunkX, camChunkZ);
+    this.updateTransitions();
+    this.hideLODUnderFullDetail();
+
+    this.totalChunks = this.chunks.size;
+  }
+
+  private unloadChunk(key: string): void {
+    const entry = this.chunks.get(key);
+    if (!entry) return;
+    this.freeSections(entry.chunk);
+    this.chunks.delete(key);
+    this.emissiveCache.delete(key);
+    this.pendingNeighborRebuilds.delete(key);
+    // LOD neighbors lose their finer edge → rebuild without the skirt
+    for (const nk of this.neighborKeys(entry.chunk.chunkX, entry.chunk.chunkZ)) {
+      this.lodPendingNeighborRebuilds.add(nk);
+    }
+  }
+
+  /** Free every section's mega buffer allocations and water buffers. */
+  private freeSections(chunk: Chunk): void {
+    for (const section of chunk.sections) this.clearSection(section);
+    chunk.destroyGPU();
+  }
+
+  private clearSection(section: ChunkSection): void {
+    if (section.solidAlloc) {
+      this.indirectRenderer.freeChunk(section.solidAlloc);
+      section.solidAlloc = null;
+    }
+    if (section.vegMegaAlloc) {
+      this.vegIndirectRenderer.freeChunk(section.vegMegaAlloc);
+      section.vegMegaAlloc = null;
+    }
+    section.waterVertexBuffer?.destroy();
+    section.waterIndexBuffer?.destroy();
+    section.waterVertexBuffer = null;
+    section.waterIndexBuffer = null;
+    section.waterIndexCount = 0;
+  }
+
+  private unloadLODChunk(key: string): void {
+    const entry = this.lodChunks.get(key);
+    if (!entry) return;
+    if (entry.chunk.lodAlloc) {
+      this.lodIndirectRenderer.freeChunk(entry.chunk.lodAlloc);
+      entry.chunk.lodAlloc = null;
+    }
+    entry.chunk.destroyGPU();
+    this.lodChunks.delete(key);
+    this.lodPendingNeighborRebuilds.delete(key);
+  }
+
+  // ---- LOD ↔ full-detail cross-fade ----
+
+  private startTransition(key: string, toDetail: boolean): void {
+    // No dither without per-chunk fade: swap at once rather than z-fight both meshes
+    if (!this.lodIndirectRenderer.supportsFade) {
+      if (toDetail) this.unloadLODChunk(key);
+      else this.unloadChunk(key);
+      return;
+    }
+    this.transitions.set(key, { start: performance.now(), toDetail });
+  }
+
+  private setChunkFade(chunk: Chunk, fade: number): void {
+    for (const section of chunk.sections) {
+      if (section.solidAlloc) this.indirectRenderer.setChunkFade(section.solidAlloc, fade);
+      if (section.vegMegaAlloc) this.vegIndirectRenderer.setChunkFade(section.vegMegaAlloc, fade);
+    }
+  }
+
+  private setLODFade(chunk: Chunk, fade: number): void {
+    if (chunk.lodAlloc) this.lodIndirectRenderer.setChunkFade(chunk.lodAlloc, fade);
+  }
+
+  // Runs after all uploads this frame: re-uploaded meshes come back with fade = 1
+  private updateTransitions(): void {
+    const now = performance.now();
+    for (const [key, tr] of this.transitions) {
+      const full = this.chunks.get(key);
+      const lod = this.lodChunks.get(key);
+      if (!full || full.state !== ChunkState.READY || !lod || lod.state !== ChunkState.READY) {
+        // One side was unloaded mid-fade: show whatever is left
+        if (full) this.setChunkFade(full.chunk, 1);
+        if (lod) this.setLODFade(lod.chunk, 1);
+        this.transitions.delete(key);
+        continue;
+      }
+
+      const t = Math.min(1, (now - tr.start) / LOD_FADE_MS);
+      if (t >= 1) {
+        if (tr.toDetail) {
+          this.setChunkFade(full.chunk, 1);
+          this.unloadLODChunk(key);
+        } else {
+          this.setLODFade(lod.chunk, 1);
+          this.unloadChunk(key);
+        }
+        this.transitions.delete(key);
+        continue;
+      }
+
+      // Incoming: [0, 1) progress; outgoing: t - 1 in [-1, 0) (complementary dither)
+      if (tr.toDetail) {
+        this.setChunkFade(full.chunk, t);
+        this.setLODFade(lod.chunk, t - 1);
+      } else {
+        this.setLODFade(lod.chunk, t);
+        this.setChunkFade(full.chunk, t - 1);
+      }
+    }
+  }
+
+  // Skip LOD meshes whose full-detail chunk is already rendering (avoid double-draw).
+  // Also runs after uploads, since a re-uploaded LOD mesh comes back visible.
+  private hideLODUnderFullDetail(): void {
+    for (const [key, lod] of this.lodChunks) {
+      if (!lod.chunk.lodAlloc || this.transitions.has(key)) continue;
+      const full = this.chunks.get(key);
+      const covered = full !== undefined && full.state === ChunkState.READY;
+      this.lodIndirectRenderer.setChunkVisible(lod.chunk.lodAlloc, !covered);
+    }
   }
 
   /** Free old allocation, upload new mesh, return new allocation (or null if empty). */
@@ -296,139 +491,563 @@ export class ChunkManager {
     indexCount: number,
     worldX: number,
     worldZ: number,
+    minY?: number,
+    maxY?: number,
   ): ChunkAllocation | null {
     if (oldAlloc) renderer.freeChunk(oldAlloc);
     if (indexCount > 0) {
-      return renderer.uploadChunk(vertices, indices, worldX, worldZ);
+      return renderer.uploadChunk(vertices, indices, worldX, worldZ, minY, maxY);
     }
     return null;
   }
 
-  private uploadSolidMesh(chunk: Chunk, meshData: MeshData): void {
-    chunk.solidAlloc = this.reuploadMesh(
-      this.indirectRenderer, chunk.solidAlloc,
+  private uploadSolidMesh(chunk: Chunk, s: number, meshData: MeshData): void {
+    const section = chunk.sections[s];
+    section.solidAlloc = this.reuploadMesh(
+      this.indirectRenderer, section.solidAlloc,
       meshData.vertices, meshData.indices, meshData.indexCount,
       chunk.worldOffsetX, chunk.worldOffsetZ,
+      s * SECTION_HEIGHT, (s + 1) * SECTION_HEIGHT,
     );
   }
 
-  private rebuildNeighborIfReady(cx: number, cz: number): void {
-    const key = chunkKey(cx, cz);
-    const entry = this.chunks.get(key);
-    if (!entry || entry.state !== ChunkState.READY) return;
+  private dispatchGenerate(entry: ChunkEntry, saved: CompressedChunkData | null): void {
+    const { chunkX: cx, chunkZ: cz } = entry.chunk;
+    const transfer: Transferable[] = [];
+    const neighbors = this.getCompressedNeighbors(cx, cz, transfer);
+    entry.missingNeighbors = NEIGHBOR_OFFSETS.filter(([dx, dz]) => !this.getChunk(cx + dx, cz + dz));
+    entry.jobId = this.nextJobId++;
+    entry.state = ChunkState.IN_FLIGHT;
+    // Saved blocks are structured-cloned: the region cache keeps its copy
+    this.workerPool.dispatch({
+      kind: 'generate', id: entry.jobId, cx, cz,
+      generation: this.generation, seed: this.seed, terrain: Config.data.terrain,
+      saved, neighbors,
+    }, transfer);
+  }
+
+  private dispatchMesh(entry: ChunkEntry): void {
+    const { chunkX: cx, chunkZ: cz } = entry.chunk;
+    const transfer: Transferable[] = [];
+    const blocks = entry.chunk.exportCompressed();
+    compressedTransferables(blocks, transfer);
+    const neighbors = this.getCompressedNeighbors(cx, cz, transfer);
+    entry.jobId = this.nextJobId++;
+    this.workerPool.dispatch({ kind: 'mesh', id: entry.jobId, cx, cz, blocks, neighbors }, transfer);
+  }
+
+  private applyWorkerResult(
+    result: ChunkJobResult,
+    lodGeneratedThisFrame: Set<string>,
+  ): void {
+    const key = chunkKey(result.cx, result.cz);
+    switch (result.kind) {
+      case 'generate': {
+        const entry = this.chunks.get(key);
+        if (!entry || entry.jobId !== result.id) return;
+        this.applyGenerateResult(entry, result);
+        this.jobFailures.delete(key);
+
+        // Neighbors that became READY while the job ran weren't in its snapshot: remesh against them
+        for (const [dx, dz] of entry.missingNeighbors) {
+          if (!this.getChunk(result.cx + dx, result.cz + dz)) continue;
+          const cornerOnly = dx !== 0 && dz !== 0;
+          if (!cornerOnly || columnHasWater(entry.chunk, dx > 0 ? CHUNK_WIDTH - 1 : 0, dz > 0 ? CHUNK_DEPTH - 1 : 0)) {
+            this.pendingNeighborRebuilds.add(key);
+            break;
+          }
+        }
+        entry.missingNeighbors = [];
+
+        // Fade out the LOD mesh this chunk replaces
+        const lodEntry = this.lodChunks.get(key);
+        if (lodEntry && lodEntry.state === ChunkState.READY && lodEntry.chunk.lodAlloc) {
+          this.startTransition(key, true);
+        }
+
+        // Defer neighbor rebuilds (don't rebuild immediately — queue for later frames).
+        // Neighbors applied earlier this frame were dispatched without this chunk, so they remesh too.
+        for (const nk of this.neighborKeys(result.cx, result.cz)) {
+          this.pendingNeighborRebuilds.add(nk);
+          // LOD neighbors now face a finer level → skirt
+          this.lodPendingNeighborRebuilds.add(nk);
+        }
+        // Diagonal neighbors only need a rebuild for water on their corner column facing this chunk
+        for (const [dx, dz] of DIAGONALS) {
+          const diagonal = this.getChunk(result.cx + dx, result.cz + dz);
+          if (!diagonal) continue;
+          if (columnHasWater(diagonal, dx > 0 ? 0 : CHUNK_WIDTH - 1, dz > 0 ? 0 : CHUNK_DEPTH - 1)) {
+            this.pendingNeighborRebuilds.add(chunkKey(diagonal.chunkX, diagonal.chunkZ));
+          }
+        }
+        break;
+      }
+      case 'mesh': {
+        const entry = this.chunks.get(key);
+        if (!entry || entry.jobId !== result.id || entry.state !== ChunkState.READY) return;
+        this.uploadChunkMeshes(entry.chunk, result.mesh);
+        break;
+      }
+      case 'generateLOD': {
+        const entry = this.lodChunks.get(key);
+        if (!entry || entry.jobId !== result.id) return;
+        const firstMesh = entry.state === ChunkState.IN_FLIGHT;
+        this.applyGenerateLODResult(entry, result);
+        this.jobFailures.delete(key);
+        lodGeneratedThisFrame.add(key);
+
+        // Created beyond the full-detail radius while that chunk was still loaded: fade it out
+        const fullEntry = this.chunks.get(key);
+        if (firstMesh && fullEntry && fullEntry.state === ChunkState.READY && !this.transitions.has(key)) {
+          this.startTransition(key, false);
+        }
 
-    const neighbors = this.getNeighbors(cx, cz);
-    const meshData = buildChunkMesh(entry.chunk, neighbors);
+        for (const nk of this.neighborKeys(result.cx, result.cz)) {
+          if (!lodGeneratedThisFrame.has(nk)) {
+            this.lodPendingNeighborRebuilds.add(nk);
+          }
+        }
+        break;
+      }
+      case 'meshLOD': {
+        const entry = this.lodChunks.get(key);
+        if (!entry || entry.jobId !== result.id || entry.state !== ChunkState.READY) return;
+        this.uploadLODMesh(entry.chunk, result.mesh);
+        break;
+      }
+      case 'error': {
+        console.error(`[ChunkWorker] Job for chunk ${key} failed:`, result.message);
+        // Drop a failed generate so the chunk is re-queued, and retried once its backoff passes
+        const entry = this.chunks.get(key);
+        if (entry && entry.jobId === result.id && entry.state === ChunkState.IN_FLIGHT) {
+          this.chunks.delete(key);
+          this.recordJobFailure(key);
+        }
+        const lodEntry = this.lodChunks.get(key);
+        if (lodEntry && lodEntry.jobId === result.id) {
+          if (lodEntry.state === ChunkState.IN_FLIGHT) {
+            this.lodChunks.delete(key);
+          } else {
+            // Failed re-level: keep the current mesh
+            lodEntry.targetLevel = lodEntry.level;
+          }
+          this.recordJobFailure(key);
+        }
+        break;
+      }
+    }
+  }
 
-    // Re-upload solid mesh
-    this.uploadSolidMesh(entry.chunk, meshData);
+  private recordJobFailure(key: string): void {
+    const count = (this.jobFailures.get(key)?.count ?? 0) + 1;
+    const delay = Math.min(RETRY_BASE_MS * 2 ** (count - 1), RETRY_MAX_MS);
+    this.jobFailures.set(key, { count, retryAt: performance.now() + delay });
+  }
 
-    // Water
-    this.uploadWaterMesh(entry.chunk, meshData);
+  private isRetryPending(key: string): boolean {
+    const failure = this.jobFailures.get(key);
+    return failure !== undefined && performance.now() < failure.retryAt;
+  }
 
-    // Vegetation
-    this.uploadVegetationMesh(entry.chunk, meshData);
+  private applyGenerateResult(entry: ChunkEntry, result: GenerateResult): void {
+    // Block data arrives already compressed (uniform sub-blocks → 1 entry)
+    entry.chunk.loadCompressed(result.blocks);
+    entry.chunk.occupancy = result.occupancy;
+    this.uploadChunkMeshes(entry.chunk, result.mesh);
+    entry.state = ChunkState.READY;
+    this.fluids.onChunkLoaded(entry.chunk.chunkX, entry.chunk.chunkZ);
+    this.wakeEditedFluids(entry.chunk);
   }
 
-  private getNeighbors(cx: number, cz: number): ChunkNeighbors {
+  // Flow isn't saved: restart fluid in a loaded edited chunk and along borders shared with one
+  private wakeEditedFluids(chunk: Chunk): void {
+    const { chunkX: cx, chunkZ: cz, worldOffsetX: x0, worldOffsetZ: z0 } = chunk;
+    if (this.isEdited(cx, cz)) {
+      this.fluids.wakeArea(x0 - 1, z0 - 1, x0 + CHUNK_WIDTH + 1, z0 + CHUNK_DEPTH + 1);
+      return;
+    }
+    for (const [dx, dz] of CARDINALS) {
+      if (!this.getChunk(cx + dx, cz + dz) || !this.isEdited(cx + dx, cz + dz)) continue;
+      // Two-column strip straddling the shared border
+      const minX = dx > 0 ? x0 + CHUNK_WIDTH - 1 : dx < 0 ? x0 - 1 : x0;
+      const minZ = dz > 0 ? z0 + CHUNK_DEPTH - 1 : dz < 0 ? z0 - 1 : z0;
+      this.fluids.wakeArea(minX, minZ, dx !== 0 ? minX + 2 : x0 + CHUNK_WIDTH, dz !== 0 ? minZ + 2 : z0 + CHUNK_DEPTH);
+    }
+  }
+
+  private applyGenerateLODResult(entry: LODChunkEntry, result: GenerateLODResult): void {
+    if (result.blocks) {
+      entry.chunk.loadCompressed(result.blocks);
+    } else {
+      entry.chunk.releaseBlocks();
+    }
+    entry.lodBlocks = result.lodBlocks;
+    entry.level = result.level;
+    this.uploadLODMesh(entry.chunk, result.mesh);
+    entry.state = ChunkState.READY;
+  }
+
+  private uploadChunkMeshes(chunk: Chunk, meshes: ChunkMeshes): void {
+    for (const [s, mesh] of meshes) {
+      // Sections without geometry just drop their previous meshes
+      if (!mesh) {
+        this.clearSection(chunk.sections[s]);
+        continue;
+      }
+
+      // Solid mesh to mega buffer
+      this.uploadSolidMesh(chunk, s, mesh);
+
+      // Water mesh (per-section buffer, small mesh)
+      this.uploadWaterMesh(chunk.sections[s], mesh);
+
+      // Vegetation mesh to mega buffer
+      this.uploadVegetationMesh(chunk, s, mesh);
+    }
+  }
+
+  private neighborKeys(cx: number, cz: number): string[] {
+    return [
+      chunkKey(cx - 1, cz), chunkKey(cx + 1, cz),
+      chunkKey(cx, cz - 1), chunkKey(cx, cz + 1),
+    ];
+  }
+
+  /** Snapshot READY neighbors' compressed blocks for a worker job (buffers appended to transfer). */
+  private getCompressedNeighbors(cx: number, cz: number, transfer: Transferable[]): CompressedNeighbors {
+    const get = (ncx: number, ncz: number) => {
+      const chunk = this.getChunk(ncx, ncz);
+      if (!chunk) return null;
+      const data = chunk.exportCompressed();
+      compressedTransferables(data, transfer);
+      return data;
+    };
     return {
-      north: this.getChunk(cx, cz + 1),
-      south: this.getChunk(cx, cz - 1),
-      east: this.getChunk(cx + 1, cz),
-      west: this.getChunk(cx - 1, cz),
+      north: get(cx, cz + 1),
+      south: get(cx, cz - 1),
+      east: get(cx + 1, cz),
+      west: get(cx - 1, cz),
+      ...this.getCornerColumns(cx, cz, transfer),
+    };
+  }
+
+  /** Corner columns of READY diagonal neighbors touching a chunk (buffers appended to transfer if given). */
+  private getCornerColumns(cx: number, cz: number, transfer?: Transferable[]): Pick<
+    ChunkNeighbors, 'northEast' | 'northWest' | 'southEast' | 'southWest'
+  > {
+    const get = (dx: number, dz: number) => {
+      const chunk = this.getChunk(cx + dx, cz + dz);
+      if (!chunk) return null;
+      const column = chunk.exportColumn(dx > 0 ? 0 : CHUNK_WIDTH - 1, dz > 0 ? 0 : CHUNK_DEPTH - 1);
+      transfer?.push(column.buffer);
+      return column;
+    };
+    return {
+      northEast: get(1, 1),
+      northWest: get(-1, 1),
+      southEast: get(1, -1),
+      southWest: get(-1, -1),
     };
   }
 
   private getChunk(cx: number, cz: number): Chunk | null {
     const entry = this.chunks.get(chunkKey(cx, cz));
-    if (entry && entry.state >= ChunkState.MESHING) return entry.chunk;
+    if (entry && entry.state === ChunkState.READY) return entry.chunk;
     return null;
   }
 
-  // Legacy draw calls API (for shadow pass and water which still use per-chunk draw calls)
-  getDrawCalls(): ChunkDrawCall[] {
-    // For solid meshes, we'll construct draw calls from the mega buffer
-    // Each chunk's data is in the mega buffer, we just need to expose the right view
-    const calls: ChunkDrawCall[] = [];
-    for (const entry of this.chunks.values()) {
-      if (entry.state !== ChunkState.READY) continue;
-      const c = entry.chunk;
-      if (!c.solidAlloc) continue;
-      if (!this.isChunkInFrustum(c)) continue;
-
-      // Legacy compat: expose mega buffer as vertex/index buffer
-      calls.push({
-        vertexBuffer: this.indirectRenderer.vertexMega.buffer,
-        indexBuffer: this.indirectRenderer.indexMega.buffer,
-        indexCount: c.solidAlloc.indexCount,
-        firstIndex: c.solidAlloc.firstIndex,
-        baseVertex: c.solidAlloc.baseVertex,
+  // ---- Block editing ----
+
+  /** Block type at a world position (AIR if the chunk isn't loaded at full detail). */
+  getBlockAt(worldX: number, y: number, worldZ: number): number {
+    const cx = Math.floor(worldX / CHUNK_WIDTH);
+    const cz = Math.floor(worldZ / CHUNK_DEPTH);
+    const chunk = this.getChunk(cx, cz);
+    if (!chunk) return BlockType.AIR;
+    return chunk.getBlock(worldX - cx * CHUNK_WIDTH, y, worldZ - cz * CHUNK_DEPTH);
+  }
+
+  // Raw block (type | meta << 8) at a world position, or null if the chunk isn't loaded at full detail
+  private getBlockRawAt(worldX: number, y: number, worldZ: number): number | null {
+    const cx = Math.floor(worldX / CHUNK_WIDTH);
+    const cz = Math.floor(worldZ / CHUNK_DEPTH);
+    const chunk = this.getChunk(cx, cz);
+    if (!chunk) return null;
+    return chunk.getBlockRaw(worldX - cx * CHUNK_WIDTH, y, worldZ - cz * CHUNK_DEPTH);
+  }
+
+  /** First non-air block along a ray through full-detail chunks (null if nothing within range). */
+  raycast(origin: vec3, direction: vec3, options?: RaycastOptions): RaycastHit | null {
+    return raycastVoxels((cx, cz) => this.getChunk(cx, cz), origin, direction, options);
+  }
+
+  /** Biome of a world column, sampled with the current seed and terrain config. */
+  getBiomeAt(worldX: number, worldZ: number): BiomeType {
+    const terrain = this.getBiomeSampler();
+    return terrain.getBiome(worldX, worldZ, terrain.getSurfaceHeight(worldX, worldZ));
+  }
+
+  /** Blended sky/fog tint of the biomes around a world column. */
+  getSkyTintAt(worldX: number, worldZ: number, out: [number, number, number]): [number, number, number] {
+    return this.getBiomeSampler().getSkyTint(worldX, worldZ, out);
+  }
+
+  private getBiomeSampler(): TerrainGenerator {
+    if (!this.biomeSampler || this.biomeSampler.generation !== this.generation) {
+      this.biomeSampler = { generation: this.generation, terrain: new TerrainGenerator(this.seed) };
+    }
+    return this.biomeSampler.terrain;
+  }
+
+  /**
+   * Edit one block and remesh synchronously (chunk + border neighbors, LOD grid if present).
+   * Returns false if the chunk isn't loaded at full detail or y is out of range.
+   */
+  setBlockAt(worldX: number, y: number, worldZ: number, type: number, meta = 0): boolean {
+    if (!this.writeBlock(worldX, y, worldZ, type, meta, true)) return false;
+    this.flushEdits();
+    this.fluids.notifyChanged(worldX, y, worldZ);
+    return true;
+  }
+
+  /** Advance water/lava flow and remesh the chunks it changed. */
+  updateFluids(dt: number): void {
+    this.fluids.update(dt * 1000);
+    this.flushEdits();
+  }
+
+  /**
+   * Write one block without remeshing; flushEdits() applies the change and, with `save`, stores the
+   * chunk as edited. False if the chunk isn't loaded.
+   */
+  private writeBlock(worldX: number, y: number, worldZ: number, type: number, meta: number, save: boolean): boolean {
+    if (y < 0 || y >= CHUNK_HEIGHT) return false;
+    const cx = Math.floor(worldX / CHUNK_WIDTH);
+    const cz = Math.floor(worldZ / CHUNK_DEPTH);
+    const entry = this.chunks.get(chunkKey(cx, cz));
+    if (!entry || entry.state !== ChunkState.READY) return false;
+
+    const chunk = entry.chunk;
+    const lx = worldX - cx * CHUNK_WIDTH;
+    const lz = worldZ - cz * CHUNK_DEPTH;
+    const raw = ((meta & 0xFF) << 8) | (type & 0xFF);
+    if (chunk.getBlockRaw(lx, y, lz) === raw) return true;
+
+    // Decompresses on write; flushEdits re-compresses
+    chunk.setBlockWithMeta(lx, y, lz, type, meta);
+    // Faces and AO on a section boundary depend on the adjacent section's blocks
+    const section = Math.floor(y / SECTION_HEIGHT);
+    const sections = [section];
+    if (y % SECTION_HEIGHT === 0 && section > 0) sections.push(section - 1);
+    if (y % SECTION_HEIGHT === SECTION_HEIGHT - 1 && section < SECTION_COUNT - 1) sections.push(section + 1);
+    this.addPendingEdit(cx, cz, sections, true, save);
+
+    // Faces and AO along a border depend on the neighbor's blocks
+    if (lx === 0) this.addPendingEdit(cx - 1, cz, sections, false, false);
+    if (lx === CHUNK_WIDTH - 1) this.addPendingEdit(cx + 1, cz, sections, false, false);
+    if (lz === 0) this.addPendingEdit(cx, cz - 1, sections, false, false);
+    if (lz === CHUNK_DEPTH - 1) this.addPendingEdit(cx, cz + 1, sections, false, false);
+    // Corner columns also shape the diagonal neighbor's water corners
+    if ((lx === 0 || lx === CHUNK_WIDTH - 1) && (lz === 0 || lz === CHUNK_DEPTH - 1)) {
+      this.addPendingEdit(cx + (lx === 0 ? -1 : 1), cz + (lz === 0 ? -1 : 1), sections, false, false);
+    }
+    return true;
+  }
+
+  private addPendingEdit(cx: number, cz: number, sections: number[], edited: boolean, save: boolean): void {
+    const key = chunkKey(cx, cz);
+    let pending = this.pendingEdits.get(key);
+    if (!pending) {
+      pending = { sections: new Set(), edited: false, save: false };
+      this.pendingEdits.set(key, pending);
+    }
+    for (const s of sections) pending.sections.add(s);
+    pending.edited ||= edited;
+    pending.save ||= save;
+  }
+
+  /** Remesh and re-compress every chunk touched by writeBlock since the last flush; save player edits. */
+  private flushEdits(): void {
+    for (const [key, pending] of this.pendingEdits) {
+      const entry = this.chunks.get(key);
+      if (!entry || entry.state !== ChunkState.READY) continue;
+      // Occupancy needs the raw array, so recompute before re-compressing
+      if (pending.edited) entry.chunk.computeOccupancy();
+      this.remeshNow(entry, [...pending.sections]);
+    }
+
+    for (const [key, pending] of this.pendingEdits) {
+      const entry = this.chunks.get(key);
+      if (!pending.edited || !entry || entry.state !== ChunkState.READY) continue;
+      const chunk = entry.chunk;
+      chunk.compress();
+      this.emissiveCache.delete(key);
+      if (pending.save) this.markEdited(chunk.chunkX, chunk.chunkZ, chunk);
+      this.syncLODChunk(key, chunk);
+    }
+    this.pendingEdits.clear();
+  }
+
+  // A chunk cross-fading with (or not yet replaced by) its LOD mesh: keep the LOD grid in sync
+  private syncLODChunk(key: string, chunk: Chunk): void {
+    const lodEntry = this.lodChunks.get(key);
+    if (!lodEntry || lodEntry.state !== ChunkState.READY || lodEntry.level === 0) return;
+    // Supersede any in-flight re-level / remesh built from the old terrain
+    lodEntry.jobId = this.nextJobId++;
+    lodEntry.targetLevel = lodEntry.level;
+    lodEntry.lodBlocks = downsample(chunk, lodEntry.level);
+    const lodMesh = buildLODMesh(
+      lodEntry.lodBlocks, lodEntry.level, chunk.worldOffsetX, chunk.worldOffsetZ,
+      this.getLODNeighborBlocks(chunk.chunkX, chunk.chunkZ, lodEntry.level),
+    );
+    this.uploadLODMesh(lodEntry.chunk, lodMesh);
+    for (const nk of this.neighborKeys(chunk.chunkX, chunk.chunkZ)) this.lodPendingNeighborRebuilds.add(nk);
+  }
+
+  // ---- Persistence ----
+
+  /**
+   * Saved blocks for a chunk: null if it was never edited, undefined while its region
+   * is still loading from IndexedDB (the load is started on first request).
+   */
+  private savedChunk(cx: number, cz: number): CompressedChunkData | null | undefined {
+    const rx = regionCoord(cx);
+    const rz = regionCoord(cz);
+    const regionKey = chunkKey(rx, rz);
+    const region = this.regions.get(regionKey);
+    if (region === null) return undefined;
+    if (region) return region.get(chunkKey(cx, cz)) ?? null;
+
+    this.regions.set(regionKey, null);
+    const worldId = this.worldId;
+    this.store.loadRegion(worldId, rx, rz)
+      .catch((err): RegionChunks => {
+        // Unreadable region: fall back to generation for its chunks
+        console.error(`[RegionStore] Failed to load region ${regionKey} of ${worldId}:`, err);
+        return new Map();
+      })
+      .then((chunks) => {
+        if (this.worldId === worldId && this.regions.get(regionKey) === null) {
+          this.regions.set(regionKey, chunks);
+        }
       });
+    return undefined;
+  }
+
+  /** Whether a chunk has saved blocks (its region must already be loaded). */
+  private isEdited(cx: number, cz: number): boolean {
+    return this.regions.get(chunkKey(regionCoord(cx), regionCoord(cz)))?.has(chunkKey(cx, cz)) ?? false;
+  }
+
+  private markEdited(cx: number, cz: number, chunk: Chunk): void {
+    const key = chunkKey(cx, cz);
+    // The region is loaded: the chunk was only dispatched after it
+    this.regions.get(chunkKey(regionCoord(cx), regionCoord(cz)))?.set(key, chunk.exportCompressed());
+    this.unsavedChunks.add(key);
+    if (this.saveTimer !== null) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => void this.flushSaves(), SAVE_DELAY_MS);
+  }
+
+  /** All edited chunks of the current world (saved + not yet written), for a world bundle. */
+  async exportEditedChunks(): Promise<RegionChunks> {
+    await this.flushSaves();
+    return this.store.loadWorld(this.worldId);
+  }
+
+  /**
+   * Replace the saved world of a seed and the current terrain config with imported chunks. Call
+   * once Config holds the imported snapshot, then regenerate(seed) (workers generate from it).
+   */
+  async replaceSavedWorld(seed: number, chunks: RegionChunks): Promise<void> {
+    await this.flushSaves();
+    await this.store.replaceWorld(worldIdFor(seed), chunks);
+  }
+
+  /** Write edited chunks to IndexedDB now (normally debounced after edits). */
+  flushSaves(): Promise<void> {
+    if (this.saveTimer !== null) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
     }
-    return calls;
+    const batch: RegionChunks = new Map();
+    for (const key of this.unsavedChunks) {
+      const [cx, cz] = key.split(',').map(Number);
+      const data = this.regions.get(chunkKey(regionCoord(cx), regionCoord(cz)))?.get(key);
+      if (data) batch.set(key, data);
+    }
+    this.unsavedChunks.clear();
+    return this.store.saveChunks(this.worldId, batch).catch((err) => {
+      console.error(`[RegionStore] Failed to save ${batch.size} chunk(s) of ${this.worldId}:`, err);
+    });
+  }
+
+  /** Synchronously rebuild the given sections (edits touch one or two of them). */
+  private remeshNow(entry: ChunkEntry, sections: number[]): void {
+    const { chunkX: cx, chunkZ: cz } = entry.chunk;
+    // Drop worker meshes built from the pre-edit blocks
+    entry.jobId = this.nextJobId++;
+    if (this.pendingNeighborRebuilds.delete(chunkKey(cx, cz))) {
+      // A queued full rebuild was pending: do it now instead of only the edited sections
+      sections = [...Array(SECTION_COUNT).keys()];
+    }
+    const meshes = buildChunkMeshes(entry.chunk, {
+      north: this.getChunk(cx, cz + 1),
+      south: this.getChunk(cx, cz - 1),
+      east: this.getChunk(cx + 1, cz),
+      west: this.getChunk(cx - 1, cz),
+      ...this.getCornerColumns(cx, cz),
+    }, sections);
+    this.uploadChunkMeshes(entry.chunk, meshes);
   }
 
-  private uploadWaterMesh(chunk: Chunk, meshData: MeshData): void {
-    chunk.waterVertexBuffer?.destroy();
-    chunk.waterIndexBuffer?.destroy();
-    chunk.waterVertexBuffer = null;
-    chunk.waterIndexBuffer = null;
-    chunk.waterIndexCount = 0;
+  private uploadWaterMesh(section: ChunkSection, meshData: MeshData): void {
+    section.waterVertexBuffer?.destroy();
+    section.waterIndexBuffer?.destroy();
+    section.waterVertexBuffer = null;
+    section.waterIndexBuffer = null;
+    section.waterIndexCount = 0;
 
     if (meshData.waterIndexCount > 0) {
-      chunk.waterVertexBuffer = this.ctx.device.createBuffer({
+      section.waterVertexBuffer = this.ctx.device.createBuffer({
         size: meshData.waterVertices.byteLength,
         usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
       });
-      this.ctx.device.queue.writeBuffer(chunk.waterVertexBuffer, 0, meshData.waterVertices.buffer as ArrayBuffer);
+      this.ctx.device.queue.writeBuffer(section.waterVertexBuffer, 0, meshData.waterVertices.buffer as ArrayBuffer);
 
-      chunk.waterIndexBuffer = this.ctx.device.createBuffer({
+      section.waterIndexBuffer = this.ctx.device.createBuffer({
         size: meshData.waterIndices.byteLength,
         usage: GPUBufferUsage.INDEX | GPUBufferUsage.COPY_DST,
       });
-      this.ctx.device.queue.writeBuffer(chunk.waterIndexBuffer, 0, meshData.waterIndices.buffer as ArrayBuffer);
-      chunk.waterIndexCount = meshData.waterIndexCount;
+      this.ctx.device.queue.writeBuffer(section.waterIndexBuffer, 0, meshData.waterIndices.buffer as ArrayBuffer);
+      section.waterIndexCount = meshData.waterIndexCount;
     }
   }
 
-  private uploadVegetationMesh(chunk: Chunk, meshData: MeshData): void {
-    chunk.vegMegaAlloc = this.reuploadMesh(
-      this.vegIndirectRenderer, chunk.vegMegaAlloc,
+  private uploadVegetationMesh(chunk: Chunk, s: number, meshData: MeshData): void {
+    const section = chunk.sections[s];
+    section.vegMegaAlloc = this.reuploadMesh(
+      this.vegIndirectRenderer, section.vegMegaAlloc,
       meshData.vegVertices, meshData.vegIndices, meshData.vegIndexCount,
       chunk.worldOffsetX, chunk.worldOffsetZ,
+      s * SECTION_HEIGHT, (s + 1) * SECTION_HEIGHT,
     );
   }
 
-  getVegetationDrawCalls(): ChunkDrawCall[] {
-    const calls: ChunkDrawCall[] = [];
-    for (const entry of this.chunks.values()) {
-      if (entry.state !== ChunkState.READY) continue;
-      const c = entry.chunk;
-      if (!c.vegMegaAlloc) continue;
-      if (!this.isChunkInFrustum(c)) continue;
-      calls.push({
-        vertexBuffer: this.vegIndirectRenderer.vertexMega.buffer,
-        indexBuffer: this.vegIndirectRenderer.indexMega.buffer,
-        indexCount: c.vegMegaAlloc.indexCount,
-        firstIndex: c.vegMegaAlloc.firstIndex,
-        baseVertex: c.vegMegaAlloc.baseVertex,
-      });
-    }
-    return calls;
-  }
-
   getWaterDrawCalls(): ChunkDrawCall[] {
     const calls: ChunkDrawCall[] = [];
     for (const entry of this.chunks.values()) {
       if (entry.state !== ChunkState.READY) continue;
       const c = entry.chunk;
-      if (!c.waterVertexBuffer || !c.waterIndexBuffer || c.waterIndexCount === 0) continue;
-      if (!this.isChunkInFrustum(c)) continue;
-      calls.push({
-        vertexBuffer: c.waterVertexBuffer,
-        indexBuffer: c.waterIndexBuffer,
-        indexCount: c.waterIndexCount,
-      });
+      for (let s = 0; s < SECTION_COUNT; s++) {
+        const section = c.sections[s];
+        if (!section.waterVertexBuffer || !section.waterIndexBuffer || section.waterIndexCount === 0) continue;
+        if (!this.isSectionInFrustum(c, s)) continue;
+        calls.push({
+          vertexBuffer: section.waterVertexBuffer,
+          indexBuffer: section.waterIndexBuffer,
+          indexCount: section.waterIndexCount,
+        });
+      }
     }
     return calls;
   }
@@ -438,45 +1057,39 @@ export class ChunkManager {
     const ox = chunk.worldOffsetX;
     const oz = chunk.worldOffsetZ;
 
-    for (let x = 0; x < CHUNK_WIDTH; x++) {
-      for (let z = 0; z < CHUNK_DEPTH; z++) {
-        for (let y = 0; y < CHUNK_HEIGHT; y++) {
-          const blockType = chunk.getBlock(x, y, z);
-          if (blockType === 0) continue;
-          const data = getBlockData(blockType);
-          if (data.emissive <= 0) continue;
-
-          const c = data.color;
-          let radius: number;
-          if (data.emissive >= 0.8) {
-            radius = 16;
-          } else if (data.emissive >= 0.1) {
-            radius = 6;
-          } else {
-            radius = 3;
-          }
-
-          // Torch: offset light position based on facing direction
-          let lx = ox + x + 0.5;
-          let ly = y + 0.5;
-          let lz = oz + z + 0.5;
-          if (isBlockTorch(blockType)) {
-            ly = y + 0.75; // flame is near top
-            const meta = chunk.getBlockMeta(x, y, z);
-            switch (meta) {
-              case TorchFacing.NORTH: lz = oz + z + 0.875; break;
-              case TorchFacing.SOUTH: lz = oz + z + 0.125; break;
-              case TorchFacing.EAST:  lx = ox + x + 0.875; break;
-              case TorchFacing.WEST:  lx = ox + x + 0.125; break;
+    for (let s = 0; s < SECTION_COUNT; s++) {
+      if (chunk.getSectionFill(s) === SectionFill.EMPTY) continue;
+      const y0 = s * SECTION_HEIGHT;
+      for (let x = 0; x < CHUNK_WIDTH; x++) {
+        for (let z = 0; z < CHUNK_DEPTH; z++) {
+          for (let y = y0; y < y0 + SECTION_HEIGHT; y++) {
+            const blockType = chunk.getBlock(x, y, z);
+            if (blockType === 0) continue;
+            const light = getBlockData(blockType).light;
+            if (!light) continue;
+
+            // Torch: offset light position based on facing direction
+            let lx = ox + x + 0.5;
+            let ly = y + 0.5;
+            let lz = oz + z + 0.5;
+            if (isBlockTorch(blockType)) {
+              ly = y + 0.75; // flame is near top
+              const meta = chunk.getBlockMeta(x, y, z);
+              switch (meta) {
+                case TorchFacing.NORTH: lz = oz + z + 0.875; break;
+                case TorchFacing.SOUTH: lz = oz + z + 0.125; break;
+                case TorchFacing.EAST:  lx = ox + x + 0.875; break;
+                case TorchFacing.WEST:  lx = ox + x + 0.125; break;
+              }
             }
-          }
 
-          lights.push({
-            position: [lx, ly, lz],
-            color: [c[0] / 255, c[1] / 255, c[2] / 255],
-            intensity: data.emissive * 2.0,
-            radius,
-          });
+            lights.push({
+              position: [lx, ly, lz],
+              color: light.color,
+              intensity: light.intensity,
+              radius: light.radius,
+            });
+          }
         }
       }
     }
@@ -513,84 +1126,27 @@ export class ChunkManager {
     return allLights;
   }
 
-  private extractFrustumPlanes(m: Float32Array): void {
-    // Left
-    this.frustumPlanes[0][0] = m[3] + m[0];
-    this.frustumPlanes[0][1] = m[7] + m[4];
-    this.frustumPlanes[0][2] = m[11] + m[8];
-    this.frustumPlanes[0][3] = m[15] + m[12];
-    // Right
-    this.frustumPlanes[1][0] = m[3] - m[0];
-    this.frustumPlanes[1][1] = m[7] - m[4];
-    this.frustumPlanes[1][2] = m[11] - m[8];
-    this.frustumPlanes[1][3] = m[15] - m[12];
-    // Bottom
-    this.frustumPlanes[2][0] = m[3] + m[1];
-    this.frustumPlanes[2][1] = m[7] + m[5];
-    this.frustumPlanes[2][2] = m[11] + m[9];
-    this.frustumPlanes[2][3] = m[15] + m[13];
-    // Top
-    this.frustumPlanes[3][0] = m[3] - m[1];
-    this.frustumPlanes[3][1] = m[7] - m[5];
-    this.frustumPlanes[3][2] = m[11] - m[9];
-    this.frustumPlanes[3][3] = m[15] - m[13];
-    // Near
-    this.frustumPlanes[4][0] = m[3] + m[2];
-    this.frustumPlanes[4][1] = m[7] + m[6];
-    this.frustumPlanes[4][2] = m[11] + m[10];
-    this.frustumPlanes[4][3] = m[15] + m[14];
-    // Far
-    this.frustumPlanes[5][0] = m[3] - m[2];
-    this.frustumPlanes[5][1] = m[7] - m[6];
-    this.frustumPlanes[5][2] = m[11] - m[10];
-    this.frustumPlanes[5][3] = m[15] - m[14];
-
-    // Normalize
-    for (const p of this.frustumPlanes) {
-      const len = Math.sqrt(p[0] * p[0] + p[1] * p[1] + p[2] * p[2]);
-      if (len > 0) {
-        p[0] /= len; p[1] /= len; p[2] /= len; p[3] /= len;
-      }
-    }
-  }
-
-  private isChunkInFrustum(chunk: Chunk): boolean {
+  private isSectionInFrustum(chunk: Chunk, section: number): boolean {
     const minX = chunk.worldOffsetX;
-    const minY = 0;
     const minZ = chunk.worldOffsetZ;
-    const maxX = minX + CHUNK_WIDTH;
-    const maxY = CHUNK_HEIGHT;
-    const maxZ = minZ + CHUNK_DEPTH;
-
-    for (const p of this.frustumPlanes) {
-      const px = p[0] > 0 ? maxX : minX;
-      const py = p[1] > 0 ? maxY : minY;
-      const pz = p[2] > 0 ? maxZ : minZ;
-      if (p[0] * px + p[1] * py + p[2] * pz + p[3] < 0) {
-        return false;
-      }
-    }
-    return true;
+    return this.isBoxInFrustum(
+      minX, section * SECTION_HEIGHT, minZ,
+      minX + CHUNK_WIDTH, (section + 1) * SECTION_HEIGHT, minZ + CHUNK_DEPTH,
+    );
   }
 
   /** Frustum test using chunk grid coordinates (no Chunk object needed) */
   private isChunkCoordsInFrustum(cx: number, cz: number): boolean {
     const minX = cx * CHUNK_WIDTH;
-    const minY = 0;
     const minZ = cz * CHUNK_DEPTH;
-    const maxX = minX + CHUNK_WIDTH;
-    const maxY = CHUNK_HEIGHT;
-    const maxZ = minZ + CHUNK_DEPTH;
-
-    for (const p of this.frustumPlanes) {
-      const px = p[0] > 0 ? maxX : minX;
-      const py = p[1] > 0 ? maxY : minY;
-      const pz = p[2] > 0 ? maxZ : minZ;
-      if (p[0] * px + p[1] * py + p[2] * pz + p[3] < 0) {
-        return false;
-      }
-    }
-    return true;
+    return this.isBoxInFrustum(minX, 0, minZ, minX + CHUNK_WIDTH, CHUNK_HEIGHT, minZ + CHUNK_DEPTH);
+  }
+
+  private isBoxInFrustum(
+    minX: number, minY: number, minZ: number,
+    maxX: number, maxY: number, maxZ: number,
+  ): boolean {
+    return isBoxInFrustum(this.frustumPlanes, minX, minY, minZ, maxX, maxY, maxZ);
   }
 
   // ---- LOD System ----
@@ -617,8 +1173,8 @@ export class ChunkManager {
     }
 
     const rd = this.renderDistance;
-    const lodRd = lodConfig.renderDistance;
-    const totalRd = rd + lodRd;
+    const ringRadii = this.lodRingRadii();
+    const totalRd = ringRadii[MAX_LOD_LEVEL];
 
     // Wait until LOD 0 finishes loading before processing LOD chunks
     if (this.loadQueue.length > 0) {
@@ -626,27 +1182,31 @@ export class ChunkManager {
       return;
     }
 
-    // Queue new LOD chunks (ring from rd+1 to totalRd)
+    // Queue new LOD chunks (rings from rd+1 to totalRd)
     for (let dx = -totalRd; dx <= totalRd; dx++) {
       for (let dz = -totalRd; dz <= totalRd; dz++) {
         const dist2 = dx * dx + dz * dz;
-        // Skip if inside LOD 0 range (including overlap zone)
-        if (dist2 <= rd * rd) continue;
-        // Skip if outside LOD ring
-        if (dist2 > totalRd * totalRd) continue;
+        // Skip if inside LOD 0 range (including overlap zone) or outside the last ring
+        if (lodLevelAt(dist2, ringRadii) < 1) continue;
 
         const cx = camChunkX + dx;
         const cz = camChunkZ + dz;
         const key = chunkKey(cx, cz);
 
-        // Skip if already LOD or full-detail
+        // Skip if already LOD, or full-detail not yet about to unload (LOD is built ahead to fade in)
         if (this.lodChunks.has(key)) continue;
-        if (this.chunks.has(key)) continue;
+        if (this.chunks.has(key) && dist2 <= (rd + 1) * (rd + 1)) continue;
 
+        // Block data only arrives with the generate result (and only for the 2× ring)
+        const chunk = new Chunk(cx, cz);
+        chunk.releaseBlocks();
         this.lodChunks.set(key, {
-          chunk: new Chunk(cx, cz),
+          chunk,
           lodBlocks: new Uint8Array(0),
           state: ChunkState.QUEUED,
+          jobId: 0,
+          level: 0,
+          targetLevel: 0,
         });
         this.lodLoadQueue.push({ cx, cz });
       }
@@ -662,87 +1222,50 @@ export class ChunkManager {
       return da - db;
     });
 
-    // Process LOD chunks (use remaining time budget from LOD 0)
-    const lodGeneratedThisFrame = new Set<string>();
+    // Process max 2 LOD neighbor rebuilds per frame
+    let lodNeighborRebuilds = 0;
+    for (const nKey of this.lodPendingNeighborRebuilds) {
+      if (lodNeighborRebuilds >= 2 || !this.workerPool.hasIdleWorker) break;
+      const entry = this.lodChunks.get(nKey);
+      if (!entry || entry.state !== ChunkState.READY) {
+        this.lodPendingNeighborRebuilds.delete(nKey);
+        continue;
+      }
+      this.dispatchLODMesh(entry);
+      this.lodPendingNeighborRebuilds.delete(nKey);
+      lodNeighborRebuilds++;
+    }
 
-    while (this.lodLoadQueue.length > 0 && performance.now() < this.frameDeadline) {
-      const { cx, cz } = this.lodLoadQueue.shift()!;
+    // Hand LOD chunks to workers left idle after LOD 0 dispatch
+    const lodAwaitingRegion: { cx: number; cz: number }[] = [];
+    while (this.lodLoadQueue.length > 0 && this.workerPool.hasIdleWorker) {
+      const item = this.lodLoadQueue.shift()!;
+      const { cx, cz } = item;
       const key = chunkKey(cx, cz);
       const entry = this.lodChunks.get(key);
       if (!entry || entry.state !== ChunkState.QUEUED) continue;
+      if (this.savedChunk(cx, cz) === undefined || this.isRetryPending(key)) {
+        lodAwaitingRegion.push(item);
+        continue;
+      }
 
-      // Check if this chunk entered LOD 0 range
+      // Camera may have moved since queueing: pick the ring the chunk is in now
       const dx = cx - camChunkX;
       const dz = cz - camChunkZ;
-      if (dx * dx + dz * dz <= rd * rd) {
-        // LOD 0 range — remove LOD entry, let normal pipeline handle it
+      const level = lodLevelAt(dx * dx + dz * dz, ringRadii);
+      if (level < 1) {
+        // LOD 0 range (normal pipeline handles it) or already out of range
         this.lodChunks.delete(key);
         continue;
       }
 
-      // Generate terrain (no vegetation, no water)
-      entry.state = ChunkState.GENERATING;
-      this.terrainGen.generate(entry.chunk);
-      this.oreGen.generate(entry.chunk);
-      this.caveGen.generate(entry.chunk);
-      this.villageGen.generate(entry.chunk);
-      this.treeGen.generate(entry.chunk);
-      // Skip: vegGen, waterSim
-
-      // Downsample before compress
-      entry.lodBlocks = downsample(entry.chunk);
-
-      // Build LOD mesh
-      entry.state = ChunkState.MESHING;
-      const lodNeighbors = this.getLODNeighborBlocks(cx, cz);
-      const lodMeshData = buildLODMesh(
-        entry.lodBlocks,
-        entry.chunk.worldOffsetX,
-        entry.chunk.worldOffsetZ,
-        lodNeighbors,
-      );
-
-      // Upload to LOD mega buffer
-      entry.chunk.lodAlloc = this.reuploadMesh(
-        this.lodIndirectRenderer, entry.chunk.lodAlloc,
-        lodMeshData.vertices, lodMeshData.indices, lodMeshData.indexCount,
-        entry.chunk.worldOffsetX, entry.chunk.worldOffsetZ,
-      );
-
-      // Compress block data
-      entry.chunk.compress();
-
-      entry.state = ChunkState.READY;
-      lodGeneratedThisFrame.add(key);
-
-      // Queue neighbor rebuilds
-      const nKeys = [
-        chunkKey(cx - 1, cz), chunkKey(cx + 1, cz),
-        chunkKey(cx, cz - 1), chunkKey(cx, cz + 1),
-      ];
-      for (const nk of nKeys) {
-        if (!lodGeneratedThisFrame.has(nk)) {
-          this.lodPendingNeighborRebuilds.add(nk);
-        }
-      }
-    }
-
-    // Process max 2 LOD neighbor rebuilds per frame
-    let lodNeighborRebuilds = 0;
-    for (const nKey of this.lodPendingNeighborRebuilds) {
-      if (lodNeighborRebuilds >= 2) break;
-      const entry = this.lodChunks.get(nKey);
-      if (!entry || entry.state !== ChunkState.READY) {
-        this.lodPendingNeighborRebuilds.delete(nKey);
-        continue;
-      }
-      const [ncx, ncz] = nKey.split(',').map(Number);
-      this.rebuildLODNeighbor(ncx, ncz, entry);
-      this.lodPendingNeighborRebuilds.delete(nKey);
-      lodNeighborRebuilds++;
+      // Generate terrain + LOD mesh on a worker (no vegetation, no water)
+      entry.state = ChunkState.IN_FLIGHT;
+      this.dispatchGenerateLOD(entry, level);
     }
+    this.lodLoadQueue.push(...lodAwaitingRegion);
 
-    // Unload LOD chunks that are too far or replaced by full-detail
+    // Unload LOD chunks that are too far or replaced by full-detail; move the rest between rings
     const lodUnloadDist = totalRd + 2;
     const lodToRemove: string[] = [];
     for (const [key, entry] of this.lodChunks) {
@@ -754,85 +1277,101 @@ export class ChunkManager {
       if (dist2 > lodUnloadDist * lodUnloadDist) {
         // Too far — always remove
         shouldRemove = true;
+      } else if (this.transitions.has(key)) {
+        // Cross-fading: updateTransitions removes whichever side fades out
+        continue;
       } else if (dist2 <= rd * rd) {
         // Inside LOD 0 range — only remove when full-detail chunk is READY
         const fullEntry = this.chunks.get(key);
         if (fullEntry && fullEntry.state === ChunkState.READY) {
           shouldRemove = true;
         }
+      } else if (
+        entry.state === ChunkState.READY && entry.level === entry.targetLevel &&
+        this.workerPool.hasIdleWorker && !this.isRetryPending(key)
+      ) {
+        // Refine as soon as the chunk enters a nearer ring; coarsen one chunk past the boundary
+        const finer = lodLevelAt(dist2, ringRadii);
+        const coarser = lodLevelAt(dist2, ringRadii, 1);
+        let level = entry.level;
+        if (finer >= 1 && finer < level) level = finer;
+        else if (coarser > level) level = coarser;
+        // Keep drawing the current mesh until the re-leveled one arrives
+        if (level !== entry.level) this.dispatchGenerateLOD(entry, level);
       }
 
       if (shouldRemove) {
-        if (entry.chunk.lodAlloc) {
-          this.lodIndirectRenderer.freeChunk(entry.chunk.lodAlloc);
-          entry.chunk.lodAlloc = null;
-        }
-        entry.chunk.destroyGPU();
         lodToRemove.push(key);
       }
     }
     for (const key of lodToRemove) {
-      this.lodChunks.delete(key);
-      this.lodPendingNeighborRebuilds.delete(key);
+      this.unloadLODChunk(key);
     }
 
     this.totalLODChunks = this.lodChunks.size;
   }
 
-  private getLODNeighborBlocks(cx: number, cz: number): LODNeighborBlocks {
+  // Seams are only closed between chunks of the same level; finer neighbors get skirts
+  private getLODNeighborBlocks(cx: number, cz: number, level: number): LODNeighborBlocks {
     const getBlocks = (ncx: number, ncz: number): Uint8Array | null => {
       const entry = this.lodChunks.get(chunkKey(ncx, ncz));
-      if (entry && entry.state >= ChunkState.MESHING && entry.lodBlocks.length > 0) {
+      if (entry && entry.state === ChunkState.READY && entry.level === level && entry.lodBlocks.length > 0) {
         return entry.lodBlocks;
       }
       return null;
     };
+    const isFiner = (ncx: number, ncz: number): boolean => {
+      const key = chunkKey(ncx, ncz);
+      const full = this.chunks.get(key);
+      if (full && full.state === ChunkState.READY) return true;
+      const lod = this.lodChunks.get(key);
+      return !!lod && lod.state === ChunkState.READY && lod.level < level;
+    };
+    let finerEdges = 0;
+    if (isFiner(cx, cz + 1)) finerEdges |= LOD_EDGE_NORTH;
+    if (isFiner(cx, cz - 1)) finerEdges |= LOD_EDGE_SOUTH;
+    if (isFiner(cx + 1, cz)) finerEdges |= LOD_EDGE_EAST;
+    if (isFiner(cx - 1, cz)) finerEdges |= LOD_EDGE_WEST;
     return {
       north: getBlocks(cx, cz + 1),
       south: getBlocks(cx, cz - 1),
       east: getBlocks(cx + 1, cz),
       west: getBlocks(cx - 1, cz),
+      finerEdges,
     };
   }
 
-  private rebuildLODNeighbor(cx: number, cz: number, entry: LODChunkEntry): void {
-    if (entry.lodBlocks.length === 0) return;
+  // Terrain is regenerated for every level change: coarse rings keep no block data to re-downsample
+  private dispatchGenerateLOD(entry: LODChunkEntry, level: number): void {
+    const { chunkX: cx, chunkZ: cz } = entry.chunk;
+    entry.jobId = this.nextJobId++;
+    entry.targetLevel = level;
+    this.workerPool.dispatch({
+      kind: 'generateLOD', id: entry.jobId, cx, cz, level,
+      generation: this.generation, seed: this.seed, terrain: Config.data.terrain,
+      saved: this.savedChunk(cx, cz) ?? null,
+      neighbors: this.getLODNeighborBlocks(cx, cz, level),
+    });
+  }
 
-    const lodNeighbors = this.getLODNeighborBlocks(cx, cz);
-    const lodMeshData = buildLODMesh(
-      entry.lodBlocks,
-      entry.chunk.worldOffsetX,
-      entry.chunk.worldOffsetZ,
-      lodNeighbors,
-    );
+  private dispatchLODMesh(entry: LODChunkEntry): void {
+    // A pending re-level remeshes anyway; a new job id here would drop its result
+    if (entry.lodBlocks.length === 0 || entry.level !== entry.targetLevel) return;
+    const { chunkX: cx, chunkZ: cz } = entry.chunk;
+    entry.jobId = this.nextJobId++;
+    // LOD grids are small (≤ 8 KB) — structured-clone copies, the main thread keeps its own
+    this.workerPool.dispatch({
+      kind: 'meshLOD', id: entry.jobId, cx, cz, level: entry.level,
+      lodBlocks: entry.lodBlocks,
+      neighbors: this.getLODNeighborBlocks(cx, cz, entry.level),
+    });
+  }
 
-    entry.chunk.lodAlloc = this.reuploadMesh(
-      this.lodIndirectRenderer, entry.chunk.lodAlloc,
+  private uploadLODMesh(chunk: Chunk, lodMeshData: LODMeshData): void {
+    chunk.lodAlloc = this.reuploadMesh(
+      this.lodIndirectRenderer, chunk.lodAlloc,
       lodMeshData.vertices, lodMeshData.indices, lodMeshData.indexCount,
-      entry.chunk.worldOffsetX, entry.chunk.worldOffsetZ,
+      chunk.worldOffsetX, chunk.worldOffsetZ,
     );
   }
-
-  getLODDrawCalls(): ChunkDrawCall[] {
-    const calls: ChunkDrawCall[] = [];
-    for (const [key, entry] of this.lodChunks) {
-      if (entry.state !== ChunkState.READY) continue;
-      const c = entry.chunk;
-      if (!c.lodAlloc) continue;
-      if (!this.isChunkInFrustum(c)) continue;
-
-      // Skip if full-detail chunk is already rendering (avoid double-draw)
-      const fullEntry = this.chunks.get(key);
-      if (fullEntry && fullEntry.state === ChunkState.READY && fullEntry.chunk.solidAlloc) continue;
-
-      calls.push({
-        vertexBuffer: this.lodIndirectRenderer.vertexMega.buffer,
-        indexBuffer: this.lodIndirectRenderer.indexMega.buffer,
-        indexCount: c.lodAlloc.indexCount,
-        firstIndex: c.lodAlloc.firstIndex,
-        baseVertex: c.lodAlloc.baseVertex,
-      });
-    }
-    return calls;
-  }
 }
@@ -0,0 +1,153 @@
+// Chunk worker entry: terrain generation + meshing off the main thread.
+// Mirrors the synchronous pipeline ChunkManager used to run inside its frame budget.
+import { Config } from '../config/Config';
+import { CHUNK_WIDTH, CHUNK_DEPTH } from '../constants';
+import { Chunk, CompressedChunkData } from './Chunk';
+import { TerrainGenerator } from './TerrainGenerator';
+import { CaveGenerator } from './CaveGenerator';
+import { OreGenerator } from './OreGenerator';
+import { TreeGenerator } from './TreeGenerator';
+import { VegetationGenerator } from './VegetationGenerator';
+import { VillageGenerator } from './VillageGenerator';
+import { WaterSimulator } from './WaterSimulator';
+import { buildChunkMeshes, ChunkNeighbors } from '../meshing/MeshBuilder';
+import { downsample, buildLODMesh } from '../meshing/LODGenerator';
+import {
+  ChunkJob, ChunkJobResult, CompressedNeighbors,
+  compressedTransferables, meshTransferables, lodMeshTransferables,
+} from './ChunkWorkerPool';
+
+interface Generators {
+  generation: number;
+  terrain: TerrainGenerator;
+  cave: CaveGenerator;
+  ore: OreGenerator;
+  tree: TreeGenerator;
+  village: VillageGenerator;
+  veg: VegetationGenerator;
+  water: WaterSimulator;
+}
+
+let gens: Generators | null = null;
+
+function getGenerators(generation: number, seed: number): Generators {
+  if (gens && gens.generation === generation) return gens;
+  const terrain = new TerrainGenerator(seed);
+  const village = new VillageGenerator(seed, terrain);
+  gens = {
+    generation,
+    terrain,
+    cave: new CaveGenerator(seed, terrain),
+    ore: new OreGenerator(seed),
+    tree: new TreeGenerator(seed, terrain, village),
+    village,
+    veg: new VegetationGenerator(seed, terrain),
+    water: new WaterSimulator(seed),
+  };
+  return gens;
+}
+
+function toChunk(cx: number, cz: number, data: CompressedChunkData | null): Chunk | null {
+  if (!data) return null;
+  const chunk = new Chunk(cx, cz);
+  chunk.loadCompressed(data);
+  return chunk;
+}
+
+function toNeighbors(cx: number, cz: number, n: CompressedNeighbors): ChunkNeighbors {
+  return {
+    north: toChunk(cx, cz + 1, n.north),
+    south: toChunk(cx, cz - 1, n.south),
+    east: toChunk(cx + 1, cz, n.east),
+    west: toChunk(cx - 1, cz, n.west),
+    northEast: n.northEast,
+    northWest: n.northWest,
+    southEast: n.southEast,
+    southWest: n.southWest,
+  };
+}
+
+function runJob(job: ChunkJob, transfer: Transferable[]): ChunkJobResult {
+  switch (job.kind) {
+    case 'generate': {
+      Config.data.terrain = job.terrain;
+      const g = getGenerators(job.generation, job.seed);
+      const chunk = new Chunk(job.cx, job.cz);
+
+      if (job.saved) {
+        // Edited chunk: saved blocks replace generation (occupancy still needs the raw array)
+        chunk.loadCompressed(job.saved);
+        chunk.decompress();
+      } else {
+        // Ores before caves so caves expose ores on walls
+        g.terrain.generate(chunk);
+        g.ore.generate(chunk);
+        g.cave.generate(chunk);
+        g.village.generate(chunk);
+        g.tree.generate(chunk);
+        g.veg.generate(chunk);
+        g.water.generate(chunk);
+      }
+
+      // Occupancy reads the raw block array, so it must run before compression
+      chunk.computeOccupancy();
+      const mesh = buildChunkMeshes(chunk, toNeighbors(job.cx, job.cz, job.neighbors));
+      const blocks = chunk.exportCompressed();
+
+      compressedTransferables(blocks, transfer);
+      transfer.push(chunk.occupancy.buffer);
+      meshTransferables(mesh, transfer);
+      return { kind: 'generate', id: job.id, cx: job.cx, cz: job.cz, blocks, occupancy: chunk.occupancy, mesh };
+    }
+    case 'generateLOD': {
+      Config.data.terrain = job.terrain;
+      const g = getGenerators(job.generation, job.seed);
+      const chunk = new Chunk(job.cx, job.cz);
+
+      if (job.saved) {
+        chunk.loadCompressed(job.saved);
+      } else {
+        // No vegetation or water at LOD distance
+        g.terrain.generate(chunk);
+        g.ore.generate(chunk);
+        g.cave.generate(chunk);
+        g.village.generate(chunk);
+        g.tree.generate(chunk);
+      }
+
+      const lodBlocks = downsample(chunk, job.level);
+      const mesh = buildLODMesh(lodBlocks, job.level, chunk.worldOffsetX, chunk.worldOffsetZ, job.neighbors);
+      // Coarser rings can hold thousands of chunks; don't ship block data the main thread won't keep
+      const blocks = job.level === 1 ? chunk.exportCompressed() : null;
+
+      compressedTransferables(blocks, transfer);
+      transfer.push(lodBlocks.buffer);
+      lodMeshTransferables(mesh, transfer);
+      return { kind: 'generateLOD', id: job.id, cx: job.cx, cz: job.cz, level: job.level, blocks, lodBlocks, mesh };
+    }
+    case 'mesh': {
+      const chunk = toChunk(job.cx, job.cz, job.blocks)!;
+      const mesh = buildChunkMeshes(chunk, toNeighbors(job.cx, job.cz, job.neighbors));
+      meshTransferables(mesh, transfer);
+      return { kind: 'mesh', id: job.id, cx: job.cx, cz: job.cz, mesh };
+    }
+    case 'meshLOD': {
+      const mesh = buildLODMesh(job.lodBlocks, job.level, job.cx * CHUNK_WIDTH, job.cz * CHUNK_DEPTH, job.neighbors);
+      lodMeshTransferables(mesh, transfer);
+      return { kind: 'meshLOD', id: job.id, cx: job.cx, cz: job.cz, mesh };
+    }
+  }
+}
+
+self.onmessage = (e: MessageEvent<ChunkJob>) => {
+  const job = e.data;
+  const transfer: Transferable[] = [];
+  let result: ChunkJobResult;
+  try {
+    result = runJob(job, transfer);
+  } catch (err) {
+    transfer.length = 0;
+    result = { kind: 'error', id: job.id, cx: job.cx, cz: job.cz, message: String(err) };
+  }
+  self.postMessage(result, { transfer });
+};
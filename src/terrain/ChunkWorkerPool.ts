@@ -0,0 +1,225 @@
+import type { TerrainConfig } from '../config/Config';
+import type { ChunkMeshes } from '../meshing/MeshBuilder';
+import type { LODMeshData, LODNeighborBlocks } from '../meshing/LODGenerator';
+import type { CompressedChunkData } from './Chunk';
+
+// ---- Worker protocol ----
+// Every job carries a unique id. ChunkManager remembers the id of the latest job per chunk
+// and drops results whose id no longer matches (chunk unloaded, remeshed again, or world regenerated).
+
+export interface CompressedNeighbors {
+  north: CompressedChunkData | null;  // +Z
+  south: CompressedChunkData | null;  // -Z
+  east: CompressedChunkData | null;   // +X
+  west: CompressedChunkData | null;   // -X
+  // Diagonals: just the corner column touching the chunk (see ChunkNeighbors)
+  northEast: Uint16Array | null;
+  northWest: Uint16Array | null;
+  southEast: Uint16Array | null;
+  southWest: Uint16Array | null;
+}
+
+/** Terrain config + seed the worker builds its generators from. */
+interface GenerationSnapshot {
+  /** Bumped by ChunkManager.regenerate so workers rebuild their generators */
+  generation: number;
+  seed: number;
+  terrain: TerrainConfig;
+}
+
+export interface GenerateJob extends GenerationSnapshot {
+  kind: 'generate';
+  id: number;
+  cx: number;
+  cz: number;
+  /** Saved (edited) blocks that replace terrain generation */
+  saved: CompressedChunkData | null;
+  neighbors: CompressedNeighbors;
+}
+
+export interface GenerateLODJob extends GenerationSnapshot {
+  kind: 'generateLOD';
+  id: number;
+  cx: number;
+  cz: number;
+  level: number;
+  saved: CompressedChunkData | null;
+  neighbors: LODNeighborBlocks;
+}
+
+export interface MeshJob {
+  kind: 'mesh';
+  id: number;
+  cx: number;
+  cz: number;
+  blocks: CompressedChunkData;
+  neighbors: CompressedNeighbors;
+}
+
+export interface MeshLODJob {
+  kind: 'meshLOD';
+  id: number;
+  cx: number;
+  cz: number;
+  level: number;
+  lodBlocks: Uint8Array;
+  neighbors: LODNeighborBlocks;
+}
+
+export type ChunkJob = GenerateJob | GenerateLODJob | MeshJob | MeshLODJob;
+
+export interface GenerateResult {
+  kind: 'generate';
+  id: number;
+  cx: number;
+  cz: number;
+  blocks: CompressedChunkData;
+  occupancy: Uint32Array;
+  mesh: ChunkMeshes;
+}
+
+export interface GenerateLODResult {
+  kind: 'generateLOD';
+  id: number;
+  cx: number;
+  cz: number;
+  level: number;
+  /** Full block data, only kept for the nearest (2×) ring */
+  blocks: CompressedChunkData | null;
+  lodBlocks: Uint8Array;
+  mesh: LODMeshData;
+}
+
+export interface MeshResult {
+  kind: 'mesh';
+  id: number;
+  cx: number;
+  cz: number;
+  mesh: ChunkMeshes;
+}
+
+export interface MeshLODResult {
+  kind: 'meshLOD';
+  id: number;
+  cx: number;
+  cz: number;
+  mesh: LODMeshData;
+}
+
+export interface ErrorResult {
+  kind: 'error';
+  id: number;
+  cx: number;
+  cz: number;
+  message: string;
+}
+
+export type ChunkJobResult = GenerateResult | GenerateLODResult | MeshResult | MeshLODResult | ErrorResult;
+
+// ---- Transfer list helpers ----
+
+export function compressedTransferables(data: CompressedChunkData | null, out: Transferable[]): void {
+  if (!data) return;
+  out.push(data.uniformFlags.buffer, data.uniformTypes.buffer, data.detailOffsets.buffer, data.detailBlocks.buffer);
+}
+
+export function meshTransferables(meshes: ChunkMeshes, out: Transferable[]): void {
+  for (const mesh of meshes.values()) {
+    if (!mesh) continue;
+    out.push(
+      mesh.vertices.buffer, mesh.indices.buffer,
+      mesh.waterVertices.buffer, mesh.waterIndices.buffer,
+      mesh.vegVertices.buffer, mesh.vegIndices.buffer,
+    );
+  }
+}
+
+export function lodMeshTransferables(mesh: LODMeshData, out: Transferable[]): void {
+  out.push(mesh.vertices.buffer, mesh.indices.buffer);
+}
+
+// Leave one core for the main thread; more than 4 workers mostly contend for memory bandwidth.
+function defaultPoolSize(): number {
+  const cores = navigator.hardwareConcurrency || 4;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+// Workers crashing in a row before finishing a single job (e.g. the module fails to load);
+// past this the pool stops replacing them
+const MAX_STARTUP_FAILURES = 3;
+
+/**
+ * Fixed pool of chunk workers (generation + meshing).
+ * One job per worker at a time; finished results are buffered until ChunkManager
+ * drains them inside its frame time budget, so GPU uploads stay on the main thread.
+ */
+export class ChunkWorkerPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private completed: ChunkJobResult[] = [];
+  // Job each busy worker is running, so a crashed worker can report it as failed
+  private running = new Map<Worker, Pick<ChunkJob, 'id' | 'cx' | 'cz'>>();
+  private startupFailures = 0;
+
+  constructor(size = defaultPoolSize()) {
+    for (let i = 0; i < size; i++) this.spawnWorker();
+  }
+
+  private spawnWorker(): void {
+    const worker = new Worker(new URL('./ChunkWorker.ts', import.meta.url), { type: 'module' });
+    let finishedJob = false;
+    worker.onmessage = (e: MessageEvent<ChunkJobResult>) => {
+      finishedJob = true;
+      this.startupFailures = 0;
+      this.running.delete(worker);
+      this.completed.push(e.data);
+      this.idle.push(worker);
+    };
+    worker.onerror = (e: ErrorEvent) => {
+      console.error('[ChunkWorker] Uncaught error:', e.message);
+      e.preventDefault();
+      // Fail the job so ChunkManager re-queues its chunk, and replace the worker
+      const job = this.running.get(worker);
+      this.running.delete(worker);
+      if (job) {
+        this.completed.push({ kind: 'error', id: job.id, cx: job.cx, cz: job.cz, message: e.message });
+      }
+      worker.terminate();
+      this.workers = this.workers.filter((w) => w !== worker);
+      this.idle = this.idle.filter((w) => w !== worker);
+      if (!finishedJob && ++this.startupFailures >= MAX_STARTUP_FAILURES) {
+        console.error(`[ChunkWorker] ${this.startupFailures} workers failed before finishing a job; not replacing them`);
+        return;
+      }
+      this.spawnWorker();
+    };
+    this.workers.push(worker);
+    this.idle.push(worker);
+  }
+
+  get size(): number { return this.workers.length; }
+  get hasIdleWorker(): boolean { return this.idle.length > 0; }
+  get pendingResults(): number { return this.completed.length; }
+
+  /** Post a job to an idle worker. Returns false (nothing posted) if all workers are busy. */
+  dispatch(job: ChunkJob, transfer: Transferable[] = []): boolean {
+    const worker = this.idle.pop();
+    if (!worker) return false;
+    this.running.set(worker, { id: job.id, cx: job.cx, cz: job.cz });
+    worker.postMessage(job, transfer);
+    return true;
+  }
+
+  /** Pop the oldest finished result, if any. */
+  takeResult(): ChunkJobResult | undefined {
+    return this.completed.shift();
+  }
+
+  destroy(): void {
+    for (const worker of this.workers) worker.terminate();
+    this.workers = [];
+    this.idle = [];
+    this.completed = [];
+    this.running.clear();
+  }
+}
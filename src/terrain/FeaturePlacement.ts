@@ -0,0 +1,41 @@
+// Cross-chunk feature placement.
+// Cave worms, ore veins and trees are seeded per source chunk but may reach up to
+// `terrain.features.neighborRadius` chunks beyond it. Generating a chunk replays every source
+// within that radius and keeps only the voxels that land inside the chunk, so features cross
+// chunk borders seamlessly and never depend on chunk generation order.
+import { Chunk } from './Chunk';
+import { CHUNK_WIDTH, CHUNK_DEPTH } from '../constants';
+
+/** World-space XZ block bounds a source chunk's features may touch (max exclusive) */
+export interface FeatureBounds {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+}
+
+export function featureBounds(sourceX: number, sourceZ: number, radius: number): FeatureBounds {
+  return {
+    minX: (sourceX - radius) * CHUNK_WIDTH,
+    minZ: (sourceZ - radius) * CHUNK_DEPTH,
+    maxX: (sourceX + radius + 1) * CHUNK_WIDTH,
+    maxZ: (sourceZ + radius + 1) * CHUNK_DEPTH,
+  };
+}
+
+export function isInFeatureBounds(b: FeatureBounds, worldX: number, worldZ: number): boolean {
+  return worldX >= b.minX && worldX < b.maxX && worldZ >= b.minZ && worldZ < b.maxZ;
+}
+
+/** Visit every source chunk whose features can reach the target chunk (fixed order). */
+export function forEachFeatureSource(
+  chunk: Chunk,
+  radius: number,
+  fn: (sourceX: number, sourceZ: number) => void,
+): void {
+  for (let dz = -radius; dz <= radius; dz++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      fn(chunk.chunkX + dx, chunk.chunkZ + dz);
+    }
+  }
+}
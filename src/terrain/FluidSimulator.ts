@@ -0,0 +1,344 @@
+import { BlockType, FLUID_FALLING, FLUID_LEVEL_MASK, isBlockCrossMesh, isBlockTorch, isBlockWater } from './BlockTypes';
+import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
+import { Config } from '../config/Config';
+
+/** Block access for the simulation. Positions in chunks that aren't loaded read as null. */
+export interface FluidWorld {
+  getBlockRaw(worldX: number, y: number, worldZ: number): number | null;
+  setBlock(worldX: number, y: number, worldZ: number, type: number, meta: number): void;
+}
+
+const enum Fluid {
+  NONE,
+  WATER,
+  LAVA,
+}
+
+// Positions are packed into one number: x and z offset into 21 unsigned bits each, then y
+const COORD_OFFSET = 1 << 20;
+const COORD_RANGE = COORD_OFFSET * 2;
+
+const HORIZONTAL: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+// How far sideways flowing fluid looks for a drop to head toward
+const WATER_DROP_SEARCH = 4;
+const LAVA_DROP_SEARCH = 2;
+// dropDistance result for a neighbor in a chunk that isn't loaded (-1 = blocked)
+const UNLOADED = -2;
+
+function packPos(x: number, y: number, z: number): number {
+  return ((x + COORD_OFFSET) * COORD_RANGE + (z + COORD_OFFSET)) * CHUNK_HEIGHT + y;
+}
+
+function chunkKey(cx: number, cz: number): string {
+  return `${cx},${cz}`;
+}
+
+function fluidOf(type: number): Fluid {
+  if (isBlockWater(type)) return Fluid.WATER;
+  return type === BlockType.LAVA ? Fluid.LAVA : Fluid.NONE;
+}
+
+function isSource(raw: number): boolean {
+  const type = raw & 0xFF;
+  if (type === BlockType.WATER) return true;
+  return type === BlockType.LAVA && (raw >> 8) === 0;
+}
+
+// Blocks fluid washes away
+function isReplaceable(type: number): boolean {
+  return type === BlockType.AIR || isBlockCrossMesh(type) || isBlockTorch(type);
+}
+
+/**
+ * Tick-based cellular water and lava on the loaded world.
+ * Only cells near a change are updated, so generated oceans and lakes cost nothing until disturbed.
+ * Updates reaching into unloaded chunks wait for those chunks to load.
+ */
+export class FluidSimulator {
+  private world: FluidWorld;
+  private tick = 0;
+  private elapsedMs = 0;
+  // Due tick → positions; a position may sit in several buckets, repeated updates are harmless
+  private scheduled = new Map<number, Set<number>>();
+  // Chunk key → positions waiting for that chunk to load
+  private parked = new Map<string, Set<number>>();
+
+  constructor(world: FluidWorld) {
+    this.world = world;
+  }
+
+  /** Queue updates for fluid at and around a changed block. */
+  notifyChanged(x: number, y: number, z: number): void {
+    this.schedule(x, y, z);
+    this.schedule(x, y + 1, z);
+    this.schedule(x, y - 1, z);
+    for (const [dx, dz] of HORIZONTAL) this.schedule(x + dx, y, z + dz);
+  }
+
+  /** Resume updates that were waiting on a chunk. */
+  onChunkLoaded(cx: number, cz: number): void {
+    const key = chunkKey(cx, cz);
+    const positions = this.parked.get(key);
+    if (!positions) return;
+    this.parked.delete(key);
+    const bucket = this.bucket(this.tick + 1);
+    for (const pos of positions) bucket.add(pos);
+  }
+
+  /**
+   * Queue fluid in a world-space area [minX, maxX) × [minZ, maxZ) that borders open space.
+   * Flow isn't saved, so water next to a loaded edit would otherwise stay frozen beside the air.
+   */
+  wakeArea(minX: number, minZ: number, maxX: number, maxZ: number): void {
+    const isOpen = (raw: number | null) => raw !== null && isReplaceable(raw & 0xFF);
+    for (let x = minX; x < maxX; x++) {
+      for (let z = minZ; z < maxZ; z++) {
+        for (let y = 0; y < CHUNK_HEIGHT; y++) {
+          const raw = this.world.getBlockRaw(x, y, z);
+          if (raw === null || fluidOf(raw & 0xFF) === Fluid.NONE) continue;
+          if ((y > 0 && isOpen(this.world.getBlockRaw(x, y - 1, z))) ||
+            HORIZONTAL.some(([dx, dz]) => isOpen(this.world.getBlockRaw(x + dx, y, z + dz)))) {
+            this.schedule(x, y, z);
+          }
+        }
+      }
+    }
+  }
+
+  clear(): void {
+    this.scheduled.clear();
+    this.parked.clear();
+  }
+
+  /** Advance at most one tick and run due cell updates within the frame budget. */
+  update(dtMs: number): void {
+    const cfg = Config.data.environment.fluids;
+    if (!cfg.enabled) return;
+
+    this.elapsedMs += dtMs;
+    if (this.elapsedMs >= cfg.tickMs) {
+      // A slow frame delays fluids rather than bursting several ticks at once
+      this.elapsedMs = Math.min(this.elapsedMs - cfg.tickMs, cfg.tickMs);
+      this.tick++;
+    }
+
+    const deadline = performance.now() + cfg.budgetMs;
+    for (const [due, positions] of this.scheduled) {
+      if (due > this.tick) continue;
+      for (const pos of positions) {
+        if (performance.now() >= deadline) return;
+        positions.delete(pos);
+        this.updateCell(pos);
+      }
+      this.scheduled.delete(due);
+    }
+  }
+
+  private bucket(due: number): Set<number> {
+    let bucket = this.scheduled.get(due);
+    if (!bucket) {
+      bucket = new Set();
+      this.scheduled.set(due, bucket);
+    }
+    return bucket;
+  }
+
+  private schedule(x: number, y: number, z: number): void {
+    if (y < 0 || y >= CHUNK_HEIGHT) return;
+    const raw = this.world.getBlockRaw(x, y, z);
+    if (raw === null) {
+      this.park(x, y, z);
+      return;
+    }
+    const fluid = fluidOf(raw & 0xFF);
+    if (fluid === Fluid.NONE) return;
+    const delay = fluid === Fluid.LAVA ? Config.data.environment.fluids.lavaSlowdown : 1;
+    this.bucket(this.tick + delay).add(packPos(x, y, z));
+  }
+
+  // Hold a cell update until the chunk holding (waitX, waitZ) loads (the cell's own chunk by default)
+  private park(x: number, y: number, z: number, waitX = x, waitZ = z): void {
+    const key = chunkKey(Math.floor(waitX / CHUNK_WIDTH), Math.floor(waitZ / CHUNK_DEPTH));
+    let positions = this.parked.get(key);
+    if (!positions) {
+      positions = new Set();
+      this.parked.set(key, positions);
+    }
+    positions.add(packPos(x, y, z));
+  }
+
+  private set(x: number, y: number, z: number, type: number, meta: number): void {
+    this.world.setBlock(x, y, z, type, meta);
+    this.notifyChanged(x, y, z);
+  }
+
+  private updateCell(pos: number): void {
+    const y = pos % CHUNK_HEIGHT;
+    const xz = (pos - y) / CHUNK_HEIGHT;
+    const z = (xz % COORD_RANGE) - COORD_OFFSET;
+    const x = Math.floor(xz / COORD_RANGE) - COORD_OFFSET;
+
+    let raw = this.world.getBlockRaw(x, y, z);
+    if (raw === null) {
+      this.park(x, y, z);
+      return;
+    }
+    const fluid = fluidOf(raw & 0xFF);
+    if (fluid === Fluid.NONE) return;
+    if (fluid === Fluid.LAVA && this.hardenLava(x, y, z, raw)) return;
+
+    if (!isSource(raw)) {
+      const next = this.settle(fluid, x, y, z);
+      if (next === null) return;
+      if (next !== raw) {
+        this.set(x, y, z, next & 0xFF, next >> 8);
+        if ((next & 0xFF) === BlockType.AIR) return;
+        raw = next;
+      }
+    }
+    this.spread(fluid, x, y, z, raw);
+  }
+
+  // Lava touched by water from above or the side sets: sources into stone, flows into cobblestone
+  private hardenLava(x: number, y: number, z: number, raw: number): boolean {
+    const isWater = (raw: number | null) => raw !== null && isBlockWater(raw & 0xFF);
+    const touched = isWater(this.world.getBlockRaw(x, y + 1, z)) ||
+      HORIZONTAL.some(([dx, dz]) => isWater(this.world.getBlockRaw(x + dx, y, z + dz)));
+    if (!touched) return false;
+    this.set(x, y, z, isSource(raw) ? BlockType.STONE : BlockType.COBBLESTONE, 0);
+    return true;
+  }
+
+  /**
+   * Raw block a flowing cell should hold given its neighbors (AIR once nothing feeds it),
+   * or null (cell parked on that chunk) if a neighbor isn't loaded.
+   */
+  private settle(fluid: Fluid, x: number, y: number, z: number): number | null {
+    const above = this.world.getBlockRaw(x, y + 1, z);
+    if (above === null) {
+      this.park(x, y, z);
+      return null;
+    }
+    if (fluidOf(above & 0xFF) === fluid) return (FLUID_FALLING << 8) | this.flowingType(fluid);
+
+    let minLevel = Infinity;
+    let sources = 0;
+    for (const [dx, dz] of HORIZONTAL) {
+      const n = this.world.getBlockRaw(x + dx, y, z + dz);
+      if (n === null) {
+        this.park(x, y, z, x + dx, z + dz);
+        return null;
+      }
+      if (fluidOf(n & 0xFF) !== fluid) continue;
+      if (isSource(n)) sources++;
+      minLevel = Math.min(minLevel, this.spreadLevel(n));
+    }
+
+    // Water between two sources over a floor becomes a source itself
+    if (fluid === Fluid.WATER && sources >= 2) {
+      const below = this.world.getBlockRaw(x, y - 1, z);
+      if (below === null) {
+        this.park(x, y, z);
+        return null;
+      }
+      if (below === BlockType.WATER || !isReplaceable(below & 0xFF) && !isBlockWater(below & 0xFF)) {
+        return BlockType.WATER;
+      }
+    }
+
+    const level = minLevel + 1;
+    if (level > this.flowDistance(fluid)) return BlockType.AIR;
+    return (level << 8) | this.flowingType(fluid);
+  }
+
+  private spread(fluid: Fluid, x: number, y: number, z: number, raw: number): void {
+    const below = this.world.getBlockRaw(x, y - 1, z);
+    if (below === null) {
+      this.park(x, y, z);
+      return;
+    }
+    const belowType = below & 0xFF;
+
+    if (y > 0 && isReplaceable(belowType)) {
+      this.set(x, y - 1, z, this.flowingType(fluid), FLUID_FALLING);
+      return;
+    }
+    // Lava pouring into water sets the water below
+    if (fluid === Fluid.LAVA && isBlockWater(belowType)) {
+      this.set(x, y - 1, z, BlockType.STONE, 0);
+      return;
+    }
+    // Flowing fluid landing on the same fluid merges into it instead of spreading
+    if (fluidOf(belowType) === fluid && !isSource(raw)) return;
+
+    const level = this.spreadLevel(raw) + 1;
+    if (level > this.flowDistance(fluid)) return;
+
+    // Head toward the nearest drop within reach; spread evenly when there is none
+    const search = fluid === Fluid.WATER ? WATER_DROP_SEARCH : LAVA_DROP_SEARCH;
+    const distances = HORIZONTAL.map(([dx, dz]) => this.dropDistance(fluid, x + dx, y, z + dz, dx, dz, search));
+    const nearest = Math.min(...distances.filter((d) => d >= 0));
+
+    for (let i = 0; i < HORIZONTAL.length; i++) {
+      const [dx, dz] = HORIZONTAL[i];
+      // Spread again once the neighbor's chunk loads
+      if (distances[i] === UNLOADED) this.park(x, y, z, x + dx, z + dz);
+      if (distances[i] < 0 || (nearest !== Infinity && distances[i] !== nearest)) continue;
+      // dropDistance read it: not null
+      const target = this.world.getBlockRaw(x + dx, y, z + dz)!;
+      if (this.canFlowInto(fluid, target, level)) this.set(x + dx, y, z + dz, this.flowingType(fluid), level);
+    }
+  }
+
+  /**
+   * Steps from a neighbor cell to the nearest cell with a drop below it (0 = the neighbor itself),
+   * Infinity if none within `search`, -1 if fluid can't enter the neighbor at all, UNLOADED if its
+   * chunk isn't loaded. Unloaded cells further along the search just don't count as drops.
+   */
+  private dropDistance(fluid: Fluid, x: number, y: number, z: number, fromDx: number, fromDz: number, search: number): number {
+    const raw = this.world.getBlockRaw(x, y, z);
+    if (raw === null) return UNLOADED;
+    if (!this.isPassable(fluid, raw)) return -1;
+    const below = this.world.getBlockRaw(x, y - 1, z);
+    if (below === null) return Infinity;
+    if (y > 0 && (isReplaceable(below & 0xFF) || fluidOf(below & 0xFF) === fluid && !isSource(below))) return 0;
+    if (search <= 1) return Infinity;
+
+    let best = Infinity;
+    for (const [dx, dz] of HORIZONTAL) {
+      if (dx === -fromDx && dz === -fromDz) continue;
+      const d = this.dropDistance(fluid, x + dx, y, z + dz, dx, dz, search - 1);
+      if (d >= 0) best = Math.min(best, d + 1);
+    }
+    return best;
+  }
+
+  private isPassable(fluid: Fluid, raw: number): boolean {
+    return isReplaceable(raw & 0xFF) || (fluidOf(raw & 0xFF) === fluid && !isSource(raw));
+  }
+
+  private canFlowInto(fluid: Fluid, target: number, level: number): boolean {
+    const type = target & 0xFF;
+    if (isReplaceable(type)) return true;
+    if (fluidOf(type) !== fluid || isSource(target)) return false;
+    const meta = target >> 8;
+    return !(meta & FLUID_FALLING) && (meta & FLUID_LEVEL_MASK) > level;
+  }
+
+  // Level a cell passes on sideways: sources and falling columns count as full
+  private spreadLevel(raw: number): number {
+    const meta = raw >> 8;
+    if (isSource(raw) || meta & FLUID_FALLING) return 0;
+    return meta & FLUID_LEVEL_MASK;
+  }
+
+  private flowingType(fluid: Fluid): number {
+    return fluid === Fluid.WATER ? BlockType.FLOWING_WATER : BlockType.LAVA;
+  }
+
+  private flowDistance(fluid: Fluid): number {
+    const cfg = Config.data.environment.fluids;
+    return fluid === Fluid.WATER ? cfg.waterFlowDistance : cfg.lavaFlowDistance;
+  }
+}
@@ -1,68 +1,189 @@
 import { SeededRandom } from '../noise/SeededRandom';
+import { SimplexNoise } from '../noise/SimplexNoise';
 import { Chunk } from './Chunk';
-import { BlockType } from './BlockTypes';
+import { getBlockTypeByName } from './BlockTypes';
+import { FeatureBounds, featureBounds, forEachFeatureSource, isInFeatureBounds } from './FeaturePlacement';
 import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
-import { Config } from '../config/Config';
+import { Config, OreClusterConfig, OreConfig, OreShape } from '../config/Config';
 
 interface OreSettings {
+  name: string;
   oreType: number;
+  replaces: Set<number>;
+  shape: OreShape;
   minY: number;
   maxY: number;
+  // Attempt heights are minY + a·u1 + b·u2: the sum of two uniforms is a trapezoid with a flat top of |a - b|
+  spanA: number;
+  spanB: number;
   attemptsPerChunk: number;
   veinSize: number;
+  cluster: OreClusterConfig;
+}
+
+// Unknown block names are reported once per name rather than every chunk
+const warnedNames = new Set<string>();
+
+function resolveBlock(ore: string, name: string): number | undefined {
+  const type = getBlockTypeByName(name);
+  if (type === undefined && !warnedNames.has(name)) {
+    warnedNames.add(name);
+    console.warn(`[Ores] ${ore}: unknown block "${name}"`);
+  }
+  return type;
+}
+
+function hashString(s: string): number {
+  let h = 0;
+  for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+  return h | 0;
+}
+
+// Position hash → [0, 1); per-block cluster density without drawing from an rng
+function hash3(x: number, y: number, z: number, seed: number): number {
+  let h = (seed + Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(z, 1274126177)) | 0;
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
 }
 
 export class OreGenerator {
   private seed: number;
+  private clusterNoise = new Map<string, SimplexNoise>();
 
   constructor(seed: number) {
     this.seed = seed;
   }
 
   private getOreSettings(): OreSettings[] {
-    const ores = Config.data.terrain.ores;
-    return [
-      { oreType: BlockType.COAL_ORE, minY: ores.coal.minY, maxY: ores.coal.maxY, attemptsPerChunk: ores.coal.attempts, veinSize: ores.coal.veinSize },
-      { oreType: BlockType.IRON_ORE, minY: ores.iron.minY, maxY: ores.iron.maxY, attemptsPerChunk: ores.iron.attempts, veinSize: ores.iron.veinSize },
-      { oreType: BlockType.GOLD_ORE, minY: ores.gold.minY, maxY: ores.gold.maxY, attemptsPerChunk: ores.gold.attempts, veinSize: ores.gold.veinSize },
-      { oreType: BlockType.DIAMOND_ORE, minY: ores.diamond.minY, maxY: ores.diamond.maxY, attemptsPerChunk: ores.diamond.attempts, veinSize: ores.diamond.veinSize },
-    ];
+    const settings: OreSettings[] = [];
+    for (const [name, ore] of Object.entries(Config.data.terrain.ores)) {
+      const oreType = resolveBlock(name, ore.block);
+      if (oreType === undefined) continue;
+      const replaces = new Set<number>();
+      for (const blockName of ore.replaces) {
+        const type = resolveBlock(name, blockName);
+        if (type !== undefined) replaces.add(type);
+      }
+      const maxY = Math.min(ore.maxY, CHUNK_HEIGHT);
+      const [spanA, spanB] = this.distributionSpans(ore, maxY - ore.minY);
+      settings.push({
+        name, oreType, replaces, shape: ore.shape,
+        minY: ore.minY, maxY, spanA, spanB,
+        attemptsPerChunk: ore.attempts, veinSize: ore.veinSize, cluster: ore.cluster,
+      });
+    }
+    return settings;
+  }
+
+  private distributionSpans(ore: OreConfig, range: number): [number, number] {
+    switch (ore.distribution) {
+      case 'uniform': return [range, 0];
+      case 'triangle': return [range / 2, range / 2];
+      case 'trapezoid': {
+        const plateau = Math.min(Math.max(ore.plateau, 0), range);
+        return [(range + plateau) / 2, (range - plateau) / 2];
+      }
+    }
   }
 
   generate(chunk: Chunk): void {
-    const chunkSeed = (this.seed ^ (chunk.chunkX * 498536548) ^ (chunk.chunkZ * 725765765)) | 0;
-    const rng = new SeededRandom(chunkSeed);
+    const radius = Config.data.terrain.features.neighborRadius;
+    const settings = this.getOreSettings();
+    forEachFeatureSource(chunk, radius, (sourceX, sourceZ) => {
+      const chunkSeed = (this.seed ^ (sourceX * 498536548) ^ (sourceZ * 725765765)) | 0;
+      const rng = new SeededRandom(chunkSeed);
+      const bounds = featureBounds(sourceX, sourceZ, radius);
+
+      for (const ore of settings) {
+        this.generateOre(chunk, sourceX * CHUNK_WIDTH, sourceZ * CHUNK_DEPTH, ore, rng, bounds);
+      }
+    });
 
-    for (const ore of this.getOreSettings()) {
-      this.generateOre(chunk, ore, rng);
+    // Noise clusters are sampled in world space, so each chunk fills only its own blocks
+    for (const ore of settings) {
+      if (ore.cluster.enabled) this.generateClusters(chunk, ore);
     }
   }
 
-  private generateOre(chunk: Chunk, settings: OreSettings, rng: SeededRandom): void {
+  private generateOre(chunk: Chunk, originX: number, originZ: number, settings: OreSettings, rng: SeededRandom, bounds: FeatureBounds): void {
     for (let i = 0; i < settings.attemptsPerChunk; i++) {
-      const x = rng.nextInt(0, CHUNK_WIDTH);
-      const y = rng.nextInt(settings.minY, Math.min(settings.maxY, CHUNK_HEIGHT));
-      const z = rng.nextInt(0, CHUNK_DEPTH);
-
-      if (chunk.getBlock(x, y, z) !== BlockType.STONE) continue;
-      this.generateVein(chunk, x, y, z, settings.oreType, settings.veinSize, rng, settings.minY, settings.maxY);
+      const x = originX + rng.nextInt(0, CHUNK_WIDTH);
+      const y = Math.floor(settings.minY + rng.next() * settings.spanA + rng.next() * settings.spanB);
+      const z = originZ + rng.nextInt(0, CHUNK_DEPTH);
+      if (settings.shape === 'blob') {
+        this.generateBlob(chunk, x, y, z, settings, rng, bounds);
+      } else {
+        this.generateVein(chunk, x, y, z, settings, rng, bounds);
+      }
     }
   }
 
-  private generateVein(chunk: Chunk, sx: number, sy: number, sz: number, oreType: number, size: number, rng: SeededRandom, minY: number, maxY: number): void {
+  // Random walk in world space. Every step consumes the same random numbers whatever the target
+  // chunk holds, so all chunks replaying a vein agree on its shape.
+  private generateVein(chunk: Chunk, sx: number, sy: number, sz: number, settings: OreSettings, rng: SeededRandom, bounds: FeatureBounds): void {
     let x = sx, y = sy, z = sz;
-    chunk.setBlock(x, y, z, oreType);
+    this.placeOre(chunk, x, y, z, settings);
 
-    for (let i = 1; i < size; i++) {
+    for (let i = 1; i < settings.veinSize; i++) {
       x += rng.nextInt(-1, 2);
       y += rng.nextInt(-1, 2);
       z += rng.nextInt(-1, 2);
 
-      if (!chunk.isInBounds(x, y, z)) continue;
-      if (y < minY || y >= maxY) continue;
-      if (chunk.getBlock(x, y, z) === BlockType.STONE) {
-        chunk.setBlock(x, y, z, oreType);
+      if (!isInFeatureBounds(bounds, x, z)) continue;
+      if (y < settings.minY || y >= settings.maxY) continue;
+      this.placeOre(chunk, x, y, z, settings);
+    }
+  }
+
+  // Ellipsoid holding roughly veinSize blocks, squashed or stretched per axis
+  private generateBlob(chunk: Chunk, cx: number, cy: number, cz: number, settings: OreSettings, rng: SeededRandom, bounds: FeatureBounds): void {
+    const baseRadius = Math.cbrt((settings.veinSize * 3) / (4 * Math.PI));
+    const ex = baseRadius * (0.7 + rng.next() * 0.6);
+    const ey = baseRadius * (0.7 + rng.next() * 0.6);
+    const ez = baseRadius * (0.7 + rng.next() * 0.6);
+
+    for (let dy = -Math.floor(ey); dy <= ey; dy++) {
+      const y = cy + dy;
+      if (y < settings.minY || y >= settings.maxY) continue;
+      for (let dx = -Math.floor(ex); dx <= ex; dx++) {
+        for (let dz = -Math.floor(ez); dz <= ez; dz++) {
+          const d = (dx * dx) / (ex * ex) + (dy * dy) / (ey * ey) + (dz * dz) / (ez * ez);
+          if (d > 1 || !isInFeatureBounds(bounds, cx + dx, cz + dz)) continue;
+          this.placeOre(chunk, cx + dx, y, cz + dz, settings);
+        }
       }
     }
   }
+
+  private generateClusters(chunk: Chunk, settings: OreSettings): void {
+    const { scale, threshold, density } = settings.cluster;
+    const salt = hashString(settings.name);
+    let noise = this.clusterNoise.get(settings.name);
+    if (!noise) {
+      noise = new SimplexNoise((this.seed ^ salt) + 3001);
+      this.clusterNoise.set(settings.name, noise);
+    }
+
+    for (let lx = 0; lx < CHUNK_WIDTH; lx++) {
+      for (let lz = 0; lz < CHUNK_DEPTH; lz++) {
+        const wx = chunk.worldOffsetX + lx;
+        const wz = chunk.worldOffsetZ + lz;
+        for (let y = settings.minY; y < settings.maxY; y++) {
+          if (!settings.replaces.has(chunk.getBlock(lx, y, lz))) continue;
+          if (noise.noise3D(wx / scale, y / scale, wz / scale) < threshold) continue;
+          if (hash3(wx, y, wz, this.seed ^ salt) >= density) continue;
+          chunk.setBlock(lx, y, lz, settings.oreType);
+        }
+      }
+    }
+  }
+
+  private placeOre(chunk: Chunk, worldX: number, y: number, worldZ: number, settings: OreSettings): void {
+    const lx = worldX - chunk.worldOffsetX;
+    const lz = worldZ - chunk.worldOffsetZ;
+    if (!chunk.isInBounds(lx, y, lz)) return;
+    if (settings.replaces.has(chunk.getBlock(lx, y, lz))) {
+      chunk.setBlock(lx, y, lz, settings.oreType);
+    }
+  }
 }
@@ -0,0 +1,270 @@
+// Region save format for edited chunks, persisted in IndexedDB.
+// Only modified chunks are stored. Chunks are grouped into REGION_SIZE² regions, one record per
+// region keyed "<worldId>/<rx>,<rz>". Each chunk reuses the Chunk.compress sub-block layout.
+//
+// Record layout (little-endian):
+//   header:  magic u32 ("GVRG") | version u16 | subBlockRows u16 | chunkCount u32
+//   chunk:   cx i32 | cz i32 | mixedCount u32
+//            uniformFlags u8[N] | uniformTypes u16[N] | detailOffsets u16[N] | detailBlocks u16[mixedCount * 64]
+// N = 4 × subBlockRows × 4 sub-blocks. v1 records had no row count (always 32 rows, 128 blocks tall);
+// shorter records are padded with air on load so saves survive a world height increase.
+import { CompressedChunkData, SUB_BLOCKS_X, SUB_BLOCKS_Y, SUB_BLOCKS_Z, TOTAL_SUB_BLOCKS } from './Chunk';
+import { isBlockRegistered } from './BlockTypes';
+
+export const REGION_SIZE = 32;
+export const REGION_FORMAT_VERSION = 2;
+
+const V1_SUB_BLOCK_ROWS = 32;
+
+const REGION_MAGIC = 0x47525647; // "GVRG"
+const HEADER_BYTES = 12;
+const CHUNK_HEADER_BYTES = 12;
+const SUB_BLOCK_VOLUME = 64;
+
+const DB_NAME = 'gan-voxel-world';
+const DB_VERSION = 1;
+const REGION_STORE = 'regions';
+
+/** Saved chunks of one region, keyed by chunkKey ("cx,cz") */
+export type RegionChunks = Map<string, CompressedChunkData>;
+
+export function regionCoord(chunkCoord: number): number {
+  return Math.floor(chunkCoord / REGION_SIZE);
+}
+
+function regionRecordKey(worldId: string, rx: number, rz: number): string {
+  return `${worldId}/${rx},${rz}`;
+}
+
+// All region records of a world
+function worldKeyRange(worldId: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${worldId}/`, `${worldId}/\uffff`);
+}
+
+function chunkKey(cx: number, cz: number): string {
+  return `${cx},${cz}`;
+}
+
+// ---- Encoding ----
+
+function encodedChunkBytes(data: CompressedChunkData): number {
+  return CHUNK_HEADER_BYTES + TOTAL_SUB_BLOCKS * 5 + data.detailBlocks.length * 2;
+}
+
+export function encodeRegion(chunks: RegionChunks): ArrayBuffer {
+  let size = HEADER_BYTES;
+  for (const data of chunks.values()) size += encodedChunkBytes(data);
+
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  view.setUint32(0, REGION_MAGIC, true);
+  view.setUint16(4, REGION_FORMAT_VERSION, true);
+  view.setUint16(6, SUB_BLOCKS_Y, true);
+  view.setUint32(8, chunks.size, true);
+
+  let o = HEADER_BYTES;
+  for (const [key, data] of chunks) {
+    const [cx, cz] = key.split(',').map(Number);
+    view.setInt32(o, cx, true);
+    view.setInt32(o + 4, cz, true);
+    view.setUint32(o + 8, data.detailBlocks.length / SUB_BLOCK_VOLUME, true);
+    o += CHUNK_HEADER_BYTES;
+
+    new Uint8Array(buffer, o, TOTAL_SUB_BLOCKS).set(data.uniformFlags);
+    o += TOTAL_SUB_BLOCKS;
+    for (let i = 0; i < TOTAL_SUB_BLOCKS; i++, o += 2) view.setUint16(o, data.uniformTypes[i], true);
+    for (let i = 0; i < TOTAL_SUB_BLOCKS; i++, o += 2) view.setUint16(o, data.detailOffsets[i], true);
+    for (let i = 0; i < data.detailBlocks.length; i++, o += 2) view.setUint16(o, data.detailBlocks[i], true);
+  }
+  return buffer;
+}
+
+/** Throws on a bad magic, a newer format version, truncated data or out-of-range sub-blocks and block ids. */
+export function decodeRegion(buffer: ArrayBuffer): RegionChunks {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < HEADER_BYTES || view.getUint32(0, true) !== REGION_MAGIC) {
+    throw new Error('Not a region record');
+  }
+  const version = view.getUint16(4, true);
+  if (version > REGION_FORMAT_VERSION) {
+    throw new Error(`Region format v${version} is newer than supported v${REGION_FORMAT_VERSION}`);
+  }
+
+  const rows = version >= 2 ? view.getUint16(6, true) : V1_SUB_BLOCK_ROWS;
+  if (rows > SUB_BLOCKS_Y) {
+    throw new Error(`Region chunks are ${rows * 4} blocks tall; this build supports ${SUB_BLOCKS_Y * 4}`);
+  }
+  const recordSubBlocks = SUB_BLOCKS_X * rows * SUB_BLOCKS_Z;
+
+  const count = view.getUint32(8, true);
+  const chunks: RegionChunks = new Map();
+  let o = HEADER_BYTES;
+  for (let c = 0; c < count; c++) {
+    if (o + CHUNK_HEADER_BYTES + recordSubBlocks * 5 > buffer.byteLength) throw new Error('Truncated region record');
+    const cx = view.getInt32(o, true);
+    const cz = view.getInt32(o + 4, true);
+    const mixedCount = view.getUint32(o + 8, true);
+    o += CHUNK_HEADER_BYTES;
+    if (o + recordSubBlocks * 5 + mixedCount * SUB_BLOCK_VOLUME * 2 > buffer.byteLength) {
+      throw new Error('Truncated region record');
+    }
+
+    // Sub-blocks above the record's rows stay uniform air
+    const uniformFlags = new Uint8Array(TOTAL_SUB_BLOCKS).fill(1);
+    const uniformTypes = new Uint16Array(TOTAL_SUB_BLOCKS);
+    const detailOffsets = new Uint16Array(TOTAL_SUB_BLOCKS);
+    for (let i = 0; i < recordSubBlocks; i++, o++) uniformFlags[remapSubBlock(i, rows)] = view.getUint8(o);
+    for (let i = 0; i < recordSubBlocks; i++, o += 2) uniformTypes[remapSubBlock(i, rows)] = view.getUint16(o, true);
+    for (let i = 0; i < recordSubBlocks; i++, o += 2) detailOffsets[remapSubBlock(i, rows)] = view.getUint16(o, true);
+    const detailBlocks = new Uint16Array(mixedCount * SUB_BLOCK_VOLUME);
+    for (let i = 0; i < detailBlocks.length; i++, o += 2) detailBlocks[i] = view.getUint16(o, true);
+    validateChunk(cx, cz, { uniformFlags, uniformTypes, detailOffsets, detailBlocks }, mixedCount);
+
+    chunks.set(chunkKey(cx, cz), { uniformFlags, uniformTypes, detailOffsets, detailBlocks });
+  }
+  return chunks;
+}
+
+// Mixed sub-blocks must point into detailBlocks, and every block must be a known type
+function validateChunk(cx: number, cz: number, data: CompressedChunkData, mixedCount: number): void {
+  for (let i = 0; i < TOTAL_SUB_BLOCKS; i++) {
+    if (data.uniformFlags[i]) {
+      if (!isBlockRegistered(data.uniformTypes[i] & 0xFF)) {
+        throw new Error(`Chunk ${cx},${cz} has unknown block type ${data.uniformTypes[i] & 0xFF}`);
+      }
+    } else if (data.detailOffsets[i] >= mixedCount) {
+      throw new Error(`Chunk ${cx},${cz} has sub-block detail offset ${data.detailOffsets[i]} of ${mixedCount}`);
+    }
+  }
+  for (const raw of data.detailBlocks) {
+    if (!isBlockRegistered(raw & 0xFF)) throw new Error(`Chunk ${cx},${cz} has unknown block type ${raw & 0xFF}`);
+  }
+}
+
+// Sub-block index in a record with `rows` rows → index in the current layout
+function remapSubBlock(i: number, rows: number): number {
+  if (rows === SUB_BLOCKS_Y) return i;
+  const sbx = i % SUB_BLOCKS_X;
+  const sby = Math.floor(i / SUB_BLOCKS_X) % rows;
+  const sbz = Math.floor(i / (SUB_BLOCKS_X * rows));
+  return sbx + sby * SUB_BLOCKS_X + sbz * SUB_BLOCKS_X * SUB_BLOCKS_Y;
+}
+
+// ---- IndexedDB ----
+
+// Record key → that region's chunks
+function groupByRegion(worldId: string, chunks: RegionChunks): Map<string, RegionChunks> {
+  const byRegion = new Map<string, RegionChunks>();
+  for (const [key, data] of chunks) {
+    const [cx, cz] = key.split(',').map(Number);
+    const recordKey = regionRecordKey(worldId, regionCoord(cx), regionCoord(cz));
+    let region = byRegion.get(recordKey);
+    if (!region) {
+      region = new Map();
+      byRegion.set(recordKey, region);
+    }
+    region.set(key, data);
+  }
+  return byRegion;
+}
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** IndexedDB-backed region storage. Without IndexedDB every load is empty and saves are dropped. */
+export class RegionStore {
+  private db: Promise<IDBDatabase | null>;
+
+  constructor() {
+    this.db = RegionStore.openDB().catch((err) => {
+      console.warn('[RegionStore] IndexedDB unavailable, edits will not persist:', err);
+      return null;
+    });
+  }
+
+  private static openDB(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(REGION_STORE)) {
+        req.result.createObjectStore(REGION_STORE);
+      }
+    };
+    return requestToPromise(req);
+  }
+
+  /** Saved chunks of a region (empty if none were saved). */
+  async loadRegion(worldId: string, rx: number, rz: number): Promise<RegionChunks> {
+    const db = await this.db;
+    if (!db) return new Map();
+    const tx = db.transaction(REGION_STORE, 'readonly');
+    const record = await requestToPromise(tx.objectStore(REGION_STORE).get(regionRecordKey(worldId, rx, rz)));
+    return record instanceof ArrayBuffer ? decodeRegion(record) : new Map();
+  }
+
+  /** Every saved chunk of a world, across all regions. */
+  async loadWorld(worldId: string): Promise<RegionChunks> {
+    const db = await this.db;
+    const chunks: RegionChunks = new Map();
+    if (!db) return chunks;
+    const tx = db.transaction(REGION_STORE, 'readonly');
+    const records = await requestToPromise(tx.objectStore(REGION_STORE).getAll(worldKeyRange(worldId)));
+    for (const record of records) {
+      if (!(record instanceof ArrayBuffer)) continue;
+      for (const [key, data] of decodeRegion(record)) chunks.set(key, data);
+    }
+    return chunks;
+  }
+
+  /**
+   * Drop a world's saved regions and store the given chunks in their place, in one transaction:
+   * if any write fails the old world is left untouched.
+   */
+  async replaceWorld(worldId: string, chunks: RegionChunks): Promise<void> {
+    const db = await this.db;
+    if (!db) return;
+    // Encode up front so a bad chunk throws before the transaction starts
+    const records: [string, ArrayBuffer][] = [];
+    for (const [recordKey, region] of groupByRegion(worldId, chunks)) records.push([recordKey, encodeRegion(region)]);
+
+    const tx = db.transaction(REGION_STORE, 'readwrite');
+    const store = tx.objectStore(REGION_STORE);
+    const done = transactionDone(tx);
+    store.delete(worldKeyRange(worldId));
+    for (const [recordKey, buffer] of records) store.put(buffer, recordKey);
+    await done;
+  }
+
+  /** Merge chunks into their region records (read-modify-write per region, one transaction). */
+  async saveChunks(worldId: string, chunks: RegionChunks): Promise<void> {
+    const db = await this.db;
+    if (!db || chunks.size === 0) return;
+
+    const byRegion = groupByRegion(worldId, chunks);
+    const tx = db.transaction(REGION_STORE, 'readwrite');
+    const store = tx.objectStore(REGION_STORE);
+    const done = transactionDone(tx);
+    for (const [recordKey, updates] of byRegion) {
+      // Chained in request callbacks so the transaction stays active
+      const get = store.get(recordKey);
+      get.onsuccess = () => {
+        const merged = get.result instanceof ArrayBuffer ? decodeRegion(get.result) : new Map();
+        for (const [key, data] of updates) merged.set(key, data);
+        store.put(encodeRegion(merged), recordKey);
+      };
+    }
+    await done;
+  }
+}
@@ -0,0 +1,27 @@
+// Structure templates bundled from ./structures/*.json: adding a file registers a new structure.
+// Invalid templates are skipped with a warning so one bad file can't break world generation.
+import { StructureTemplate, parseStructureTemplate } from './StructureTemplate';
+
+const modules = import.meta.glob<unknown>('./structures/*.json', { eager: true, import: 'default' });
+
+const TEMPLATES: StructureTemplate[] = [];
+
+// Sorted by path so template order (and so seeded selection) is stable
+for (const path of Object.keys(modules).sort()) {
+  try {
+    TEMPLATES.push(parseStructureTemplate(modules[path]));
+  } catch (err) {
+    console.warn(`[Structures] ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+const VILLAGE_TEMPLATES = TEMPLATES.filter((t) => t.village !== null);
+
+export function getStructureTemplates(): ReadonlyArray<StructureTemplate> {
+  return TEMPLATES;
+}
+
+/** Templates that villages may place around their plaza */
+export function getVillageTemplates(): ReadonlyArray<StructureTemplate> {
+  return VILLAGE_TEMPLATES;
+}
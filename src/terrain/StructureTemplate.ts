@@ -0,0 +1,247 @@
+// Structure templates: a block palette laid out on a 3D grid, stamped into chunks rotated and/or
+// mirrored about an anchor cell. Templates are JSON files in ./structures (see StructureRegistry):
+//
+//   name       display name
+//   palette    { "<char>": "<Block Name>" | { "block": "<Block Name>", "facing"?: "north", "meta"?: 0 } }
+//              facing is a TorchFacing name and turns with the structure; meta is written as-is
+//   layers     bottom-to-top list of layers; each layer is a list of rows (z), each row a string (x).
+//              ' ' leaves the world block untouched; every other char must be in the palette
+//   anchor     [x, y, z] grid cell placed at the structure origin (default [0, 0, 0])
+//   rotations  allowed quarter turns (default all); rotation 1 turns -Z toward +X
+//   mirror     whether placements may mirror across X (default false)
+//   village    optional { "weight", "maxCount", "door": [x, z] }; the door sits in a wall facing -Z
+import { Chunk } from './Chunk';
+import { TorchFacing, getBlockTypeByName } from './BlockTypes';
+import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
+
+/** Quarter turns about the anchor */
+export type Rotation = 0 | 1 | 2 | 3;
+
+export interface StructureCell {
+  x: number;
+  y: number;
+  z: number;
+  block: number;
+  meta: number;
+  /** meta is a TorchFacing and follows the structure's rotation/mirroring */
+  facing: boolean;
+}
+
+export interface StructureVillageInfo {
+  weight: number;
+  maxCount: number;  // per village
+  doorX: number;
+  doorZ: number;
+}
+
+export interface StructureTemplate {
+  name: string;
+  sizeX: number;
+  sizeY: number;
+  sizeZ: number;
+  anchorX: number;
+  anchorY: number;
+  anchorZ: number;
+  /** Every non-' ' grid cell */
+  cells: StructureCell[];
+  rotations: Rotation[];
+  mirror: boolean;
+  village: StructureVillageInfo | null;
+}
+
+export interface StructurePlacement {
+  // World position of the anchor cell
+  x: number;
+  y: number;
+  z: number;
+  rotation: Rotation;
+  mirror: boolean;
+}
+
+/** World XZ columns covered by a placement (inclusive) */
+export interface StructureBounds {
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+}
+
+const FACING_NAMES: Record<string, TorchFacing> = {
+  floor: TorchFacing.FLOOR,
+  north: TorchFacing.NORTH,
+  south: TorchFacing.SOUTH,
+  east: TorchFacing.EAST,
+  west: TorchFacing.WEST,
+};
+
+// Wall direction per TorchFacing (FLOOR has none)
+const FACING_VECTORS: ReadonlyArray<readonly [number, number]> = [[0, 0], [0, 1], [0, -1], [1, 0], [-1, 0]];
+
+/** Offset from the anchor → world offset: mirror across X, then rotate */
+export function transformOffset(dx: number, dz: number, rotation: Rotation, mirror: boolean): [number, number] {
+  const x = mirror ? -dx : dx;
+  switch (rotation) {
+    case 0: return [x, dz];
+    case 1: return [-dz, x];
+    case 2: return [-x, -dz];
+    case 3: return [dz, -x];
+  }
+}
+
+export function transformFacing(facing: number, rotation: Rotation, mirror: boolean): TorchFacing {
+  if (facing === TorchFacing.FLOOR || facing >= FACING_VECTORS.length) return TorchFacing.FLOOR;
+  const [vx, vz] = FACING_VECTORS[facing];
+  const [x, z] = transformOffset(vx, vz, rotation, mirror);
+  if (x !== 0) return x > 0 ? TorchFacing.EAST : TorchFacing.WEST;
+  return z > 0 ? TorchFacing.NORTH : TorchFacing.SOUTH;
+}
+
+export function structureBounds(template: StructureTemplate, placement: StructurePlacement): StructureBounds {
+  const { rotation, mirror } = placement;
+  const [ax, az] = transformOffset(-template.anchorX, -template.anchorZ, rotation, mirror);
+  const [bx, bz] = transformOffset(template.sizeX - 1 - template.anchorX, template.sizeZ - 1 - template.anchorZ, rotation, mirror);
+  return {
+    minX: placement.x + Math.min(ax, bx),
+    minZ: placement.z + Math.min(az, bz),
+    maxX: placement.x + Math.max(ax, bx),
+    maxZ: placement.z + Math.max(az, bz),
+  };
+}
+
+/** Write the cells of a placement that fall inside the chunk */
+export function stampStructure(chunk: Chunk, template: StructureTemplate, placement: StructurePlacement): void {
+  const bounds = structureBounds(template, placement);
+  const chunkMinX = chunk.worldOffsetX;
+  const chunkMinZ = chunk.worldOffsetZ;
+  if (bounds.maxX < chunkMinX || bounds.minX >= chunkMinX + CHUNK_WIDTH) return;
+  if (bounds.maxZ < chunkMinZ || bounds.minZ >= chunkMinZ + CHUNK_DEPTH) return;
+
+  const { rotation, mirror } = placement;
+  for (const cell of template.cells) {
+    const [dx, dz] = transformOffset(cell.x - template.anchorX, cell.z - template.anchorZ, rotation, mirror);
+    const localX = placement.x + dx - chunkMinX;
+    const localZ = placement.z + dz - chunkMinZ;
+    const y = placement.y + cell.y - template.anchorY;
+    if (localX < 0 || localX >= CHUNK_WIDTH || localZ < 0 || localZ >= CHUNK_DEPTH) continue;
+    if (y < 0 || y >= CHUNK_HEIGHT) continue;
+
+    const meta = cell.facing ? transformFacing(cell.meta, rotation, mirror) : cell.meta;
+    if (meta !== 0) {
+      chunk.setBlockWithMeta(localX, y, localZ, cell.block, meta);
+    } else {
+      chunk.setBlock(localX, y, localZ, cell.block);
+    }
+  }
+}
+
+// ---- JSON parsing ----
+
+interface PaletteEntry {
+  block: number;
+  meta: number;
+  facing: boolean;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isGridPoint(v: unknown, length: number): v is number[] {
+  return Array.isArray(v) && v.length === length && v.every((n) => Number.isInteger(n) && n >= 0);
+}
+
+function parsePaletteEntry(key: string, value: unknown): PaletteEntry {
+  const spec = typeof value === 'string' ? { block: value } : value;
+  if (!isObject(spec) || typeof spec.block !== 'string') {
+    throw new Error(`palette '${key}' must be a block name or { block, facing?, meta? }`);
+  }
+  const block = getBlockTypeByName(spec.block);
+  if (block === undefined) throw new Error(`palette '${key}': unknown block "${spec.block}"`);
+
+  if (spec.facing !== undefined) {
+    const facing = typeof spec.facing === 'string' ? FACING_NAMES[spec.facing.toLowerCase()] : undefined;
+    if (facing === undefined) throw new Error(`palette '${key}': unknown facing "${String(spec.facing)}"`);
+    return { block, meta: facing, facing: true };
+  }
+  if (spec.meta !== undefined) {
+    if (!Number.isInteger(spec.meta) || (spec.meta as number) < 0 || (spec.meta as number) > 255) {
+      throw new Error(`palette '${key}': meta must be an integer in [0, 255]`);
+    }
+    return { block, meta: spec.meta as number, facing: false };
+  }
+  return { block, meta: 0, facing: false };
+}
+
+/** Validate a template JSON object; throws with a message naming the offending field */
+export function parseStructureTemplate(json: unknown): StructureTemplate {
+  if (!isObject(json)) throw new Error('template must be an object');
+  if (typeof json.name !== 'string' || json.name.length === 0) throw new Error('name must be a non-empty string');
+
+  if (!isObject(json.palette)) throw new Error('palette must be an object');
+  const palette = new Map<string, PaletteEntry>();
+  for (const [key, value] of Object.entries(json.palette)) {
+    if (key.length !== 1 || key === ' ') throw new Error(`palette key '${key}' must be a single non-space character`);
+    palette.set(key, parsePaletteEntry(key, value));
+  }
+
+  const layers = json.layers;
+  if (!Array.isArray(layers) || layers.length === 0) throw new Error('layers must be a non-empty array');
+  const sizeY = layers.length;
+  const sizeZ = Array.isArray(layers[0]) ? layers[0].length : 0;
+  const sizeX = sizeZ > 0 && typeof layers[0][0] === 'string' ? layers[0][0].length : 0;
+  if (sizeX === 0 || sizeZ === 0) throw new Error('layers must hold non-empty rows of strings');
+
+  const cells: StructureCell[] = [];
+  for (let y = 0; y < sizeY; y++) {
+    const rows = layers[y];
+    if (!Array.isArray(rows) || rows.length !== sizeZ) throw new Error(`layer ${y} must have ${sizeZ} rows`);
+    for (let z = 0; z < sizeZ; z++) {
+      const row = rows[z];
+      if (typeof row !== 'string' || row.length !== sizeX) {
+        throw new Error(`layer ${y} row ${z} must be a string of ${sizeX} characters`);
+      }
+      for (let x = 0; x < sizeX; x++) {
+        const ch = row[x];
+        if (ch === ' ') continue;
+        const entry = palette.get(ch);
+        if (!entry) throw new Error(`layer ${y} row ${z}: '${ch}' is not in the palette`);
+        cells.push({ x, y, z, ...entry });
+      }
+    }
+  }
+
+  const anchor = json.anchor ?? [0, 0, 0];
+  if (!isGridPoint(anchor, 3) || anchor[0] >= sizeX || anchor[1] >= sizeY || anchor[2] >= sizeZ) {
+    throw new Error('anchor must be an [x, y, z] cell inside the grid');
+  }
+
+  const rotations = json.rotations ?? [0, 1, 2, 3];
+  if (!Array.isArray(rotations) || rotations.length === 0 || !rotations.every((r) => r === 0 || r === 1 || r === 2 || r === 3)) {
+    throw new Error('rotations must be a non-empty list of quarter turns (0-3)');
+  }
+
+  const mirror = json.mirror ?? false;
+  if (typeof mirror !== 'boolean') throw new Error('mirror must be a boolean');
+
+  let village: StructureVillageInfo | null = null;
+  if (json.village !== undefined) {
+    const v = json.village;
+    if (!isObject(v)) throw new Error('village must be an object');
+    if (typeof v.weight !== 'number' || !(v.weight > 0)) throw new Error('village.weight must be > 0');
+    if (!Number.isInteger(v.maxCount) || (v.maxCount as number) < 1) throw new Error('village.maxCount must be an integer >= 1');
+    if (!isGridPoint(v.door, 2) || v.door[0] >= sizeX || v.door[1] >= sizeZ) {
+      throw new Error('village.door must be an [x, z] column inside the grid');
+    }
+    village = { weight: v.weight, maxCount: v.maxCount as number, doorX: v.door[0], doorZ: v.door[1] };
+  }
+
+  return {
+    name: json.name,
+    sizeX, sizeY, sizeZ,
+    anchorX: anchor[0], anchorY: anchor[1], anchorZ: anchor[2],
+    cells,
+    rotations: Array.from(new Set(rotations as Rotation[])),
+    mirror,
+    village,
+  };
+}
@@ -1,16 +1,33 @@
 import { FractalNoise } from '../noise/SimplexNoise';
+import { Spline } from '../noise/Spline';
 import { Chunk } from './Chunk';
 import { BlockType } from './BlockTypes';
-import { BiomeType, BIOME_PARAMS } from './BiomeTypes';
+import { BiomeType, BiomeParameters, getAllBiomes, getBiomeDefinition } from './BiomeTypes';
 import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
 import { Config } from '../config/Config';
 
+const DENSITY_OCTAVES = 3;
+const ISLAND_OCTAVES = 2;
+const RIVER_OCTAVES = 3;
+const RIVER_BANK_HEIGHT = 2;  // blocks the bank rises above sea level before the valley ramp
+
 export class TerrainGenerator {
   private continentalnessNoise: FractalNoise;
   private temperatureNoise: FractalNoise;
   private humidityNoise: FractalNoise;
   private heightVariationNoise: FractalNoise;
+  private erosionNoise: FractalNoise;
+  private continentalnessSpline: Spline;
+  private erosionSpline: Spline;
+  private peaksValleysSpline: Spline;
+  private riverNoise: FractalNoise;
+  private riverBedNoise: FractalNoise;
+  private densityNoise: FractalNoise;
+  private islandNoise: FractalNoise;
   private seed: number;
+  // Per-column scratch (generation is single-threaded per generator)
+  private climate: BiomeParameters = { temperature: 0, humidity: 0, continentalness: 0 };
+  private biomeWeights = new Float64Array(getAllBiomes().length);
 
   constructor(seed: number) {
     this.seed = seed;
@@ -20,6 +37,19 @@ export class TerrainGenerator {
     this.temperatureNoise = new FractalNoise(seed + 1000, n.octaves, n.persistence, n.lacunarity, b.temperatureScale);
     this.humidityNoise = new FractalNoise(seed + 2000, n.octaves, n.persistence, n.lacunarity, b.humidityScale);
     this.heightVariationNoise = new FractalNoise(seed + 3000, n.octaves, n.persistence, n.lacunarity, b.heightVariationScale);
+
+    const shape = Config.data.terrain.shape;
+    this.erosionNoise = new FractalNoise(seed + 6000, n.octaves, n.persistence, n.lacunarity, shape.erosionScale);
+    this.continentalnessSpline = new Spline(shape.continentalness);
+    this.erosionSpline = new Spline(shape.erosion);
+    this.peaksValleysSpline = new Spline(shape.peaksValleys);
+
+    this.riverNoise = new FractalNoise(seed + 7000, RIVER_OCTAVES, 0.45, 2.0, Config.data.terrain.rivers.scale);
+    this.riverBedNoise = new FractalNoise(seed + 7500, 2, 0.5, 2.0, 24);
+
+    const d = Config.data.terrain.density;
+    this.densityNoise = new FractalNoise(seed + 4000, DENSITY_OCTAVES, n.persistence, n.lacunarity, d.scale);
+    this.islandNoise = new FractalNoise(seed + 5000, ISLAND_OCTAVES, n.persistence, n.lacunarity, d.islands.scale);
   }
 
   generate(chunk: Chunk): void {
@@ -34,84 +64,272 @@ export class TerrainGenerator {
 
   private generateColumn(chunk: Chunk, localX: number, localZ: number, worldX: number, worldZ: number): void {
     const continentalness = this.continentalnessNoise.sample(worldX, worldZ);
-    const heightVariation = this.heightVariationNoise.sample(worldX, worldZ);
+    const climate = this.sampleClimate(worldX, worldZ, continentalness);
+    const height = this.getHeightmapHeight(worldX, worldZ, continentalness, climate);
+    const biome = this.selectBiome(continentalness, climate);
+    const riverBlock = this.getRiverSurfaceBlock(worldX, worldZ);
 
-    const baseHeight = this.continentalnessToHeight(continentalness);
-    let height = Math.floor(baseHeight + (heightVariation - 0.5) * 10);
-    height = Math.max(1, Math.min(CHUNK_HEIGHT - 1, height));
+    if (Config.data.terrain.density.enabled) {
+      this.generateDensityColumn(chunk, localX, localZ, worldX, worldZ, height, biome, riverBlock);
+      return;
+    }
 
-    const biome = this.getBiome(worldX, worldZ, height, continentalness);
+    // Blocks start as air: stop at the surface or water line so sky sections stay empty
+    const top = Math.min(CHUNK_HEIGHT - 1, Math.max(height, Config.data.terrain.height.seaLevel));
+    for (let y = 0; y <= top; y++) {
+      chunk.setBlock(localX, y, localZ, this.getBlockType(y, height, biome, riverBlock));
+    }
+  }
 
-    for (let y = 0; y < CHUNK_HEIGHT; y++) {
-      chunk.setBlock(localX, y, localZ, this.getBlockType(y, height, biome));
+  // Surface/subsurface rules follow depth below the nearest air (or water) above,
+  // so overhang tops and island tops get grass like the ground does
+  private generateDensityColumn(
+    chunk: Chunk, localX: number, localZ: number, worldX: number, worldZ: number, height: number, biome: BiomeType,
+    riverBlock: number,
+  ): void {
+    const seaLevel = Config.data.terrain.height.seaLevel;
+    const dirtDepth = Config.data.terrain.height.dirtLayerDepth;
+
+    let depth = 0;
+    for (let y = CHUNK_HEIGHT - 1; y >= 0; y--) {
+      if (!this.isSolidAt(worldX, y, worldZ, height)) {
+        chunk.setBlock(localX, y, localZ, y <= seaLevel ? BlockType.WATER : BlockType.AIR);
+        depth = 0;
+        continue;
+      }
+
+      let block: number;
+      if (y === 0) block = BlockType.BEDROCK;
+      else if (depth === 0) block = this.getSurfaceBlock(biome, y, riverBlock);
+      else if (depth <= dirtDepth) block = this.getSubSurfaceBlock(biome);
+      else block = BlockType.STONE;
+      chunk.setBlock(localX, y, localZ, block);
+      depth++;
+    }
+  }
+
+  // Density = 3D noise + squash gradient toward the heightmap surface (solid when >= 0).
+  // Beyond amplitude/squash blocks from the surface the noise can no longer flip the sign.
+  private isSolidAt(worldX: number, y: number, worldZ: number, height: number): boolean {
+    if (y <= 0) return true;
+    const d = Config.data.terrain.density;
+    const reach = d.amplitude / d.squash;
+
+    if (y <= height - reach) return true;
+    if (y <= height + reach) {
+      const noise = this.densityNoise.sample3D(worldX, y * d.scale / d.verticalScale, worldZ) * 2 - 1;
+      if ((height - y) * d.squash + noise * d.amplitude >= 0) return true;
     }
+    return this.isIslandAt(worldX, y, worldZ);
   }
 
-  private continentalnessToHeight(c: number): number {
-    // Piecewise linear spline: continentalness [0,1] → height
-    if (c < 0.3) {
-      // Deep ocean → shallow ocean: 30~48
-      return 30 + (c / 0.3) * 18;
-    } else if (c < 0.45) {
-      // Coastal transition: 48~52
-      return 48 + ((c - 0.3) / 0.15) * 4;
-    } else if (c < 0.7) {
-      // Plains/lowlands: 52~65
-      return 52 + ((c - 0.45) / 0.25) * 13;
-    } else if (c < 0.85) {
-      // Hills: 65~80
-      return 65 + ((c - 0.7) / 0.15) * 15;
+  // Sky islands: lens-shaped noise blobs, thickest mid-band and tapering to nothing at its edges
+  private isIslandAt(worldX: number, y: number, worldZ: number): boolean {
+    const islands = Config.data.terrain.density.islands;
+    if (!islands.enabled || y < islands.minY || y > islands.maxY) return false;
+    const mid = (islands.minY + islands.maxY) * 0.5;
+    const halfHeight = Math.max(1, (islands.maxY - islands.minY) * 0.5);
+    const taper = 1 - Math.abs(y - mid) / halfHeight;
+    return this.islandNoise.sample3D(worldX, y, worldZ) * taper > islands.threshold;
+  }
+
+  // Topmost solid block of a density column
+  private getDensitySurfaceHeight(worldX: number, worldZ: number, height: number): number {
+    const d = Config.data.terrain.density;
+    let top = Math.ceil(height + d.amplitude / d.squash);
+    if (d.islands.enabled) top = Math.max(top, d.islands.maxY);
+    for (let y = Math.min(top, CHUNK_HEIGHT - 1); y > 0; y--) {
+      if (this.isSolidAt(worldX, y, worldZ, height)) return y;
+    }
+    return 0;
+  }
+
+  // Biome height offset/scale are blended, so borders between biomes slope instead of stepping
+  private getHeightmapHeight(worldX: number, worldZ: number, continentalness: number, climate: BiomeParameters): number {
+    const biomes = getAllBiomes();
+    const weights = this.computeBiomeWeights(climate);
+    let offset = 0;
+    let scale = 0;
+    for (let i = 0; i < biomes.length; i++) {
+      offset += weights[i] * biomes[i].heightOffset;
+      scale += weights[i] * biomes[i].heightScale;
+    }
+
+    // Continentalness sets the base height; peaks-valleys relief is damped by erosion
+    const baseHeight = this.continentalnessSpline.evaluate(continentalness) + offset;
+    const peaksValleys = this.peaksValleysSpline.evaluate(this.heightVariationNoise.sample(worldX, worldZ));
+    const erosion = this.erosionSpline.evaluate(this.erosionNoise.sample(worldX, worldZ));
+    const height = this.carveRiver(Math.floor(baseHeight + peaksValleys * erosion * scale), worldX, worldZ);
+    return Math.max(1, Math.min(CHUNK_HEIGHT - 1, height));
+  }
+
+  // Ridged river noise: 0 on a river's center line, rising to 1 away from it
+  private riverDistance(worldX: number, worldZ: number): number {
+    return Math.abs(this.riverNoise.sample(worldX, worldZ) * 2 - 1);
+  }
+
+  // Rivers sit at sea level so they run unbroken into the ocean; through high ground the
+  // valley ramp cuts them down into valleys. Carving only ever lowers the terrain.
+  private carveRiver(height: number, worldX: number, worldZ: number): number {
+    const r = Config.data.terrain.rivers;
+    if (!r.enabled) return height;
+    const seaLevel = Config.data.terrain.height.seaLevel;
+    const river = this.riverDistance(worldX, worldZ);
+    const bankEdge = r.width + r.bankWidth;
+    if (river >= bankEdge + r.valleyWidth) return height;
+
+    let target: number;
+    if (river < r.width) {
+      // Rounded channel bed, deepest at the center line
+      const t = river / r.width;
+      target = seaLevel - r.depth * (1 - t * t);
+    } else if (river < bankEdge) {
+      target = seaLevel + (river - r.width) / r.bankWidth * RIVER_BANK_HEIGHT;
     } else {
-      // Mountains: 80~100
-      return 80 + ((c - 0.85) / 0.15) * 20;
+      const t = (river - bankEdge) / r.valleyWidth;
+      const s = t * t * (3 - 2 * t);
+      target = seaLevel + RIVER_BANK_HEIGHT + (height - seaLevel - RIVER_BANK_HEIGHT) * s;
     }
+    return Math.min(height, Math.floor(target));
+  }
+
+  // Bed block for river channels (sand/gravel/clay patches), sand for banks, AIR elsewhere
+  private getRiverSurfaceBlock(worldX: number, worldZ: number): number {
+    const r = Config.data.terrain.rivers;
+    if (!r.enabled) return BlockType.AIR;
+    const river = this.riverDistance(worldX, worldZ);
+    if (river >= r.width + r.bankWidth) return BlockType.AIR;
+    if (river >= r.width) return BlockType.SAND;
+
+    const bed = this.riverBedNoise.sample(worldX, worldZ);
+    if (bed < 0.45) return BlockType.SAND;
+    if (bed < 0.6) return BlockType.GRAVEL;
+    return BlockType.CLAY;
   }
 
+  /** 1 at the water and banks of a river, fading to 0 halfway up its valley */
+  getRiverProximity(worldX: number, worldZ: number): number {
+    const r = Config.data.terrain.rivers;
+    if (!r.enabled) return 0;
+    const bankEdge = r.width + r.bankWidth;
+    const river = this.riverDistance(worldX, worldZ);
+    if (river <= bankEdge) return 1;
+    return Math.max(0, 1 - (river - bankEdge) / (r.valleyWidth * 0.5));
+  }
+
+  /** Topmost solid block of the generated column (heightmap or density terrain) */
   getSurfaceHeight(worldX: number, worldZ: number): number {
     const continentalness = this.continentalnessNoise.sample(worldX, worldZ);
-    const heightVariation = this.heightVariationNoise.sample(worldX, worldZ);
-    const baseHeight = this.continentalnessToHeight(continentalness);
-    let height = Math.floor(baseHeight + (heightVariation - 0.5) * 10);
-    return Math.max(1, Math.min(CHUNK_HEIGHT - 1, height));
+    const climate = this.sampleClimate(worldX, worldZ, continentalness);
+    const height = this.getHeightmapHeight(worldX, worldZ, continentalness, climate);
+    if (!Config.data.terrain.density.enabled) return height;
+    return this.getDensitySurfaceHeight(worldX, worldZ, height);
+  }
+
+  /** No terrain, island or sea water in y = minY..maxY of a column, before caves and features */
+  isOpenAir(worldX: number, worldZ: number, minY: number, maxY: number): boolean {
+    if (minY <= Config.data.terrain.height.seaLevel || maxY >= CHUNK_HEIGHT) return false;
+    const continentalness = this.continentalnessNoise.sample(worldX, worldZ);
+    const climate = this.sampleClimate(worldX, worldZ, continentalness);
+    const height = this.getHeightmapHeight(worldX, worldZ, continentalness, climate);
+    if (!Config.data.terrain.density.enabled) return minY > height;
+    for (let y = minY; y <= maxY; y++) {
+      if (this.isSolidAt(worldX, y, worldZ, height)) return false;
+    }
+    return true;
+  }
+
+  /** Top of the ground running up without a gap from fromY (fromY - 1 if that is open), before caves */
+  getConnectedTop(worldX: number, worldZ: number, fromY: number): number {
+    const continentalness = this.continentalnessNoise.sample(worldX, worldZ);
+    const climate = this.sampleClimate(worldX, worldZ, continentalness);
+    const height = this.getHeightmapHeight(worldX, worldZ, continentalness, climate);
+    if (!Config.data.terrain.density.enabled) return Math.max(fromY - 1, height);
+    let y = fromY;
+    while (y < CHUNK_HEIGHT && this.isSolidAt(worldX, y, worldZ, height)) y++;
+    return y - 1;
+  }
+
+  /** Top block of a generated column, before caves and features modify it */
+  getSurfaceBlockAt(worldX: number, worldZ: number, surfaceHeight: number): number {
+    const biome = this.getBiome(worldX, worldZ, surfaceHeight);
+    return this.getSurfaceBlock(biome, surfaceHeight, this.getRiverSurfaceBlock(worldX, worldZ));
   }
 
   getBiome(worldX: number, worldZ: number, surfaceHeight: number, continentalness?: number): BiomeType {
     if (continentalness === undefined) {
       continentalness = this.continentalnessNoise.sample(worldX, worldZ);
     }
+    return this.selectBiome(continentalness, this.sampleClimate(worldX, worldZ, continentalness));
+  }
+
+  /** Blended sky/fog tint of the biomes around a world column */
+  getSkyTint(worldX: number, worldZ: number, out: [number, number, number]): [number, number, number] {
+    const continentalness = this.continentalnessNoise.sample(worldX, worldZ);
+    const weights = this.computeBiomeWeights(this.sampleClimate(worldX, worldZ, continentalness));
+    const biomes = getAllBiomes();
+    out[0] = out[1] = out[2] = 0;
+    for (let i = 0; i < biomes.length; i++) {
+      const tint = biomes[i].skyTint;
+      out[0] += weights[i] * tint[0];
+      out[1] += weights[i] * tint[1];
+      out[2] += weights[i] * tint[2];
+    }
+    return out;
+  }
 
+  // Map noise [0,1] to biome parameter space [-1,1]
+  private sampleClimate(worldX: number, worldZ: number, continentalness: number): BiomeParameters {
+    const c = this.climate;
+    c.temperature = this.temperatureNoise.sample(worldX, worldZ) * 2 - 1;
+    c.humidity = this.humidityNoise.sample(worldX, worldZ) * 2 - 1;
+    c.continentalness = continentalness * 2 - 1;
+    return c;
+  }
+
+  private selectBiome(continentalness: number, climate: BiomeParameters): BiomeType {
     // Force ocean when continentalness is below threshold
     if (continentalness < Config.data.terrain.biomes.oceanThreshold) {
       return BiomeType.OCEAN;
     }
 
-    const temperature = this.temperatureNoise.sample(worldX, worldZ);
-    const humidity = this.humidityNoise.sample(worldX, worldZ);
-
-    // Map noise [0,1] to parameter space [-1,1]
-    const t = temperature * 2 - 1;
-    const h = humidity * 2 - 1;
-    const cont = continentalness * 2 - 1;
-
     // Nearest-neighbor selection in 3D parameter space
+    const biomes = getAllBiomes();
     let bestBiome = BiomeType.PLAINS;
     let bestDist = Infinity;
-
-    for (const entry of BIOME_PARAMS) {
-      const dt = t - entry.params.temperature;
-      const dh = h - entry.params.humidity;
-      const dc = cont - entry.params.continentalness;
-      const dist = dt * dt + dh * dh + dc * dc;
+    for (let i = 0; i < biomes.length; i++) {
+      const dist = climateDistance2(climate, biomes[i].climate);
       if (dist < bestDist) {
         bestDist = dist;
-        bestBiome = entry.biome;
+        bestBiome = i;
       }
     }
-
     return bestBiome;
   }
 
-  private getBlockType(y: number, surfaceHeight: number, biome: BiomeType): number {
+  // Gaussian kernel over climate-space distance (terrain.biomes.blendWidth), normalized to sum 1
+  private computeBiomeWeights(climate: BiomeParameters): Float64Array {
+    const biomes = getAllBiomes();
+    const weights = this.biomeWeights;
+    let nearest = Infinity;
+    for (let i = 0; i < biomes.length; i++) {
+      weights[i] = climateDistance2(climate, biomes[i].climate);
+      nearest = Math.min(nearest, weights[i]);
+    }
+
+    // Relative to the nearest biome so the kernel can't underflow to all zeros
+    const width = Config.data.terrain.biomes.blendWidth;
+    const invWidth2 = 1 / (width * width);
+    let total = 0;
+    for (let i = 0; i < biomes.length; i++) {
+      weights[i] = Math.exp(-(weights[i] - nearest) * invWidth2);
+      total += weights[i];
+    }
+    for (let i = 0; i < biomes.length; i++) weights[i] /= total;
+    return weights;
+  }
+
+  private getBlockType(y: number, surfaceHeight: number, biome: BiomeType, riverBlock: number): number {
     const seaLevel = Config.data.terrain.height.seaLevel;
     const dirtDepth = Config.data.terrain.height.dirtLayerDepth;
 
@@ -122,29 +340,30 @@ export class TerrainGenerator {
       return BlockType.AIR;
     }
 
-    if (y === surfaceHeight) return this.getSurfaceBlock(biome, surfaceHeight);
+    if (y === surfaceHeight) return this.getSurfaceBlock(biome, surfaceHeight, riverBlock);
     if (y >= surfaceHeight - dirtDepth) return this.getSubSurfaceBlock(biome);
     return BlockType.STONE;
   }
 
-  private getSurfaceBlock(biome: BiomeType, surfaceHeight: number): number {
-    if (surfaceHeight < Config.data.terrain.height.seaLevel) return BlockType.SAND;
+  private getSurfaceBlock(biome: BiomeType, surfaceHeight: number, riverBlock: number): number {
+    const seaLevel = Config.data.terrain.height.seaLevel;
+    // River beds and banks only near the water line (not on density overhangs above them)
+    if (riverBlock !== BlockType.AIR && surfaceHeight <= seaLevel + 1) return riverBlock;
+    if (surfaceHeight < seaLevel) return BlockType.SAND;
 
-    switch (biome) {
-      case BiomeType.DESERT: return BlockType.SAND;
-      case BiomeType.TUNDRA: return BlockType.SNOW;
-      case BiomeType.MOUNTAINS: return surfaceHeight > 85 ? BlockType.STONE : BlockType.GRASS_BLOCK;
-      case BiomeType.OCEAN: return BlockType.SAND;
-      default: return BlockType.GRASS_BLOCK;
-    }
+    const def = getBiomeDefinition(biome);
+    if (def.peak && surfaceHeight >= def.peak.minY) return def.peak.block;
+    return def.surfaceBlock;
   }
 
   private getSubSurfaceBlock(biome: BiomeType): number {
-    switch (biome) {
-      case BiomeType.DESERT: return BlockType.SANDSTONE;
-      case BiomeType.TUNDRA: return BlockType.DIRT;
-      case BiomeType.OCEAN: return BlockType.SAND;
-      default: return BlockType.DIRT;
-    }
+    return getBiomeDefinition(biome).fillerBlock;
   }
 }
+
+function climateDistance2(a: BiomeParameters, b: BiomeParameters): number {
+  const dt = a.temperature - b.temperature;
+  const dh = a.humidity - b.humidity;
+  const dc = a.continentalness - b.continentalness;
+  return dt * dt + dh * dh + dc * dc;
+}
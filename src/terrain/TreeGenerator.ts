@@ -1,148 +1,349 @@
 import { SeededRandom } from '../noise/SeededRandom';
 import { Chunk } from './Chunk';
 import { BlockType } from './BlockTypes';
-import { BiomeType } from './BiomeTypes';
+import { TreeSpecies, getBiomeDefinition } from './BiomeTypes';
 import { TerrainGenerator } from './TerrainGenerator';
-import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
+import { VillageGenerator } from './VillageGenerator';
+import { forEachFeatureSource } from './FeaturePlacement';
+import { CHUNK_WIDTH, CHUNK_DEPTH } from '../constants';
 import { Config } from '../config/Config';
 
-const FOREST_DENSITY_MULTIPLIER = 3;
-const SPARSE_BIOME_SHIFT = 1;
 const MAX_ATTEMPTS_MULTIPLIER = 4;
-const TREE_CLEARANCE_HEIGHT = 8;
-const TUNDRA_REJECT_THRESHOLD = 0.5;
-const MOUNTAINS_REJECT_THRESHOLD = 0.3;
 
+// Horizontal reach of each species from its trunk column
+const CANOPY_RADIUS: Record<TreeSpecies, number> = {
+  [TreeSpecies.OAK]: 2,
+  [TreeSpecies.LARGE_OAK]: 5,
+  [TreeSpecies.BIRCH]: 2,
+  [TreeSpecies.SPRUCE]: 3,
+  [TreeSpecies.JUNGLE]: 5,
+  [TreeSpecies.DEAD]: 2,
+};
+const MAX_CANOPY_RADIUS = 5;
+const TREE_CLEARANCE_EXTRA = 3;   // canopy top above the tallest configured trunk
+
+const VINE_CHANCE = 0.35;       // per canopy edge column of a jungle tree
+const MAX_VINE_LENGTH = 4;
+
+// +X, -X, +Z, -Z
+const BRANCH_DIRS: ReadonlyArray<readonly [number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+function pickSpecies(species: ReadonlyArray<readonly [TreeSpecies, number]>, rng: SeededRandom): TreeSpecies | null {
+  let total = 0;
+  for (const [, weight] of species) total += weight;
+  if (total <= 0) return null;
+  let roll = rng.next() * total;
+  for (const [s, weight] of species) {
+    roll -= weight;
+    if (roll < 0) return s;
+  }
+  return species[species.length - 1][0];
+}
+
+// Placement is decided from the terrain generator alone (never from chunk contents),
+// so every chunk replaying a neighbor's trees agrees on where they stand. Shapes likewise
+// draw the same random numbers whatever the target chunk already holds.
 export class TreeGenerator {
   private seed: number;
-  private terrainGen: TerrainGenerator | null;
+  private terrainGen: TerrainGenerator;
+  private village: VillageGenerator | null;
 
-  constructor(seed: number, terrainGen: TerrainGenerator | null = null) {
+  constructor(seed: number, terrainGen: TerrainGenerator, village: VillageGenerator | null = null) {
     this.seed = seed;
     this.terrainGen = terrainGen;
+    this.village = village;
   }
 
   generate(chunk: Chunk): void {
+    const radius = Config.data.terrain.features.neighborRadius;
+    forEachFeatureSource(chunk, radius, (sourceX, sourceZ) => this.generateSource(chunk, sourceX, sourceZ, radius));
+  }
+
+  private generateSource(chunk: Chunk, sourceX: number, sourceZ: number, radius: number): void {
     const trees = Config.data.terrain.trees;
-    const chunkSeed = (this.seed ^ (chunk.chunkX * 341873128) ^ (chunk.chunkZ * 132897987)) | 0;
+    const chunkSeed = (this.seed ^ (sourceX * 341873128) ^ (sourceZ * 132897987)) | 0;
     const rng = new SeededRandom(chunkSeed);
 
-    const maxTrees = this.getMaxTreesForChunk(chunk, rng);
+    const originX = sourceX * CHUNK_WIDTH;
+    const originZ = sourceZ * CHUNK_DEPTH;
+    // Without neighbors to replay them, canopies must stay inside the source chunk
+    const margin = radius > 0 ? 0 : MAX_CANOPY_RADIUS;
+
+    const maxTrees = this.getMaxTreesForChunk(originX, originZ);
     const maxAttempts = trees.perChunk * MAX_ATTEMPTS_MULTIPLIER;
     let treesPlaced = 0;
 
     for (let i = 0; i < maxAttempts && treesPlaced < maxTrees; i++) {
-      const x = rng.nextInt(2, CHUNK_WIDTH - 2);
-      const z = rng.nextInt(2, CHUNK_DEPTH - 2);
-
-      const surfaceY = this.findSurfaceY(chunk, x, z);
-      if (surfaceY < 0) continue;
+      const worldX = originX + rng.nextInt(margin, CHUNK_WIDTH - margin);
+      const worldZ = originZ + rng.nextInt(margin, CHUNK_DEPTH - margin);
 
-      const worldX = chunk.worldOffsetX + x;
-      const worldZ = chunk.worldOffsetZ + z;
-
-      if (!this.canPlaceTreeAtBiome(worldX, worldZ, surfaceY, rng)) continue;
-      if (!this.canPlaceTree(chunk, x, surfaceY, z)) continue;
+      const surfaceY = this.terrainGen.getSurfaceHeight(worldX, worldZ);
+      const biomeTrees = getBiomeDefinition(this.terrainGen.getBiome(worldX, worldZ, surfaceY)).trees;
+      if (!this.passesBiomeReject(biomeTrees.rejectChance, rng)) continue;
+      const species = pickSpecies(biomeTrees.species, rng);
+      if (species === null || !this.canPlaceTree(worldX, surfaceY, worldZ, species)) continue;
 
       const trunkHeight = rng.nextInt(trees.minTrunkHeight, trees.maxTrunkHeight + 1);
-      this.placeOakTree(chunk, x, surfaceY + 1, z, trunkHeight, rng);
+      this.placeTree(chunk, species, worldX - chunk.worldOffsetX, surfaceY + 1, worldZ - chunk.worldOffsetZ, trunkHeight, rng);
       treesPlaced++;
     }
   }
 
-  private getMaxTreesForChunk(chunk: Chunk, rng: SeededRandom): number {
+  private getMaxTreesForChunk(originX: number, originZ: number): number {
     const perChunk = Config.data.terrain.trees.perChunk;
-    if (!this.terrainGen) return perChunk;
+    const centerX = originX + (CHUNK_WIDTH >> 1);
+    const centerZ = originZ + (CHUNK_DEPTH >> 1);
+    const density = getBiomeDefinition(this.terrainGen.getBiome(centerX, centerZ, 64)).trees.density;
+    // Sparse biomes still get at least one attempt
+    return density > 0 ? Math.max(1, Math.floor(perChunk * density)) : 0;
+  }
 
-    const centerX = chunk.worldOffsetX + (CHUNK_WIDTH >> 1);
-    const centerZ = chunk.worldOffsetZ + (CHUNK_DEPTH >> 1);
-    const biome = this.terrainGen.getBiome(centerX, centerZ, 64);
+  private passesBiomeReject(reject: number, rng: SeededRandom): boolean {
+    if (reject >= 1) return false;
+    if (reject <= 0) return true;
+    return rng.next() > reject;
+  }
 
-    switch (biome) {
-      case BiomeType.FOREST: return perChunk * FOREST_DENSITY_MULTIPLIER;
-      case BiomeType.PLAINS: return perChunk;
-      case BiomeType.TUNDRA: return Math.max(1, perChunk >> SPARSE_BIOME_SHIFT);
-      case BiomeType.MOUNTAINS: return Math.max(1, perChunk >> SPARSE_BIOME_SHIFT);
-      case BiomeType.DESERT: return 0;
-      case BiomeType.OCEAN: return 0;
-      default: return perChunk;
+  private canPlaceTree(worldX: number, surfaceY: number, worldZ: number, species: TreeSpecies): boolean {
+    if (!this.isTreeGround(worldX, worldZ, surfaceY)) return false;
+    if (!this.hasClearance(worldX, surfaceY, worldZ, species)) return false;
+    // 2×2 trunks need all four columns on ground at most one block apart
+    if (species === TreeSpecies.JUNGLE) {
+      for (const [ox, oz] of [[1, 0], [0, 1], [1, 1]]) {
+        const h = this.terrainGen.getSurfaceHeight(worldX + ox, worldZ + oz);
+        if (Math.abs(h - surfaceY) > 1 || !this.isTreeGround(worldX + ox, worldZ + oz, h)) return false;
+      }
     }
+    // Village flattening moves the surface and buildings fill the space above it
+    return !this.village?.isNearVillage(worldX, worldZ, CANOPY_RADIUS[species]);
   }
 
-  private canPlaceTreeAtBiome(worldX: number, worldZ: number, surfaceY: number, rng: SeededRandom): boolean {
-    if (!this.terrainGen) return true;
-    const biome = this.terrainGen.getBiome(worldX, worldZ, surfaceY);
-    switch (biome) {
-      case BiomeType.DESERT: return false;
-      case BiomeType.OCEAN: return false;
-      case BiomeType.TUNDRA: return rng.next() > TUNDRA_REJECT_THRESHOLD;
-      case BiomeType.MOUNTAINS: return rng.next() > MOUNTAINS_REJECT_THRESHOLD;
-      default: return true;
+  // Trunk column up to the tallest canopy, plus the canopy corners from the lowest leaves:
+  // keeps trees out of overhangs, water and the undersides of islands
+  private hasClearance(worldX: number, surfaceY: number, worldZ: number, species: TreeSpecies): boolean {
+    const trees = Config.data.terrain.trees;
+    const top = surfaceY + trees.maxTrunkHeight + TREE_CLEARANCE_EXTRA;
+    if (!this.terrainGen.isOpenAir(worldX, worldZ, surfaceY + 1, top)) return false;
+    const r = CANOPY_RADIUS[species];
+    const leafBottom = surfaceY + Math.max(1, trees.minTrunkHeight - 1);
+    for (const [ox, oz] of [[-r, -r], [r, -r], [-r, r], [r, r]]) {
+      if (!this.terrainGen.isOpenAir(worldX + ox, worldZ + oz, leafBottom, top)) return false;
     }
+    return true;
   }
 
-  private findSurfaceY(chunk: Chunk, x: number, z: number): number {
-    for (let y = CHUNK_HEIGHT - 1; y >= 0; y--) {
-      const block = chunk.getBlock(x, y, z);
-      if (block === BlockType.GRASS_BLOCK || block === BlockType.DIRT || block === BlockType.SNOW) {
-        return y;
+  private isTreeGround(worldX: number, worldZ: number, surfaceY: number): boolean {
+    const surfaceBlock = this.terrainGen.getSurfaceBlockAt(worldX, worldZ, surfaceY);
+    return surfaceBlock === BlockType.GRASS_BLOCK || surfaceBlock === BlockType.SNOW;
+  }
+
+  // Local coords of the target chunk; the trunk column may lie outside it, Chunk.setBlock clips
+  private placeTree(chunk: Chunk, species: TreeSpecies, x: number, baseY: number, z: number, trunkHeight: number, rng: SeededRandom): void {
+    const leafDecay = Config.data.terrain.trees.leafDecayChance;
+    switch (species) {
+      case TreeSpecies.LARGE_OAK: this.placeLargeOakTree(chunk, x, baseY, z, trunkHeight, rng, leafDecay); break;
+      case TreeSpecies.BIRCH: this.placeBirchTree(chunk, x, baseY, z, trunkHeight, rng, leafDecay); break;
+      case TreeSpecies.SPRUCE: this.placeSpruceTree(chunk, x, baseY, z, trunkHeight, rng); break;
+      case TreeSpecies.JUNGLE: this.placeJungleTree(chunk, x, baseY, z, trunkHeight, rng, leafDecay); break;
+      case TreeSpecies.DEAD: this.placeDeadTree(chunk, x, baseY, z, trunkHeight, rng); break;
+      default: this.placeOakTree(chunk, x, baseY, z, trunkHeight, rng, leafDecay); break;
+    }
+  }
+
+  private placeTrunk(chunk: Chunk, x: number, baseY: number, z: number, height: number, log: number): void {
+    chunk.setBlock(x, baseY - 1, z, BlockType.DIRT);
+    for (let y = 0; y < height; y++) {
+      chunk.setBlock(x, baseY + y, z, log);
+    }
+  }
+
+  private placeOakTree(chunk: Chunk, x: number, baseY: number, z: number, trunkHeight: number, rng: SeededRandom, leafDecay: number): void {
+    this.placeTrunk(chunk, x, baseY, z, trunkHeight, BlockType.LOG);
+
+    const leafBaseY = baseY + trunkHeight - 2;
+    this.placeLeafLayer(chunk, x, leafBaseY, z, 2, BlockType.LEAVES, rng, leafDecay);
+    this.placeLeafLayer(chunk, x, leafBaseY + 1, z, 2, BlockType.LEAVES, rng, leafDecay);
+    this.placeLeafLayer(chunk, x, leafBaseY + 2, z, 1, BlockType.LEAVES, rng, leafDecay);
+    this.placeLeafLayerTop(chunk, x, leafBaseY + 3, z, BlockType.LEAVES, rng, leafDecay);
+  }
+
+  // Taller trunk with branches reaching out and up, each ending in a leaf cluster
+  private placeLargeOakTree(chunk: Chunk, x: number, baseY: number, z: number, trunkHeight: number, rng: SeededRandom, leafDecay: number): void {
+    const height = trunkHeight + rng.nextInt(3, 6);
+    this.placeTrunk(chunk, x, baseY, z, height, BlockType.LOG);
+
+    const branchCount = rng.nextInt(2, 5);
+    for (let i = 0; i < branchCount; i++) {
+      const angle = rng.next() * Math.PI * 2;
+      const length = rng.nextInt(2, 4);
+      let bx = x;
+      let bz = z;
+      let by = baseY + Math.floor(height * (0.5 + rng.next() * 0.35));
+      for (let step = 1; step <= length; step++) {
+        bx = x + Math.round(Math.cos(angle) * step);
+        bz = z + Math.round(Math.sin(angle) * step);
+        if (step % 2 === 0) by++;
+        chunk.setBlock(bx, by, bz, BlockType.LOG);
       }
+      this.placeLeafBlob(chunk, bx, by + 1, bz, 2, BlockType.LEAVES, rng, leafDecay);
     }
-    return -1;
+
+    this.placeLeafBlob(chunk, x, baseY + height, z, 3, BlockType.LEAVES, rng, leafDecay);
+  }
+
+  // Slim white trunk, narrow canopy near the top
+  private placeBirchTree(chunk: Chunk, x: number, baseY: number, z: number, trunkHeight: number, rng: SeededRandom, leafDecay: number): void {
+    const height = trunkHeight + rng.nextInt(1, 4);
+    this.placeTrunk(chunk, x, baseY, z, height, BlockType.BIRCH_LOG);
+
+    const topY = baseY + height;
+    this.placeLeafLayer(chunk, x, topY - 3, z, 2, BlockType.BIRCH_LEAVES, rng, leafDecay);
+    this.placeLeafLayer(chunk, x, topY - 2, z, 1, BlockType.BIRCH_LEAVES, rng, leafDecay);
+    this.placeLeafLayer(chunk, x, topY - 1, z, 1, BlockType.BIRCH_LEAVES, rng, leafDecay);
+    this.placeLeafLayerTop(chunk, x, topY, z, BlockType.BIRCH_LEAVES, rng, leafDecay);
   }
 
-  private canPlaceTree(chunk: Chunk, x: number, surfaceY: number, z: number): boolean {
-    const surfaceBlock = chunk.getBlock(x, surfaceY, z);
-    if (surfaceBlock !== BlockType.GRASS_BLOCK && surfaceBlock !== BlockType.SNOW) return false;
+  // Cone of leaf discs widening toward the bottom; every other disc steps in for a tiered look
+  private placeSpruceTree(chunk: Chunk, x: number, baseY: number, z: number, trunkHeight: number, rng: SeededRandom): void {
+    const height = trunkHeight + rng.nextInt(2, 6);
+    const maxRadius = height >= 9 ? 3 : 2;
+    this.placeTrunk(chunk, x, baseY, z, height, BlockType.SPRUCE_LOG);
 
-    for (let y = surfaceY + 1; y < surfaceY + TREE_CLEARANCE_HEIGHT && y < CHUNK_HEIGHT; y++) {
-      if (chunk.getBlock(x, y, z) !== BlockType.AIR) return false;
+    this.tryPlaceLeaf(chunk, x, baseY + height, z, BlockType.SPRUCE_LEAVES);
+    const span = height - 2;
+    for (let dy = height - 1; dy >= 2; dy--) {
+      const fromTop = height - dy;
+      let radius = Math.round((fromTop / span) * maxRadius);
+      if (fromTop % 2 === 0) radius = Math.max(0, radius - 1);
+      this.placeLeafDisc(chunk, x, baseY + dy, z, radius, BlockType.SPRUCE_LEAVES, 0);
     }
-    return true;
   }
 
-  private placeOakTree(chunk: Chunk, x: number, baseY: number, z: number, trunkHeight: number, rng: SeededRandom): void {
-    const leafDecay = Config.data.terrain.trees.leafDecayChance;
-    chunk.setBlock(x, baseY - 1, z, BlockType.DIRT);
+  // 2×2 trunk (x..x+1, z..z+1) with side branches, a wide canopy and vines hanging off its rim
+  private placeJungleTree(chunk: Chunk, x: number, baseY: number, z: number, trunkHeight: number, rng: SeededRandom, leafDecay: number): void {
+    const height = trunkHeight * 2 + rng.nextInt(0, 5);
+    const topY = baseY + height;
+
+    // Each column starts on its own surface (canPlaceTree allows one block of slope)
+    for (let ox = 0; ox <= 1; ox++) {
+      for (let oz = 0; oz <= 1; oz++) {
+        const groundY = this.terrainGen.getSurfaceHeight(chunk.worldOffsetX + x + ox, chunk.worldOffsetZ + z + oz);
+        chunk.setBlock(x + ox, groundY, z + oz, BlockType.DIRT);
+        for (let y = groundY + 1; y < topY; y++) {
+          chunk.setBlock(x + ox, y, z + oz, BlockType.JUNGLE_LOG);
+        }
+      }
+    }
 
-    for (let y = 0; y < trunkHeight; y++) {
-      chunk.setBlock(x, baseY + y, z, BlockType.LOG);
+    const branchCount = rng.nextInt(1, 3);
+    for (let i = 0; i < branchCount; i++) {
+      const [dx, dz] = BRANCH_DIRS[rng.nextInt(0, 4)];
+      const by = baseY + Math.floor(height * (0.5 + rng.next() * 0.3));
+      // Grow from the trunk face on the branch's side
+      const sx = x + (dx > 0 ? 1 : 0);
+      const sz = z + (dz > 0 ? 1 : 0);
+      chunk.setBlock(sx + dx, by, sz + dz, BlockType.JUNGLE_LOG);
+      chunk.setBlock(sx + dx * 2, by + 1, sz + dz * 2, BlockType.JUNGLE_LOG);
+      this.placeLeafBlob(chunk, sx + dx * 2, by + 2, sz + dz * 2, 2, BlockType.JUNGLE_LEAVES, rng, leafDecay);
     }
 
-    const leafBaseY = baseY + trunkHeight - 2;
-    this.placeLeafLayer(chunk, x, leafBaseY, z, 2, rng, leafDecay);
-    this.placeLeafLayer(chunk, x, leafBaseY + 1, z, 2, rng, leafDecay);
-    this.placeLeafLayer(chunk, x, leafBaseY + 2, z, 1, rng, leafDecay);
-    this.placeLeafLayerTop(chunk, x, leafBaseY + 3, z, rng, leafDecay);
+    const canopyRadii = [4, 4, 3, 2];
+    for (let i = 0; i < canopyRadii.length; i++) {
+      this.placeLeafDisc(chunk, x, topY - 2 + i, z, canopyRadii[i], BlockType.JUNGLE_LEAVES, 0.5);
+    }
+    this.placeVines(chunk, x, topY - 3, z, canopyRadii[0], rng);
   }
 
-  private placeLeafLayer(chunk: Chunk, cx: number, y: number, cz: number, radius: number, rng: SeededRandom, leafDecay: number): void {
+  // Bare trunk with a few short stubs
+  private placeDeadTree(chunk: Chunk, x: number, baseY: number, z: number, trunkHeight: number, rng: SeededRandom): void {
+    const height = Math.max(3, trunkHeight - rng.nextInt(0, 3));
+    this.placeTrunk(chunk, x, baseY, z, height, BlockType.LOG);
+
+    const stubCount = rng.nextInt(1, 4);
+    for (let i = 0; i < stubCount; i++) {
+      const [dx, dz] = BRANCH_DIRS[rng.nextInt(0, 4)];
+      const sy = baseY + rng.nextInt(height >> 1, height);
+      const length = rng.nextInt(1, 3);
+      for (let step = 1; step <= length; step++) {
+        chunk.setBlock(x + dx * step, sy + step - 1, z + dz * step, BlockType.LOG);
+      }
+    }
+  }
+
+  private placeLeafLayer(chunk: Chunk, cx: number, y: number, cz: number, radius: number, leaves: number, rng: SeededRandom, leafDecay: number): void {
     for (let dx = -radius; dx <= radius; dx++) {
       for (let dz = -radius; dz <= radius; dz++) {
         if (Math.abs(dx) === radius && Math.abs(dz) === radius) {
           if (rng.next() < leafDecay) continue;
         }
-        const bx = cx + dx, bz = cz + dz;
-        if (!chunk.isInBounds(bx, y, bz)) continue;
-        if (chunk.getBlock(bx, y, bz) === BlockType.AIR) {
-          chunk.setBlock(bx, y, bz, BlockType.LEAVES);
+        this.tryPlaceLeaf(chunk, cx + dx, y, cz + dz, leaves);
+      }
+    }
+  }
+
+  private placeLeafLayerTop(chunk: Chunk, cx: number, y: number, cz: number, leaves: number, rng: SeededRandom, leafDecay: number): void {
+    this.tryPlaceLeaf(chunk, cx, y, cz, leaves);
+    if (rng.next() > leafDecay) this.tryPlaceLeaf(chunk, cx + 1, y, cz, leaves);
+    if (rng.next() > leafDecay) this.tryPlaceLeaf(chunk, cx - 1, y, cz, leaves);
+    if (rng.next() > leafDecay) this.tryPlaceLeaf(chunk, cx, y, cz + 1, leaves);
+    if (rng.next() > leafDecay) this.tryPlaceLeaf(chunk, cx, y, cz - 1, leaves);
+  }
+
+  // Round layer; center 0.5 centers it on a 2×2 trunk at (cx..cx+1, cz..cz+1)
+  private placeLeafDisc(chunk: Chunk, cx: number, y: number, cz: number, radius: number, leaves: number, center: number): void {
+    const limit = radius * radius + radius;
+    const extra = center > 0 ? 1 : 0;
+    for (let dx = -radius; dx <= radius + extra; dx++) {
+      for (let dz = -radius; dz <= radius + extra; dz++) {
+        const fx = dx - center;
+        const fz = dz - center;
+        if (fx * fx + fz * fz <= limit) this.tryPlaceLeaf(chunk, cx + dx, y, cz + dz, leaves);
+      }
+    }
+  }
+
+  // Sphere; the outer shell thins out by leafDecay
+  private placeLeafBlob(chunk: Chunk, cx: number, cy: number, cz: number, radius: number, leaves: number, rng: SeededRandom, leafDecay: number): void {
+    const r2 = radius * radius;
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        for (let dz = -radius; dz <= radius; dz++) {
+          const d2 = dx * dx + dy * dy + dz * dz;
+          if (d2 > r2 + 1) continue;
+          if (d2 >= r2 && rng.next() < leafDecay) continue;
+          this.tryPlaceLeaf(chunk, cx + dx, cy + dy, cz + dz, leaves);
         }
       }
     }
   }
 
-  private placeLeafLayerTop(chunk: Chunk, cx: number, y: number, cz: number, rng: SeededRandom, leafDecay: number): void {
-    this.tryPlaceLeaf(chunk, cx, y, cz);
-    if (rng.next() > leafDecay) this.tryPlaceLeaf(chunk, cx + 1, y, cz);
-    if (rng.next() > leafDecay) this.tryPlaceLeaf(chunk, cx - 1, y, cz);
-    if (rng.next() > leafDecay) this.tryPlaceLeaf(chunk, cx, y, cz + 1);
-    if (rng.next() > leafDecay) this.tryPlaceLeaf(chunk, cx, y, cz - 1);
+  // Vines hanging below the rim of a 2×2-centered canopy disc at y + 1
+  private placeVines(chunk: Chunk, cx: number, y: number, cz: number, radius: number, rng: SeededRandom): void {
+    const outer = radius * radius + radius;
+    const inner = (radius - 1) * (radius - 1) + (radius - 1);
+    for (let dx = -radius; dx <= radius + 1; dx++) {
+      for (let dz = -radius; dz <= radius + 1; dz++) {
+        const fx = dx - 0.5;
+        const fz = dz - 0.5;
+        const d2 = fx * fx + fz * fz;
+        if (d2 > outer || d2 <= inner) continue;
+        if (rng.next() >= VINE_CHANCE) continue;
+        const length = rng.nextInt(1, MAX_VINE_LENGTH + 1);
+        for (let i = 0; i < length; i++) {
+          const vx = cx + dx;
+          const vy = y - i;
+          const vz = cz + dz;
+          if (!chunk.isInBounds(vx, vy, vz) || chunk.getBlock(vx, vy, vz) !== BlockType.AIR) break;
+          chunk.setBlock(vx, vy, vz, BlockType.VINES);
+        }
+      }
+    }
   }
 
-  private tryPlaceLeaf(chunk: Chunk, x: number, y: number, z: number): void {
+  private tryPlaceLeaf(chunk: Chunk, x: number, y: number, z: number, leaves: number): void {
     if (!chunk.isInBounds(x, y, z)) return;
     if (chunk.getBlock(x, y, z) === BlockType.AIR) {
-      chunk.setBlock(x, y, z, BlockType.LEAVES);
+      chunk.setBlock(x, y, z, leaves);
     }
   }
 }
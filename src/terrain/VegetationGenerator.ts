@@ -1,13 +1,12 @@
 import { SeededRandom } from '../noise/SeededRandom';
 import { Chunk } from './Chunk';
 import { BlockType } from './BlockTypes';
-import { BiomeType } from './BiomeTypes';
+import { BiomeDefinition, BiomeType, getBiomeDefinition } from './BiomeTypes';
 import { TerrainGenerator } from './TerrainGenerator';
 import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
+import { Config } from '../config/Config';
 
-const VEGETATION_DENSITY = 0.30;
-const GRASS_RATIO = 0.80;
-const POPPY_RATIO = 0.90;
+const DEFAULT_VEGETATION = getBiomeDefinition(BiomeType.PLAINS).vegetation;
 
 export class VegetationGenerator {
   private seed: number;
@@ -28,23 +27,24 @@ export class VegetationGenerator {
         if (surfaceY < 0) continue;
         if (surfaceY + 1 >= CHUNK_HEIGHT) continue;
 
-        // Check biome filter
+        // Biome vegetation rules
         const worldX = chunk.worldOffsetX + x;
         const worldZ = chunk.worldOffsetZ + z;
-        if (!this.canPlaceVegetation(worldX, worldZ, surfaceY)) continue;
+        const vegetation = this.getVegetationRules(worldX, worldZ, surfaceY);
+        const density = vegetation.density + this.getRiverbankBonus(worldX, worldZ);
+        if (density <= 0) continue;
 
-        // ~30% density
-        if (rng.next() > VEGETATION_DENSITY) continue;
+        if (rng.next() > density) continue;
 
         // Above must be air
         if (chunk.getBlock(x, surfaceY + 1, z) !== BlockType.AIR) continue;
 
-        // Distribution: 80% grass, 10% poppy, 10% dandelion
+        // Distribution: tall grass, then poppy, then dandelion
         const roll = rng.next();
         let vegType: number;
-        if (roll < GRASS_RATIO) {
+        if (roll < vegetation.grass) {
           vegType = BlockType.TALL_GRASS;
-        } else if (roll < POPPY_RATIO) {
+        } else if (roll < vegetation.poppy) {
           vegType = BlockType.POPPY;
         } else {
           vegType = BlockType.DANDELION;
@@ -64,17 +64,14 @@ export class VegetationGenerator {
     return -1;
   }
 
-  private canPlaceVegetation(worldX: number, worldZ: number, surfaceY: number): boolean {
-    if (!this.terrainGen) return true;
-    const biome = this.terrainGen.getBiome(worldX, worldZ, surfaceY);
-    switch (biome) {
-      case BiomeType.DESERT:
-      case BiomeType.OCEAN:
-      case BiomeType.TUNDRA:
-      case BiomeType.MOUNTAINS:
-        return false;
-      default:
-        return true;
-    }
+  // Riverbanks grow denser vegetation, even in biomes that otherwise have none
+  private getRiverbankBonus(worldX: number, worldZ: number): number {
+    if (!this.terrainGen) return 0;
+    return Config.data.terrain.rivers.bankVegetation * this.terrainGen.getRiverProximity(worldX, worldZ);
+  }
+
+  private getVegetationRules(worldX: number, worldZ: number, surfaceY: number): BiomeDefinition['vegetation'] {
+    if (!this.terrainGen) return DEFAULT_VEGETATION;
+    return getBiomeDefinition(this.terrainGen.getBiome(worldX, worldZ, surfaceY)).vegetation;
   }
 }
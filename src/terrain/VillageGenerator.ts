@@ -1,89 +1,296 @@
+// Villages on a region grid: every terrain.villages.spacing × spacing cell rolls for at most one
+// village, placed far enough from the cell edges that it never reaches into another cell.
+// A village is a plaza plus a random set of structure templates (see StructureRegistry) around it,
+// joined by paths that follow the terrain. Layouts depend only on the seed and the terrain
+// generator, so every chunk a village touches builds the same village regardless of generation order.
 import { Chunk } from './Chunk';
 import { BlockType, TorchFacing } from './BlockTypes';
-import { BiomeType } from './BiomeTypes';
+import { getBiomeDefinition } from './BiomeTypes';
 import { TerrainGenerator } from './TerrainGenerator';
+import {
+  Rotation, StructureBounds, StructurePlacement, StructureTemplate,
+  structureBounds, stampStructure, transformOffset,
+} from './StructureTemplate';
+import { getVillageTemplates } from './StructureRegistry';
 import { SeededRandom } from '../noise/SeededRandom';
 import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
+import { Config } from '../config/Config';
+
+const VILLAGE_RADIUS = 28;     // buildings, pads and paths stay inside this circle
+const BLEND_MARGIN = 4;        // flattened ground ramps back to the terrain over this distance
+// Pad blends are square, so their corners reach up to √2 × BLEND_MARGIN past the radius
+const VILLAGE_EXTENT = VILLAGE_RADIUS + BLEND_MARGIN * 2;
+
+const PLAZA_RADIUS = 6;
+const PAD_BORDER = 1;          // flattened ground around a building footprint
+const BUILDING_GAP = 2;        // free columns kept between building footprints
+const PLACEMENT_ATTEMPTS = 8;
+const MAX_PAD_STEP = 8;        // max height difference between a building pad and the plaza
+const SITE_SAMPLES = 8;        // plaza ring samples that must be dry land near the plaza height
+const PATH_HALF_WIDTH = 1;
+const DIRT_FILL_DEPTH = 3;
+const MAX_CACHED_VILLAGES = 512;  // region cells kept laid out (least recently used evicted)
+
+interface PlacedBuilding {
+  template: StructureTemplate;
+  placement: StructurePlacement;
+  bounds: StructureBounds;
+}
+
+interface Village {
+  centerX: number;
+  centerZ: number;
+  baseY: number;
+  buildings: PlacedBuilding[];
+  /** Path columns, keyed by pathKey relative to the center */
+  paths: Set<number>;
+}
+
+function pathKey(dx: number, dz: number): number {
+  return (dx + 64) + (dz + 64) * 128;
+}
+
+function pickTemplate(rng: SeededRandom, placed: Map<StructureTemplate, number>): StructureTemplate | null {
+  const available = getVillageTemplates().filter((t) => (placed.get(t) ?? 0) < t.village!.maxCount);
+  let total = 0;
+  for (const t of available) total += t.village!.weight;
+  if (total <= 0) return null;
+  let roll = rng.next() * total;
+  for (const t of available) {
+    roll -= t.village!.weight;
+    if (roll < 0) return t;
+  }
+  return available[available.length - 1];
+}
+
+// Rotation that turns a template's -Z door wall toward the direction (dx, dz)
+function rotationFacing(dx: number, dz: number): Rotation {
+  if (Math.abs(dx) > Math.abs(dz)) return dx > 0 ? 1 : 3;
+  return dz > 0 ? 2 : 0;
+}
+
+function isInBounds(b: StructureBounds, x: number, z: number): boolean {
+  return x >= b.minX && x <= b.maxX && z >= b.minZ && z <= b.maxZ;
+}
 
 export class VillageGenerator {
-  private villageCenterX: number;
-  private villageCenterZ: number;
-  private villageBaseY: number;
-  private valid: boolean;
-
-  private static readonly VILLAGE_RADIUS = 24;
-  private static readonly BLEND_MARGIN = 6;
-
-  private static readonly PLAZA_RADIUS = 6;
-
-  private static readonly TOWER_OFFSET_X = 2;
-  private static readonly TOWER_OFFSET_Z = 2;
-  private static readonly TOWER_HEIGHT = 16;
-  private static readonly TOWER_WALL_SIZE = 5;
-  private static readonly TOWER_WINDOW_MIN_Y = 5;
-  private static readonly TOWER_WINDOW_MAX_Y = 7;
-
-  private static readonly HOUSE_OFFSET_X = -8;
-  private static readonly HOUSE_OFFSET_Z = -6;
-  private static readonly HOUSE_WIDTH = 7;
-  private static readonly HOUSE_DEPTH = 5;
-  private static readonly HOUSE_WALL_HEIGHT = 5;
-
-  private static readonly DIRT_FILL_DEPTH = 3;
-
-  constructor(seed: number, private terrainGen: TerrainGenerator) {
-    const rng = new SeededRandom(seed + 77777);
-
-    // Generate several candidates near spawn (-8 to +24)
-    let bestX = 8;
-    let bestZ = 8;
-    let found = false;
-
-    for (let i = 0; i < 12; i++) {
-      const cx = rng.nextInt(-8, 25);
-      const cz = rng.nextInt(-8, 25);
-      const h = terrainGen.getSurfaceHeight(cx, cz);
-      const biome = terrainGen.getBiome(cx, cz, h);
-      if (biome === BiomeType.PLAINS || biome === BiomeType.FOREST) {
-        bestX = cx;
-        bestZ = cz;
-        found = true;
-        break;
+  private seed: number;
+  private terrainGen: TerrainGenerator;
+  // Village (or null) per region cell "rx,rz", in least-recently-used order
+  private villages = new Map<string, Village | null>();
+
+  constructor(seed: number, terrainGen: TerrainGenerator) {
+    this.seed = seed;
+    this.terrainGen = terrainGen;
+  }
+
+  generate(chunk: Chunk): void {
+    const minX = chunk.worldOffsetX;
+    const minZ = chunk.worldOffsetZ;
+    this.forEachVillage(minX, minZ, minX + CHUNK_WIDTH, minZ + CHUNK_DEPTH, (village) => {
+      this.flattenTerrain(chunk, village);
+      this.buildPlaza(chunk, village);
+      this.buildPaths(chunk, village);
+      for (const { template, placement } of village.buildings) stampStructure(chunk, template, placement);
+    });
+  }
+
+  /** Whether a world column lies within `margin` blocks of a village's flattened area */
+  isNearVillage(worldX: number, worldZ: number, margin = 0): boolean {
+    const r = VILLAGE_EXTENT + margin;
+    let near = false;
+    this.forEachVillage(worldX - margin, worldZ - margin, worldX + margin + 1, worldZ + margin + 1, (village) => {
+      const dx = worldX - village.centerX;
+      const dz = worldZ - village.centerZ;
+      if (dx * dx + dz * dz <= r * r) near = true;
+    });
+    return near;
+  }
+
+  // Villages whose extent overlaps the world XZ box (max exclusive)
+  private forEachVillage(minX: number, minZ: number, maxX: number, maxZ: number, fn: (village: Village) => void): void {
+    const villages = Config.data.terrain.villages;
+    if (!villages.enabled) return;
+    const spacing = villages.spacing;
+
+    for (let rz = Math.floor(minZ / spacing); rz <= Math.floor((maxZ - 1) / spacing); rz++) {
+      for (let rx = Math.floor(minX / spacing); rx <= Math.floor((maxX - 1) / spacing); rx++) {
+        const village = this.getVillage(rx, rz);
+        if (!village) continue;
+        if (village.centerX + VILLAGE_EXTENT < minX || village.centerX - VILLAGE_EXTENT >= maxX) continue;
+        if (village.centerZ + VILLAGE_EXTENT < minZ || village.centerZ - VILLAGE_EXTENT >= maxZ) continue;
+        fn(village);
       }
     }
+  }
 
-    this.villageCenterX = bestX;
-    this.villageCenterZ = bestZ;
-    this.villageBaseY = terrainGen.getSurfaceHeight(bestX, bestZ);
-    this.valid = found;
+  private getVillage(rx: number, rz: number): Village | null {
+    const key = `${rx},${rz}`;
+    let village = this.villages.get(key);
+    if (village === undefined) {
+      village = this.layoutVillage(rx, rz);
+      if (this.villages.size >= MAX_CACHED_VILLAGES) {
+        this.villages.delete(this.villages.keys().next().value!);
+      }
+    } else {
+      // Re-insert so the oldest entry stays first
+      this.villages.delete(key);
+    }
+    this.villages.set(key, village);
+    return village;
   }
 
-  generate(chunk: Chunk): void {
-    if (!this.valid) return;
-
-    const r = VillageGenerator.VILLAGE_RADIUS + VillageGenerator.BLEND_MARGIN;
-    // AABB overlap check
-    const chunkMinX = chunk.worldOffsetX;
-    const chunkMinZ = chunk.worldOffsetZ;
-    const chunkMaxX = chunkMinX + CHUNK_WIDTH;
-    const chunkMaxZ = chunkMinZ + CHUNK_DEPTH;
-
-    const vilMinX = this.villageCenterX - r;
-    const vilMaxX = this.villageCenterX + r;
-    const vilMinZ = this.villageCenterZ - r;
-    const vilMaxZ = this.villageCenterZ + r;
-
-    if (chunkMaxX <= vilMinX || chunkMinX >= vilMaxX ||
-        chunkMaxZ <= vilMinZ || chunkMinZ >= vilMaxZ) {
-      return;
+  // ---- Layout (terrain generator only, never chunk contents) ----
+
+  private layoutVillage(rx: number, rz: number): Village | null {
+    const config = Config.data.terrain.villages;
+    const rng = new SeededRandom((this.seed ^ Math.imul(rx, 73856093) ^ Math.imul(rz, 19349663)) + 77777);
+    if (rng.next() >= config.chance) return null;
+
+    const span = config.spacing - VILLAGE_EXTENT * 2;
+    const centerX = rx * config.spacing + VILLAGE_EXTENT + rng.nextInt(0, span + 1);
+    const centerZ = rz * config.spacing + VILLAGE_EXTENT + rng.nextInt(0, span + 1);
+    if (!this.isSuitableSite(centerX, centerZ)) return null;
+
+    const village: Village = {
+      centerX, centerZ,
+      baseY: this.terrainGen.getSurfaceHeight(centerX, centerZ),
+      buildings: [],
+      paths: new Set(),
+    };
+
+    const count = rng.nextInt(config.minBuildings, config.maxBuildings + 1);
+    const placed = new Map<StructureTemplate, number>();
+    for (let i = 0; i < count; i++) {
+      const template = pickTemplate(rng, placed);
+      if (!template) break;
+      const building = this.placeBuilding(village, template, rng);
+      if (!building) continue;
+      village.buildings.push(building);
+      placed.set(template, (placed.get(template) ?? 0) + 1);
+    }
+
+    for (const building of village.buildings) this.layPath(village, building);
+    return village;
+  }
+
+  // Village biome at the center, dry and fairly level around the plaza
+  private isSuitableSite(centerX: number, centerZ: number): boolean {
+    const seaLevel = Config.data.terrain.height.seaLevel;
+    const baseY = this.terrainGen.getSurfaceHeight(centerX, centerZ);
+    if (baseY <= seaLevel) return false;
+    if (!getBiomeDefinition(this.terrainGen.getBiome(centerX, centerZ, baseY)).villages) return false;
+
+    for (let i = 0; i < SITE_SAMPLES; i++) {
+      const angle = (i / SITE_SAMPLES) * Math.PI * 2;
+      const x = Math.round(centerX + Math.cos(angle) * PLAZA_RADIUS);
+      const z = Math.round(centerZ + Math.sin(angle) * PLAZA_RADIUS);
+      const h = this.terrainGen.getSurfaceHeight(x, z);
+      if (h <= seaLevel || Math.abs(h - baseY) > MAX_PAD_STEP) return false;
+    }
+    return true;
+  }
+
+  private placeBuilding(village: Village, template: StructureTemplate, rng: SeededRandom): PlacedBuilding | null {
+    const seaLevel = Config.data.terrain.height.seaLevel;
+    // Footprint plus pad border stays inside the village radius
+    const halfDiagonal = Math.hypot(template.sizeX, template.sizeZ) / 2;
+    const minDist = PLAZA_RADIUS + BUILDING_GAP + halfDiagonal;
+    const maxDist = VILLAGE_RADIUS - halfDiagonal - PAD_BORDER;
+    if (maxDist < minDist) return null;
+
+    for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+      const angle = rng.next() * Math.PI * 2;
+      const dist = rng.nextFloat(minDist, maxDist);
+      const x = village.centerX + Math.cos(angle) * dist;
+      const z = village.centerZ + Math.sin(angle) * dist;
+
+      // Door toward the plaza; skip templates that can't turn that way
+      const rotation = rotationFacing(village.centerX - x, village.centerZ - z);
+      if (!template.rotations.includes(rotation)) continue;
+      const mirror = template.mirror && rng.next() < 0.5;
+
+      // Center the rotated footprint on (x, z)
+      const local = structureBounds(template, { x: 0, y: 0, z: 0, rotation, mirror });
+      const originX = Math.round(x - (local.maxX - local.minX + 1) / 2) - local.minX;
+      const originZ = Math.round(z - (local.maxZ - local.minZ + 1) / 2) - local.minZ;
+      const bounds: StructureBounds = {
+        minX: originX + local.minX, minZ: originZ + local.minZ,
+        maxX: originX + local.maxX, maxZ: originZ + local.maxZ,
+      };
+
+      const overlaps = village.buildings.some(({ bounds: o }) =>
+        bounds.minX <= o.maxX + BUILDING_GAP && o.minX <= bounds.maxX + BUILDING_GAP &&
+        bounds.minZ <= o.maxZ + BUILDING_GAP && o.minZ <= bounds.maxZ + BUILDING_GAP);
+      if (overlaps) continue;
+
+      const baseY = this.terrainGen.getSurfaceHeight(Math.round(x), Math.round(z));
+      if (baseY <= seaLevel || Math.abs(baseY - village.baseY) > MAX_PAD_STEP) continue;
+
+      return { template, placement: { x: originX, y: baseY, z: originZ, rotation, mirror }, bounds };
     }
+    return null;
+  }
+
+  // Straight path from just outside the door to the plaza, skipping plaza and footprint columns
+  private layPath(village: Village, building: PlacedBuilding): void {
+    const { template, placement } = building;
+    const { doorX, doorZ } = template.village!;
+    const [doorDX, doorDZ] = transformOffset(doorX - template.anchorX, doorZ - template.anchorZ, placement.rotation, placement.mirror);
+    const [outX, outZ] = transformOffset(0, -1, placement.rotation, placement.mirror);
+    const startX = placement.x + doorDX + outX;
+    const startZ = placement.z + doorDZ + outZ;
+    const dx = village.centerX - startX;
+    const dz = village.centerZ - startZ;
+    const steps = Math.max(Math.abs(dx), Math.abs(dz));
+
+    for (let i = 0; i <= steps; i++) {
+      const t = steps > 0 ? i / steps : 0;
+      const px = Math.round(startX + dx * t);
+      const pz = Math.round(startZ + dz * t);
+      for (let oz = -PATH_HALF_WIDTH; oz <= PATH_HALF_WIDTH; oz++) {
+        for (let ox = -PATH_HALF_WIDTH; ox <= PATH_HALF_WIDTH; ox++) {
+          const x = px + ox;
+          const z = pz + oz;
+          const cx = x - village.centerX;
+          const cz = z - village.centerZ;
+          if (cx * cx + cz * cz <= PLAZA_RADIUS * PLAZA_RADIUS) continue;
+          if (village.buildings.some((b) => isInBounds(b.bounds, x, z))) continue;
+          village.paths.add(pathKey(cx, cz));
+        }
+      }
+    }
+  }
+
+  // Flattened height of a column near the plaza or a building pad (null = untouched terrain)
+  private flattenTarget(village: Village, worldX: number, worldZ: number, originalY: number): number | null {
+    let bestDist = Infinity;
+    let target = originalY;
+    const consider = (dist: number, baseY: number) => {
+      if (dist > BLEND_MARGIN || dist >= bestDist) return;
+      bestDist = dist;
+      // Linear blend from the pad height back to the original terrain across the margin
+      target = Math.round(baseY + (originalY - baseY) * dist / (BLEND_MARGIN + 1));
+    };
+
+    const dx = worldX - village.centerX;
+    const dz = worldZ - village.centerZ;
+    consider(Math.max(0, Math.sqrt(dx * dx + dz * dz) - PLAZA_RADIUS), village.baseY);
+    for (const { bounds: b, placement } of village.buildings) {
+      const outX = Math.max(b.minX - PAD_BORDER - worldX, worldX - (b.maxX + PAD_BORDER), 0);
+      const outZ = Math.max(b.minZ - PAD_BORDER - worldZ, worldZ - (b.maxZ + PAD_BORDER), 0);
+      consider(Math.max(outX, outZ), placement.y);
+    }
+    return bestDist === Infinity ? null : target;
+  }
 
-    this.flattenTerrain(chunk);
-    this.buildPlaza(chunk);
-    this.buildWatchtower(chunk);
-    this.buildHouse(chunk);
+  private groundHeight(village: Village, worldX: number, worldZ: number): number {
+    const originalY = this.terrainGen.getSurfaceHeight(worldX, worldZ);
+    return this.flattenTarget(village, worldX, worldZ, originalY) ?? originalY;
   }
 
+  // ---- Chunk stamping (clipped to the chunk) ----
+
   private setWorldBlock(chunk: Chunk, worldX: number, worldY: number, worldZ: number, blockType: number): void {
     const localX = worldX - chunk.worldOffsetX;
     const localZ = worldZ - chunk.worldOffsetZ;
@@ -100,65 +307,41 @@ export class VillageGenerator {
     chunk.setBlockWithMeta(localX, worldY, localZ, BlockType.TORCH, facing);
   }
 
-  private getWorldBlock(chunk: Chunk, worldX: number, worldY: number, worldZ: number): number {
-    const localX = worldX - chunk.worldOffsetX;
-    const localZ = worldZ - chunk.worldOffsetZ;
-    if (localX < 0 || localX >= CHUNK_WIDTH || localZ < 0 || localZ >= CHUNK_DEPTH) return -1;
-    if (worldY < 0 || worldY >= CHUNK_HEIGHT) return -1;
-    return chunk.getBlock(localX, worldY, localZ);
-  }
-
-  private flattenTerrain(chunk: Chunk): void {
-    const cx = this.villageCenterX;
-    const cz = this.villageCenterZ;
-    const baseY = this.villageBaseY;
-    const totalR = VillageGenerator.VILLAGE_RADIUS + VillageGenerator.BLEND_MARGIN;
-    const innerR = VillageGenerator.VILLAGE_RADIUS;
+  private flattenTerrain(chunk: Chunk, village: Village): void {
+    const minX = Math.max(chunk.worldOffsetX, village.centerX - VILLAGE_EXTENT);
+    const maxX = Math.min(chunk.worldOffsetX + CHUNK_WIDTH - 1, village.centerX + VILLAGE_EXTENT);
+    const minZ = Math.max(chunk.worldOffsetZ, village.centerZ - VILLAGE_EXTENT);
+    const maxZ = Math.min(chunk.worldOffsetZ + CHUNK_DEPTH - 1, village.centerZ + VILLAGE_EXTENT);
 
-    for (let wx = cx - totalR; wx <= cx + totalR; wx++) {
-      for (let wz = cz - totalR; wz <= cz + totalR; wz++) {
+    for (let wx = minX; wx <= maxX; wx++) {
+      for (let wz = minZ; wz <= maxZ; wz++) {
+        const originalY = this.terrainGen.getSurfaceHeight(wx, wz);
+        const targetY = this.flattenTarget(village, wx, wz, originalY);
+        if (targetY === null) continue;
         const localX = wx - chunk.worldOffsetX;
         const localZ = wz - chunk.worldOffsetZ;
-        if (localX < 0 || localX >= CHUNK_WIDTH || localZ < 0 || localZ >= CHUNK_DEPTH) continue;
-
-        const dx = wx - cx;
-        const dz = wz - cz;
-        const dist = Math.sqrt(dx * dx + dz * dz);
-        if (dist > totalR) continue;
-
-        const originalY = this.terrainGen.getSurfaceHeight(wx, wz);
-        let targetY: number;
-
-        if (dist <= innerR) {
-          targetY = baseY;
-        } else {
-          // Linear blend from baseY to originalY in the margin zone
-          const t = (dist - innerR) / VillageGenerator.BLEND_MARGIN;
-          targetY = Math.round(baseY + (originalY - baseY) * t);
-        }
 
-        // Fill column: above targetY → AIR, surface → GRASS_BLOCK, below → DIRT
-        for (let y = targetY + 1; y < CHUNK_HEIGHT; y++) {
+        // Cut down to the target, then grass over dirt (filled up from lower original ground).
+        // The surface may be an island or overhang: only clear ground connected to the target
+        const clearTop = Math.min(originalY, this.terrainGen.getConnectedTop(wx, wz, targetY + 1));
+        for (let y = targetY + 1; y <= clearTop; y++) {
           chunk.setBlock(localX, y, localZ, BlockType.AIR);
         }
         chunk.setBlock(localX, targetY, localZ, BlockType.GRASS_BLOCK);
-        for (let y = targetY - 1; y >= targetY - VillageGenerator.DIRT_FILL_DEPTH && y > 0; y--) {
+        for (let y = targetY - 1; y > 0 && (y >= targetY - DIRT_FILL_DEPTH || y > originalY); y--) {
           chunk.setBlock(localX, y, localZ, BlockType.DIRT);
         }
       }
     }
   }
 
-  private buildPlaza(chunk: Chunk): void {
-    const cx = this.villageCenterX;
-    const cz = this.villageCenterZ;
-    const y = this.villageBaseY;
-    const plazaRadius = VillageGenerator.PLAZA_RADIUS;
+  private buildPlaza(chunk: Chunk, village: Village): void {
+    const { centerX: cx, centerZ: cz, baseY: y } = village;
 
     // Circular cobblestone floor
-    for (let dx = -plazaRadius; dx <= plazaRadius; dx++) {
-      for (let dz = -plazaRadius; dz <= plazaRadius; dz++) {
-        if (dx * dx + dz * dz <= plazaRadius * plazaRadius) {
+    for (let dx = -PLAZA_RADIUS; dx <= PLAZA_RADIUS; dx++) {
+      for (let dz = -PLAZA_RADIUS; dz <= PLAZA_RADIUS; dz++) {
+        if (dx * dx + dz * dz <= PLAZA_RADIUS * PLAZA_RADIUS) {
           this.setWorldBlock(chunk, cx + dx, y, cz + dz, BlockType.COBBLESTONE);
         }
       }
@@ -179,143 +362,22 @@ export class VillageGenerator {
     }
   }
 
-  private buildWatchtower(chunk: Chunk): void {
-    const tx = this.villageCenterX + VillageGenerator.TOWER_OFFSET_X;
-    const tz = this.villageCenterZ + VillageGenerator.TOWER_OFFSET_Z;
-    const baseY = this.villageBaseY;
-    const towerHeight = VillageGenerator.TOWER_HEIGHT;
-    const wallSize = VillageGenerator.TOWER_WALL_SIZE;
-
-    // Build 5x5 hollow stone brick walls
-    for (let dy = 1; dy <= towerHeight; dy++) {
-      const wy = baseY + dy;
-      for (let dx = 0; dx < wallSize; dx++) {
-        for (let dz = 0; dz < wallSize; dz++) {
-          const isWall = dx === 0 || dx === wallSize - 1 || dz === 0 || dz === wallSize - 1;
-          if (isWall) {
-            this.setWorldBlock(chunk, tx + dx, wy, tz + dz, BlockType.STONE_BRICKS);
-          } else {
-            // Clear interior
-            this.setWorldBlock(chunk, tx + dx, wy, tz + dz, BlockType.AIR);
-          }
-        }
-      }
-    }
-
-    // Window openings on each wall face at levels 5-7
-    for (let dy = VillageGenerator.TOWER_WINDOW_MIN_Y; dy <= VillageGenerator.TOWER_WINDOW_MAX_Y; dy++) {
-      const wy = baseY + dy;
-      // North wall center (dz=0, dx=2)
-      this.setWorldBlock(chunk, tx + 2, wy, tz, BlockType.GLASS);
-      // South wall center (dz=4, dx=2)
-      this.setWorldBlock(chunk, tx + 2, wy, tz + 4, BlockType.GLASS);
-      // West wall center (dx=0, dz=2)
-      this.setWorldBlock(chunk, tx, wy, tz + 2, BlockType.GLASS);
-      // East wall center (dx=4, dz=2)
-      this.setWorldBlock(chunk, tx + 4, wy, tz + 2, BlockType.GLASS);
-    }
-
-    // Top platform: 7x7 stone brick platform overhanging 1 block each side
-    const topY = baseY + towerHeight + 1;
-    for (let dx = -1; dx <= wallSize; dx++) {
-      for (let dz = -1; dz <= wallSize; dz++) {
-        this.setWorldBlock(chunk, tx + dx, topY, tz + dz, BlockType.STONE_BRICKS);
-      }
-    }
-
-    // Railing (1-block high wall around platform edge)
-    const railY = topY + 1;
-    for (let dx = -1; dx <= wallSize; dx++) {
-      for (let dz = -1; dz <= wallSize; dz++) {
-        const isEdge = dx === -1 || dx === wallSize || dz === -1 || dz === wallSize;
-        if (isEdge) {
-          this.setWorldBlock(chunk, tx + dx, railY, tz + dz, BlockType.STONE_BRICKS);
-        }
-      }
-    }
-
-    // Torch beacons on top: 4 corners + 1 center (floor torches)
-    const torchY = railY + 1;
-    this.setTorchBlock(chunk, tx - 1, torchY, tz - 1, TorchFacing.FLOOR);
-    this.setTorchBlock(chunk, tx + wallSize, torchY, tz - 1, TorchFacing.FLOOR);
-    this.setTorchBlock(chunk, tx - 1, torchY, tz + wallSize, TorchFacing.FLOOR);
-    this.setTorchBlock(chunk, tx + wallSize, torchY, tz + wallSize, TorchFacing.FLOOR);
-    // Center top torch pillar
-    this.setWorldBlock(chunk, tx + 2, topY + 1, tz + 2, BlockType.STONE_BRICKS);
-    this.setTorchBlock(chunk, tx + 2, topY + 2, tz + 2, TorchFacing.FLOOR);
-
-    // Interior wall torches (level 3, on south and north walls)
-    this.setTorchBlock(chunk, tx + 2, baseY + 3, tz + 1, TorchFacing.SOUTH);
-    this.setTorchBlock(chunk, tx + 2, baseY + 3, tz + 3, TorchFacing.NORTH);
-
-    // Entrance door opening (south face, ground level)
-    this.setWorldBlock(chunk, tx + 2, baseY + 1, tz + 4, BlockType.AIR);
-    this.setWorldBlock(chunk, tx + 2, baseY + 2, tz + 4, BlockType.AIR);
-  }
-
-  private buildHouse(chunk: Chunk): void {
-    const hx = this.villageCenterX + VillageGenerator.HOUSE_OFFSET_X;
-    const hz = this.villageCenterZ + VillageGenerator.HOUSE_OFFSET_Z;
-    const baseY = this.villageBaseY;
-    const width = VillageGenerator.HOUSE_WIDTH;
-    const depth = VillageGenerator.HOUSE_DEPTH;
-    const wallHeight = VillageGenerator.HOUSE_WALL_HEIGHT;
-
-    // Floor
-    for (let dx = 0; dx < width; dx++) {
-      for (let dz = 0; dz < depth; dz++) {
-        this.setWorldBlock(chunk, hx + dx, baseY, hz + dz, BlockType.PLANKS);
-      }
-    }
-
-    // Walls
-    for (let dy = 1; dy <= wallHeight; dy++) {
-      const wy = baseY + dy;
-      for (let dx = 0; dx < width; dx++) {
-        for (let dz = 0; dz < depth; dz++) {
-          const isWall = dx === 0 || dx === width - 1 || dz === 0 || dz === depth - 1;
-          if (isWall) {
-            this.setWorldBlock(chunk, hx + dx, wy, hz + dz, BlockType.PLANKS);
-          } else {
-            this.setWorldBlock(chunk, hx + dx, wy, hz + dz, BlockType.AIR);
-          }
-        }
+  // Gravel following the ground; plank bridges where the path crosses water
+  private buildPaths(chunk: Chunk, village: Village): void {
+    const seaLevel = Config.data.terrain.height.seaLevel;
+    for (const key of village.paths) {
+      const worldX = village.centerX + (key % 128) - 64;
+      const worldZ = village.centerZ + Math.floor(key / 128) - 64;
+      const localX = worldX - chunk.worldOffsetX;
+      const localZ = worldZ - chunk.worldOffsetZ;
+      if (localX < 0 || localX >= CHUNK_WIDTH || localZ < 0 || localZ >= CHUNK_DEPTH) continue;
+
+      const y = this.groundHeight(village, worldX, worldZ);
+      if (y < seaLevel) {
+        chunk.setBlock(localX, seaLevel, localZ, BlockType.PLANKS);
+      } else {
+        chunk.setBlock(localX, y, localZ, BlockType.GRAVEL);
       }
     }
-
-    // Corner pillars (LOG)
-    for (let dy = 1; dy <= wallHeight; dy++) {
-      const wy = baseY + dy;
-      this.setWorldBlock(chunk, hx, wy, hz, BlockType.LOG);
-      this.setWorldBlock(chunk, hx + width - 1, wy, hz, BlockType.LOG);
-      this.setWorldBlock(chunk, hx, wy, hz + depth - 1, BlockType.LOG);
-      this.setWorldBlock(chunk, hx + width - 1, wy, hz + depth - 1, BlockType.LOG);
-    }
-
-    // Windows on each long wall (level 2-3, center)
-    for (let dy = 2; dy <= 3; dy++) {
-      const wy = baseY + dy;
-      // Front wall (dz=0), two windows
-      this.setWorldBlock(chunk, hx + 2, wy, hz, BlockType.GLASS);
-      this.setWorldBlock(chunk, hx + 4, wy, hz, BlockType.GLASS);
-      // Back wall (dz=depth-1), two windows
-      this.setWorldBlock(chunk, hx + 2, wy, hz + depth - 1, BlockType.GLASS);
-      this.setWorldBlock(chunk, hx + 4, wy, hz + depth - 1, BlockType.GLASS);
-    }
-
-    // Door (front wall center, ground level)
-    this.setWorldBlock(chunk, hx + 3, baseY + 1, hz, BlockType.AIR);
-    this.setWorldBlock(chunk, hx + 3, baseY + 2, hz, BlockType.AIR);
-
-    // Flat roof
-    const roofY = baseY + wallHeight + 1;
-    for (let dx = -1; dx <= width; dx++) {
-      for (let dz = -1; dz <= depth; dz++) {
-        this.setWorldBlock(chunk, hx + dx, roofY, hz + dz, BlockType.LOG);
-      }
-    }
-
-    // Interior wall torch (on east wall)
-    this.setTorchBlock(chunk, hx + 1, baseY + 3, hz + 2, TorchFacing.EAST);
   }
 }
@@ -0,0 +1,123 @@
+// Voxel raycast (Amanatides-Woo DDA) over chunk block data.
+// Works on compressed and uncompressed chunks alike via Chunk.getBlockRaw.
+import { vec3 } from 'gl-matrix';
+import { Chunk } from './Chunk';
+import { BlockType, isBlockWater, isBlockCutout } from './BlockTypes';
+import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
+
+export interface RaycastHit {
+  blockType: number;
+  meta: number;
+  // Block coordinates (world space)
+  x: number;
+  y: number;
+  z: number;
+  // Face the ray entered through (MeshBuilder order: TOP, BOTTOM, NORTH, SOUTH, EAST, WEST); -1 if the ray started inside the block
+  face: number;
+  normal: [number, number, number];
+  // Exact hit point on the block surface
+  position: [number, number, number];
+  distance: number;
+}
+
+export interface RaycastOptions {
+  maxDistance?: number;  // default 8
+  skipWater?: boolean;   // default true: rays pass through water
+  skipCutout?: boolean;  // default false: leaves, plants and torches stop the ray
+}
+
+/** Loaded chunk at chunk coords, or null (treated as air). */
+export type ChunkLookup = (cx: number, cz: number) => Chunk | null;
+
+// Face index by axis (0=x, 1=y, 2=z) and step sign: a ray stepping +X enters the block's -X (WEST) face
+const ENTRY_FACE_POS_STEP = [5, 1, 3];
+const ENTRY_FACE_NEG_STEP = [4, 0, 2];
+
+export function raycastVoxels(
+  getChunk: ChunkLookup,
+  origin: vec3,
+  direction: vec3,
+  options: RaycastOptions = {},
+): RaycastHit | null {
+  const maxDistance = options.maxDistance ?? 8;
+  const skipWater = options.skipWater ?? true;
+  const skipCutout = options.skipCutout ?? false;
+
+  const len = Math.hypot(direction[0], direction[1], direction[2]);
+  if (len === 0) return null;
+  const dx = direction[0] / len;
+  const dy = direction[1] / len;
+  const dz = direction[2] / len;
+
+  let x = Math.floor(origin[0]);
+  let y = Math.floor(origin[1]);
+  let z = Math.floor(origin[2]);
+
+  const stepX = dx > 0 ? 1 : dx < 0 ? -1 : 0;
+  const stepY = dy > 0 ? 1 : dy < 0 ? -1 : 0;
+  const stepZ = dz > 0 ? 1 : dz < 0 ? -1 : 0;
+
+  // Ray distance to cross one block along each axis, and to the first boundary
+  const tDeltaX = stepX !== 0 ? Math.abs(1 / dx) : Infinity;
+  const tDeltaY = stepY !== 0 ? Math.abs(1 / dy) : Infinity;
+  const tDeltaZ = stepZ !== 0 ? Math.abs(1 / dz) : Infinity;
+  let tMaxX = stepX > 0 ? (x + 1 - origin[0]) * tDeltaX : stepX < 0 ? (origin[0] - x) * tDeltaX : Infinity;
+  let tMaxY = stepY > 0 ? (y + 1 - origin[1]) * tDeltaY : stepY < 0 ? (origin[1] - y) * tDeltaY : Infinity;
+  let tMaxZ = stepZ > 0 ? (z + 1 - origin[2]) * tDeltaZ : stepZ < 0 ? (origin[2] - z) * tDeltaZ : Infinity;
+
+  // Cache the column's chunk; the ray usually stays in one chunk for many steps
+  let cachedCX = Number.NaN;
+  let cachedCZ = Number.NaN;
+  let chunk: Chunk | null = null;
+
+  let t = 0;
+  let axis = -1;
+  while (t <= maxDistance) {
+    if (y >= 0 && y < CHUNK_HEIGHT) {
+      const cx = Math.floor(x / CHUNK_WIDTH);
+      const cz = Math.floor(z / CHUNK_DEPTH);
+      if (cx !== cachedCX || cz !== cachedCZ) {
+        cachedCX = cx;
+        cachedCZ = cz;
+        chunk = getChunk(cx, cz);
+      }
+      if (chunk) {
+        const raw = chunk.getBlockRaw(x - cx * CHUNK_WIDTH, y, z - cz * CHUNK_DEPTH);
+        const type = raw & 0xFF;
+        if (type !== BlockType.AIR
+          && !(skipWater && isBlockWater(type))
+          && !(skipCutout && isBlockCutout(type))) {
+          const normal: [number, number, number] = [0, 0, 0];
+          let face = -1;
+          if (axis >= 0) {
+            const step = axis === 0 ? stepX : axis === 1 ? stepY : stepZ;
+            normal[axis] = -step;
+            face = step > 0 ? ENTRY_FACE_POS_STEP[axis] : ENTRY_FACE_NEG_STEP[axis];
+          }
+          return {
+            blockType: type,
+            meta: (raw >> 8) & 0xFF,
+            x, y, z,
+            face,
+            normal,
+            position: [origin[0] + dx * t, origin[1] + dy * t, origin[2] + dz * t],
+            distance: t,
+          };
+        }
+      }
+    } else if ((y < 0 && stepY <= 0) || (y >= CHUNK_HEIGHT && stepY >= 0)) {
+      // Outside the world's vertical range and moving away from it
+      return null;
+    }
+
+    // Advance to the nearest block boundary
+    if (tMaxX < tMaxY && tMaxX < tMaxZ) {
+      x += stepX; t = tMaxX; tMaxX += tDeltaX; axis = 0;
+    } else if (tMaxY < tMaxZ) {
+      y += stepY; t = tMaxY; tMaxY += tDeltaY; axis = 1;
+    } else {
+      z += stepZ; t = tMaxZ; tMaxZ += tDeltaZ; axis = 2;
+    }
+  }
+  return null;
+}
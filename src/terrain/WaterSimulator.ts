@@ -1,15 +1,19 @@
 import { Chunk } from './Chunk';
-import { BlockType } from './BlockTypes';
+import { BlockType, FLUID_FALLING } from './BlockTypes';
 import { CHUNK_WIDTH, CHUNK_HEIGHT, CHUNK_DEPTH } from '../constants';
 import { Config } from '../config/Config';
 import { SimplexNoise } from '../noise/SimplexNoise';
+import { SeededRandom } from '../noise/SeededRandom';
 
 const FLOW_DISTANCE = 7;
+const NO_AQUIFER = -1;
 
 export class WaterSimulator {
   private waterTableNoise: SimplexNoise;
+  private seed: number;
 
   constructor(seed: number) {
+    this.seed = seed;
     this.waterTableNoise = new SimplexNoise(seed + 100);
   }
 
@@ -19,7 +23,8 @@ export class WaterSimulator {
     // Phase 1: Remove all existing water (will be re-placed correctly)
     const blocks = chunk.blocks;
     for (let i = 0; i < blocks.length; i++) {
-      if (blocks[i] === BlockType.WATER || blocks[i] === BlockType.FLOWING_WATER) {
+      const type = blocks[i] & 0xFF;
+      if (type === BlockType.WATER || type === BlockType.FLOWING_WATER) {
         blocks[i] = BlockType.AIR;
       }
     }
@@ -56,13 +61,14 @@ export class WaterSimulator {
   }
 
   /**
-   * Noise-based underground water table.
+   * Noise-based underground water table, raised inside aquifer pockets.
    * Scans each column top-down; once solid blocks are encountered,
-   * any AIR below them AND below the local water table Y gets filled with WATER.
+   * any AIR below them AND below the local water level gets filled with WATER.
    * This creates natural-looking cave pools/rivers without flooding entire caves.
    */
   private fillCaveWater(chunk: Chunk, seaLevel: number): void {
     const { baseLevel, amplitude, noiseScale } = Config.data.terrain.caves.waterTable;
+    const aquifers = Config.data.terrain.caves.aquifers;
 
     for (let x = 0; x < CHUNK_WIDTH; x++) {
       for (let z = 0; z < CHUNK_DEPTH; z++) {
@@ -71,7 +77,8 @@ export class WaterSimulator {
 
         // 2D noise → local water table height
         const n = this.waterTableNoise.noise2D(worldX / noiseScale, worldZ / noiseScale);
-        const waterTableY = Math.floor(baseLevel + n * amplitude);
+        let waterTableY = Math.floor(baseLevel + n * amplitude);
+        if (aquifers.enabled) waterTableY = Math.max(waterTableY, this.aquiferLevel(worldX, worldZ));
 
         // Scan column top-down to find underground AIR
         let hasSolidAbove = false;
@@ -87,6 +94,34 @@ export class WaterSimulator {
     }
   }
 
+  /**
+   * Water level of the aquifer pocket owning a column, or NO_AQUIFER.
+   * Pockets are jittered grid cells (nearest center wins) so their edges don't run in straight lines;
+   * each pocket's level is flat, like a real perched water table.
+   */
+  private aquiferLevel(worldX: number, worldZ: number): number {
+    const { cellSize, chance, minY, maxY } = Config.data.terrain.caves.aquifers;
+    const cellX = Math.floor(worldX / cellSize);
+    const cellZ = Math.floor(worldZ / cellSize);
+    let bestDist = Infinity;
+    let bestRng: SeededRandom | null = null;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        const cx = cellX + dx, cz = cellZ + dz;
+        const rng = new SeededRandom((this.seed ^ Math.imul(cx, 83492791) ^ Math.imul(cz, 19349669)) + 4242);
+        const px = (cx + rng.next()) * cellSize - worldX;
+        const pz = (cz + rng.next()) * cellSize - worldZ;
+        const dist = px * px + pz * pz;
+        if (dist < bestDist) {
+          bestDist = dist;
+          bestRng = rng;
+        }
+      }
+    }
+    if (!bestRng || bestRng.next() >= chance) return NO_AQUIFER;
+    return bestRng.nextInt(minY, maxY + 1);
+  }
+
   private cascadeFlow(chunk: Chunk, seaLevel: number): void {
     // Find water at SEA_LEVEL with air neighbors → create flowing water (waterfalls)
     for (let x = 0; x < CHUNK_WIDTH; x++) {
@@ -110,7 +145,7 @@ export class WaterSimulator {
     const qx: number[] = [startX];
     const qy: number[] = [startY];
     const qz: number[] = [startZ];
-    const qd: number[] = [0]; // flow distance
+    const qd: number[] = [1]; // flow level: distance from the nearest source or waterfall, 0 = falling
     const visited = new Uint8Array(CHUNK_WIDTH * CHUNK_HEIGHT * CHUNK_DEPTH);
 
     let head = 0;
@@ -126,7 +161,9 @@ export class WaterSimulator {
       const cur = chunk.getBlock(x, y, z);
       if (cur !== BlockType.AIR) continue;
 
-      chunk.setBlock(x, y, z, BlockType.FLOWING_WATER);
+      // Level meta in the layout FluidSimulator reads at runtime
+      const meta = dist === 0 ? FLUID_FALLING : dist;
+      chunk.setBlockWithMeta(x, y, z, BlockType.FLOWING_WATER, meta);
 
       // Prioritize flowing down (waterfall)
       if (chunk.isInBounds(x, y - 1, z) && chunk.getBlock(x, y - 1, z) === BlockType.AIR) {
@@ -1,4 +1,8 @@
 import { vec3 } from 'gl-matrix';
+import type { OcclusionStats } from '../renderer/IndirectRenderer';
+import type { RaycastHit } from '../terrain/VoxelRaycast';
+import { getBlockData, getBlockName } from '../terrain/BlockTypes';
+import { BiomeType, getBiomeDefinition } from '../terrain/BiomeTypes';
 
 export class HUD {
   private el: HTMLElement | null;
@@ -7,6 +11,8 @@ export class HUD {
   private fps = 0;
   private lastError = '';
   private drawInfo = '';
+  private cullInfo = '';
+  private pickInfo = '';
   visible = true;
 
   constructor() {
@@ -23,8 +29,29 @@ export class HUD {
     this.lastError = msg;
   }
 
-  setDrawInfo(draws: number, waterDraws: number): void {
-    this.drawInfo = `Draws: ${draws} Water: ${waterDraws}`;
+  /** Indirect slots holding a mesh (before GPU culling) and water draw calls */
+  setDrawInfo(slots: number, waterDraws: number): void {
+    this.drawInfo = `Slots: ${slots} Water: ${waterDraws}`;
+  }
+
+  /** Hi-Z culling counts (null hides the line when occlusion culling is off) */
+  setCullInfo(stats: OcclusionStats | null): void {
+    this.cullInfo = stats
+      ? `Visible: ${stats.visible} Occluded: ${stats.occluded} Frustum: ${stats.frustumCulled}`
+      : '';
+  }
+
+  /** Crosshair-picked block (null hides the lines) */
+  setPickInfo(hit: RaycastHit | null, biome?: BiomeType): void {
+    if (!hit) {
+      this.pickInfo = '';
+      return;
+    }
+    const d = getBlockData(hit.blockType);
+    this.pickInfo =
+      `Block: ${getBlockName(hit.blockType)} (${hit.blockType}${hit.meta ? `:${hit.meta}` : ''}) @ ${hit.x}, ${hit.y}, ${hit.z} [${hit.distance.toFixed(1)}m]<br>` +
+      `Rough: ${d.roughness.toFixed(2)} Metal: ${d.metallic.toFixed(2)} Emis: ${d.emissive.toFixed(2)}` +
+      (biome !== undefined ? `<br>Biome: ${getBiomeDefinition(biome).name}` : '');
   }
 
   update(cameraPos: vec3, chunkCount: number, seed: number, speed: number, timeStr?: string, lodChunkCount = 0): void {
@@ -42,9 +69,11 @@ export class HUD {
       `Pos: ${cameraPos[0].toFixed(1)}, ${cameraPos[1].toFixed(1)}, ${cameraPos[2].toFixed(1)}<br>` +
       `Chunks: ${chunkCount}${lodChunkCount > 0 ? ` + ${lodChunkCount} LOD` : ''}<br>` +
       `${this.drawInfo}<br>` +
+      (this.cullInfo ? `${this.cullInfo}<br>` : '') +
       `Seed: ${seed}<br>` +
       `Speed: ${speed.toFixed(1)}` +
       (timeStr ? `<br>Time: ${timeStr}` : '') +
+      (this.pickInfo ? `<br>${this.pickInfo}` : '') +
       (this.lastError ? `<br><span style="color:red">${this.lastError}</span>` : '');
   }
 }
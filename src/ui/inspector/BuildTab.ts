@@ -0,0 +1,61 @@
+import { InspectorTab } from './InspectorTab';
+import { createCustomSlider, createCustomToggle } from './InspectorField';
+import { BlockEditor } from '../../world/BlockEditor';
+import { TextureAtlas } from '../../renderer/TextureAtlas';
+import { ALL_BLOCK_TYPES, getBlockName } from '../../terrain/BlockTypes';
+import { TILE_SIZE } from '../../constants';
+
+export function buildBuildTab(
+  editor: BlockEditor, atlas: TextureAtlas,
+  onBuildModeChange: (enabled: boolean) => void,
+): InspectorTab {
+  const tab = new InspectorTab();
+
+  const mode = tab.addSection('Build Mode');
+  const enabled = createCustomToggle('Enabled', editor.enabled, (checked) => {
+    editor.enabled = checked;
+    onBuildModeChange(checked);
+  });
+  mode.addElement(enabled.row);
+
+  const reach = createCustomSlider('Reach', editor.reach, 2, 32, 1, (v) => { editor.reach = v; });
+  mode.addElement(reach.row);
+
+  const hint = document.createElement('div');
+  hint.className = 'inspector-field-label';
+  hint.style.width = '100%';
+  hint.style.whiteSpace = 'normal';
+  hint.textContent = 'Click the view to capture the mouse. Left: break, Right: place, Esc: release.';
+  mode.addElement(hint);
+
+  // Palette: one atlas-tile thumbnail per block type
+  const palette = tab.addSection('Palette');
+  const grid = document.createElement('div');
+  grid.className = 'inspector-palette';
+  const items: HTMLElement[] = [];
+
+  for (const blockType of ALL_BLOCK_TYPES) {
+    const item = document.createElement('div');
+    item.className = 'inspector-palette-item' + (blockType === editor.selectedBlock ? ' selected' : '');
+    item.title = getBlockName(blockType);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = TILE_SIZE;
+    canvas.height = TILE_SIZE;
+    const image = atlas.getTileImage(blockType);
+    const ctx2d = canvas.getContext('2d');
+    if (image && ctx2d) ctx2d.putImageData(image, 0, 0);
+    item.appendChild(canvas);
+
+    item.addEventListener('click', () => {
+      editor.selectedBlock = blockType;
+      for (const other of items) other.classList.remove('selected');
+      item.classList.add('selected');
+    });
+    items.push(item);
+    grid.appendChild(item);
+  }
+  palette.addElement(grid);
+
+  return tab;
+}
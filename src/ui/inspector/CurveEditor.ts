@@ -0,0 +1,197 @@
+import { Config, SplinePoint } from '../../config/Config';
+import { Spline } from '../../noise/Spline';
+import { showFieldError } from './InspectorField';
+
+export interface CurveEditorOptions {
+  label: string;
+  configPath: string;
+  /** Output range shown on the vertical axis (matches the Config spline rule) */
+  yMin: number;
+  yMax: number;
+  /** Output snapping step */
+  step?: number;
+}
+
+const CANVAS_WIDTH = 280;
+const CANVAS_HEIGHT = 110;
+const PAD = 6;
+const POINT_RADIUS = 4;
+const MAX_POINTS = 12;
+
+// Spline control point editor: drag points, double-click empty space to add, double-click a point to remove.
+// End points stay pinned to inputs 0 and 1; the curve is committed to Config when a drag ends.
+export function createCurveEditor(opts: CurveEditorOptions): HTMLElement {
+  const row = document.createElement('div');
+  row.className = 'inspector-curve';
+
+  const header = document.createElement('div');
+  header.className = 'inspector-curve-header';
+  const label = document.createElement('span');
+  label.textContent = opts.label;
+  label.title = opts.configPath;
+  const readout = document.createElement('span');
+  readout.className = 'val-display';
+  header.appendChild(label);
+  header.appendChild(readout);
+  row.appendChild(header);
+
+  const canvas = document.createElement('canvas');
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = CANVAS_WIDTH * dpr;
+  canvas.height = CANVAS_HEIGHT * dpr;
+  canvas.style.width = `${CANVAS_WIDTH}px`;
+  canvas.style.height = `${CANVAS_HEIGHT}px`;
+  row.appendChild(canvas);
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(dpr, dpr);
+
+  const step = opts.step ?? 0.01;
+  let points: SplinePoint[] = [];
+  let dragIndex = -1;
+
+  const toX = (x: number) => PAD + x * (CANVAS_WIDTH - PAD * 2);
+  const toY = (y: number) => CANVAS_HEIGHT - PAD - (y - opts.yMin) / (opts.yMax - opts.yMin) * (CANVAS_HEIGHT - PAD * 2);
+  const fromX = (px: number) => (px - PAD) / (CANVAS_WIDTH - PAD * 2);
+  const fromY = (py: number) => opts.yMin + (CANVAS_HEIGHT - PAD - py) / (CANVAS_HEIGHT - PAD * 2) * (opts.yMax - opts.yMin);
+  const snap = (y: number) => Number((Math.round(Math.max(opts.yMin, Math.min(opts.yMax, y)) / step) * step).toFixed(4));
+
+  function load(): void {
+    const value = Config.get(opts.configPath) as SplinePoint[];
+    points = value.map(([x, y]) => [x, y]);
+    draw();
+  }
+
+  function draw(): void {
+    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.fillStyle = '#2a2a2a';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    // Quarter grid + zero line when the range spans it
+    ctx.strokeStyle = '#3c3c3c';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let i = 1; i < 4; i++) {
+      const gx = Math.round(toX(i / 4)) + 0.5;
+      const gy = Math.round(PAD + i / 4 * (CANVAS_HEIGHT - PAD * 2)) + 0.5;
+      ctx.moveTo(gx, PAD); ctx.lineTo(gx, CANVAS_HEIGHT - PAD);
+      ctx.moveTo(PAD, gy); ctx.lineTo(CANVAS_WIDTH - PAD, gy);
+    }
+    ctx.stroke();
+    if (opts.yMin < 0 && opts.yMax > 0) {
+      ctx.strokeStyle = '#555';
+      ctx.beginPath();
+      const zy = Math.round(toY(0)) + 0.5;
+      ctx.moveTo(PAD, zy); ctx.lineTo(CANVAS_WIDTH - PAD, zy);
+      ctx.stroke();
+    }
+
+    // Curve (same evaluation as terrain generation)
+    const spline = new Spline(points);
+    ctx.strokeStyle = '#8ab4f8';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    for (let px = 0; px <= CANVAS_WIDTH - PAD * 2; px++) {
+      const x = px / (CANVAS_WIDTH - PAD * 2);
+      const py = toY(spline.evaluate(x));
+      if (px === 0) ctx.moveTo(toX(x), py);
+      else ctx.lineTo(toX(x), py);
+    }
+    ctx.stroke();
+
+    for (let i = 0; i < points.length; i++) {
+      ctx.fillStyle = i === dragIndex ? '#fff' : '#5b9bd5';
+      ctx.beginPath();
+      ctx.arc(toX(points[i][0]), toY(points[i][1]), POINT_RADIUS, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    const shown = dragIndex >= 0 ? points[dragIndex] : null;
+    readout.textContent = shown ? `${shown[0].toFixed(2)} → ${formatOutput(shown[1], step)}` : `${points.length} pts`;
+  }
+
+  function pointerPos(e: PointerEvent | MouseEvent): [number, number] {
+    const rect = canvas.getBoundingClientRect();
+    return [
+      (e.clientX - rect.left) * CANVAS_WIDTH / rect.width,
+      (e.clientY - rect.top) * CANVAS_HEIGHT / rect.height,
+    ];
+  }
+
+  function hitTest(px: number, py: number): number {
+    for (let i = 0; i < points.length; i++) {
+      const dx = toX(points[i][0]) - px;
+      const dy = toY(points[i][1]) - py;
+      if (dx * dx + dy * dy <= (POINT_RADIUS + 3) ** 2) return i;
+    }
+    return -1;
+  }
+
+  function commit(): void {
+    const result = Config.set(opts.configPath, points.map(([x, y]) => [x, y]));
+    if (!result.success) {
+      showFieldError(row, result);
+      load();
+    }
+  }
+
+  canvas.addEventListener('pointerdown', (e) => {
+    const [px, py] = pointerPos(e);
+    dragIndex = hitTest(px, py);
+    if (dragIndex < 0) return;
+    canvas.setPointerCapture(e.pointerId);
+    draw();
+  });
+
+  canvas.addEventListener('pointermove', (e) => {
+    if (dragIndex < 0) return;
+    const [px, py] = pointerPos(e);
+    const p = points[dragIndex];
+    // End points keep their input; interior points stay between their neighbors
+    if (dragIndex > 0 && dragIndex < points.length - 1) {
+      const lo = points[dragIndex - 1][0] + 0.01;
+      const hi = points[dragIndex + 1][0] - 0.01;
+      p[0] = Math.round(Math.max(lo, Math.min(hi, fromX(px))) * 100) / 100;
+    }
+    p[1] = snap(fromY(py));
+    draw();
+  });
+
+  const endDrag = () => {
+    if (dragIndex < 0) return;
+    dragIndex = -1;
+    commit();
+    draw();
+  };
+  canvas.addEventListener('pointerup', endDrag);
+  canvas.addEventListener('pointercancel', endDrag);
+
+  canvas.addEventListener('dblclick', (e) => {
+    const [px, py] = pointerPos(e);
+    const hit = hitTest(px, py);
+    if (hit > 0 && hit < points.length - 1) {
+      points.splice(hit, 1);
+    } else if (hit < 0 && points.length < MAX_POINTS) {
+      const x = Math.round(Math.max(0.01, Math.min(0.99, fromX(px))) * 100) / 100;
+      const at = points.findIndex((p) => p[0] >= x);
+      if (at <= 0 || points[at][0] === x) return;
+      points.splice(at, 0, [x, snap(fromY(py))]);
+    } else {
+      return;
+    }
+    commit();
+    draw();
+  });
+
+  // Whole-curve sets, per-point leaves (snapshot import) and resets
+  Config.onChange((path) => {
+    if (dragIndex >= 0) return;
+    if (path === '*' || path === opts.configPath || path.startsWith(`${opts.configPath}.`)) load();
+  });
+
+  load();
+  return row;
+}
+
+function formatOutput(v: number, step: number): string {
+  return step >= 1 ? String(Math.round(v)) : v.toFixed(2);
+}
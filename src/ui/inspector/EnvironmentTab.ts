@@ -45,6 +45,15 @@ export function buildEnvironmentTab(dayNightCycle: DayNightCycle, weatherSystem:
   clouds.addField({ type: 'slider', label: 'Silver Lining', configPath: 'environment.cloud.silverLining', min: 0, max: 3, step: 0.1 });
   clouds.addField({ type: 'slider', label: 'Multi Scatter', configPath: 'environment.cloud.multiScatterFloor', min: 0, max: 0.5, step: 0.01 });
 
+  // Fluids section
+  const fluids = tab.addSection('Fluids');
+  fluids.addField({ type: 'toggle', label: 'Enabled', configPath: 'environment.fluids.enabled' });
+  fluids.addField({ type: 'slider', label: 'Tick (ms)', configPath: 'environment.fluids.tickMs', min: 50, max: 2000, step: 50 });
+  fluids.addField({ type: 'slider', label: 'Budget (ms)', configPath: 'environment.fluids.budgetMs', min: 0.25, max: 16, step: 0.25 });
+  fluids.addField({ type: 'slider', label: 'Water Reach', configPath: 'environment.fluids.waterFlowDistance', min: 1, max: 7, step: 1 });
+  fluids.addField({ type: 'slider', label: 'Lava Reach', configPath: 'environment.fluids.lavaFlowDistance', min: 1, max: 7, step: 1 });
+  fluids.addField({ type: 'slider', label: 'Lava Slowdown', configPath: 'environment.fluids.lavaSlowdown', min: 1, max: 10, step: 1 });
+
   // Weather section
   const weather = tab.addSection('Weather');
 
@@ -14,7 +14,7 @@ export interface FieldOptions {
   fromDisplay?: (v: number) => number;
 }
 
-function showFieldError(row: HTMLElement, result: SetResult): void {
+export function showFieldError(row: HTMLElement, result: SetResult): void {
   if (result.success) return;
   console.warn(`[Config] ${result.error}`);
   row.classList.add('inspector-field-error');
@@ -38,6 +38,8 @@ export function createField(opts: FieldOptions): HTMLElement {
   const toDisplay = opts.toDisplay ?? ((v: number) => v);
   const fromDisplay = opts.fromDisplay ?? ((v: number) => v);
   const currentValue = toDisplay(rawValue as number);
+  // Reflects config changes made elsewhere (e.g. a world import) in the control
+  let sync: (value: unknown) => void = () => {};
 
   switch (opts.type) {
     case 'slider': {
@@ -62,6 +64,12 @@ export function createField(opts: FieldOptions): HTMLElement {
         }
       });
 
+      sync = (value) => {
+        const v = toDisplay(value as number);
+        input.value = String(v);
+        valSpan.textContent = formatVal(v, opts.step);
+      };
+
       control.appendChild(input);
       control.appendChild(valSpan);
       break;
@@ -81,6 +89,10 @@ export function createField(opts: FieldOptions): HTMLElement {
           showFieldError(row, result);
         }
       });
+      // Don't rewrite the text while it's being typed
+      sync = (value) => {
+        if (document.activeElement !== input) input.value = String(toDisplay(value as number));
+      };
 
       control.appendChild(input);
       break;
@@ -94,6 +106,7 @@ export function createField(opts: FieldOptions): HTMLElement {
         const result = Config.set(opts.configPath, input.checked);
         showFieldError(row, result);
       });
+      sync = (value) => { input.checked = !!value; };
 
       control.appendChild(input);
       break;
@@ -113,12 +126,17 @@ export function createField(opts: FieldOptions): HTMLElement {
         const result = Config.set(opts.configPath, v);
         showFieldError(row, result);
       });
+      sync = (value) => { select.value = String(value); };
 
       control.appendChild(select);
       break;
     }
   }
 
+  Config.onChange((path, value) => {
+    if (path === opts.configPath) sync(value);
+  });
+
   row.appendChild(control);
   return row;
 }
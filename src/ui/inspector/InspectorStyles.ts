@@ -110,6 +110,27 @@ const CSS = `
   background: #363636;
 }
 
+.inspector-palette {
+  display: grid; grid-template-columns: repeat(7, 1fr); gap: 4px; padding: 4px 0;
+}
+.inspector-palette-item {
+  width: 36px; height: 36px; padding: 2px; border: 2px solid transparent; border-radius: 3px;
+  background: #2a2a2a; cursor: pointer;
+}
+.inspector-palette-item:hover { border-color: #668; }
+.inspector-palette-item.selected { border-color: #fff; }
+.inspector-palette-item canvas { width: 100%; height: 100%; image-rendering: pixelated; display: block; }
+
+.inspector-curve { margin: 4px 0 6px; }
+.inspector-curve-header {
+  display: flex; justify-content: space-between; align-items: center;
+  color: #bbb; font-size: 11px; margin-bottom: 2px;
+}
+.inspector-curve canvas {
+  display: block; border: 1px solid #555; border-radius: 3px; cursor: crosshair;
+  touch-action: none;
+}
+
 .inspector-field-error {
   animation: field-error-flash 0.8s ease;
 }
@@ -11,7 +11,13 @@ export function buildRenderingTab(): InspectorTab {
   // LOD
   const lod = tab.addSection('LOD');
   lod.addField({ type: 'toggle', label: 'Enabled', configPath: 'rendering.lod.enabled' });
-  lod.addField({ type: 'slider', label: 'LOD Distance', configPath: 'rendering.lod.renderDistance', min: 4, max: 24, step: 1 });
+  lod.addField({ type: 'slider', label: '2× Ring', configPath: 'rendering.lod.ringDistances.0', min: 0, max: 32, step: 1 });
+  lod.addField({ type: 'slider', label: '4× Ring', configPath: 'rendering.lod.ringDistances.1', min: 0, max: 32, step: 1 });
+  lod.addField({ type: 'slider', label: '8× Ring', configPath: 'rendering.lod.ringDistances.2', min: 0, max: 64, step: 2 });
+
+  // Occlusion Culling
+  const occlusion = tab.addSection('Occlusion Culling');
+  occlusion.addField({ type: 'toggle', label: 'Hi-Z Enabled', configPath: 'rendering.occlusion.enabled' });
 
   // Shadows
   const shadows = tab.addSection('Shadows', true);
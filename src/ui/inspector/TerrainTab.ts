@@ -1,11 +1,20 @@
 import { InspectorTab } from './InspectorTab';
 import { Config } from '../../config/Config';
+import { CHUNK_HEIGHT } from '../../constants';
+import { WORLD_BUNDLE_EXTENSION } from '../../world/WorldBundle';
+import { createCurveEditor } from './CurveEditor';
 
 export class TerrainTab extends InspectorTab {
   seedInput: HTMLInputElement | null = null;
 }
 
-export function buildTerrainTab(onRegenerate: (seed: number) => void): TerrainTab {
+export interface WorldFileHandlers {
+  onExport: () => void;
+  /** Resolves true when the world was imported (terrain already regenerated) */
+  onImport: (file: File) => Promise<boolean>;
+}
+
+export function buildTerrainTab(onRegenerate: (seed: number) => void, world?: WorldFileHandlers): TerrainTab {
   const tab = new TerrainTab();
 
   // Noise section
@@ -19,7 +28,7 @@ export function buildTerrainTab(onRegenerate: (seed: number) => void): TerrainTa
   const height = tab.addSection('Height');
   height.addField({ type: 'slider', label: 'Sea Level', configPath: 'terrain.height.seaLevel', min: 10, max: 100, step: 1 });
   height.addField({ type: 'slider', label: 'Min Height', configPath: 'terrain.height.minHeight', min: 1, max: 50, step: 1 });
-  height.addField({ type: 'slider', label: 'Max Height', configPath: 'terrain.height.maxHeight', min: 50, max: 128, step: 1 });
+  height.addField({ type: 'slider', label: 'Max Height', configPath: 'terrain.height.maxHeight', min: 50, max: 255, step: 1 });
   height.addField({ type: 'slider', label: 'Dirt Depth', configPath: 'terrain.height.dirtLayerDepth', min: 1, max: 10, step: 1 });
 
   // Biomes section
@@ -29,6 +38,28 @@ export function buildTerrainTab(onRegenerate: (seed: number) => void): TerrainTa
   biomes.addField({ type: 'slider', label: 'Cont. Scale', configPath: 'terrain.biomes.continentalnessScale', min: 100, max: 800, step: 10 });
   biomes.addField({ type: 'slider', label: 'Height Var.', configPath: 'terrain.biomes.heightVariationScale', min: 5, max: 100, step: 1 });
   biomes.addField({ type: 'slider', label: 'Ocean Thresh.', configPath: 'terrain.biomes.oceanThreshold', min: 0, max: 0.8, step: 0.05 });
+  biomes.addField({ type: 'slider', label: 'Blend Width', configPath: 'terrain.biomes.blendWidth', min: 0.02, max: 0.6, step: 0.01 });
+
+  // Shape section (spline-mapped noise channels)
+  const shape = tab.addSection('Shape', true);
+  shape.addElement(createCurveEditor({ label: 'Continentalness → Height', configPath: 'terrain.shape.continentalness', yMin: 1, yMax: 255, step: 1 }));
+  shape.addElement(createCurveEditor({ label: 'Erosion → Relief', configPath: 'terrain.shape.erosion', yMin: 0, yMax: 4, step: 0.05 }));
+  shape.addElement(createCurveEditor({ label: 'Peaks/Valleys → Offset', configPath: 'terrain.shape.peaksValleys', yMin: -64, yMax: 64, step: 1 }));
+  shape.addField({ type: 'slider', label: 'Erosion Scale', configPath: 'terrain.shape.erosionScale', min: 50, max: 1000, step: 10 });
+
+  // Density section (3D terrain)
+  const density = tab.addSection('Density', true);
+  density.addField({ type: 'toggle', label: '3D Terrain', configPath: 'terrain.density.enabled' });
+  density.addField({ type: 'slider', label: 'Scale', configPath: 'terrain.density.scale', min: 10, max: 200, step: 1 });
+  density.addField({ type: 'slider', label: 'Vert. Scale', configPath: 'terrain.density.verticalScale', min: 4, max: 100, step: 1 });
+  density.addField({ type: 'slider', label: 'Amplitude', configPath: 'terrain.density.amplitude', min: 0, max: 2, step: 0.05 });
+  density.addField({ type: 'slider', label: 'Squash', configPath: 'terrain.density.squash', min: 0.01, max: 0.2, step: 0.005 });
+  const islands = density.addSubSection('Sky Islands');
+  islands.addField({ type: 'toggle', label: 'Enabled', configPath: 'terrain.density.islands.enabled' });
+  islands.addField({ type: 'slider', label: 'Min Y', configPath: 'terrain.density.islands.minY', min: 64, max: 254, step: 1 });
+  islands.addField({ type: 'slider', label: 'Max Y', configPath: 'terrain.density.islands.maxY', min: 65, max: 255, step: 1 });
+  islands.addField({ type: 'slider', label: 'Threshold', configPath: 'terrain.density.islands.threshold', min: 0.4, max: 0.9, step: 0.01 });
+  islands.addField({ type: 'slider', label: 'Scale', configPath: 'terrain.density.islands.scale', min: 10, max: 200, step: 1 });
 
   // Caves section
   const caves = tab.addSection('Caves', true);
@@ -39,22 +70,54 @@ export function buildTerrainTab(onRegenerate: (seed: number) => void): TerrainTa
   caves.addField({ type: 'slider', label: 'Max Radius', configPath: 'terrain.caves.maxRadius', min: 1, max: 8, step: 0.25 });
   caves.addField({ type: 'slider', label: 'Min Y', configPath: 'terrain.caves.minY', min: 1, max: 50, step: 1 });
   caves.addField({ type: 'slider', label: 'Max Y', configPath: 'terrain.caves.maxY', min: 20, max: 100, step: 1 });
+  const cheese = caves.addSubSection('Cheese');
+  cheese.addField({ type: 'toggle', label: 'Enabled', configPath: 'terrain.caves.cheese.enabled' });
+  cheese.addField({ type: 'slider', label: 'Min Y', configPath: 'terrain.caves.cheese.minY', min: 1, max: CHUNK_HEIGHT - 1, step: 1 });
+  cheese.addField({ type: 'slider', label: 'Max Y', configPath: 'terrain.caves.cheese.maxY', min: 1, max: CHUNK_HEIGHT - 1, step: 1 });
+  cheese.addField({ type: 'slider', label: 'Scale', configPath: 'terrain.caves.cheese.scale', min: 8, max: 200, step: 1 });
+  cheese.addField({ type: 'slider', label: 'Vert. Scale', configPath: 'terrain.caves.cheese.verticalScale', min: 4, max: 100, step: 1 });
+  cheese.addField({ type: 'slider', label: 'Threshold', configPath: 'terrain.caves.cheese.threshold', min: 0.5, max: 1, step: 0.01 });
+  for (const [label, key] of [['Spaghetti', 'spaghetti'], ['Noodle', 'noodle']] as const) {
+    const tunnels = caves.addSubSection(label);
+    tunnels.addField({ type: 'toggle', label: 'Enabled', configPath: `terrain.caves.${key}.enabled` });
+    tunnels.addField({ type: 'slider', label: 'Min Y', configPath: `terrain.caves.${key}.minY`, min: 1, max: CHUNK_HEIGHT - 1, step: 1 });
+    tunnels.addField({ type: 'slider', label: 'Max Y', configPath: `terrain.caves.${key}.maxY`, min: 1, max: CHUNK_HEIGHT - 1, step: 1 });
+    tunnels.addField({ type: 'slider', label: 'Scale', configPath: `terrain.caves.${key}.scale`, min: 4, max: 200, step: 1 });
+    tunnels.addField({ type: 'slider', label: 'Thickness', configPath: `terrain.caves.${key}.thickness`, min: 0, max: 0.1, step: 0.005 });
+    tunnels.addField({ type: 'slider', label: 'Coverage', configPath: `terrain.caves.${key}.coverage`, min: 0, max: 1, step: 0.05 });
+  }
 
   // Water Table section
   const waterTable = tab.addSection('Water Table', true);
   waterTable.addField({ type: 'slider', label: 'Base Level', configPath: 'terrain.caves.waterTable.baseLevel', min: 0, max: 60, step: 1 });
   waterTable.addField({ type: 'slider', label: 'Amplitude', configPath: 'terrain.caves.waterTable.amplitude', min: 0, max: 30, step: 1 });
   waterTable.addField({ type: 'slider', label: 'Noise Scale', configPath: 'terrain.caves.waterTable.noiseScale', min: 10, max: 300, step: 5 });
+  const aquifers = waterTable.addSubSection('Aquifers');
+  aquifers.addField({ type: 'toggle', label: 'Enabled', configPath: 'terrain.caves.aquifers.enabled' });
+  aquifers.addField({ type: 'slider', label: 'Cell Size', configPath: 'terrain.caves.aquifers.cellSize', min: 16, max: 128, step: 4 });
+  aquifers.addField({ type: 'slider', label: 'Chance', configPath: 'terrain.caves.aquifers.chance', min: 0, max: 1, step: 0.05 });
+  aquifers.addField({ type: 'slider', label: 'Min Y', configPath: 'terrain.caves.aquifers.minY', min: 1, max: CHUNK_HEIGHT - 1, step: 1 });
+  aquifers.addField({ type: 'slider', label: 'Max Y', configPath: 'terrain.caves.aquifers.maxY', min: 1, max: CHUNK_HEIGHT - 1, step: 1 });
 
-  // Ores section
+  // Ores section (one subsection per terrain.ores entry)
   const ores = tab.addSection('Ores', true);
-  const oreTypes = ['coal', 'iron', 'gold', 'diamond'] as const;
-  for (const ore of oreTypes) {
+  for (const ore of Object.keys(Config.data.terrain.ores)) {
     const sub = ores.addSubSection(ore.charAt(0).toUpperCase() + ore.slice(1));
-    sub.addField({ type: 'number', label: 'Min Y', configPath: `terrain.ores.${ore}.minY`, min: 1, max: 128, step: 1 });
-    sub.addField({ type: 'number', label: 'Max Y', configPath: `terrain.ores.${ore}.maxY`, min: 1, max: 128, step: 1 });
+    sub.addField({ type: 'dropdown', label: 'Shape', configPath: `terrain.ores.${ore}.shape`, options: [
+      { label: 'Vein', value: 'vein' }, { label: 'Blob', value: 'blob' },
+    ] });
+    sub.addField({ type: 'dropdown', label: 'Distribution', configPath: `terrain.ores.${ore}.distribution`, options: [
+      { label: 'Uniform', value: 'uniform' }, { label: 'Triangle', value: 'triangle' }, { label: 'Trapezoid', value: 'trapezoid' },
+    ] });
+    sub.addField({ type: 'number', label: 'Min Y', configPath: `terrain.ores.${ore}.minY`, min: 1, max: 255, step: 1 });
+    sub.addField({ type: 'number', label: 'Max Y', configPath: `terrain.ores.${ore}.maxY`, min: 1, max: 255, step: 1 });
+    sub.addField({ type: 'number', label: 'Plateau', configPath: `terrain.ores.${ore}.plateau`, min: 0, max: 255, step: 1 });
     sub.addField({ type: 'number', label: 'Attempts', configPath: `terrain.ores.${ore}.attempts`, min: 0, max: 50, step: 1 });
     sub.addField({ type: 'number', label: 'Vein Size', configPath: `terrain.ores.${ore}.veinSize`, min: 1, max: 20, step: 1 });
+    sub.addField({ type: 'toggle', label: 'Clusters', configPath: `terrain.ores.${ore}.cluster.enabled` });
+    sub.addField({ type: 'slider', label: 'Cluster Scale', configPath: `terrain.ores.${ore}.cluster.scale`, min: 4, max: 100, step: 1 });
+    sub.addField({ type: 'slider', label: 'Cluster Thresh.', configPath: `terrain.ores.${ore}.cluster.threshold`, min: 0.5, max: 1, step: 0.01 });
+    sub.addField({ type: 'slider', label: 'Cluster Density', configPath: `terrain.ores.${ore}.cluster.density`, min: 0, max: 1, step: 0.05 });
   }
 
   // Trees section
@@ -64,6 +127,28 @@ export function buildTerrainTab(onRegenerate: (seed: number) => void): TerrainTa
   trees.addField({ type: 'slider', label: 'Max Trunk', configPath: 'terrain.trees.maxTrunkHeight', min: 3, max: 15, step: 1 });
   trees.addField({ type: 'slider', label: 'Leaf Decay', configPath: 'terrain.trees.leafDecayChance', min: 0, max: 1, step: 0.05 });
 
+  // Rivers section
+  const rivers = tab.addSection('Rivers', true);
+  rivers.addField({ type: 'toggle', label: 'Enabled', configPath: 'terrain.rivers.enabled' });
+  rivers.addField({ type: 'slider', label: 'Scale', configPath: 'terrain.rivers.scale', min: 100, max: 2000, step: 10 });
+  rivers.addField({ type: 'slider', label: 'Width', configPath: 'terrain.rivers.width', min: 0, max: 0.1, step: 0.005 });
+  rivers.addField({ type: 'slider', label: 'Bank Width', configPath: 'terrain.rivers.bankWidth', min: 0, max: 0.1, step: 0.005 });
+  rivers.addField({ type: 'slider', label: 'Valley Width', configPath: 'terrain.rivers.valleyWidth', min: 0.01, max: 0.5, step: 0.01 });
+  rivers.addField({ type: 'slider', label: 'Depth', configPath: 'terrain.rivers.depth', min: 1, max: 20, step: 1 });
+  rivers.addField({ type: 'slider', label: 'Bank Veg.', configPath: 'terrain.rivers.bankVegetation', min: 0, max: 1, step: 0.05 });
+
+  // Villages section
+  const villages = tab.addSection('Villages', true);
+  villages.addField({ type: 'toggle', label: 'Enabled', configPath: 'terrain.villages.enabled' });
+  villages.addField({ type: 'slider', label: 'Spacing', configPath: 'terrain.villages.spacing', min: 128, max: 1024, step: 16 });
+  villages.addField({ type: 'slider', label: 'Chance', configPath: 'terrain.villages.chance', min: 0, max: 1, step: 0.05 });
+  villages.addField({ type: 'slider', label: 'Min Buildings', configPath: 'terrain.villages.minBuildings', min: 1, max: 12, step: 1 });
+  villages.addField({ type: 'slider', label: 'Max Buildings', configPath: 'terrain.villages.maxBuildings', min: 1, max: 12, step: 1 });
+
+  // Features section
+  const features = tab.addSection('Features', true);
+  features.addField({ type: 'slider', label: 'Neighbor Radius', configPath: 'terrain.features.neighborRadius', min: 0, max: 4, step: 1 });
+
   // Seed input + Regenerate button
   const seedRow = document.createElement('div');
   seedRow.className = 'inspector-field';
@@ -96,6 +181,28 @@ export function buildTerrainTab(onRegenerate: (seed: number) => void): TerrainTa
     }
   });
 
+  // World bundle export / import
+  if (world) {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = WORLD_BUNDLE_EXTENSION;
+    fileInput.style.display = 'none';
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (!file) return;
+      void world.onImport(file).then((imported) => {
+        if (!imported) return;
+        Config.clearDirty('terrain');
+        regenBtn.classList.remove('dirty');
+      });
+    });
+    tab.el.appendChild(fileInput);
+
+    tab.addButton('Export World', () => world.onExport());
+    tab.addButton('Import World', () => fileInput.click());
+  }
+
   // Expose seed input for external access
   tab.seedInput = seedInput;
 
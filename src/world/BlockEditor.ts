@@ -0,0 +1,62 @@
+import { vec3 } from 'gl-matrix';
+import { ChunkManager } from '../terrain/ChunkManager';
+import { RaycastHit } from '../terrain/VoxelRaycast';
+import { BlockType, TorchFacing, isBlockTorch, isBlockSolid, isBlockWater, isBlockCrossMesh } from '../terrain/BlockTypes';
+
+/** Build mode state: crosshair target, selected palette block, break/place actions */
+export class BlockEditor {
+  enabled = false;
+  selectedBlock: number = BlockType.STONE;
+  reach = 8;
+  /** Block under the crosshair (updated every frame while enabled) */
+  hit: RaycastHit | null = null;
+
+  private chunkManager: ChunkManager;
+
+  constructor(chunkManager: ChunkManager) {
+    this.chunkManager = chunkManager;
+  }
+
+  update(origin: vec3, direction: vec3): void {
+    // Water is never a target: blocks are placed into it and plants/torches are broken through it
+    this.hit = this.enabled ? this.chunkManager.raycast(origin, direction, { maxDistance: this.reach }) : null;
+  }
+
+  breakBlock(): boolean {
+    const hit = this.hit;
+    if (!hit || hit.blockType === BlockType.BEDROCK) return false;
+    return this.chunkManager.setBlockAt(hit.x, hit.y, hit.z, BlockType.AIR);
+  }
+
+  placeBlock(): boolean {
+    const hit = this.hit;
+    if (!hit || hit.face < 0) return false;
+
+    const [nx, ny, nz] = hit.normal;
+    const x = hit.x + nx;
+    const y = hit.y + ny;
+    const z = hit.z + nz;
+
+    // Only replace air, water and plants
+    const existing = this.chunkManager.getBlockAt(x, y, z);
+    if (existing !== BlockType.AIR && !isBlockWater(existing) && !isBlockCrossMesh(existing)) return false;
+
+    let meta = 0;
+    if (isBlockTorch(this.selectedBlock)) {
+      const facing = torchFacingFor(hit.normal);
+      if (facing === null || !isBlockSolid(hit.blockType)) return false;
+      meta = facing;
+    }
+    return this.chunkManager.setBlockAt(x, y, z, this.selectedBlock, meta);
+  }
+}
+
+// Torch attached to the clicked face: the supporting block sits opposite the face normal
+function torchFacingFor(normal: [number, number, number]): TorchFacing | null {
+  if (normal[1] > 0) return TorchFacing.FLOOR;
+  if (normal[0] > 0) return TorchFacing.WEST;
+  if (normal[0] < 0) return TorchFacing.EAST;
+  if (normal[2] > 0) return TorchFacing.SOUTH;
+  if (normal[2] < 0) return TorchFacing.NORTH;
+  return null;  // ceiling: no hanging torches
+}
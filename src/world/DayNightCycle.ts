@@ -34,6 +34,11 @@ export class DayNightCycle {
     this.updateLighting();
   }
 
+  /** Elapsed days + time of day (the inverse of setTime) */
+  getTime(): number {
+    return this.dayCount + this.timeOfDay;
+  }
+
   setTime(t: number): void {
     this.dayCount = Math.floor(t);
     this.timeOfDay = t - this.dayCount;
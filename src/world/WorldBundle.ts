@@ -0,0 +1,101 @@
+// Portable world bundle: everything needed to restore a shared scene.
+//
+// File layout (little-endian):
+//   magic u32 ("GVWB") | version u16 | reserved u16 | metaLength u32
+//   meta:   UTF-8 JSON (WorldBundleMeta), metaLength bytes
+//   chunks: edited chunks in the region record encoding (see RegionStore)
+import { RegionChunks, encodeRegion, decodeRegion } from '../terrain/RegionStore';
+import { WeatherType } from './WeatherSystem';
+
+export const WORLD_BUNDLE_VERSION = 1;
+export const WORLD_BUNDLE_EXTENSION = '.gvw';
+
+const BUNDLE_MAGIC = 0x42575647; // "GVWB"
+const HEADER_BYTES = 12;
+
+export interface WorldBundleMeta {
+  seed: number;
+  /** Full AppConfig snapshot (validated by Config.loadSnapshot on import) */
+  config: unknown;
+  camera: { position: [number, number, number]; yaw: number; pitch: number };
+  /** DayNightCycle.getTime(): elapsed days + time of day */
+  time: number;
+  timePaused: boolean;
+  weather: { type: WeatherType; intensity: number; auto: boolean };
+}
+
+export interface WorldBundle extends WorldBundleMeta {
+  chunks: RegionChunks;
+}
+
+export function encodeWorldBundle(bundle: WorldBundle): Blob {
+  const { chunks, ...meta } = bundle;
+  const metaBytes = new TextEncoder().encode(JSON.stringify(meta));
+
+  const header = new DataView(new ArrayBuffer(HEADER_BYTES));
+  header.setUint32(0, BUNDLE_MAGIC, true);
+  header.setUint16(4, WORLD_BUNDLE_VERSION, true);
+  header.setUint16(6, 0, true);
+  header.setUint32(8, metaBytes.byteLength, true);
+
+  return new Blob([header.buffer, metaBytes, encodeRegion(chunks)], { type: 'application/octet-stream' });
+}
+
+/** Throws with a user-facing message on a foreign, newer-version or malformed file. */
+export function decodeWorldBundle(buffer: ArrayBuffer): WorldBundle {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < HEADER_BYTES || view.getUint32(0, true) !== BUNDLE_MAGIC) {
+    throw new Error('Not a world bundle file');
+  }
+  const version = view.getUint16(4, true);
+  if (version > WORLD_BUNDLE_VERSION) {
+    throw new Error(`World bundle v${version} is newer than this build supports (v${WORLD_BUNDLE_VERSION})`);
+  }
+  const metaLength = view.getUint32(8, true);
+  if (HEADER_BYTES + metaLength > buffer.byteLength) {
+    throw new Error('World bundle is truncated');
+  }
+
+  let meta: unknown;
+  try {
+    meta = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, HEADER_BYTES, metaLength)));
+  } catch {
+    throw new Error('World bundle metadata is corrupted');
+  }
+  const error = validateMeta(meta);
+  if (error) throw new Error(`Invalid world bundle: ${error}`);
+
+  let chunks: RegionChunks;
+  try {
+    chunks = decodeRegion(buffer.slice(HEADER_BYTES + metaLength));
+  } catch (e) {
+    throw new Error(`World bundle chunk data: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return { ...(meta as WorldBundleMeta), chunks };
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+function validateMeta(meta: unknown): string | null {
+  if (!meta || typeof meta !== 'object') return 'metadata is not an object';
+  const m = meta as Record<string, unknown>;
+  if (!Number.isInteger(m.seed)) return 'seed must be an integer';
+  if (!m.config || typeof m.config !== 'object') return 'missing config';
+
+  const camera = m.camera as Record<string, unknown> | undefined;
+  if (!camera || !Array.isArray(camera.position) || camera.position.length !== 3
+    || !camera.position.every(isFiniteNumber) || !isFiniteNumber(camera.yaw) || !isFiniteNumber(camera.pitch)) {
+    return 'bad camera pose';
+  }
+  if (!isFiniteNumber(m.time) || m.time < 0 || typeof m.timePaused !== 'boolean') return 'bad time of day';
+
+  const weather = m.weather as Record<string, unknown> | undefined;
+  if (!weather || ![WeatherType.CLEAR, WeatherType.RAIN, WeatherType.SNOW].includes(weather.type as WeatherType)
+    || !isFiniteNumber(weather.intensity) || weather.intensity < 0 || weather.intensity > 1
+    || typeof weather.auto !== 'boolean') {
+    return 'bad weather state';
+  }
+  return null;
+}